@@ -1,16 +1,222 @@
-import { View, Text } from "react-native";
+import { useState } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Platform,
+  RefreshControl,
+} from "react-native";
 import { ScreenContainer } from "@/components/screen-container";
+import { ErrorMessage, EmptyState } from "@/components/error-message";
+import { useColors } from "@/hooks/use-colors";
+import * as Haptics from "expo-haptics";
+import { trpc } from "@/lib/trpc";
+import { DAYS } from "@/types";
+
+const departments = [
+  { code: "all", name: "All" },
+  { code: "cse", name: "CSE" },
+  { code: "eee", name: "EEE" },
+  { code: "swe", name: "SWE" },
+  { code: "ags", name: "AGS" },
+  { code: "ce", name: "CE" },
+  { code: "mct", name: "MCT" },
+  { code: "ice", name: "ICE" },
+  { code: "architecture", name: "Architecture" },
+];
+
+const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins}m`;
+  return mins === 0 ? `${hours}h` : `${hours}h ${mins}m`;
+};
 
 export default function EmptyScreen() {
-  return (
-    <ScreenContainer className="px-6 py-6 items-center justify-center">
-      <Text className="text-6xl mb-4">🚧</Text>
-      <Text className="text-2xl font-bold text-foreground mb-2">
-        Coming Soon
-      </Text>
-      <Text className="text-base text-muted text-center">
-        This feature is under development
+  const colors = useColors();
+  const today = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"][new Date().getDay()];
+  const [department, setDepartment] = useState("cse");
+  const [selectedDay, setSelectedDay] = useState<string>(today);
+  const [timeSlot, setTimeSlot] = useState("now");
+  const [building, setBuilding] = useState<string | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const tap = () => {
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+  };
+
+  // "Now" only makes sense for today
+  const { data, isLoading, error, refetch } = trpc.diu.findFreeRooms.useQuery({
+    department,
+    day: timeSlot === "now" ? undefined : selectedDay,
+    timeSlot,
+  });
+
+  const rooms = (data?.rooms || []).filter((r) => !building || r.building === building);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await refetch();
+    setIsRefreshing(false);
+  };
+
+  const renderChip = (label: string, isActive: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      onPress={() => {
+        onPress();
+        tap();
+      }}
+      activeOpacity={0.7}
+      className={`px-4 py-2 rounded-xl ${isActive ? "bg-primary" : "bg-surface border border-border"}`}
+    >
+      <Text className={`text-sm font-semibold ${isActive ? "text-background" : "text-foreground"}`}>
+        {label}
       </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScreenContainer className="px-6 py-6">
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} tintColor={colors.primary} />
+        }
+      >
+        {/* Header */}
+        <View className="mb-6">
+          <Text className="text-3xl font-bold text-foreground">Empty</Text>
+          <Text className="text-base text-muted mt-1">
+            Find an unused room or lab
+          </Text>
+        </View>
+
+        {/* Department */}
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-3">
+          <View className="flex-row gap-2">
+            {departments.map((dept) =>
+              renderChip(dept.name, department === dept.code, () => setDepartment(dept.code))
+            )}
+          </View>
+        </ScrollView>
+
+        {/* Day */}
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-3">
+          <View className="flex-row gap-2">
+            {DAYS.map((day) =>
+              renderChip(day.slice(0, 3), timeSlot !== "now" && selectedDay === day, () => {
+                setSelectedDay(day);
+                if (timeSlot === "now") setTimeSlot(data?.slots[0]?.start || "08:30");
+              })
+            )}
+          </View>
+        </ScrollView>
+
+        {/* Time slot */}
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-4">
+          <View className="flex-row gap-2">
+            {renderChip("⏱️ Now", timeSlot === "now", () => {
+              setTimeSlot("now");
+              setSelectedDay(today);
+            })}
+            {(data?.slots || []).map((slot) =>
+              renderChip(`${slot.start}-${slot.end}`, timeSlot === slot.start, () => setTimeSlot(slot.start))
+            )}
+          </View>
+        </ScrollView>
+
+        {/* Building filter */}
+        {data && data.buildings.length > 1 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-4">
+            <View className="flex-row gap-2">
+              {renderChip("All buildings", building === null, () => setBuilding(null))}
+              {data.buildings.map((b) => renderChip(b, building === b, () => setBuilding(b)))}
+            </View>
+          </ScrollView>
+        )}
+
+        {/* Today on the academic calendar */}
+        {data?.calendarDay && data.calendarDay.status !== "classes" && (
+          <View className="bg-primary/20 rounded-2xl p-4 mb-4">
+            <Text className="text-base font-bold text-primary">
+              {data.calendarDay.status === "day_swap"
+                ? `🔁 Today runs the ${data.calendarDay.routineDay} routine`
+                : `🏖️ No classes – ${data.calendarDay.status === "holiday" ? "Holiday" : "Semester break"}`}
+            </Text>
+            {data.calendarDay.title && (
+              <Text className="text-sm text-foreground mt-1">{data.calendarDay.title}</Text>
+            )}
+          </View>
+        )}
+
+        {/* Results */}
+        {error ? (
+          <ErrorMessage
+            title="Couldn't Load Rooms"
+            message={error.message}
+            suggestion="Pull down to try again."
+          />
+        ) : isLoading ? (
+          <View className="items-center justify-center py-12">
+            <ActivityIndicator size="large" color={colors.primary} />
+            <Text className="text-base text-muted mt-4">Checking rooms...</Text>
+          </View>
+        ) : data && rooms.length === 0 ? (
+          <EmptyState
+            icon="🚪"
+            title="No Free Rooms"
+            message={
+              data.totalRooms === 0
+                ? "No routine has been loaded for this department yet."
+                : `Every known room is in use on ${data.day} at ${data.at}.`
+            }
+          />
+        ) : data ? (
+          <>
+            <View className="mb-4 flex-row items-center justify-between">
+              <Text className="text-sm font-semibold text-foreground">
+                {rooms.length} FREE {data.isNow ? "NOW" : `ON ${data.day.toUpperCase()} AT ${data.at}`}
+              </Text>
+              <Text className="text-xs text-muted">
+                {data.occupiedRooms}/{data.totalRooms} in use
+              </Text>
+            </View>
+
+            {rooms.map((room) => (
+              <View
+                key={room.room}
+                className="bg-surface rounded-2xl p-4 mb-3 border border-border flex-row items-center justify-between"
+              >
+                <View className="flex-1">
+                  <View className="flex-row items-center gap-2">
+                    <Text className="text-lg font-bold text-foreground">{room.room}</Text>
+                    {room.isLab && (
+                      <View className="bg-primary/20 rounded-lg px-2 py-1">
+                        <Text className="text-xs font-bold text-primary">LAB</Text>
+                      </View>
+                    )}
+                  </View>
+                  <Text className="text-sm text-muted mt-1">
+                    {room.freeUntil
+                      ? `Free until ${room.freeUntil} (next: ${room.nextCourse})`
+                      : "Free for the rest of the day"}
+                  </Text>
+                </View>
+                <View className="bg-success/20 rounded-full px-3 py-1.5">
+                  <Text className="text-sm font-bold text-success">
+                    {formatDuration(room.freeMinutes)}
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </>
+        ) : null}
+      </ScrollView>
     </ScreenContainer>
   );
 }
@@ -12,20 +12,38 @@ import {
   Pressable,
   Clipboard,
   RefreshControl,
+  Linking,
 } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useRouter } from "expo-router";
 import { ScreenContainer } from "@/components/screen-container";
 import { ErrorMessage, EmptyState } from "@/components/error-message";
+import { WeekGrid } from "@/components/week-grid";
+import { DayTimeline } from "@/components/day-timeline";
+import { ReminderSettings } from "@/components/reminder-settings";
+import { TeacherAvailability } from "@/components/teacher-availability";
 import { useColors } from "@/hooks/use-colors";
 import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useChangeAlerts } from "@/hooks/use-change-alerts";
+import { useClassReminders } from "@/hooks/use-class-reminders";
+import { useAcademicCalendar } from "@/hooks/use-academic-calendar";
 import { useThemeContext } from "@/lib/theme-provider";
 import * as Haptics from "expo-haptics";
 import { trpc } from "@/lib/trpc";
 import type { ClassSchedule, Faculty } from "@/types";
-import { DAYS } from "@/types";
+import {
+  formatDuration,
+  getWeekDateKeys,
+  getWeekDates,
+  type CalendarDayInfo,
+  type TimetableClass,
+} from "@/lib/schedule";
+import { getApiBaseUrl } from "@/constants/oauth";
 
 export default function StudentScreen() {
   const colors = useColors();
+  const router = useRouter();
+  const changeAlerts = useChangeAlerts();
   const { colorScheme, setColorScheme } = useThemeContext();
   
   const toggleColorScheme = () => {
@@ -33,7 +51,8 @@ export default function StudentScreen() {
   };
   const [searchQuery, setSearchQuery] = useState("");
   const [department, setDepartment] = useState("cse");
-  const [pdfUrl, setPdfUrl] = useState("https://daffodilvarsity.edu.bd/noticeFile/cse-class-routine-spring-2026-v1-8d732090c2.pdf");
+  // Resolved per department from the noticeboard (see getLatestPdfUrl below)
+  const [pdfUrl, setPdfUrl] = useState("");
   const [viewMode, setViewMode] = useState<"day" | "week">("week");
   const [selectedDay, setSelectedDay] = useState<string>("Saturday");
   const [showDeptDropdown, setShowDeptDropdown] = useState(false);
@@ -91,13 +110,14 @@ export default function StudentScreen() {
   // Update PDF URL when latest is fetched and clear old caches
   useEffect(() => {
     const updatePdfAndClearCache = async () => {
-      if (latestPdfData?.pdfUrl && latestPdfData.pdfUrl !== pdfUrl) {
+      const latestUrl = latestPdfData?.pdfUrl;
+      if (latestUrl && latestUrl !== pdfUrl) {
         // PDF URL changed, clear all old caches for this department
         try {
           const keys = await AsyncStorage.getAllKeys();
           const oldCacheKeys = keys.filter(key => 
             key.startsWith(`schedule_${department}_`) && 
-            !key.includes(latestPdfData.pdfUrl.split('/').pop()?.split('.')[0] || '')
+            !key.includes(latestUrl.split('/').pop()?.split('.')[0] || '')
           );
           if (oldCacheKeys.length > 0) {
             await AsyncStorage.multiRemove(oldCacheKeys);
@@ -106,7 +126,7 @@ export default function StudentScreen() {
         } catch (error) {
           console.error('Failed to clear old caches:', error);
         }
-        setPdfUrl(latestPdfData.pdfUrl);
+        setPdfUrl(latestUrl);
       }
     };
     updatePdfAndClearCache();
@@ -144,7 +164,7 @@ export default function StudentScreen() {
   // Load cached schedule on mount
   useEffect(() => {
     const loadCache = async () => {
-      if (searchQuery.length >= 3) {
+      if (searchQuery.length >= 3 && pdfUrl) {
         try {
           // Include PDF URL in cache key to prevent conflicts
           const pdfHash = pdfUrl.split('/').pop()?.split('.')[0] || 'default';
@@ -184,9 +204,10 @@ export default function StudentScreen() {
     {
       pdfUrl,
       batchSection: searchQuery,
+      department,
     },
     {
-      enabled: searchQuery.length >= 3 && shouldFetch, // Only fetch when no cache or explicitly requested
+      enabled: searchQuery.length >= 3 && shouldFetch && !!pdfUrl, // Only fetch when no cache or explicitly requested
       retry: 1,
     }
   );
@@ -217,21 +238,40 @@ export default function StudentScreen() {
 
   // Fetch faculty data
   const { data: facultyData } = trpc.diu.scrapeFaculty.useQuery({
-    department: "cse",
+    department,
   });
 
-  // Map database faculty to frontend Faculty type (fullName -> name)
-  const faculty = (facultyData?.faculty || []).map((f: any) => ({
+  // Use cached data if available, otherwise use fresh data
+  const displayData = cachedSchedule || scheduleData;
+
+  // Map database faculty to frontend Faculty type (fullName -> name).
+  // The schedule's own faculty come first: the server matched them to the routine's initials.
+  const faculty = [...(displayData?.faculty || []), ...(facultyData?.faculty || [])].map((f: any) => ({
     ...f,
     name: f.fullName,
     id: f.initials,
     department: f.department.toUpperCase(),
   }));
-  // Use cached data if available, otherwise use fresh data
-  const displayData = cachedSchedule || scheduleData;
   const schedules = displayData?.classes || [];
   const groupedByDay = displayData?.schedule || {};
   const stats = displayData?.stats;
+  // Schedules cached before the course catalog had credits don't include a credit load
+  const creditLoad = displayData?.creditLoad;
+
+  // Holidays and day swaps from the academic calendar
+  const { calendarDays } = useAcademicCalendar();
+
+  // Local reminders before each class, kept in sync with the displayed routine
+  const reminders = useClassReminders(
+    schedules.length > 0 ? groupedByDay : undefined,
+    displayData?.version,
+    calendarDays
+  );
+  const reminderCourses = Array.from(
+    new Map<string, { code: string; name: string }>(
+      schedules.map((c: TimetableClass) => [c.courseCode, { code: c.courseCode, name: c.courseName }])
+    ).values()
+  );
 
   const handleSearch = async () => {
     if (Platform.OS !== "web") {
@@ -306,27 +346,6 @@ export default function StudentScreen() {
     // Could add a toast notification here
   };
 
-  const isClassOngoing = (timeStart: string, timeEnd: string, day: string): boolean => {
-    const now = new Date();
-    const currentDay = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"][now.getDay()];
-    
-    if (day !== currentDay) return false;
-    
-    const parseTime = (timeStr: string) => {
-      const [time, period] = timeStr.split(' ');
-      let [hours, minutes] = time.split(':').map(Number);
-      if (period === 'PM' && hours !== 12) hours += 12;
-      if (period === 'AM' && hours === 12) hours = 0;
-      return hours * 60 + minutes;
-    };
-    
-    const currentMinutes = now.getHours() * 60 + now.getMinutes();
-    const startMinutes = parseTime(timeStart);
-    const endMinutes = parseTime(timeEnd);
-    
-    return currentMinutes >= startMinutes && currentMinutes < endMinutes;
-  };
-
   const renderFacultyPhotos = () => {
     if (schedules.length === 0) return null;
 
@@ -389,6 +408,10 @@ export default function StudentScreen() {
             {stats.totalClasses}
           </Text>
           <Text className="text-xs text-muted mt-1">TOTAL CLASSES</Text>
+          <Text className="text-xs text-muted">⏱ {formatDuration(stats.totalMinutes)}/week</Text>
+          {creditLoad && creditLoad.credits > 0 && (
+            <Text className="text-xs text-muted">🎓 {creditLoad.credits} credits</Text>
+          )}
         </View>
 
         <View className="flex-1 bg-surface rounded-2xl p-4 items-center border border-border">
@@ -418,32 +441,11 @@ export default function StudentScreen() {
     );
   };
 
-  // Get current week dates for day headers
-  const getWeekDates = () => {
-    const today = new Date();
-    const currentDay = today.getDay(); // 0 = Sunday, 6 = Saturday
-    const saturday = new Date(today);
-    // Find the upcoming Saturday (start of next academic week)
-    // Always show the next Saturday onwards for future planning
-    if (currentDay === 6) {
-      // Today is Saturday, use today
-    } else {
-      // Go forward to next Saturday
-      // Sunday (0) -> forward 6 days, Monday (1) -> forward 5 days, ..., Friday (5) -> forward 1 day
-      const daysToGoForward = currentDay === 0 ? 6 : 6 - currentDay;
-      saturday.setDate(today.getDate() + daysToGoForward);
-    }
-    
-    const dates: Record<string, number> = {};
-    DAYS.forEach((day, index) => {
-      const date = new Date(saturday);
-      date.setDate(saturday.getDate() + index);
-      dates[day] = date.getDate();
-    });
-    return dates;
-  };
-
   const weekDates = getWeekDates();
+  const weekCalendar: Record<string, CalendarDayInfo> = {};
+  Object.entries(getWeekDateKeys()).forEach(([day, date]) => {
+    if (calendarDays[date]) weekCalendar[day] = calendarDays[date];
+  });
 
   // Format timestamp for display
   const formatTimestamp = (parsedAt?: Date | string) => {
@@ -462,246 +464,6 @@ export default function StudentScreen() {
     return `Updated ${diffDays} day${diffDays === 1 ? "" : "s"} ago`;
   };
 
-  // Get color for course type
-  const getCourseColor = (courseCode: string) => {
-    const prefix = courseCode.match(/^[A-Z]+/)?.[0] || "";
-    const colorMap: Record<string, { bg: string; text: string; border: string }> = {
-      CSE: { bg: "bg-blue-500", text: "text-white", border: "#3B82F6" },
-      MAT: { bg: "bg-green-500", text: "text-white", border: "#10B981" },
-      ENG: { bg: "bg-orange-500", text: "text-white", border: "#F97316" },
-      BNS: { bg: "bg-purple-500", text: "text-white", border: "#A855F7" },
-    };
-    return colorMap[prefix] || { bg: "bg-primary", text: "text-white", border: "#0a7ea4" };
-  };
-
-  const renderWeekView = () => {
-    const timeSlots = ["08:30-10:00", "10:00-11:30", "11:30-01:00", "01:00-02:30", "02:30-04:00"];
-
-    return (
-      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-        <View>
-          {/* Header */}
-          <View className="flex-row mb-2">
-            <View className="w-24 h-12 items-center justify-center">
-              <Text className="text-xs font-bold text-muted">DAY</Text>
-            </View>
-            {timeSlots.map((slot) => (
-              <View key={slot} className="w-32 h-12 items-center justify-center border-l border-border">
-                <Text className="text-xs font-semibold text-foreground">{slot}</Text>
-              </View>
-            ))}
-          </View>
-
-          {/* Days */}
-          {DAYS.map((day) => {
-            const daySchedules = groupedByDay[day] || [];
-            return (
-              <View key={day} className="flex-row mb-2">
-                <View className="w-24 h-20 items-center justify-center bg-surface rounded-l-xl border border-border">
-                  <Text className="text-sm font-bold text-foreground">{day.slice(0, 3)}</Text>
-                  <Text className="text-base font-bold text-muted mt-1">{weekDates[day]}</Text>
-                </View>
-                {timeSlots.map((slot) => {
-                  const slotStart = slot.split('-')[0];
-                  const classInSlot = daySchedules.find((s) =>
-                    s.timeStart === slotStart
-                  );
-                  return (
-                    <View
-                      key={`${day}-${slot}`}
-                      className="w-32 h-20 border-l border-border items-center justify-center bg-surface"
-                    >
-                      {classInSlot ? (() => {
-                        const colors = getCourseColor(classInSlot.courseCode);
-                        return (
-                        <View className={`${colors.bg} rounded-lg p-2 w-full`}>
-                          <Text className="text-xs font-bold" style={{ color: '#FFFFFF' }}>
-                            {classInSlot.courseCode}
-                          </Text>
-                          <Text className="text-xs mt-1" style={{ color: '#FFFFFF', opacity: 0.9 }}>
-                            {classInSlot.room}
-                          </Text>
-                          <TouchableOpacity 
-                            onPress={() => handleTeacherClick(classInSlot.teacher)}
-                            activeOpacity={0.6}
-                            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-                          >
-                            <Text className="text-xs" style={{ color: '#FFFFFF', opacity: 0.8, textDecorationLine: 'underline' }}>
-                              👨‍🏫 {classInSlot.teacher}
-                            </Text>
-                          </TouchableOpacity>
-                        </View>
-                        );
-                      })() : (
-                        <Text className="text-xs text-muted">—</Text>
-                      )}
-                    </View>
-                  );
-                })}
-              </View>
-            );
-          })}
-        </View>
-      </ScrollView>
-    );
-  };
-
-  const renderDayView = () => {
-    const daySchedules = groupedByDay[selectedDay] || [];
-
-    return (
-      <View>
-        {/* Day selector */}
-        <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-4">
-          <View className="flex-row gap-2">
-            {DAYS.map((day, index) => {
-              const dateNum = weekDates[day];
-              return (
-              <TouchableOpacity
-                key={day}
-                onPress={() => setSelectedDay(day)}
-                activeOpacity={0.7}
-                className={`px-6 py-3 rounded-xl ${
-                  selectedDay === day ? "bg-primary" : "bg-surface border border-border"
-                }`}
-              >
-                <Text
-                  className={`text-sm font-semibold ${
-                    selectedDay === day ? "text-background" : "text-foreground"
-                  }`}
-                >
-                  {day.slice(0, 3)}
-                </Text>
-                <Text
-                  className={`text-sm font-bold mt-1 ${
-                    selectedDay === day ? "text-background opacity-80" : "text-muted"
-                  }`}
-                >
-                  {dateNum}
-                </Text>
-              </TouchableOpacity>
-              );
-            })}
-          </View>
-        </ScrollView>
-
-        {/* Classes */}
-        {daySchedules.length === 0 ? (
-          <View className="bg-surface rounded-2xl p-6 items-center border border-border">
-            <Text className="text-4xl mb-2">😴</Text>
-            <Text className="text-base text-foreground font-medium">No Classes</Text>
-            <Text className="text-sm text-muted mt-1">Enjoy your day off!</Text>
-          </View>
-        ) : (
-          daySchedules
-            .sort((a, b) => {
-              // Convert time to minutes for proper sorting (e.g., "08:30" -> 510, "01:00" -> 780)
-              const timeToMinutes = (time: string) => {
-                const [hours, mins] = time.split(':').map(Number);
-                // Handle PM times (01:00 PM = 13:00 in 24hr)
-                const adjustedHours = hours < 8 ? hours + 12 : hours;
-                return adjustedHours * 60 + mins;
-              };
-              return timeToMinutes(a.timeStart) - timeToMinutes(b.timeStart);
-            })
-            .flatMap((schedule, index, array) => {
-              const elements = [];
-              const colors = getCourseColor(schedule.courseCode);
-              const isOngoing = isClassOngoing(schedule.timeStart, schedule.timeEnd, schedule.day);
-              
-              // Add class card
-              elements.push(
-            <View
-              key={`class-${index}`}
-              className="bg-surface rounded-2xl p-4 mb-3 border border-border"
-              style={{ 
-                borderLeftWidth: 4, 
-                borderLeftColor: colors.border,
-                borderWidth: isOngoing ? 2 : 0,
-                borderColor: isOngoing ? colors.border : 'transparent'
-              }}
-            >
-              <View className="flex-row items-start justify-between mb-2">
-                <View className="flex-1">
-                  <Text className="text-lg font-bold text-foreground">
-                    {schedule.courseName}
-                  </Text>
-                  <View className="flex-row items-center gap-2 mt-1">
-                    <View className={`${getCourseColor(schedule.courseCode).bg} rounded-lg px-2 py-1 self-start`}>
-                      <Text className={`text-xs font-bold ${getCourseColor(schedule.courseCode).text}`}>
-                        {schedule.courseCode}
-                      </Text>
-                    </View>
-                    {isOngoing && (
-                      <View className="bg-green-500 rounded-full px-2 py-1">
-                        <Text className="text-xs font-bold text-white">▶️ Now</Text>
-                      </View>
-                    )}
-                  </View>
-                </View>
-                <View className="bg-primary/20 rounded-full px-3 py-1.5">
-                  <Text className="text-sm font-bold text-primary">
-                    {schedule.timeStart} - {schedule.timeEnd}
-                  </Text>
-                </View>
-              </View>
-
-              <View className="flex-row items-center gap-4 mt-2">
-                <View className="flex-row items-center">
-                  <Text className="text-sm text-muted">📍 {schedule.room}</Text>
-                </View>
-                <View className="flex-row items-center">
-                  <Text className="text-sm text-muted">👨‍🏫 </Text>
-                  <TouchableOpacity 
-                    onPress={() => handleTeacherClick(schedule.teacher)}
-                    activeOpacity={0.6}
-                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-                  >
-                    <Text className="text-sm text-primary font-semibold">
-                      {schedule.teacher}
-                    </Text>
-                  </TouchableOpacity>
-                </View>
-              </View>
-
-              <View className="mt-2">
-                <Text className="text-xs text-muted">
-                  Section: {schedule.batch}_{schedule.section}
-                </Text>
-              </View>
-            </View>
-              );
-              
-              // Check if there's a break before the next class
-              if (index < array.length - 1) {
-                const nextClass = array[index + 1];
-                const currentEndTime = schedule.timeEnd;
-                const nextStartTime = nextClass.timeStart;
-                
-                // If there's a gap between classes, add a break card
-                if (currentEndTime !== nextStartTime) {
-                  elements.push(
-                    <View
-                      key={`break-${index}`}
-                      className="bg-gray-100 dark:bg-gray-800 rounded-2xl p-4 mb-3 border border-gray-300 dark:border-gray-700 items-center"
-                    >
-                      <Text className="text-2xl mb-1">☕</Text>
-                      <Text className="text-base font-semibold text-gray-600 dark:text-gray-300">Break Time</Text>
-                      <Text className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-                        {currentEndTime} - {nextStartTime}
-                      </Text>
-                    </View>
-                  );
-                }
-              }
-              
-              return elements;
-            }).flat()
-        )}
-      </View>
-    );
-  };
-
   return (
     <ScreenContainer className="px-6 py-6">
       <ScrollView 
@@ -758,6 +520,11 @@ export default function StudentScreen() {
                 <TouchableOpacity
                   key={dept.code}
                   onPress={() => {
+                    if (dept.code !== department) {
+                      // Wait for this department's routine PDF before fetching
+                      setPdfUrl("");
+                      setCachedSchedule(null);
+                    }
                     setDepartment(dept.code);
                     setShowDeptDropdown(false);
                     if (Platform.OS !== "web") {
@@ -861,6 +628,15 @@ export default function StudentScreen() {
               </ScrollView>
             </View>
           )}
+
+          {/* Retakes and mixed sections */}
+          <TouchableOpacity
+            onPress={() => router.push({ pathname: "/custom-routine", params: { department } })}
+            activeOpacity={0.7}
+            className="mt-1"
+          >
+            <Text className="text-sm font-semibold text-primary">🧩 Taking courses from other sections? Build a custom routine</Text>
+          </TouchableOpacity>
         </View>
 
         {/* Results */}
@@ -903,6 +679,110 @@ export default function StudentScreen() {
               </View>
             )}
 
+            {/* Routine changes since the previous version */}
+            <TouchableOpacity
+              onPress={() =>
+                router.push({ pathname: "/changes", params: { department, batchSection: searchQuery } })
+              }
+              activeOpacity={0.7}
+              className="mb-4 bg-surface rounded-xl border border-border px-4 py-3 flex-row items-center justify-between"
+            >
+              <Text className="text-base font-semibold text-foreground">🕑 What changed?</Text>
+              <Text className="text-muted">›</Text>
+            </TouchableOpacity>
+
+            {/* Midterm and final exams */}
+            <TouchableOpacity
+              onPress={() =>
+                router.push({ pathname: "/exams", params: { department, batchSection: searchQuery } })
+              }
+              activeOpacity={0.7}
+              className="mb-4 bg-surface rounded-xl border border-border px-4 py-3 flex-row items-center justify-between"
+            >
+              <Text className="text-base font-semibold text-foreground">📝 Exam schedule</Text>
+              <Text className="text-muted">›</Text>
+            </TouchableOpacity>
+
+            {/* Subscribe to this section's routine in a calendar app */}
+            <TouchableOpacity
+              onPress={() => {
+                const feedUrl = `${getApiBaseUrl()}/api/calendar.ics?department=${department}&batchSection=${encodeURIComponent(searchQuery.toUpperCase())}`;
+                // webcal:// makes calendar apps subscribe instead of importing once
+                Linking.openURL(Platform.OS === "web" ? feedUrl : feedUrl.replace(/^https?:/, "webcal:"));
+              }}
+              activeOpacity={0.7}
+              className="mb-4 bg-surface rounded-xl border border-border px-4 py-3 flex-row items-center justify-between"
+            >
+              <Text className="text-base font-semibold text-foreground">📅 Add to calendar</Text>
+              <Text className="text-muted">›</Text>
+            </TouchableOpacity>
+
+            {/* Printable timetable */}
+            <View className="flex-row gap-2 mb-4">
+              {(["pdf", "png"] as const).map((format) => (
+                <TouchableOpacity
+                  key={format}
+                  onPress={() =>
+                    Linking.openURL(
+                      `${getApiBaseUrl()}/api/timetable.${format}?department=${department}&batchSection=${encodeURIComponent(searchQuery.toUpperCase())}&download=1`
+                    )
+                  }
+                  activeOpacity={0.7}
+                  className="flex-1 bg-surface rounded-xl border border-border px-4 py-3 items-center"
+                >
+                  <Text className="text-sm font-semibold text-foreground">
+                    {format === "pdf"
+                      ? `📄 Download PDF for ${searchQuery.toUpperCase()}`
+                      : "🖼️ Save as image"}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {/* Push alerts when a new routine version changes this section */}
+            {Platform.OS !== "web" && (
+              <View className="mb-4">
+                <TouchableOpacity
+                  onPress={() =>
+                    changeAlerts.isSubscribed(department, searchQuery)
+                      ? changeAlerts.unsubscribe()
+                      : changeAlerts.subscribe(department, searchQuery)
+                  }
+                  disabled={changeAlerts.isUpdating}
+                  activeOpacity={0.7}
+                  className="bg-surface rounded-xl border border-border px-4 py-3 flex-row items-center justify-between"
+                >
+                  <Text className="text-base font-semibold text-foreground">
+                    {changeAlerts.isSubscribed(department, searchQuery)
+                      ? `🔔 Alerts on for ${searchQuery.toUpperCase()}`
+                      : `🔕 Alert me when ${searchQuery.toUpperCase()} changes`}
+                  </Text>
+                  {changeAlerts.isUpdating ? (
+                    <ActivityIndicator size="small" color={colors.primary} />
+                  ) : (
+                    <Text className="text-sm text-primary font-semibold">
+                      {changeAlerts.isSubscribed(department, searchQuery) ? "Turn off" : "Turn on"}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+                {!!changeAlerts.error && (
+                  <Text className="text-xs text-error mt-2">{changeAlerts.error}</Text>
+                )}
+              </View>
+            )}
+
+            {/* Class reminders */}
+            {Platform.OS !== "web" && (
+              <ReminderSettings
+                settings={reminders.settings}
+                courses={reminderCourses}
+                scheduledCount={reminders.scheduledCount}
+                error={reminders.error}
+                onUpdate={reminders.updateSettings}
+                onToggleMute={reminders.toggleCourseMute}
+              />
+            )}
+
             {/* Stats */}
             {renderStats()}
 
@@ -941,7 +821,22 @@ export default function StudentScreen() {
             </View>
 
             {/* Content */}
-            {viewMode === "week" ? renderWeekView() : renderDayView()}
+            {viewMode === "week" ? (
+              <WeekGrid
+                schedule={groupedByDay}
+                weekDates={weekDates}
+                onTeacherPress={handleTeacherClick}
+              />
+            ) : (
+              <DayTimeline
+                schedule={groupedByDay}
+                selectedDay={selectedDay}
+                onSelectDay={setSelectedDay}
+                weekDates={weekDates}
+                calendarDays={weekCalendar}
+                onTeacherPress={handleTeacherClick}
+              />
+            )}
           </>
         ) : searchQuery.length >= 3 ? (
           <View className="bg-surface rounded-2xl p-6 items-center border border-border">
@@ -1053,6 +948,9 @@ export default function StudentScreen() {
                   )}
                 </View>
 
+                {/* When they're free to meet */}
+                <TeacherAvailability initials={selectedTeacher.initials} department={department} pdfUrl={pdfUrl} />
+
                 {/* Close Button */}
                 <TouchableOpacity
                   onPress={() => setShowTeacherModal(false)}
@@ -0,0 +1,216 @@
+import { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Linking,
+  Platform,
+  RefreshControl,
+} from "react-native";
+import { ScreenContainer } from "@/components/screen-container";
+import { ErrorMessage, EmptyState } from "@/components/error-message";
+import { useColors } from "@/hooks/use-colors";
+import * as Haptics from "expo-haptics";
+import { trpc } from "@/lib/trpc";
+
+const departments = [
+  { code: "all", name: "All" },
+  { code: "cse", name: "CSE" },
+  { code: "eee", name: "EEE" },
+  { code: "swe", name: "SWE" },
+  { code: "ags", name: "AGS" },
+  { code: "ce", name: "CE" },
+  { code: "mct", name: "MCT" },
+  { code: "ice", name: "ICE" },
+  { code: "architecture", name: "Architecture" },
+];
+
+const CATEGORIES = [
+  { value: undefined, label: "All" },
+  { value: "routine", label: "📅 Routine" },
+  { value: "exam", label: "📝 Exam" },
+  { value: "advising", label: "🧭 Advising" },
+  { value: "holiday", label: "🏖️ Holiday" },
+  { value: "result", label: "🎓 Result" },
+  { value: "admission", label: "🏫 Admission" },
+] as const;
+
+type Category = (typeof CATEGORIES)[number]["value"];
+
+const attachmentLabel = (url: string) => {
+  if (url.includes("docs.google.com")) return "Google Sheet";
+  const extension = url.split(/[?#]/)[0].split(".").pop()?.toUpperCase();
+  return extension && extension.length <= 4 ? extension : "File";
+};
+
+export default function NoticesScreen() {
+  const colors = useColors();
+  const [department, setDepartment] = useState("all");
+  const [category, setCategory] = useState<Category>(undefined);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  // Search once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), 400);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const { data, isLoading, error, refetch, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    trpc.diu.listNotices.useInfiniteQuery(
+      {
+        department: department === "all" ? undefined : department,
+        category,
+        search: search || undefined,
+      },
+      { getNextPageParam: (lastPage) => lastPage.nextCursor }
+    );
+
+  const notices = data?.pages.flatMap((page) => page.notices) || [];
+  const total = data?.pages[0]?.total ?? 0;
+
+  const tap = () => {
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await refetch();
+    setIsRefreshing(false);
+  };
+
+  const renderChip = (label: string, isActive: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      onPress={() => {
+        onPress();
+        tap();
+      }}
+      activeOpacity={0.7}
+      className={`px-4 py-2 rounded-xl ${isActive ? "bg-primary" : "bg-surface border border-border"}`}
+    >
+      <Text className={`text-sm font-semibold ${isActive ? "text-background" : "text-foreground"}`}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScreenContainer className="px-6 py-6">
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} tintColor={colors.primary} />
+        }
+      >
+        {/* Header */}
+        <View className="mb-6">
+          <Text className="text-3xl font-bold text-foreground">Notices</Text>
+          <Text className="text-base text-muted mt-1">The DIU noticeboard, searchable</Text>
+        </View>
+
+        {/* Search */}
+        <View className="bg-surface rounded-xl border border-border px-4 py-3 flex-row items-center mb-3">
+          <Text className="text-muted mr-2">🔍</Text>
+          <TextInput
+            className="flex-1 text-base text-foreground"
+            placeholder="Search notices (e.g., midterm, holiday)"
+            placeholderTextColor={colors.muted}
+            value={searchInput}
+            onChangeText={setSearchInput}
+            returnKeyType="search"
+          />
+        </View>
+
+        {/* Department */}
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-3">
+          <View className="flex-row gap-2">
+            {departments.map((dept) =>
+              renderChip(dept.name, department === dept.code, () => setDepartment(dept.code))
+            )}
+          </View>
+        </ScrollView>
+
+        {/* Category */}
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-4">
+          <View className="flex-row gap-2">
+            {CATEGORIES.map((c) => renderChip(c.label, category === c.value, () => setCategory(c.value)))}
+          </View>
+        </ScrollView>
+
+        {/* Results */}
+        {error ? (
+          <ErrorMessage title="Couldn't Load Notices" message={error.message} suggestion="Pull down to try again." />
+        ) : isLoading ? (
+          <View className="items-center justify-center py-12">
+            <ActivityIndicator size="large" color={colors.primary} />
+            <Text className="text-base text-muted mt-4">Loading notices...</Text>
+          </View>
+        ) : notices.length === 0 ? (
+          <EmptyState
+            icon="📰"
+            title="No Notices"
+            message={search ? `No notices match "${search}".` : "No notices have been collected yet."}
+          />
+        ) : (
+          <>
+            <Text className="text-sm font-semibold text-foreground mb-4">{total} NOTICES</Text>
+
+            {notices.map((notice) => (
+              <TouchableOpacity
+                key={notice.id}
+                onPress={() => Linking.openURL(notice.url)}
+                activeOpacity={0.7}
+                className="bg-surface rounded-2xl p-4 mb-3 border border-border"
+              >
+                <Text className="text-base font-bold text-foreground">{notice.title}</Text>
+                <Text className="text-xs text-muted mt-1">
+                  {notice.noticeDate || new Date(notice.createdAt).toLocaleDateString()}
+                  {notice.department ? ` · ${notice.department.toUpperCase()}` : ""}
+                  {notice.category !== "general" ? ` · ${notice.category}` : ""}
+                </Text>
+
+                {notice.attachments.length > 0 && (
+                  <View className="flex-row flex-wrap gap-2 mt-3">
+                    {notice.attachments.map((url) => (
+                      <TouchableOpacity
+                        key={url}
+                        onPress={() => Linking.openURL(url)}
+                        activeOpacity={0.7}
+                        className="bg-primary/20 rounded-lg px-3 py-1.5"
+                      >
+                        <Text className="text-xs font-bold text-primary">📎 {attachmentLabel(url)}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+              </TouchableOpacity>
+            ))}
+
+            {hasNextPage && (
+              <TouchableOpacity
+                onPress={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                activeOpacity={0.7}
+                className="py-3 mb-6 items-center"
+              >
+                {isFetchingNextPage ? (
+                  <ActivityIndicator size="small" color={colors.primary} />
+                ) : (
+                  <Text className="text-base font-semibold text-primary">Load more</Text>
+                )}
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
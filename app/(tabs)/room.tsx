@@ -9,17 +9,20 @@ import {
   Platform,
 } from "react-native";
 import { ScreenContainer } from "@/components/screen-container";
+import { RoomUtilization } from "@/components/room-utilization";
 import { useColors } from "@/hooks/use-colors";
 import * as Haptics from "expo-haptics";
 import { trpc } from "@/lib/trpc";
-import { DAYS } from "@/types";
+import { sessionCoversSlot } from "@/lib/schedule";
+import { DAYS, DEPARTMENTS, type Department } from "@/types";
 
 export default function RoomScreen() {
   const colors = useColors();
   const [searchQuery, setSearchQuery] = useState("");
-  const [pdfUrl, setPdfUrl] = useState("https://daffodilvarsity.edu.bd/noticeFile/cse-class-routine-spring-2026-v1-8d732090c2.pdf");
+  const [department, setDepartment] = useState<Department>("CSE");
   const [viewMode, setViewMode] = useState<"day" | "week">("week");
   const [selectedDay, setSelectedDay] = useState<string>("Saturday");
+  const [mode, setMode] = useState<"search" | "utilization">("search");
 
   // Fetch room schedule
   const {
@@ -28,16 +31,16 @@ export default function RoomScreen() {
     refetch,
   } = trpc.diu.getRoomSchedule.useQuery(
     {
-      pdfUrl,
-      room: searchQuery,
+      department,
+      roomNumber: searchQuery,
     },
     {
       enabled: searchQuery.length >= 3,
     }
   );
 
-  const schedules = scheduleData?.schedules || [];
-  const groupedByDay = scheduleData?.groupedByDay || {};
+  const classes = scheduleData?.classes || [];
+  const groupedByDay = scheduleData?.schedule || {};
   const stats = scheduleData?.stats;
 
   const handleSearch = () => {
@@ -67,10 +70,10 @@ export default function RoomScreen() {
             <Text className="text-2xl">🔥</Text>
           </View>
           <Text className="text-lg font-bold text-foreground">
-            {stats.busiestDay.day.slice(0, 3)}
+            {stats.busiestDay.slice(0, 3)}
           </Text>
           <Text className="text-xs text-muted mt-1">
-            BUSIEST DAY ({stats.busiestDay.count})
+            BUSIEST DAY ({stats.busiestDayCount})
           </Text>
         </View>
 
@@ -79,10 +82,10 @@ export default function RoomScreen() {
             <Text className="text-2xl">🍃</Text>
           </View>
           <Text className="text-lg font-bold text-foreground">
-            {stats.lightestDay.day.slice(0, 3)}
+            {stats.lightestDay.slice(0, 3)}
           </Text>
           <Text className="text-xs text-muted mt-1">
-            LIGHTEST DAY ({stats.lightestDay.count})
+            LIGHTEST DAY ({stats.lightestDayCount})
           </Text>
         </View>
       </View>
@@ -116,9 +119,7 @@ export default function RoomScreen() {
                   <Text className="text-sm font-bold text-foreground">{day.slice(0, 3)}</Text>
                 </View>
                 {timeSlots.map((slot) => {
-                  const classInSlot = daySchedules.find((s) =>
-                    slot.includes(s.timeStart)
-                  );
+                  const classInSlot = daySchedules.find((s) => sessionCoversSlot(s, slot));
                   return (
                     <View
                       key={`${day}-${slot}`}
@@ -133,7 +134,7 @@ export default function RoomScreen() {
                             {classInSlot.batch}_{classInSlot.section}
                           </Text>
                           <Text className="text-xs text-muted">
-                            {classInSlot.teacherInitials}
+                            {classInSlot.teacher}
                           </Text>
                         </View>
                       ) : (
@@ -216,7 +217,7 @@ export default function RoomScreen() {
                 </View>
                 <View className="flex-row items-center">
                   <Text className="text-sm text-muted">
-                    👨‍🏫 {schedule.teacherInitials}
+                    👨‍🏫 {schedule.teacher}
                   </Text>
                 </View>
               </View>
@@ -238,103 +239,151 @@ export default function RoomScreen() {
           </Text>
         </View>
 
-        {/* Search */}
-        <View className="mb-6">
-          <View className="flex-row items-center gap-2">
-            <View className="flex-1 bg-surface rounded-xl border border-border px-4 py-3 flex-row items-center">
-              <Text className="text-muted mr-2">🔍</Text>
-              <TextInput
-                className="flex-1 text-base text-foreground"
-                placeholder="Enter room number (e.g., KT-222)"
-                placeholderTextColor={colors.muted}
-                value={searchQuery}
-                onChangeText={setSearchQuery}
-                autoCapitalize="characters"
-                returnKeyType="search"
-                onSubmitEditing={handleSearch}
-              />
-            </View>
+        {/* Mode */}
+        <View className="flex-row gap-2 mb-6">
+          {(["search", "utilization"] as const).map((m) => (
             <TouchableOpacity
-              onPress={handleSearch}
+              key={m}
+              onPress={() => setMode(m)}
               activeOpacity={0.7}
-              className="bg-primary rounded-xl px-6 py-3"
-              disabled={isLoading}
+              className={`flex-1 py-3 rounded-xl ${mode === m ? "bg-primary" : "bg-surface border border-border"}`}
             >
-              <Text className="text-base font-semibold text-background">
-                {isLoading ? "..." : "Find"}
+              <Text
+                className={`text-center text-base font-semibold ${mode === m ? "text-background" : "text-foreground"}`}
+              >
+                {m === "search" ? "🔍 Room schedule" : "🔥 Utilization"}
               </Text>
             </TouchableOpacity>
-          </View>
+          ))}
         </View>
 
-        {/* Results */}
-        {isLoading ? (
-          <View className="items-center justify-center py-12">
-            <ActivityIndicator size="large" color={colors.primary} />
-            <Text className="text-base text-muted mt-4">Loading schedule...</Text>
-          </View>
-        ) : schedules.length > 0 ? (
+        {mode === "utilization" ? (
+          <RoomUtilization />
+        ) : (
           <>
-            {/* Stats */}
-            {renderStats()}
+            {/* Department */}
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-3">
+              <View className="flex-row gap-2">
+                {DEPARTMENTS.map((dept) => (
+                  <TouchableOpacity
+                    key={dept.code}
+                    onPress={() => setDepartment(dept.code)}
+                    activeOpacity={0.7}
+                    className={`px-4 py-2 rounded-xl ${
+                      department === dept.code ? "bg-primary" : "bg-surface border border-border"
+                    }`}
+                  >
+                    <Text
+                      className={`text-sm font-semibold ${
+                        department === dept.code ? "text-background" : "text-foreground"
+                      }`}
+                    >
+                      {dept.code}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </ScrollView>
 
-            {/* View Toggle */}
-            <View className="flex-row gap-2 mb-6">
-              <TouchableOpacity
-                onPress={() => setViewMode("day")}
-                activeOpacity={0.7}
-                className={`flex-1 py-3 rounded-xl ${
-                  viewMode === "day" ? "bg-primary" : "bg-surface border border-border"
-                }`}
-              >
-                <Text
-                  className={`text-center text-base font-semibold ${
-                    viewMode === "day" ? "text-background" : "text-foreground"
-                  }`}
-                >
-                  📅 Day View
-                </Text>
-              </TouchableOpacity>
-              <TouchableOpacity
-                onPress={() => setViewMode("week")}
-                activeOpacity={0.7}
-                className={`flex-1 py-3 rounded-xl ${
-                  viewMode === "week" ? "bg-primary" : "bg-surface border border-border"
-                }`}
-              >
-                <Text
-                  className={`text-center text-base font-semibold ${
-                    viewMode === "week" ? "text-background" : "text-foreground"
-                  }`}
+            {/* Search */}
+            <View className="mb-6">
+              <View className="flex-row items-center gap-2">
+                <View className="flex-1 bg-surface rounded-xl border border-border px-4 py-3 flex-row items-center">
+                  <Text className="text-muted mr-2">🔍</Text>
+                  <TextInput
+                    className="flex-1 text-base text-foreground"
+                    placeholder="Enter room number (e.g., KT-222)"
+                    placeholderTextColor={colors.muted}
+                    value={searchQuery}
+                    onChangeText={setSearchQuery}
+                    autoCapitalize="characters"
+                    returnKeyType="search"
+                    onSubmitEditing={handleSearch}
+                  />
+                </View>
+                <TouchableOpacity
+                  onPress={handleSearch}
+                  activeOpacity={0.7}
+                  className="bg-primary rounded-xl px-6 py-3"
+                  disabled={isLoading}
                 >
-                  📆 Week View
-                </Text>
-              </TouchableOpacity>
+                  <Text className="text-base font-semibold text-background">
+                    {isLoading ? "..." : "Find"}
+                  </Text>
+                </TouchableOpacity>
+              </View>
             </View>
 
-            {/* Content */}
-            {viewMode === "week" ? renderWeekView() : renderDayView()}
+            {/* Results */}
+            {isLoading ? (
+              <View className="items-center justify-center py-12">
+                <ActivityIndicator size="large" color={colors.primary} />
+                <Text className="text-base text-muted mt-4">Loading schedule...</Text>
+              </View>
+            ) : classes.length > 0 ? (
+              <>
+                {/* Stats */}
+                {renderStats()}
+
+                {/* View Toggle */}
+                <View className="flex-row gap-2 mb-6">
+                  <TouchableOpacity
+                    onPress={() => setViewMode("day")}
+                    activeOpacity={0.7}
+                    className={`flex-1 py-3 rounded-xl ${
+                      viewMode === "day" ? "bg-primary" : "bg-surface border border-border"
+                    }`}
+                  >
+                    <Text
+                      className={`text-center text-base font-semibold ${
+                        viewMode === "day" ? "text-background" : "text-foreground"
+                      }`}
+                    >
+                      📅 Day View
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => setViewMode("week")}
+                    activeOpacity={0.7}
+                    className={`flex-1 py-3 rounded-xl ${
+                      viewMode === "week" ? "bg-primary" : "bg-surface border border-border"
+                    }`}
+                  >
+                    <Text
+                      className={`text-center text-base font-semibold ${
+                        viewMode === "week" ? "text-background" : "text-foreground"
+                      }`}
+                    >
+                      📆 Week View
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+
+                {/* Content */}
+                {viewMode === "week" ? renderWeekView() : renderDayView()}
+              </>
+            ) : searchQuery.length >= 3 ? (
+              <View className="bg-surface rounded-2xl p-6 items-center border border-border">
+                <Text className="text-4xl mb-2">🔍</Text>
+                <Text className="text-base text-foreground font-medium">
+                  No Results Found
+                </Text>
+                <Text className="text-sm text-muted mt-1 text-center">
+                  Try a different room number
+                </Text>
+              </View>
+            ) : (
+              <View className="bg-surface rounded-2xl p-6 items-center border border-border">
+                <Text className="text-4xl mb-2">👋</Text>
+                <Text className="text-base text-foreground font-medium">
+                  Welcome!
+                </Text>
+                <Text className="text-sm text-muted mt-1 text-center">
+                  Enter a room number to view its schedule
+                </Text>
+              </View>
+            )}
           </>
-        ) : searchQuery.length >= 3 ? (
-          <View className="bg-surface rounded-2xl p-6 items-center border border-border">
-            <Text className="text-4xl mb-2">🔍</Text>
-            <Text className="text-base text-foreground font-medium">
-              No Results Found
-            </Text>
-            <Text className="text-sm text-muted mt-1 text-center">
-              Try a different room number
-            </Text>
-          </View>
-        ) : (
-          <View className="bg-surface rounded-2xl p-6 items-center border border-border">
-            <Text className="text-4xl mb-2">👋</Text>
-            <Text className="text-base text-foreground font-medium">
-              Welcome!
-            </Text>
-            <Text className="text-sm text-muted mt-1 text-center">
-              Enter a room number to view its schedule
-            </Text>
-          </View>
         )}
       </ScrollView>
     </ScreenContainer>
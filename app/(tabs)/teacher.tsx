@@ -1,41 +1,346 @@
-import { View, Text } from "react-native";
+import { useState } from "react";
+import {
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Platform,
+  Image,
+} from "react-native";
+import { useRouter } from "expo-router";
 import { ScreenContainer } from "@/components/screen-container";
+import { ErrorMessage, EmptyState } from "@/components/error-message";
+import { WeekGrid } from "@/components/week-grid";
+import { DayTimeline } from "@/components/day-timeline";
+import { useColors } from "@/hooks/use-colors";
+import * as Haptics from "expo-haptics";
+import { trpc } from "@/lib/trpc";
+import { getWeekDates } from "@/lib/schedule";
+import type { Faculty } from "@/types";
+
+const departments = [
+  { code: "cse", name: "CSE" },
+  { code: "eee", name: "EEE" },
+  { code: "swe", name: "SWE" },
+  { code: "ags", name: "AGS" },
+  { code: "ce", name: "CE" },
+  { code: "mct", name: "MCT" },
+  { code: "ice", name: "ICE" },
+  { code: "architecture", name: "Architecture" },
+];
 
 export default function TeacherScreen() {
-  return (
-    <ScreenContainer className="px-6 py-6">
-      <View className="flex-1 items-center justify-center">
-        {/* Header */}
-        <View className="mb-8">
-          <Text className="text-3xl font-bold text-foreground text-center">Teacher</Text>
-          <Text className="text-base text-muted mt-1 text-center">
-            Find teacher schedules
-          </Text>
+  const colors = useColors();
+  const router = useRouter();
+  const [department, setDepartment] = useState("cse");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [selectedTeacher, setSelectedTeacher] = useState<Faculty | null>(null);
+  const [viewMode, setViewMode] = useState<"day" | "week">("week");
+  const [selectedDay, setSelectedDay] = useState<string>("Saturday");
+
+  const tap = () => {
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+  };
+
+  // Faculty directory
+  const {
+    data: facultyData,
+    isLoading: isLoadingFaculty,
+    error: facultyError,
+  } = trpc.diu.getAllFaculty.useQuery({ department });
+
+  // Selected teacher's timetable
+  const {
+    data: scheduleData,
+    isLoading: isLoadingSchedule,
+    error: scheduleError,
+  } = trpc.diu.getTeacherSchedule.useQuery(
+    {
+      teacherInitials: selectedTeacher?.initials || "",
+      department,
+    },
+    {
+      enabled: !!selectedTeacher,
+    }
+  );
+
+  // Map database faculty to frontend Faculty type (fullName -> name, nullable columns -> optional)
+  const faculty: Faculty[] = (facultyData?.faculty || []).map((f) => ({
+    id: f.initials,
+    name: f.fullName,
+    initials: f.initials,
+    photoUrl: f.photoUrl || "",
+    department: f.department,
+    designation: f.designation || undefined,
+    email: f.email || undefined,
+    phone: f.phone || undefined,
+    room: f.room || undefined,
+    profileUrl: f.profileUrl || undefined,
+  }));
+
+  const query = searchQuery.trim().toLowerCase();
+  const filteredFaculty = faculty
+    .filter(
+      (f) =>
+        !query ||
+        f.name.toLowerCase().includes(query) ||
+        f.initials.toLowerCase().includes(query) ||
+        (f.designation || "").toLowerCase().includes(query)
+    )
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const weekDates = getWeekDates();
+
+  const renderAvatar = (teacher: Faculty, size: "md" | "lg") => (
+    <View
+      className={`${size === "lg" ? "w-20 h-20" : "w-14 h-14"} rounded-full bg-surface border-2 border-primary items-center justify-center overflow-hidden`}
+    >
+      {teacher.photoUrl ? (
+        <Image source={{ uri: teacher.photoUrl }} className="w-full h-full" resizeMode="cover" />
+      ) : (
+        <Text className={`${size === "lg" ? "text-2xl" : "text-lg"} font-bold text-primary`}>
+          {teacher.initials}
+        </Text>
+      )}
+    </View>
+  );
+
+  const renderDirectory = () => (
+    <>
+      {/* Department */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-3">
+        <View className="flex-row gap-2">
+          {departments.map((dept) => (
+            <TouchableOpacity
+              key={dept.code}
+              onPress={() => {
+                setDepartment(dept.code);
+                tap();
+              }}
+              activeOpacity={0.7}
+              className={`px-4 py-2 rounded-xl ${
+                department === dept.code ? "bg-primary" : "bg-surface border border-border"
+              }`}
+            >
+              <Text
+                className={`text-sm font-semibold ${
+                  department === dept.code ? "text-background" : "text-foreground"
+                }`}
+              >
+                {dept.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
         </View>
+      </ScrollView>
 
-        {/* Under Maintenance Card */}
-        <View className="w-full max-w-md bg-surface rounded-2xl p-8 border border-border items-center">
-          <Text className="text-6xl mb-4">🔧</Text>
-          <Text className="text-2xl font-bold text-foreground mb-3 text-center">
-            Under Maintenance
-          </Text>
-          <Text className="text-base text-muted text-center leading-relaxed">
-            We're currently fixing some issues with the teacher search functionality. This feature will be back soon!
+      {/* Search */}
+      <View className="mb-6 bg-surface rounded-xl border border-border px-4 py-3 flex-row items-center">
+        <Text className="text-muted mr-2">🔍</Text>
+        <TextInput
+          className="flex-1 text-base text-foreground"
+          placeholder="Search by name or initials (e.g., MB)"
+          placeholderTextColor={colors.muted}
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+      </View>
+
+      {/* Department coordinators: load across the faculty */}
+      <TouchableOpacity
+        onPress={() => router.push({ pathname: "/workload", params: { department } })}
+        activeOpacity={0.7}
+        className="mb-6 bg-surface rounded-xl border border-border px-4 py-3 flex-row items-center justify-between"
+      >
+        <Text className="text-base font-semibold text-foreground">📊 Workload dashboard</Text>
+        <Text className="text-muted">›</Text>
+      </TouchableOpacity>
+
+      {facultyError ? (
+        <ErrorMessage
+          title="Couldn't Load Faculty"
+          message={facultyError.message}
+          suggestion="Check your internet connection and try again."
+        />
+      ) : isLoadingFaculty ? (
+        <View className="items-center justify-center py-12">
+          <ActivityIndicator size="large" color={colors.primary} />
+          <Text className="text-base text-muted mt-4">Loading faculty...</Text>
+        </View>
+      ) : filteredFaculty.length === 0 ? (
+        <EmptyState
+          icon="🔍"
+          title="No Teachers Found"
+          message={query ? `No teacher matches "${searchQuery}".` : "No faculty data for this department yet."}
+        />
+      ) : (
+        <>
+          <Text className="text-sm font-semibold text-foreground mb-3">
+            {filteredFaculty.length} TEACHERS
           </Text>
-          <View className="mt-6 bg-primary/10 rounded-lg px-4 py-3 w-full">
-            <Text className="text-sm text-primary text-center font-semibold">
-              Thank you for your patience 🙏
-            </Text>
-          </View>
+          {filteredFaculty.map((teacher) => (
+            <TouchableOpacity
+              key={teacher.initials}
+              onPress={() => {
+                setSelectedTeacher(teacher);
+                tap();
+              }}
+              activeOpacity={0.7}
+              className="bg-surface rounded-2xl p-4 mb-3 border border-border flex-row items-center"
+            >
+              {renderAvatar(teacher, "md")}
+              <View className="flex-1 ml-4">
+                <Text className="text-base font-bold text-foreground" numberOfLines={2}>
+                  {teacher.name}
+                </Text>
+                {!!teacher.designation && (
+                  <Text className="text-sm text-muted mt-1" numberOfLines={1}>
+                    {teacher.designation}
+                  </Text>
+                )}
+              </View>
+              <View className="bg-primary/20 rounded-lg px-2 py-1 ml-2">
+                <Text className="text-xs font-bold text-primary">{teacher.initials}</Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+        </>
+      )}
+    </>
+  );
+
+  const renderTimetable = (teacher: Faculty) => (
+    <>
+      <TouchableOpacity onPress={() => setSelectedTeacher(null)} activeOpacity={0.7} className="mb-4">
+        <Text className="text-base font-semibold text-primary">← All teachers</Text>
+      </TouchableOpacity>
+
+      {/* Profile */}
+      <View className="bg-surface rounded-2xl p-4 mb-6 border border-border flex-row items-center">
+        {renderAvatar(teacher, "lg")}
+        <View className="flex-1 ml-4">
+          <Text className="text-xl font-bold text-foreground">{teacher.name}</Text>
+          {!!teacher.designation && (
+            <Text className="text-sm text-muted mt-1">{teacher.designation}</Text>
+          )}
+          <Text className="text-sm font-bold text-primary mt-1">{teacher.initials}</Text>
+        </View>
+      </View>
+
+      {scheduleError ? (
+        <ErrorMessage
+          title="PDF Parsing Failed"
+          message={scheduleError.message}
+          suggestion="Check your internet connection and try again."
+        />
+      ) : isLoadingSchedule ? (
+        <View className="items-center justify-center py-12">
+          <ActivityIndicator size="large" color={colors.primary} />
+          <Text className="text-base text-muted mt-4">Loading schedule...</Text>
         </View>
+      ) : !scheduleData || scheduleData.classes.length === 0 ? (
+        <EmptyState
+          icon="📭"
+          title="No Classes Found"
+          message={`${teacher.initials} has no classes in the current routine.`}
+        />
+      ) : (
+        <>
+          {/* Weekly load */}
+          <View className="flex-row gap-3 mb-6">
+            <View className="flex-1 bg-surface rounded-2xl p-4 items-center border border-border">
+              <Text className="text-2xl font-bold text-foreground">{scheduleData.stats.totalClasses}</Text>
+              <Text className="text-xs text-muted mt-1">CLASSES / WEEK</Text>
+            </View>
+            <View className="flex-1 bg-surface rounded-2xl p-4 items-center border border-border">
+              <Text className="text-2xl font-bold text-foreground">{scheduleData.weeklyHours}</Text>
+              <Text className="text-xs text-muted mt-1">HOURS / WEEK</Text>
+            </View>
+            <View className="flex-1 bg-surface rounded-2xl p-4 items-center border border-border">
+              <Text className="text-2xl font-bold text-foreground">{scheduleData.courses.length}</Text>
+              <Text className="text-xs text-muted mt-1">COURSES</Text>
+            </View>
+          </View>
+
+          {/* Sections taught */}
+          <Text className="text-sm font-semibold text-foreground mb-3">SECTIONS TAUGHT</Text>
+          <View className="flex-row flex-wrap gap-2 mb-6">
+            {scheduleData.sectionList.map((section) => (
+              <View key={section} className="bg-primary/10 rounded-lg px-3 py-1.5">
+                <Text className="text-sm font-semibold text-primary">{section}</Text>
+              </View>
+            ))}
+          </View>
 
-        {/* Info */}
-        <View className="mt-8 px-4">
-          <Text className="text-xs text-muted text-center">
-            In the meantime, you can use the Student tab to view class schedules
+          {/* View Toggle */}
+          <View className="flex-row gap-2 mb-6">
+            <TouchableOpacity
+              onPress={() => setViewMode("day")}
+              activeOpacity={0.7}
+              className={`flex-1 py-3 rounded-xl ${
+                viewMode === "day" ? "bg-primary" : "bg-surface border border-border"
+              }`}
+            >
+              <Text
+                className={`text-center text-base font-semibold ${
+                  viewMode === "day" ? "text-background" : "text-foreground"
+                }`}
+              >
+                📅 Day View
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setViewMode("week")}
+              activeOpacity={0.7}
+              className={`flex-1 py-3 rounded-xl ${
+                viewMode === "week" ? "bg-primary" : "bg-surface border border-border"
+              }`}
+            >
+              <Text
+                className={`text-center text-base font-semibold ${
+                  viewMode === "week" ? "text-background" : "text-foreground"
+                }`}
+              >
+                📆 Week View
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {viewMode === "week" ? (
+            <WeekGrid schedule={scheduleData.schedule} weekDates={weekDates} showSection />
+          ) : (
+            <DayTimeline
+              schedule={scheduleData.schedule}
+              selectedDay={selectedDay}
+              onSelectDay={setSelectedDay}
+              weekDates={weekDates}
+              showSection
+            />
+          )}
+        </>
+      )}
+    </>
+  );
+
+  return (
+    <ScreenContainer className="px-6 py-6">
+      <ScrollView showsVerticalScrollIndicator={false}>
+        {/* Header */}
+        <View className="mb-6">
+          <Text className="text-3xl font-bold text-foreground">Teacher</Text>
+          <Text className="text-base text-muted mt-1">
+            Find teacher schedules
           </Text>
         </View>
-      </View>
+
+        {selectedTeacher ? renderTimetable(selectedTeacher) : renderDirectory()}
+      </ScrollView>
     </ScreenContainer>
   );
 }
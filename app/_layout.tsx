@@ -1,6 +1,7 @@
 import "@/global.css";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { Stack } from "expo-router";
+import { Stack, router } from "expo-router";
+import * as Notifications from "expo-notifications";
 import { StatusBar } from "expo-status-bar";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
@@ -19,6 +20,7 @@ import type { EdgeInsets, Metrics, Rect } from "react-native-safe-area-context";
 
 import { trpc, createTRPCClient } from "@/lib/trpc";
 import { initManusRuntime, subscribeSafeAreaInsets } from "@/lib/_core/manus-runtime";
+import { configureNotifications } from "@/lib/notifications";
 
 const DEFAULT_WEB_INSETS: EdgeInsets = { top: 0, right: 0, bottom: 0, left: 0 };
 const DEFAULT_WEB_FRAME: Rect = { x: 0, y: 0, width: 0, height: 0 };
@@ -39,6 +41,24 @@ export default function RootLayout() {
     initManusRuntime();
   }, []);
 
+  // Routine change alerts open the "What changed" screen for the subscribed section
+  useEffect(() => {
+    if (Platform.OS === "web") return;
+    configureNotifications();
+    const subscription = Notifications.addNotificationResponseReceivedListener((response) => {
+      const data = response.notification.request.content.data as
+        | { department?: string; batchSection?: string }
+        | undefined;
+      if (data?.batchSection) {
+        router.push({
+          pathname: "/changes",
+          params: { department: data.department || "cse", batchSection: data.batchSection },
+        });
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
   const handleSafeAreaUpdate = useCallback((metrics: Metrics) => {
     setInsets(metrics.insets);
     setFrame(metrics.frame);
@@ -88,6 +108,11 @@ export default function RootLayout() {
           <Stack screenOptions={{ headerShown: false }}>
             <Stack.Screen name="(tabs)" />
             <Stack.Screen name="oauth/callback" />
+            <Stack.Screen name="changes" />
+            <Stack.Screen name="custom-routine" />
+            <Stack.Screen name="planner" />
+            <Stack.Screen name="exams" />
+            <Stack.Screen name="workload" />
           </Stack>
           <StatusBar style="auto" />
           </QueryClientProvider>
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { View, Text, ScrollView, TouchableOpacity, ActivityIndicator } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ScreenContainer } from "@/components/screen-container";
+import { ErrorMessage, EmptyState } from "@/components/error-message";
+import { useColors } from "@/hooks/use-colors";
+import { trpc } from "@/lib/trpc";
+
+const CHANGE_LABELS: Record<string, { icon: string; label: string }> = {
+  added: { icon: "➕", label: "Added" },
+  removed: { icon: "➖", label: "Removed" },
+  moved: { icon: "🕑", label: "Moved" },
+  room_changed: { icon: "📍", label: "Room changed" },
+  teacher_changed: { icon: "👨‍🏫", label: "Teacher changed" },
+};
+
+const formatDay = (day: string) => day.charAt(0) + day.slice(1, 3).toLowerCase();
+
+/**
+ * "What changed" screen: differences between two routine versions
+ */
+export default function ChangesScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ department?: string; batchSection?: string }>();
+  const department = params.department || "cse";
+  const [onlyMine, setOnlyMine] = useState(!!params.batchSection);
+  const [fromCacheId, setFromCacheId] = useState<number | undefined>(undefined);
+
+  const { data: versionsData } = trpc.diu.getRoutineVersions.useQuery({ department });
+
+  const { data, isLoading, error } = trpc.diu.diffRoutines.useQuery({
+    department,
+    fromCacheId,
+    batchSection: onlyMine ? params.batchSection : undefined,
+  });
+
+  const versions = versionsData?.versions || [];
+
+  return (
+    <ScreenContainer className="px-6 py-6">
+      <ScrollView showsVerticalScrollIndicator={false}>
+        {/* Header */}
+        <TouchableOpacity onPress={() => router.back()} activeOpacity={0.7} className="mb-4">
+          <Text className="text-base font-semibold text-primary">← Back</Text>
+        </TouchableOpacity>
+        <View className="mb-6">
+          <Text className="text-3xl font-bold text-foreground">What changed</Text>
+          <Text className="text-base text-muted mt-1">
+            {department.toUpperCase()} routine
+            {data ? ` · v${data.from.version} → v${data.to.version}` : ""}
+          </Text>
+        </View>
+
+        {/* Compare against an older version */}
+        {versions.length > 2 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-3">
+            <View className="flex-row gap-2">
+              {versions.slice(1).map((v) => {
+                const isActive = (data?.from.cacheId ?? versions[1]?.cacheId) === v.cacheId;
+                return (
+                  <TouchableOpacity
+                    key={v.cacheId}
+                    onPress={() => setFromCacheId(v.cacheId)}
+                    activeOpacity={0.7}
+                    className={`px-4 py-2 rounded-xl ${isActive ? "bg-primary" : "bg-surface border border-border"}`}
+                  >
+                    <Text className={`text-sm font-semibold ${isActive ? "text-background" : "text-foreground"}`}>
+                      v{v.version} · {new Date(v.parsedAt).toLocaleDateString()}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </ScrollView>
+        )}
+
+        {/* Section filter */}
+        {!!params.batchSection && (
+          <View className="flex-row gap-2 mb-6">
+            {[true, false].map((mine) => (
+              <TouchableOpacity
+                key={String(mine)}
+                onPress={() => setOnlyMine(mine)}
+                activeOpacity={0.7}
+                className={`flex-1 py-3 rounded-xl ${
+                  onlyMine === mine ? "bg-primary" : "bg-surface border border-border"
+                }`}
+              >
+                <Text
+                  className={`text-center text-base font-semibold ${
+                    onlyMine === mine ? "text-background" : "text-foreground"
+                  }`}
+                >
+                  {mine ? params.batchSection : "All sections"}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {error ? (
+          <ErrorMessage
+            title="Nothing to Compare"
+            message={error.message}
+            suggestion="Changes appear here once a newer routine version has been published and parsed."
+          />
+        ) : isLoading ? (
+          <View className="items-center justify-center py-12">
+            <ActivityIndicator size="large" color={colors.primary} />
+            <Text className="text-base text-muted mt-4">Comparing routines...</Text>
+          </View>
+        ) : !data || data.changes.length === 0 ? (
+          <EmptyState
+            icon="✅"
+            title="No Changes"
+            message={onlyMine ? `Nothing changed for ${params.batchSection}.` : "The two versions are identical."}
+          />
+        ) : (
+          <>
+            {/* Summary */}
+            <View className="flex-row flex-wrap gap-2 mb-6">
+              {Object.entries(data.summary)
+                .filter(([, count]) => count > 0)
+                .map(([type, count]) => (
+                  <View key={type} className="bg-surface rounded-lg px-3 py-1.5 border border-border">
+                    <Text className="text-sm font-semibold text-foreground">
+                      {CHANGE_LABELS[type].icon} {count} {CHANGE_LABELS[type].label.toLowerCase()}
+                    </Text>
+                  </View>
+                ))}
+            </View>
+
+            {data.changes.map((change, index) => (
+              <View key={index} className="bg-surface rounded-2xl p-4 mb-3 border border-border">
+                <View className="flex-row items-start justify-between mb-2">
+                  <View className="flex-1">
+                    <Text className="text-base font-bold text-foreground">{change.courseName}</Text>
+                    <Text className="text-sm text-primary mt-1">
+                      {change.courseCode} · {change.batchSection}
+                    </Text>
+                  </View>
+                  <View className="bg-primary/20 rounded-full px-3 py-1">
+                    <Text className="text-xs font-bold text-primary">
+                      {CHANGE_LABELS[change.type].icon} {CHANGE_LABELS[change.type].label}
+                    </Text>
+                  </View>
+                </View>
+
+                {change.before && (
+                  <Text className={`text-sm mt-1 ${change.after ? "text-muted line-through" : "text-error"}`}>
+                    {formatDay(change.before.day)} {change.before.timeStart}-{change.before.timeEnd} · 📍 {change.before.room} · 👨‍🏫 {change.before.teacher}
+                  </Text>
+                )}
+                {change.after && (
+                  <Text className="text-sm text-foreground mt-1">
+                    {formatDay(change.after.day)} {change.after.timeStart}-{change.after.timeEnd} · 📍 {change.after.room} · 👨‍🏫 {change.after.teacher}
+                  </Text>
+                )}
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
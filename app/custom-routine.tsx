@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { View, Text, ScrollView, TouchableOpacity, TextInput, ActivityIndicator } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ScreenContainer } from "@/components/screen-container";
+import { ErrorMessage, EmptyState } from "@/components/error-message";
+import { WeekGrid } from "@/components/week-grid";
+import { useColors } from "@/hooks/use-colors";
+import { useCustomRoutine } from "@/hooks/use-custom-routine";
+import { trpc } from "@/lib/trpc";
+
+const formatDay = (day: string) => day.charAt(0) + day.slice(1, 3).toLowerCase();
+
+/**
+ * Custom routine: pick course + section pairs (retakes, improvements) and see them as one week
+ */
+export default function CustomRoutineScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ department?: string }>();
+  const department = params.department || "cse";
+  const [courseQuery, setCourseQuery] = useState("");
+  const { selections, isLoaded, select, remove, clear } = useCustomRoutine(department);
+
+  const { data: offeringsData, isLoading: isLoadingOfferings } = trpc.diu.getCourseOfferings.useQuery({
+    department,
+  });
+
+  const { data, isLoading, error } = trpc.diu.getCustomSchedule.useQuery(
+    { department, selections },
+    { enabled: isLoaded && selections.length > 0 }
+  );
+
+  const query = courseQuery.trim().toLowerCase();
+  const matchingCourses = query
+    ? (offeringsData?.courses || [])
+        .filter((c) => c.courseCode.toLowerCase().includes(query) || c.courseName.toLowerCase().includes(query))
+        .slice(0, 8)
+    : [];
+
+  return (
+    <ScreenContainer className="px-6 py-6">
+      <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        {/* Header */}
+        <TouchableOpacity onPress={() => router.back()} activeOpacity={0.7} className="mb-4">
+          <Text className="text-base font-semibold text-primary">← Back</Text>
+        </TouchableOpacity>
+        <View className="mb-6">
+          <Text className="text-3xl font-bold text-foreground">Custom routine</Text>
+          <Text className="text-base text-muted mt-1">
+            {department.toUpperCase()} · pick a section for each course you take
+            {data ? ` · v${data.version}` : ""}
+          </Text>
+        </View>
+
+        {/* Let the planner pick sections instead */}
+        <TouchableOpacity
+          onPress={() => router.push({ pathname: "/planner", params: { department } })}
+          activeOpacity={0.7}
+          className="mb-4 bg-surface rounded-xl border border-border px-4 py-3 flex-row items-center justify-between"
+        >
+          <Text className="text-base font-semibold text-foreground">🧮 Find the best sections for me</Text>
+          <Text className="text-muted">›</Text>
+        </TouchableOpacity>
+
+        {/* Course search */}
+        <View className="bg-surface rounded-xl border border-border px-4 py-3 flex-row items-center mb-2">
+          <Text className="text-muted mr-2">🔍</Text>
+          <TextInput
+            className="flex-1 text-base text-foreground"
+            placeholder="Search course (e.g., CSE112 or Physics)"
+            placeholderTextColor={colors.muted}
+            value={courseQuery}
+            onChangeText={setCourseQuery}
+            autoCapitalize="characters"
+          />
+        </View>
+
+        {isLoadingOfferings && !!query && (
+          <View className="py-2">
+            <ActivityIndicator size="small" color={colors.primary} />
+          </View>
+        )}
+
+        {matchingCourses.map((course) => {
+          const picked = selections.find((s) => s.courseCode === course.courseCode);
+          return (
+            <View key={course.courseCode} className="bg-surface rounded-2xl p-4 mb-2 border border-border">
+              <Text className="text-base font-bold text-foreground">{course.courseName}</Text>
+              <Text className="text-sm text-primary mt-1 mb-3">{course.courseCode}</Text>
+              <View className="flex-row flex-wrap gap-2">
+                {course.sections.map((section) => {
+                  const isActive = picked?.batchSection === section;
+                  return (
+                    <TouchableOpacity
+                      key={section}
+                      onPress={() => (isActive ? remove(course.courseCode) : select(course.courseCode, section))}
+                      activeOpacity={0.7}
+                      className={`px-3 py-1.5 rounded-lg ${isActive ? "bg-primary" : "bg-background border border-border"}`}
+                    >
+                      <Text className={`text-sm font-semibold ${isActive ? "text-background" : "text-foreground"}`}>
+                        {section}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          );
+        })}
+
+        {/* Picked courses */}
+        {selections.length > 0 && (
+          <View className="mt-4 mb-6">
+            <View className="flex-row items-center justify-between mb-2">
+              <Text className="text-lg font-bold text-foreground">
+                {selections.length} course{selections.length === 1 ? "" : "s"}
+              </Text>
+              <TouchableOpacity onPress={clear} activeOpacity={0.7}>
+                <Text className="text-sm font-semibold text-error">Clear all</Text>
+              </TouchableOpacity>
+            </View>
+            <View className="flex-row flex-wrap gap-2">
+              {selections.map((s) => (
+                <TouchableOpacity
+                  key={s.courseCode}
+                  onPress={() => remove(s.courseCode)}
+                  activeOpacity={0.7}
+                  className="bg-primary/20 rounded-full px-3 py-1.5"
+                >
+                  <Text className="text-sm font-semibold text-primary">
+                    {s.courseCode} · {s.batchSection} ✕
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {selections.length === 0 ? (
+          <EmptyState
+            icon="🧩"
+            title="No Courses Picked"
+            message="Search for a course above and tap the section you attend. Retakes from other batches work too."
+          />
+        ) : error ? (
+          <ErrorMessage
+            title="Couldn't Build Routine"
+            message={error.message}
+            suggestion="Check your internet connection and try again."
+          />
+        ) : isLoading || !data ? (
+          <View className="items-center justify-center py-12">
+            <ActivityIndicator size="large" color={colors.primary} />
+            <Text className="text-base text-muted mt-4">Merging your courses...</Text>
+          </View>
+        ) : (
+          <>
+            {/* Warnings */}
+            {data.clashes.map((clash, index) => (
+              <View key={`clash-${index}`} className="bg-surface rounded-2xl p-4 mb-3 border border-error">
+                <Text className="text-base font-bold text-error">⚠️ Time clash on {formatDay(clash.day)}</Text>
+                <Text className="text-sm text-foreground mt-2">
+                  {clash.first.courseCode} ({clash.first.batchSection}) {clash.first.timeStart}-{clash.first.timeEnd}
+                </Text>
+                <Text className="text-sm text-foreground">
+                  {clash.second.courseCode} ({clash.second.batchSection}) {clash.second.timeStart}-{clash.second.timeEnd}
+                </Text>
+              </View>
+            ))}
+
+            {data.tightTransfers.map((transfer, index) => (
+              <View key={`transfer-${index}`} className="bg-surface rounded-2xl p-4 mb-3 border border-border">
+                <Text className="text-base font-bold text-foreground">
+                  🏃 {transfer.fromBuilding} → {transfer.toBuilding} on {formatDay(transfer.day)}
+                </Text>
+                <Text className="text-sm text-muted mt-2">
+                  {transfer.gapMinutes === 0 ? "No break" : `Only ${transfer.gapMinutes} min`} between{" "}
+                  {transfer.from.courseCode} ({transfer.from.room}) and {transfer.to.courseCode} ({transfer.to.room})
+                </Text>
+              </View>
+            ))}
+
+            {data.missing.length > 0 && (
+              <View className="bg-surface rounded-2xl p-4 mb-3 border border-border">
+                <Text className="text-base font-bold text-foreground">🔍 Not in the current routine</Text>
+                <Text className="text-sm text-muted mt-2">
+                  {data.missing.map((s) => `${s.courseCode} · ${s.batchSection}`).join(", ")}
+                </Text>
+              </View>
+            )}
+
+            {/* Stats */}
+            <View className="flex-row gap-3 my-4">
+              <View className="flex-1 bg-surface rounded-xl p-4 border border-border items-center">
+                <Text className="text-2xl font-bold text-primary">{data.stats.totalClasses}</Text>
+                <Text className="text-xs text-muted mt-1">Classes / week</Text>
+              </View>
+              <View className="flex-1 bg-surface rounded-xl p-4 border border-border items-center">
+                <Text className="text-2xl font-bold text-primary">{data.creditLoad.credits}</Text>
+                <Text className="text-xs text-muted mt-1">
+                  Credits{data.creditLoad.unknownCourses.length > 0 ? ` (+${data.creditLoad.unknownCourses.length} unknown)` : ""}
+                </Text>
+              </View>
+              <View className="flex-1 bg-surface rounded-xl p-4 border border-border items-center">
+                <Text className={`text-2xl font-bold ${data.clashes.length > 0 ? "text-error" : "text-primary"}`}>
+                  {data.clashes.length}
+                </Text>
+                <Text className="text-xs text-muted mt-1">Clashes</Text>
+              </View>
+            </View>
+
+            <WeekGrid schedule={data.schedule} showSection />
+          </>
+        )}
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { View, Text, ScrollView, TouchableOpacity, ActivityIndicator } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ScreenContainer } from "@/components/screen-container";
+import { ErrorMessage, EmptyState } from "@/components/error-message";
+import { useColors } from "@/hooks/use-colors";
+import { useCustomRoutine } from "@/hooks/use-custom-routine";
+import { trpc } from "@/lib/trpc";
+
+const EXAM_TYPES = [
+  { value: undefined, label: "Latest" },
+  { value: "midterm", label: "Midterm" },
+  { value: "final", label: "Final" },
+] as const;
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: "short", day: "numeric", month: "short" });
+
+/**
+ * "in 2d 4h" / "in 45m" until an exam starts
+ */
+const formatCountdown = (minutes: number) => {
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  if (days > 0) return `in ${days}d ${hours}h`;
+  if (hours > 0) return `in ${hours}h ${minutes % 60}m`;
+  return `in ${minutes}m`;
+};
+
+/**
+ * Exam schedule for a batch_section or the custom routine's courses, with countdowns and clashes
+ */
+export default function ExamsScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ department?: string; batchSection?: string }>();
+  const department = params.department || "cse";
+  const [examType, setExamType] = useState<"midterm" | "final" | undefined>(undefined);
+  const { selections, isLoaded } = useCustomRoutine(department);
+  const [useCustom, setUseCustom] = useState(!params.batchSection);
+
+  const courses = useCustom ? selections : undefined;
+  const { data, isLoading, error } = trpc.diu.getExamSchedule.useQuery(
+    { department, examType, batchSection: useCustom ? undefined : params.batchSection, courses },
+    { enabled: isLoaded && (useCustom ? selections.length > 0 : !!params.batchSection) }
+  );
+
+  const clashing = new Set(
+    (data?.clashes || []).flatMap((c) => [`${c.first.courseCode}|${c.date}`, `${c.second.courseCode}|${c.date}`])
+  );
+
+  return (
+    <ScreenContainer className="px-6 py-6">
+      <ScrollView showsVerticalScrollIndicator={false}>
+        {/* Header */}
+        <TouchableOpacity onPress={() => router.back()} activeOpacity={0.7} className="mb-4">
+          <Text className="text-base font-semibold text-primary">← Back</Text>
+        </TouchableOpacity>
+        <View className="mb-6">
+          <Text className="text-3xl font-bold text-foreground">Exams</Text>
+          <Text className="text-base text-muted mt-1">
+            {data?.title || `${department.toUpperCase()} exam routine`}
+          </Text>
+        </View>
+
+        {/* Exam type */}
+        <View className="flex-row gap-2 mb-3">
+          {EXAM_TYPES.map((type) => {
+            const isActive = examType === type.value;
+            return (
+              <TouchableOpacity
+                key={type.label}
+                onPress={() => setExamType(type.value)}
+                activeOpacity={0.7}
+                className={`px-4 py-2 rounded-xl ${isActive ? "bg-primary" : "bg-surface border border-border"}`}
+              >
+                <Text className={`text-sm font-semibold ${isActive ? "text-background" : "text-foreground"}`}>
+                  {type.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* Section or custom routine */}
+        {!!params.batchSection && selections.length > 0 && (
+          <View className="flex-row gap-2 mb-6">
+            {[false, true].map((custom) => (
+              <TouchableOpacity
+                key={String(custom)}
+                onPress={() => setUseCustom(custom)}
+                activeOpacity={0.7}
+                className={`flex-1 py-3 rounded-xl ${useCustom === custom ? "bg-primary" : "bg-surface border border-border"}`}
+              >
+                <Text
+                  className={`text-center text-base font-semibold ${
+                    useCustom === custom ? "text-background" : "text-foreground"
+                  }`}
+                >
+                  {custom ? "Custom routine" : params.batchSection}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {useCustom && isLoaded && selections.length === 0 ? (
+          <EmptyState
+            icon="🧩"
+            title="No Courses Picked"
+            message="Search your batch_section, or pick courses in the custom routine to see their exams."
+          />
+        ) : error ? (
+          <ErrorMessage
+            title="No Exam Routine"
+            message={error.message}
+            suggestion="Exam schedules appear here once the department publishes its exam routine on the noticeboard."
+          />
+        ) : isLoading ? (
+          <View className="items-center justify-center py-12">
+            <ActivityIndicator size="large" color={colors.primary} />
+            <Text className="text-base text-muted mt-4">Loading exams...</Text>
+          </View>
+        ) : !data || data.exams.length === 0 ? (
+          <EmptyState icon="📝" title="No Exams Found" message="None of your courses are in this exam routine." />
+        ) : (
+          <>
+            {/* Next exam */}
+            {data.nextExam && (
+              <View className="bg-primary/20 rounded-2xl p-4 mb-4">
+                <Text className="text-xs font-semibold text-primary">
+                  {data.nextExam.status === "ongoing" ? "IN PROGRESS" : "NEXT EXAM"}
+                </Text>
+                <Text className="text-lg font-bold text-foreground mt-1">{data.nextExam.courseName}</Text>
+                <Text className="text-sm text-foreground mt-1">
+                  {formatDate(data.nextExam.date)} · {data.nextExam.timeStart}-{data.nextExam.timeEnd}
+                  {data.nextExam.status === "upcoming" ? ` · ${formatCountdown(data.nextExam.minutesUntilStart)}` : ""}
+                </Text>
+              </View>
+            )}
+
+            {data.clashes.length > 0 && (
+              <View className="bg-error/10 border border-error/30 rounded-2xl p-4 mb-4">
+                <Text className="text-base font-bold text-error">⚠️ {data.clashes.length} exam clash(es)</Text>
+                {data.clashes.map((clash, index) => (
+                  <Text key={index} className="text-sm text-foreground mt-1">
+                    {formatDate(clash.date)}: {clash.first.courseCode} and {clash.second.courseCode} overlap{" "}
+                    {clash.overlapMinutes} min
+                  </Text>
+                ))}
+              </View>
+            )}
+
+            {data.missing.length > 0 && (
+              <View className="bg-surface rounded-2xl p-4 mb-4 border border-border">
+                <Text className="text-base font-bold text-foreground">🔍 Not in the exam routine</Text>
+                <Text className="text-sm text-muted mt-2">{data.missing.map((s) => s.courseCode).join(", ")}</Text>
+              </View>
+            )}
+
+            {data.exams.map((exam) => (
+              <View
+                key={`${exam.courseCode}|${exam.date}|${exam.timeStart}`}
+                className={`bg-surface rounded-2xl p-4 mb-3 border ${
+                  clashing.has(`${exam.courseCode}|${exam.date}`) ? "border-error" : "border-border"
+                } ${exam.status === "finished" ? "opacity-50" : ""}`}
+              >
+                <View className="flex-row items-start justify-between">
+                  <View className="flex-1">
+                    <Text className="text-base font-bold text-foreground">{exam.courseName}</Text>
+                    <Text className="text-sm text-primary mt-1">
+                      {exam.courseCode} · {exam.batchSection}
+                    </Text>
+                  </View>
+                  {exam.status === "upcoming" && (
+                    <View className="bg-primary/20 rounded-full px-3 py-1">
+                      <Text className="text-xs font-bold text-primary">⏳ {formatCountdown(exam.minutesUntilStart)}</Text>
+                    </View>
+                  )}
+                </View>
+                <Text className="text-sm text-foreground mt-2">
+                  📅 {formatDate(exam.date)} · {exam.timeStart}-{exam.timeEnd}
+                </Text>
+                {exam.rooms.length > 0 && (
+                  <Text className="text-sm text-muted mt-1">📍 {exam.rooms.join(", ")}</Text>
+                )}
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
@@ -0,0 +1,278 @@
+import { useEffect, useMemo, useState } from "react";
+import { View, Text, ScrollView, TouchableOpacity, TextInput, ActivityIndicator } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ScreenContainer } from "@/components/screen-container";
+import { ErrorMessage, EmptyState } from "@/components/error-message";
+import { WeekGrid } from "@/components/week-grid";
+import { useColors } from "@/hooks/use-colors";
+import { useCustomRoutine } from "@/hooks/use-custom-routine";
+import { trpc } from "@/lib/trpc";
+
+const WEEK_DAYS = ["SATURDAY", "SUNDAY", "MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY"];
+const EARLIEST_START_OPTIONS = [undefined, "10:00", "11:30"];
+const MAX_GAP_OPTIONS = [undefined, 0, 90, 180];
+
+const formatDay = (day: string) => day.charAt(0) + day.slice(1, 3).toLowerCase();
+
+function Chip({ label, isActive, onPress }: { label: string; isActive: boolean; onPress: () => void }) {
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      activeOpacity={0.7}
+      className={`px-3 py-1.5 rounded-lg ${isActive ? "bg-primary" : "bg-surface border border-border"}`}
+    >
+      <Text className={`text-sm font-semibold ${isActive ? "text-background" : "text-foreground"}`}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+/**
+ * Section planner: compare the best conflict-free section combinations before advising
+ */
+export default function PlannerScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ department?: string }>();
+  const department = params.department || "cse";
+  const customRoutine = useCustomRoutine(department);
+
+  const [courseCodes, setCourseCodes] = useState<string[]>([]);
+  const [courseQuery, setCourseQuery] = useState("");
+  const [daysOff, setDaysOff] = useState<string[]>([]);
+  const [earliestStart, setEarliestStart] = useState<string | undefined>(undefined);
+  const [maxGapMinutes, setMaxGapMinutes] = useState<number | undefined>(undefined);
+  const [selectedPlan, setSelectedPlan] = useState(0);
+
+  // Start from the courses already in the custom routine, unless some were picked already
+  const savedCourseCodes = useMemo(
+    () => customRoutine.selections.map((s) => s.courseCode),
+    [customRoutine.selections]
+  );
+  useEffect(() => {
+    if (customRoutine.isLoaded) {
+      setCourseCodes((codes) => (codes.length === 0 ? savedCourseCodes : codes));
+    }
+  }, [customRoutine.isLoaded, savedCourseCodes]);
+
+  const { data: offeringsData } = trpc.diu.getCourseOfferings.useQuery({ department });
+
+  const { data, isLoading, error } = trpc.diu.planSections.useQuery(
+    { department, courseCodes, preferences: { daysOff, earliestStart, maxGapMinutes } },
+    { enabled: courseCodes.length > 0 }
+  );
+
+  useEffect(() => setSelectedPlan(0), [data]);
+
+  const query = courseQuery.trim().toLowerCase();
+  const matchingCourses = query
+    ? (offeringsData?.courses || [])
+        .filter(
+          (c) =>
+            !courseCodes.includes(c.courseCode) &&
+            (c.courseCode.toLowerCase().includes(query) || c.courseName.toLowerCase().includes(query))
+        )
+        .slice(0, 6)
+    : [];
+
+  const plan = data?.plans[selectedPlan];
+
+  return (
+    <ScreenContainer className="px-6 py-6">
+      <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        {/* Header */}
+        <TouchableOpacity onPress={() => router.back()} activeOpacity={0.7} className="mb-4">
+          <Text className="text-base font-semibold text-primary">← Back</Text>
+        </TouchableOpacity>
+        <View className="mb-6">
+          <Text className="text-3xl font-bold text-foreground">Section planner</Text>
+          <Text className="text-base text-muted mt-1">
+            {department.toUpperCase()} · best section combinations for your courses
+          </Text>
+        </View>
+
+        {/* Courses */}
+        <View className="bg-surface rounded-xl border border-border px-4 py-3 flex-row items-center mb-2">
+          <Text className="text-muted mr-2">🔍</Text>
+          <TextInput
+            className="flex-1 text-base text-foreground"
+            placeholder="Add course (e.g., CSE112)"
+            placeholderTextColor={colors.muted}
+            value={courseQuery}
+            onChangeText={setCourseQuery}
+            autoCapitalize="characters"
+          />
+        </View>
+        {matchingCourses.map((course) => (
+          <TouchableOpacity
+            key={course.courseCode}
+            onPress={() => {
+              setCourseCodes([...courseCodes, course.courseCode]);
+              setCourseQuery("");
+            }}
+            activeOpacity={0.7}
+            className="py-2 px-3 border-b border-border"
+          >
+            <Text className="text-base text-foreground">
+              {course.courseCode} · {course.courseName}
+            </Text>
+            <Text className="text-xs text-muted">{course.sections.length} sections</Text>
+          </TouchableOpacity>
+        ))}
+        {courseCodes.length > 0 && (
+          <View className="flex-row flex-wrap gap-2 mt-2">
+            {courseCodes.map((code) => (
+              <TouchableOpacity
+                key={code}
+                onPress={() => setCourseCodes(courseCodes.filter((c) => c !== code))}
+                activeOpacity={0.7}
+                className="bg-primary/20 rounded-full px-3 py-1.5"
+              >
+                <Text className="text-sm font-semibold text-primary">{code} ✕</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {/* Preferences */}
+        <Text className="text-sm font-bold text-foreground mt-6 mb-2">Days off</Text>
+        <View className="flex-row flex-wrap gap-2">
+          {WEEK_DAYS.map((day) => (
+            <Chip
+              key={day}
+              label={formatDay(day)}
+              isActive={daysOff.includes(day)}
+              onPress={() =>
+                setDaysOff(daysOff.includes(day) ? daysOff.filter((d) => d !== day) : [...daysOff, day])
+              }
+            />
+          ))}
+        </View>
+
+        <Text className="text-sm font-bold text-foreground mt-4 mb-2">No classes before</Text>
+        <View className="flex-row flex-wrap gap-2">
+          {EARLIEST_START_OPTIONS.map((time) => (
+            <Chip
+              key={time || "any"}
+              label={time || "Any time"}
+              isActive={earliestStart === time}
+              onPress={() => setEarliestStart(time)}
+            />
+          ))}
+        </View>
+
+        <Text className="text-sm font-bold text-foreground mt-4 mb-2">Longest break between classes</Text>
+        <View className="flex-row flex-wrap gap-2 mb-6">
+          {MAX_GAP_OPTIONS.map((gap) => (
+            <Chip
+              key={String(gap)}
+              label={gap === undefined ? "Any" : gap === 0 ? "No breaks" : `${gap / 60}h`}
+              isActive={maxGapMinutes === gap}
+              onPress={() => setMaxGapMinutes(gap)}
+            />
+          ))}
+        </View>
+
+        {/* Results */}
+        {courseCodes.length === 0 ? (
+          <EmptyState
+            icon="🧮"
+            title="No Courses Yet"
+            message="Add the courses you plan to take and the planner will rank every section combination that doesn't clash."
+          />
+        ) : error ? (
+          <ErrorMessage
+            title="Planning Failed"
+            message={error.message}
+            suggestion="Check your internet connection and try again."
+          />
+        ) : isLoading || !data ? (
+          <View className="items-center justify-center py-12">
+            <ActivityIndicator size="large" color={colors.primary} />
+            <Text className="text-base text-muted mt-4">Trying section combinations...</Text>
+          </View>
+        ) : data.plans.length === 0 ? (
+          <EmptyState
+            icon="⚠️"
+            title="No Clash-Free Plan"
+            message={
+              data.unknownCourses.length > 0
+                ? `Not in the current routine: ${data.unknownCourses.join(", ")}`
+                : "Every combination of these courses has a time clash."
+            }
+          />
+        ) : (
+          <>
+            <Text className="text-xs text-muted mb-3">
+              {data.combinationsChecked} clash-free combination{data.combinationsChecked === 1 ? "" : "s"} checked
+              {data.exhaustive ? "" : " (search stopped early, try fewer courses)"}
+              {data.unknownCourses.length > 0 ? ` · not offered: ${data.unknownCourses.join(", ")}` : ""}
+            </Text>
+
+            {/* Top options side by side */}
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-4">
+              <View className="flex-row gap-3">
+                {data.plans.map((option, index) => {
+                  const isActive = index === selectedPlan;
+                  return (
+                    <TouchableOpacity
+                      key={index}
+                      onPress={() => setSelectedPlan(index)}
+                      activeOpacity={0.7}
+                      className={`w-44 rounded-2xl p-4 border ${isActive ? "bg-primary/10 border-primary" : "bg-surface border-border"}`}
+                    >
+                      <Text className="text-base font-bold text-foreground">Option {index + 1}</Text>
+                      <Text className="text-sm text-muted mt-1">
+                        📅 {option.campusDays.length} day{option.campusDays.length === 1 ? "" : "s"} on campus
+                      </Text>
+                      <Text className="text-sm text-muted">
+                        🕗 {option.earliestStart} - {option.latestEnd}
+                      </Text>
+                      <Text className="text-sm text-muted">⏳ {Math.round(option.idleMinutes / 60)}h waiting / week</Text>
+                      {option.violations.length === 0 ? (
+                        <Text className="text-xs font-semibold text-primary mt-2">✅ Meets all preferences</Text>
+                      ) : (
+                        option.violations.map((v) => (
+                          <Text key={v} className="text-xs text-error mt-1">
+                            {v}
+                          </Text>
+                        ))
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </ScrollView>
+
+            {plan && (
+              <>
+                <View className="bg-surface rounded-2xl p-4 mb-4 border border-border">
+                  {plan.selections.map((s) => (
+                    <Text key={s.courseCode} className="text-sm text-foreground">
+                      {s.courseCode} → <Text className="font-bold text-primary">{s.batchSection}</Text>
+                    </Text>
+                  ))}
+                  <Text className="text-sm text-muted mt-2">
+                    On campus: {plan.campusDays.map(formatDay).join(", ")}
+                  </Text>
+                </View>
+
+                <WeekGrid schedule={plan.schedule} showSection />
+
+                <TouchableOpacity
+                  onPress={() => {
+                    customRoutine.replace(plan.selections);
+                    router.push({ pathname: "/custom-routine", params: { department } });
+                  }}
+                  activeOpacity={0.7}
+                  className="mt-4 mb-6 bg-primary rounded-xl py-3"
+                >
+                  <Text className="text-center text-base font-semibold text-background">Use as my custom routine</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
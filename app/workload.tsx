@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { View, Text, ScrollView, TouchableOpacity, ActivityIndicator, Platform, Share } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ScreenContainer } from "@/components/screen-container";
+import { ErrorMessage, EmptyState } from "@/components/error-message";
+import { useColors } from "@/hooks/use-colors";
+import { trpc } from "@/lib/trpc";
+
+const departments = [
+  { code: "cse", name: "CSE" },
+  { code: "eee", name: "EEE" },
+  { code: "swe", name: "SWE" },
+  { code: "ags", name: "AGS" },
+  { code: "ce", name: "CE" },
+  { code: "mct", name: "MCT" },
+  { code: "ice", name: "ICE" },
+  { code: "architecture", name: "Architecture" },
+];
+
+const SORTS = [
+  { value: "hours", label: "Hours" },
+  { value: "backToBack", label: "Back-to-back" },
+  { value: "longestDay", label: "Longest day" },
+  { value: "sections", label: "Sections" },
+] as const;
+
+type Sort = (typeof SORTS)[number]["value"];
+
+/**
+ * Save the CSV: a download on web, the share sheet on phones
+ */
+const exportCsv = async (fileName: string, csv: string) => {
+  if (Platform.OS === "web") {
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+  await Share.share({ title: fileName, message: csv });
+};
+
+/**
+ * Teaching load across a department's faculty, for coordinators (admin only)
+ */
+export default function WorkloadScreen() {
+  const colors = useColors();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ department?: string }>();
+  const [department, setDepartment] = useState(params.department || "cse");
+  const [sort, setSort] = useState<Sort>("hours");
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+
+  const { data, isLoading, error } = trpc.diu.getTeacherWorkload.useQuery({ department });
+
+  const teachers = [...(data?.teachers || [])]
+    .filter((t) => !flaggedOnly || t.outlier)
+    .sort((a, b) => {
+      if (sort === "backToBack") return b.backToBack - a.backToBack;
+      if (sort === "longestDay") return (b.longestDay?.spanHours || 0) - (a.longestDay?.spanHours || 0);
+      if (sort === "sections") return b.sections.length - a.sections.length;
+      return b.weeklyHours - a.weeklyHours;
+    });
+  const maxHours = Math.max(1, ...(data?.teachers || []).map((t) => t.weeklyHours));
+  const flaggedCount = (data?.teachers || []).filter((t) => t.outlier).length;
+
+  const renderChip = (label: string, isActive: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      onPress={onPress}
+      activeOpacity={0.7}
+      className={`px-4 py-2 rounded-xl ${isActive ? "bg-primary" : "bg-surface border border-border"}`}
+    >
+      <Text className={`text-sm font-semibold ${isActive ? "text-background" : "text-foreground"}`}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScreenContainer className="px-6 py-6">
+      <ScrollView showsVerticalScrollIndicator={false}>
+        {/* Header */}
+        <TouchableOpacity onPress={() => router.back()} activeOpacity={0.7} className="mb-4">
+          <Text className="text-base font-semibold text-primary">← Back</Text>
+        </TouchableOpacity>
+        <View className="mb-6">
+          <Text className="text-3xl font-bold text-foreground">Workload</Text>
+          <Text className="text-base text-muted mt-1">
+            Teaching load across {department.toUpperCase()} faculty{data?.version ? ` · Routine v${data.version}` : ""}
+          </Text>
+        </View>
+
+        {/* Department */}
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-3">
+          <View className="flex-row gap-2">
+            {departments.map((dept) => renderChip(dept.name, department === dept.code, () => setDepartment(dept.code)))}
+          </View>
+        </ScrollView>
+
+        {/* Sort */}
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-4">
+          <View className="flex-row gap-2">
+            {SORTS.map((s) => renderChip(s.label, sort === s.value, () => setSort(s.value)))}
+            {renderChip(`⚠️ Flagged (${flaggedCount})`, flaggedOnly, () => setFlaggedOnly(!flaggedOnly))}
+          </View>
+        </ScrollView>
+
+        {error ? (
+          <ErrorMessage
+            title="Couldn't Load Workload"
+            message={error.message}
+            suggestion="Workload analytics are for department coordinators; sign in with an admin account."
+          />
+        ) : isLoading ? (
+          <View className="items-center justify-center py-12">
+            <ActivityIndicator size="large" color={colors.primary} />
+            <Text className="text-base text-muted mt-4">Adding up the routine...</Text>
+          </View>
+        ) : !data || data.teachers.length === 0 ? (
+          <EmptyState icon="📊" title="No Teachers" message="No routine has been loaded for this department yet." />
+        ) : (
+          <>
+            {/* Summary */}
+            <View className="flex-row gap-3 mb-4">
+              <View className="flex-1 bg-surface rounded-xl p-4 border border-border items-center">
+                <Text className="text-2xl font-bold text-primary">{data.summary.teachers}</Text>
+                <Text className="text-xs text-muted mt-1">Teachers</Text>
+              </View>
+              <View className="flex-1 bg-surface rounded-xl p-4 border border-border items-center">
+                <Text className="text-2xl font-bold text-primary">{data.summary.medianHours}h</Text>
+                <Text className="text-xs text-muted mt-1">Median / week</Text>
+              </View>
+              <View className="flex-1 bg-surface rounded-xl p-4 border border-border items-center">
+                <Text className={`text-2xl font-bold ${flaggedCount > 0 ? "text-error" : "text-primary"}`}>
+                  {flaggedCount}
+                </Text>
+                <Text className="text-xs text-muted mt-1">Outliers</Text>
+              </View>
+            </View>
+            <Text className="text-xs text-muted mb-4">
+              Flagged above {data.summary.overloadedAbove}h or below {data.summary.underloadedBelow}h a week · mean{" "}
+              {data.summary.meanHours}h
+            </Text>
+
+            {/* Export */}
+            <TouchableOpacity
+              onPress={() => exportCsv(data.fileName, data.csv)}
+              activeOpacity={0.7}
+              className="mb-4 bg-surface rounded-xl border border-border px-4 py-3 flex-row items-center justify-between"
+            >
+              <Text className="text-base font-semibold text-foreground">📤 Export CSV</Text>
+              <Text className="text-muted">›</Text>
+            </TouchableOpacity>
+
+            {/* Teachers */}
+            {teachers.map((t) => (
+              <View
+                key={t.initials}
+                className={`bg-surface rounded-2xl p-4 mb-3 border ${t.outlier ? "border-error" : "border-border"}`}
+              >
+                <View className="flex-row items-center justify-between">
+                  <View className="flex-1 mr-2">
+                    <Text className="text-base font-bold text-foreground">
+                      {t.initials}
+                      {t.fullName ? ` · ${t.fullName}` : ""}
+                    </Text>
+                    <Text className="text-xs text-muted mt-1">
+                      {t.courses.length} course{t.courses.length === 1 ? "" : "s"} · {t.sections.length} section
+                      {t.sections.length === 1 ? "" : "s"} · {t.daysOnCampus} day{t.daysOnCampus === 1 ? "" : "s"}
+                    </Text>
+                  </View>
+                  <Text className={`text-lg font-bold ${t.outlier ? "text-error" : "text-primary"}`}>
+                    {t.weeklyHours}h
+                  </Text>
+                </View>
+
+                {/* Hours relative to the heaviest load */}
+                <View className="h-2 bg-background rounded-full mt-3 overflow-hidden">
+                  <View
+                    className={`h-2 rounded-full ${t.outlier ? "bg-error" : "bg-primary"}`}
+                    style={{ width: `${(t.weeklyHours / maxHours) * 100}%` }}
+                  />
+                </View>
+
+                <Text className="text-xs text-muted mt-2">
+                  {t.longestDay
+                    ? `Longest day: ${t.longestDay.day} ${t.longestDay.firstClass}-${t.longestDay.lastClassEnd} (${t.longestDay.spanHours}h)`
+                    : "No classes"}
+                  {t.backToBack > 0 ? ` · ${t.backToBack} back-to-back` : ""}
+                </Text>
+                {t.outlier && (
+                  <Text className="text-xs font-semibold text-error mt-1">
+                    {t.outlier === "overloaded" ? "⚠️ Well above the department's load" : "⚠️ Well below the department's load"}
+                  </Text>
+                )}
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
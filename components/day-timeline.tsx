@@ -0,0 +1,212 @@
+import { View, Text, ScrollView, TouchableOpacity } from "react-native";
+import { DAYS } from "@/types";
+import {
+  SESSION_BADGES,
+  formatDuration,
+  getCourseColor,
+  isClassOngoing,
+  timeToMinutes,
+  type CalendarDayInfo,
+  type TimetableClass,
+} from "@/lib/schedule";
+
+interface DayTimelineProps {
+  schedule: Record<string, TimetableClass[]>;
+  selectedDay: string;
+  onSelectDay: (day: string) => void;
+  weekDates?: Record<string, number>;
+  /** Academic calendar for each day of the shown week (holidays, day swaps) */
+  calendarDays?: Record<string, CalendarDayInfo>;
+  /** Show the batch_section instead of the teacher (teacher timetables) */
+  showSection?: boolean;
+  onTeacherPress?: (initials: string) => void;
+}
+
+export function DayTimeline({
+  schedule,
+  selectedDay,
+  onSelectDay,
+  weekDates,
+  calendarDays,
+  showSection = false,
+  onTeacherPress,
+}: DayTimelineProps) {
+  const dayInfo = calendarDays?.[selectedDay];
+  // A swapped day runs another weekday's classes; holidays and breaks have none
+  const routineDay = dayInfo ? dayInfo.routineDay : selectedDay;
+  const daySchedules = routineDay ? schedule[routineDay] || [] : [];
+
+  return (
+    <View>
+      {/* Day selector */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-4">
+        <View className="flex-row gap-2">
+          {DAYS.map((day) => {
+            const dateNum = weekDates?.[day];
+            const isHoliday = calendarDays?.[day]?.status === "holiday";
+            return (
+            <TouchableOpacity
+              key={day}
+              onPress={() => onSelectDay(day)}
+              activeOpacity={0.7}
+              className={`px-6 py-3 rounded-xl ${
+                selectedDay === day ? "bg-primary" : "bg-surface border border-border"
+              }`}
+            >
+              <Text
+                className={`text-sm font-semibold ${
+                  selectedDay === day ? "text-background" : "text-foreground"
+                }`}
+              >
+                {day.slice(0, 3)}
+              </Text>
+              {dateNum !== undefined && (
+                <Text
+                  className={`text-sm font-bold mt-1 ${
+                    selectedDay === day ? "text-background opacity-80" : "text-muted"
+                  }`}
+                >
+                  {dateNum}
+                </Text>
+              )}
+              {isHoliday && <Text className="text-xs text-center mt-1">🏖️</Text>}
+            </TouchableOpacity>
+            );
+          })}
+        </View>
+      </ScrollView>
+
+      {dayInfo?.status === "day_swap" && (
+        <View className="bg-primary/20 rounded-2xl p-4 mb-3">
+          <Text className="text-base font-bold text-primary">🔁 {dayInfo.routineDay} classes</Text>
+          <Text className="text-sm text-foreground mt-1">
+            {dayInfo.title || `This ${selectedDay} follows the ${dayInfo.routineDay} routine`}
+          </Text>
+        </View>
+      )}
+
+      {/* Classes */}
+      {dayInfo?.status === "holiday" || dayInfo?.status === "break" ? (
+        <View className="bg-surface rounded-2xl p-6 items-center border border-border">
+          <Text className="text-4xl mb-2">🏖️</Text>
+          <Text className="text-base text-foreground font-medium">
+            No classes – {dayInfo.status === "holiday" ? "Holiday" : "Semester break"}
+          </Text>
+          {dayInfo.title && <Text className="text-sm text-muted mt-1 text-center">{dayInfo.title}</Text>}
+        </View>
+      ) : daySchedules.length === 0 ? (
+        <View className="bg-surface rounded-2xl p-6 items-center border border-border">
+          <Text className="text-4xl mb-2">😴</Text>
+          <Text className="text-base text-foreground font-medium">No Classes</Text>
+          <Text className="text-sm text-muted mt-1">Enjoy your day off!</Text>
+        </View>
+      ) : (
+        [...daySchedules]
+          .sort((a, b) => timeToMinutes(a.timeStart) - timeToMinutes(b.timeStart))
+          .flatMap((schedule, index, array) => {
+            const elements = [];
+            const colors = getCourseColor(schedule.courseCode);
+            const isOngoing = isClassOngoing(schedule.timeStart, schedule.timeEnd, schedule.day);
+
+            // Add class card
+            elements.push(
+          <View
+            key={`class-${index}`}
+            className="bg-surface rounded-2xl p-4 mb-3 border border-border"
+            style={{
+              borderLeftWidth: 4,
+              borderLeftColor: colors.border,
+              borderWidth: isOngoing ? 2 : 0,
+              borderColor: isOngoing ? colors.border : 'transparent'
+            }}
+          >
+            <View className="flex-row items-start justify-between mb-2">
+              <View className="flex-1">
+                <Text className="text-lg font-bold text-foreground">
+                  {schedule.courseName}
+                </Text>
+                <View className="flex-row items-center gap-2 mt-1">
+                  <View className={`${colors.bg} rounded-lg px-2 py-1 self-start`}>
+                    <Text className={`text-xs font-bold ${colors.text}`}>
+                      {schedule.courseCode}
+                    </Text>
+                  </View>
+                  {SESSION_BADGES[schedule.sessionType] && (
+                    <View className="bg-primary/20 rounded-lg px-2 py-1">
+                      <Text className="text-xs font-bold text-primary">{SESSION_BADGES[schedule.sessionType]}</Text>
+                    </View>
+                  )}
+                  {isOngoing && (
+                    <View className="bg-green-500 rounded-full px-2 py-1">
+                      <Text className="text-xs font-bold text-white">▶️ Now</Text>
+                    </View>
+                  )}
+                </View>
+              </View>
+              <View className="bg-primary/20 rounded-full px-3 py-1.5">
+                <Text className="text-sm font-bold text-primary">
+                  {schedule.timeStart} - {schedule.timeEnd}
+                </Text>
+                <Text className="text-xs text-muted text-center">
+                  {formatDuration(timeToMinutes(schedule.timeEnd) - timeToMinutes(schedule.timeStart))}
+                </Text>
+              </View>
+            </View>
+
+            <View className="flex-row items-center gap-4 mt-2">
+              <View className="flex-row items-center">
+                <Text className="text-sm text-muted">📍 {schedule.room}</Text>
+              </View>
+              {!showSection && (
+                <View className="flex-row items-center">
+                  <Text className="text-sm text-muted">👨‍🏫 </Text>
+                  <TouchableOpacity
+                    onPress={() => onTeacherPress?.(schedule.teacher)}
+                    activeOpacity={0.6}
+                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                  >
+                    <Text className="text-sm text-primary font-semibold">
+                      {schedule.teacher}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+
+            <View className="mt-2">
+              <Text className="text-xs text-muted">
+                Section: {schedule.batch}_{schedule.section}
+              </Text>
+            </View>
+          </View>
+            );
+
+            // Check if there's a break before the next class
+            if (index < array.length - 1) {
+              const nextClass = array[index + 1];
+              const currentEndTime = schedule.timeEnd;
+              const nextStartTime = nextClass.timeStart;
+
+              // If there's a gap between classes, add a break card
+              if (currentEndTime !== nextStartTime) {
+                elements.push(
+                  <View
+                    key={`break-${index}`}
+                    className="bg-gray-100 dark:bg-gray-800 rounded-2xl p-4 mb-3 border border-gray-300 dark:border-gray-700 items-center"
+                  >
+                    <Text className="text-2xl mb-1">☕</Text>
+                    <Text className="text-base font-semibold text-gray-600 dark:text-gray-300">Break Time</Text>
+                    <Text className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                      {currentEndTime} - {nextStartTime}
+                    </Text>
+                  </View>
+                );
+              }
+            }
+
+            return elements;
+          })
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,95 @@
+import { View, Text, TouchableOpacity, Switch } from "react-native";
+import { useColors } from "@/hooks/use-colors";
+import { LEAD_TIME_OPTIONS, type ReminderSettings as Settings } from "@/lib/reminders";
+
+interface ReminderSettingsProps {
+  settings: Settings;
+  courses: { code: string; name: string }[];
+  scheduledCount: number;
+  error?: string | null;
+  onUpdate: (changes: Partial<Settings>) => void;
+  onToggleMute: (courseCode: string) => void;
+}
+
+/**
+ * Class reminder controls: on/off, lead time and per-course mute
+ */
+export function ReminderSettings({
+  settings,
+  courses,
+  scheduledCount,
+  error,
+  onUpdate,
+  onToggleMute,
+}: ReminderSettingsProps) {
+  const colors = useColors();
+
+  return (
+    <View className="mb-4 bg-surface rounded-xl border border-border px-4 py-3">
+      <View className="flex-row items-center justify-between">
+        <View className="flex-1">
+          <Text className="text-base font-semibold text-foreground">⏰ Class reminders</Text>
+          {settings.enabled && (
+            <Text className="text-xs text-muted mt-1">
+              {scheduledCount} reminder{scheduledCount === 1 ? "" : "s"} in the next two weeks
+            </Text>
+          )}
+        </View>
+        <Switch
+          value={settings.enabled}
+          onValueChange={(enabled) => onUpdate({ enabled })}
+          trackColor={{ true: colors.primary }}
+        />
+      </View>
+
+      {!!error && <Text className="text-xs text-error mt-2">{error}</Text>}
+
+      {settings.enabled && (
+        <>
+          {/* Lead time */}
+          <Text className="text-xs font-semibold text-muted mt-4 mb-2">REMIND ME BEFORE</Text>
+          <View className="flex-row gap-2">
+            {LEAD_TIME_OPTIONS.map((minutes) => (
+              <TouchableOpacity
+                key={minutes}
+                onPress={() => onUpdate({ leadMinutes: minutes })}
+                activeOpacity={0.7}
+                className={`flex-1 py-2 rounded-lg ${
+                  settings.leadMinutes === minutes ? "bg-primary" : "bg-background border border-border"
+                }`}
+              >
+                <Text
+                  className={`text-center text-sm font-semibold ${
+                    settings.leadMinutes === minutes ? "text-background" : "text-foreground"
+                  }`}
+                >
+                  {minutes} min
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {/* Per-course mute */}
+          <Text className="text-xs font-semibold text-muted mt-4 mb-2">COURSES (TAP TO MUTE)</Text>
+          <View className="flex-row flex-wrap gap-2">
+            {courses.map((course) => {
+              const isMuted = settings.mutedCourses.includes(course.code);
+              return (
+                <TouchableOpacity
+                  key={course.code}
+                  onPress={() => onToggleMute(course.code)}
+                  activeOpacity={0.7}
+                  className={`rounded-lg px-3 py-1.5 ${isMuted ? "bg-background border border-border" : "bg-primary/20"}`}
+                >
+                  <Text className={`text-sm font-semibold ${isMuted ? "text-muted line-through" : "text-primary"}`}>
+                    {isMuted ? "🔕" : "🔔"} {course.code}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
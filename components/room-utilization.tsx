@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { View, Text, ScrollView, TouchableOpacity, ActivityIndicator } from "react-native";
+import { ErrorMessage, EmptyState } from "@/components/error-message";
+import { useColors } from "@/hooks/use-colors";
+import { trpc } from "@/lib/trpc";
+
+const departments = [
+  { code: "all", name: "All" },
+  { code: "cse", name: "CSE" },
+  { code: "eee", name: "EEE" },
+  { code: "swe", name: "SWE" },
+  { code: "ags", name: "AGS" },
+  { code: "ce", name: "CE" },
+  { code: "mct", name: "MCT" },
+  { code: "ice", name: "ICE" },
+  { code: "architecture", name: "Architecture" },
+];
+
+interface HeatmapProps {
+  days: string[];
+  slots: { start: string; end: string }[];
+  grid: number[][]; // [day][slot], 0-100
+  showValues?: boolean;
+}
+
+/**
+ * Days down, slots across; the stronger the colour, the busier the cell
+ */
+function Heatmap({ days, slots, grid, showValues = true }: HeatmapProps) {
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      <View>
+        <View className="flex-row mb-1">
+          <View className="w-12" />
+          {slots.map((slot) => (
+            <View key={slot.start} className="w-14 items-center">
+              <Text className="text-xs text-muted">{slot.start}</Text>
+            </View>
+          ))}
+        </View>
+        {days.map((day, d) => (
+          <View key={day} className="flex-row mb-1">
+            <View className="w-12 justify-center">
+              <Text className="text-xs font-semibold text-foreground">{day.slice(0, 3)}</Text>
+            </View>
+            {slots.map((slot, s) => {
+              const value = grid[d]?.[s] || 0;
+              return (
+                <View key={slot.start} className="w-14 h-9 px-0.5">
+                  <View className="flex-1 rounded-md bg-surface border border-border overflow-hidden items-center justify-center">
+                    <View
+                      className="absolute inset-0 bg-primary"
+                      style={{ opacity: value === 0 ? 0 : 0.15 + (value / 100) * 0.85 }}
+                    />
+                    {showValues && (
+                      <Text className={`text-xs font-semibold ${value >= 60 ? "text-background" : "text-foreground"}`}>
+                        {value}%
+                      </Text>
+                    )}
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
+
+/**
+ * Room utilization: a heatmap per building, then every room by how busy it is, with seat capacity
+ */
+export function RoomUtilization() {
+  const colors = useColors();
+  const [department, setDepartment] = useState("all");
+  const [building, setBuilding] = useState<string | null>(null);
+  const [expandedRoom, setExpandedRoom] = useState<string | null>(null);
+
+  const { data, isLoading, error } = trpc.diu.getRoomUtilization.useQuery({ department });
+
+  const renderChip = (label: string, isActive: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      onPress={onPress}
+      activeOpacity={0.7}
+      className={`px-4 py-2 rounded-xl ${isActive ? "bg-primary" : "bg-surface border border-border"}`}
+    >
+      <Text className={`text-sm font-semibold ${isActive ? "text-background" : "text-foreground"}`}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const selectedBuilding = data?.buildings.find((b) => b.building === building) || data?.buildings[0];
+  const rooms = (data?.rooms || []).filter((r) => r.building === selectedBuilding?.building);
+
+  return (
+    <View>
+      {/* Department */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-3">
+        <View className="flex-row gap-2">
+          {departments.map((dept) =>
+            renderChip(dept.name, department === dept.code, () => {
+              setDepartment(dept.code);
+              setBuilding(null);
+            })
+          )}
+        </View>
+      </ScrollView>
+
+      {error ? (
+        <ErrorMessage title="Couldn't Load Rooms" message={error.message} suggestion="Try again in a moment." />
+      ) : isLoading ? (
+        <View className="items-center justify-center py-12">
+          <ActivityIndicator size="large" color={colors.primary} />
+          <Text className="text-base text-muted mt-4">Counting booked slots...</Text>
+        </View>
+      ) : !data || data.rooms.length === 0 || !selectedBuilding ? (
+        <EmptyState icon="🏢" title="No Rooms" message="No routine has been loaded for this department yet." />
+      ) : (
+        <>
+          {/* Summary */}
+          <View className="flex-row gap-3 mb-4">
+            <View className="flex-1 bg-surface rounded-xl p-4 border border-border items-center">
+              <Text className="text-2xl font-bold text-primary">{data.summary.rooms}</Text>
+              <Text className="text-xs text-muted mt-1">Rooms</Text>
+            </View>
+            <View className="flex-1 bg-surface rounded-xl p-4 border border-border items-center">
+              <Text className="text-2xl font-bold text-primary">{data.summary.utilization}%</Text>
+              <Text className="text-xs text-muted mt-1">Slots booked</Text>
+            </View>
+            <View className="flex-1 bg-surface rounded-xl p-4 border border-border items-center">
+              <Text className="text-2xl font-bold text-primary">{data.summary.totalSeats || "—"}</Text>
+              <Text className="text-xs text-muted mt-1">Known seats</Text>
+            </View>
+          </View>
+
+          {/* Building */}
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-4">
+            <View className="flex-row gap-2">
+              {data.buildings.map((b) =>
+                renderChip(`${b.building} · ${b.utilization}%`, b.building === selectedBuilding.building, () =>
+                  setBuilding(b.building)
+                )
+              )}
+            </View>
+          </ScrollView>
+
+          <View className="bg-surface rounded-2xl p-4 mb-4 border border-border">
+            <Text className="text-base font-bold text-foreground">
+              {selectedBuilding.building}: {selectedBuilding.rooms} rooms ({selectedBuilding.labs} labs)
+            </Text>
+            <Text className="text-xs text-muted mt-1 mb-3">
+              {selectedBuilding.capacity > 0
+                ? `${selectedBuilding.capacity} seats · ${selectedBuilding.seatUtilization}% of seat-slots booked`
+                : "Capacity not set yet"}
+              {selectedBuilding.capacity > 0 && selectedBuilding.roomsWithoutCapacity > 0
+                ? ` · ${selectedBuilding.roomsWithoutCapacity} rooms without capacity`
+                : ""}
+              {selectedBuilding.peak
+                ? ` · Peak ${selectedBuilding.peak.day.slice(0, 3)} ${selectedBuilding.peak.slot} (${selectedBuilding.peak.utilization}%)`
+                : ""}
+            </Text>
+            <Heatmap days={data.days} slots={data.slots} grid={selectedBuilding.grid} />
+          </View>
+
+          {/* Rooms, busiest first */}
+          <Text className="text-sm font-semibold text-foreground mb-3">ROOMS IN {selectedBuilding.building}</Text>
+          {rooms.map((room) => (
+            <TouchableOpacity
+              key={room.code}
+              onPress={() => setExpandedRoom(expandedRoom === room.code ? null : room.code)}
+              activeOpacity={0.7}
+              className="bg-surface rounded-2xl p-4 mb-3 border border-border"
+            >
+              <View className="flex-row items-center justify-between">
+                <View className="flex-row items-center gap-2 flex-1">
+                  <Text className="text-lg font-bold text-foreground">{room.code}</Text>
+                  {room.type === "lab" && (
+                    <View className="bg-primary/20 rounded-lg px-2 py-1">
+                      <Text className="text-xs font-bold text-primary">LAB</Text>
+                    </View>
+                  )}
+                  <Text className="text-xs text-muted">
+                    {room.floor !== null ? `Floor ${room.floor}` : ""}
+                    {room.capacity ? ` · ${room.capacity} seats` : ""}
+                  </Text>
+                </View>
+                <Text className="text-lg font-bold text-primary">{room.utilization}%</Text>
+              </View>
+
+              <View className="h-2 bg-background rounded-full mt-3 overflow-hidden">
+                <View className="h-2 rounded-full bg-primary" style={{ width: `${room.utilization}%` }} />
+              </View>
+
+              {expandedRoom === room.code && (
+                <View className="mt-3">
+                  <Heatmap days={data.days} slots={data.slots} grid={room.grid} showValues={false} />
+                </View>
+              )}
+            </TouchableOpacity>
+          ))}
+        </>
+      )}
+    </View>
+  );
+}
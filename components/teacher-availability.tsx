@@ -0,0 +1,88 @@
+import { View, Text, ActivityIndicator } from "react-native";
+import { useColors } from "@/hooks/use-colors";
+import { trpc } from "@/lib/trpc";
+
+interface TeacherAvailabilityProps {
+  initials: string;
+  department: string;
+  pdfUrl?: string;
+}
+
+const OFF_CAMPUS_REASONS: Record<string, string> = {
+  holiday: "Holiday – no classes today",
+  no_classes: "No classes today",
+  before_classes: "Not in yet",
+  after_classes: "Done for the day",
+};
+
+/**
+ * When a teacher is free to meet: where they are now, plus their free windows and office hours per day
+ */
+export function TeacherAvailability({ initials, department, pdfUrl }: TeacherAvailabilityProps) {
+  const colors = useColors();
+  const { data, isLoading } = trpc.diu.getTeacherAvailability.useQuery(
+    { teacherInitials: initials, department, pdfUrl: pdfUrl || undefined },
+    { enabled: !!initials }
+  );
+
+  if (isLoading) {
+    return (
+      <View className="bg-background rounded-xl p-3 border border-border mt-3 items-center">
+        <ActivityIndicator size="small" color={colors.primary} />
+      </View>
+    );
+  }
+  if (!data) return null;
+
+  const { status } = data;
+  const statusText =
+    status.state === "in_class"
+      ? `📚 In class in ${status.room} until ${status.until}`
+      : status.state === "office_hours"
+        ? `🕐 Office hours${status.room ? ` in ${status.room}` : ""} until ${status.until}`
+        : status.state === "free"
+          ? `🟢 Free${status.room ? ` – ${status.room}` : ""} until ${status.until}`
+          : `🏠 ${OFF_CAMPUS_REASONS[status.reason || "no_classes"]}${status.until ? `, back at ${status.until}` : ""}`;
+
+  const campusDays = data.days.filter((d) => d.onCampus);
+
+  return (
+    <View className="bg-background rounded-xl p-3 border border-border mt-3">
+      <Text className="text-xs text-muted mb-1">🗓️ Availability</Text>
+      <Text className="text-sm font-semibold text-foreground">{statusText}</Text>
+      {data.today.status === "day_swap" && (
+        <Text className="text-xs text-muted mt-1">Today runs the {data.today.routineDay} routine</Text>
+      )}
+
+      {campusDays.length === 0 ? (
+        <Text className="text-xs text-muted mt-2">No classes in this routine</Text>
+      ) : (
+        <View className="mt-2">
+          {campusDays.map((day) => (
+            <View key={day.day} className="flex-row py-1">
+              <Text className="text-xs font-semibold text-foreground w-10">{day.day.slice(0, 3)}</Text>
+              <Text className="text-xs text-foreground flex-1">
+                {day.freeWindows.length === 0
+                  ? day.classes > 0
+                    ? `Classes ${day.firstClass}-${day.lastClassEnd}, no free gap`
+                    : "—"
+                  : day.freeWindows.map((w) => `${w.start}-${w.end}${w.officeHours ? " ⭐" : ""}`).join(", ")}
+              </Text>
+            </View>
+          ))}
+          {campusDays.some((d) => d.officeHours.length > 0) && (
+            <Text className="text-xs text-muted mt-1">⭐ Office hours</Text>
+          )}
+          {campusDays
+            .flatMap((d) => d.officeHours)
+            .filter((h) => h.note)
+            .map((h) => (
+              <Text key={`${h.day}-${h.timeStart}`} className="text-xs text-muted mt-1">
+                {h.note}
+              </Text>
+            ))}
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,90 @@
+import { View, Text, ScrollView, TouchableOpacity } from "react-native";
+import { DAYS } from "@/types";
+import { SESSION_BADGES, WEEK_TIME_SLOTS, getCourseColor, sessionCoversSlot, type TimetableClass } from "@/lib/schedule";
+
+interface WeekGridProps {
+  schedule: Record<string, TimetableClass[]>;
+  weekDates?: Record<string, number>;
+  /** Show the batch_section on each card instead of the teacher (teacher timetables) */
+  showSection?: boolean;
+  onTeacherPress?: (initials: string) => void;
+}
+
+export function WeekGrid({ schedule, weekDates, showSection = false, onTeacherPress }: WeekGridProps) {
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      <View>
+        {/* Header */}
+        <View className="flex-row mb-2">
+          <View className="w-24 h-12 items-center justify-center">
+            <Text className="text-xs font-bold text-muted">DAY</Text>
+          </View>
+          {WEEK_TIME_SLOTS.map((slot) => (
+            <View key={slot} className="w-32 h-12 items-center justify-center border-l border-border">
+              <Text className="text-xs font-semibold text-foreground">{slot}</Text>
+            </View>
+          ))}
+        </View>
+
+        {/* Days */}
+        {DAYS.map((day) => {
+          const daySchedules = schedule[day] || [];
+          return (
+            <View key={day} className="flex-row mb-2">
+              <View className="w-24 h-20 items-center justify-center bg-surface rounded-l-xl border border-border">
+                <Text className="text-sm font-bold text-foreground">{day.slice(0, 3)}</Text>
+                {weekDates && (
+                  <Text className="text-base font-bold text-muted mt-1">{weekDates[day]}</Text>
+                )}
+              </View>
+              {WEEK_TIME_SLOTS.map((slot) => {
+                const classesInSlot = daySchedules.filter((s) => sessionCoversSlot(s, slot));
+                const classInSlot = classesInSlot[0];
+                return (
+                  <View
+                    key={`${day}-${slot}`}
+                    className="w-32 h-20 border-l border-border items-center justify-center bg-surface"
+                  >
+                    {classInSlot ? (() => {
+                      const colors = getCourseColor(classInSlot.courseCode);
+                      return (
+                      <View className={`${colors.bg} rounded-lg p-2 w-full`}>
+                        <Text className="text-xs font-bold" style={{ color: '#FFFFFF' }}>
+                          {classInSlot.courseCode}
+                          {/* Custom routines can put two classes in one slot */}
+                          {classesInSlot.length > 1 ? ` ⚠️ +${classesInSlot.length - 1}` : ""}
+                        </Text>
+                        <Text className="text-xs mt-1" style={{ color: '#FFFFFF', opacity: 0.9 }}>
+                          {SESSION_BADGES[classInSlot.sessionType] ? `${SESSION_BADGES[classInSlot.sessionType]} · ` : ""}
+                          {classInSlot.room}
+                        </Text>
+                        {showSection ? (
+                          <Text className="text-xs" style={{ color: '#FFFFFF', opacity: 0.8 }}>
+                            👥 {classInSlot.batchSection}
+                          </Text>
+                        ) : (
+                          <TouchableOpacity
+                            onPress={() => onTeacherPress?.(classInSlot.teacher)}
+                            activeOpacity={0.6}
+                            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                          >
+                            <Text className="text-xs" style={{ color: '#FFFFFF', opacity: 0.8, textDecorationLine: 'underline' }}>
+                              👨‍🏫 {classInSlot.teacher}
+                            </Text>
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                      );
+                    })() : (
+                      <Text className="text-xs text-muted">—</Text>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+          );
+        })}
+      </View>
+    </ScrollView>
+  );
+}
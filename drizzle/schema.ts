@@ -1,4 +1,4 @@
-import { integer, pgTable, text, timestamp, varchar, serial } from "drizzle-orm/pg-core";
+import { integer, pgTable, real, text, timestamp, varchar, serial, unique } from "drizzle-orm/pg-core";
 
 /**
  * Core user table backing auth flow.
@@ -31,7 +31,7 @@ export type InsertUser = typeof users.$inferInsert;
 export const faculty = pgTable("faculty", {
   id: serial("id").primaryKey(),
   fullName: text("fullName").notNull(),
-  initials: varchar("initials", { length: 10 }).notNull().unique(),
+  initials: varchar("initials", { length: 10 }).notNull(),
   department: varchar("department", { length: 50 }).notNull().default("cse"),
   photoUrl: text("photoUrl"),
   profileUrl: text("profileUrl"),
@@ -39,9 +39,17 @@ export const faculty = pgTable("faculty", {
   phone: varchar("phone", { length: 20 }),
   room: varchar("room", { length: 50 }),
   designation: text("designation"),
+  status: varchar("status", { length: 20 }).notNull().default("active"), // active | departed (gone from the faculty site)
+  listingHash: varchar("listingHash", { length: 64 }), // Listing entry at the last sync; a change triggers a profile refetch
+  profileFetchedAt: timestamp("profileFetchedAt"),
+  lastSeenAt: timestamp("lastSeenAt"), // Last sync that found them on the faculty site
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().notNull(),
-});
+}, (table) => [
+  // Generated initials collide (e.g., two "MB"s), so a faculty member is identified by name;
+  // routine initials are mapped to faculty through facultyAliases
+  unique("faculty_department_fullname_unique").on(table.department, table.fullName),
+]);
 
 export type Faculty = typeof faculty.$inferSelect;
 export type InsertFaculty = typeof faculty.$inferInsert;
@@ -78,9 +86,248 @@ export const classSchedules = pgTable("classSchedules", {
   batchSection: varchar("batchSection", { length: 20 }).notNull(), // e.g., "71_I"
   room: varchar("room", { length: 50 }).notNull(),
   teacher: varchar("teacher", { length: 20 }).notNull(),
+  sessionType: varchar("sessionType", { length: 20 }).notNull().default("theory"), // theory | lab | tutorial
   department: varchar("department", { length: 50 }).notNull().default("cse"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
 export type ClassSchedule = typeof classSchedules.$inferSelect;
 export type InsertClassSchedule = typeof classSchedules.$inferInsert;
+
+/**
+ * Ingestion log written by the noticeboard watcher
+ * status: "ingested" (new routine parsed) | "failed" (discovered but could not be parsed)
+ */
+export const routineIngestions = pgTable("routineIngestions", {
+  id: serial("id").primaryKey(),
+  department: varchar("department", { length: 50 }).notNull(),
+  noticeTitle: text("noticeTitle"),
+  pdfUrl: text("pdfUrl").notNull(),
+  version: varchar("version", { length: 20 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull(),
+  cacheId: integer("cacheId"), // pdfCache row created by this ingestion
+  totalClasses: integer("totalClasses").notNull().default(0),
+  error: text("error"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type RoutineIngestion = typeof routineIngestions.$inferSelect;
+export type InsertRoutineIngestion = typeof routineIngestions.$inferInsert;
+
+/**
+ * Routine change alert subscriptions, one per device (Expo push token)
+ */
+export const pushSubscriptions = pgTable("pushSubscriptions", {
+  id: serial("id").primaryKey(),
+  expoPushToken: varchar("expoPushToken", { length: 255 }).notNull().unique(),
+  department: varchar("department", { length: 50 }).notNull().default("cse"),
+  batchSection: varchar("batchSection", { length: 20 }).notNull(), // e.g., "71_I"
+  teacher: varchar("teacher", { length: 20 }), // Optional: only changes for this teacher's classes
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+export type InsertPushSubscription = typeof pushSubscriptions.$inferInsert;
+
+/**
+ * Course catalog per department, seeded from drizzle/seed/courses.json and edited by admins
+ */
+export const courses = pgTable("courses", {
+  id: serial("id").primaryKey(),
+  department: varchar("department", { length: 50 }).notNull(),
+  code: varchar("code", { length: 20 }).notNull(), // e.g., "CSE112"
+  title: text("title").notNull(),
+  credits: real("credits"), // e.g., 3 or 1.5; null when unknown
+  level: integer("level"),
+  term: integer("term"),
+  prerequisites: text("prerequisites").array().notNull().default([]), // Course codes
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+}, (table) => [
+  // The same code can mean different courses in different departments
+  unique("courses_department_code_unique").on(table.department, table.code),
+]);
+
+export type Course = typeof courses.$inferSelect;
+export type InsertCourse = typeof courses.$inferInsert;
+
+/**
+ * Parsed exam routines (midterm / final), one row per exam routine file
+ */
+export const examRoutines = pgTable("examRoutines", {
+  id: serial("id").primaryKey(),
+  department: varchar("department", { length: 50 }).notNull(),
+  examType: varchar("examType", { length: 20 }).notNull(), // midterm | final
+  title: text("title"), // Notice title, e.g., "CSE Midterm Exam Routine Spring 2026"
+  pdfUrl: text("pdfUrl").notNull(),
+  totalExams: integer("totalExams").notNull().default(0),
+  parsedAt: timestamp("parsedAt").defaultNow().notNull(),
+});
+
+export type ExamRoutine = typeof examRoutines.$inferSelect;
+export type InsertExamRoutine = typeof examRoutines.$inferInsert;
+
+/**
+ * One exam for one batch_section
+ */
+export const examSchedules = pgTable("examSchedules", {
+  id: serial("id").primaryKey(),
+  examRoutineId: integer("examRoutineId").notNull(), // Foreign key to examRoutines
+  department: varchar("department", { length: 50 }).notNull(),
+  examDate: varchar("examDate", { length: 10 }).notNull(), // YYYY-MM-DD
+  day: varchar("day", { length: 20 }).notNull(),
+  timeStart: varchar("timeStart", { length: 10 }).notNull(),
+  timeEnd: varchar("timeEnd", { length: 10 }).notNull(),
+  courseCode: varchar("courseCode", { length: 20 }).notNull(),
+  courseName: text("courseName"),
+  batchSection: varchar("batchSection", { length: 20 }).notNull(), // e.g., "71_I"
+  rooms: text("rooms").array().notNull().default([]), // Seat plan rooms for this section
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type ExamSchedule = typeof examSchedules.$inferSelect;
+export type InsertExamSchedule = typeof examSchedules.$inferInsert;
+
+/**
+ * Noticeboard feed: every notice seen on the DIU noticeboard, routine or not
+ */
+export const notices = pgTable("notices", {
+  id: serial("id").primaryKey(),
+  url: text("url").notNull().unique(), // Notice detail page
+  title: text("title").notNull(),
+  department: varchar("department", { length: 50 }), // Null for university-wide notices
+  category: varchar("category", { length: 20 }).notNull().default("general"), // routine | exam | advising | holiday | result | admission | general
+  noticeDate: varchar("noticeDate", { length: 10 }), // YYYY-MM-DD, when the noticeboard shows one
+  attachments: text("attachments").array().notNull().default([]), // File URLs on the notice page
+  createdAt: timestamp("createdAt").defaultNow().notNull(), // First seen
+});
+
+export type Notice = typeof notices.$inferSelect;
+export type InsertNotice = typeof notices.$inferInsert;
+
+/**
+ * Academic calendar: semester dates set by admins (routine file names only give the term)
+ */
+export const academicSemesters = pgTable("academicSemesters", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 50 }).notNull().unique(), // e.g., "Spring 2026"
+  startDate: varchar("startDate", { length: 10 }).notNull(), // YYYY-MM-DD, first day of classes
+  endDate: varchar("endDate", { length: 10 }).notNull(), // YYYY-MM-DD, last day of classes
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type AcademicSemester = typeof academicSemesters.$inferSelect;
+export type InsertAcademicSemester = typeof academicSemesters.$inferInsert;
+
+/**
+ * Academic calendar exceptions: holidays (no classes) and day swaps (a date runs another weekday's routine)
+ */
+export const calendarEvents = pgTable("calendarEvents", {
+  id: serial("id").primaryKey(),
+  type: varchar("type", { length: 20 }).notNull(), // holiday | day_swap
+  title: text("title").notNull(),
+  startDate: varchar("startDate", { length: 10 }).notNull(), // YYYY-MM-DD
+  endDate: varchar("endDate", { length: 10 }).notNull(), // Same as startDate for one day
+  followsDay: varchar("followsDay", { length: 20 }), // day_swap only: weekday whose routine runs, e.g., "SUNDAY"
+  noticeUrl: text("noticeUrl"), // Set when read from a noticeboard notice
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type CalendarEvent = typeof calendarEvents.$inferSelect;
+export type InsertCalendarEvent = typeof calendarEvents.$inferInsert;
+
+/**
+ * Confirmed mappings from routine teacher initials to faculty records, per department
+ */
+export const facultyAliases = pgTable("facultyAliases", {
+  id: serial("id").primaryKey(),
+  department: varchar("department", { length: 50 }).notNull(),
+  initials: varchar("initials", { length: 10 }).notNull(), // As printed in the routine, e.g., "AST"
+  facultyId: integer("facultyId").notNull(), // Foreign key to faculty
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+}, (table) => [
+  unique("facultyAliases_department_initials_unique").on(table.department, table.initials),
+]);
+
+export type FacultyAlias = typeof facultyAliases.$inferSelect;
+export type InsertFacultyAlias = typeof facultyAliases.$inferInsert;
+
+/**
+ * Faculty sync runs: one row per department per sync, with what changed
+ */
+export const facultySyncRuns = pgTable("facultySyncRuns", {
+  id: serial("id").primaryKey(),
+  department: varchar("department", { length: 50 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull(), // running | completed | failed
+  listed: integer("listed").notNull().default(0), // Faculty on the listing pages
+  added: integer("added").notNull().default(0),
+  updated: integer("updated").notNull().default(0),
+  departed: integer("departed").notNull().default(0),
+  returned: integer("returned").notNull().default(0),
+  profilesFetched: integer("profilesFetched").notNull().default(0),
+  profilesFailed: integer("profilesFailed").notNull().default(0),
+  requests: integer("requests").notNull().default(0), // HTTP requests made, listing pages included
+  error: text("error"),
+  startedAt: timestamp("startedAt").defaultNow().notNull(),
+  finishedAt: timestamp("finishedAt"),
+});
+
+export type FacultySyncRun = typeof facultySyncRuns.$inferSelect;
+export type InsertFacultySyncRun = typeof facultySyncRuns.$inferInsert;
+
+/**
+ * Faculty additions, departures and profile edits found by a sync run
+ */
+export const facultyChanges = pgTable("facultyChanges", {
+  id: serial("id").primaryKey(),
+  syncRunId: integer("syncRunId").notNull(), // Foreign key to facultySyncRuns
+  department: varchar("department", { length: 50 }).notNull(),
+  facultyId: integer("facultyId").notNull(), // Foreign key to faculty
+  fullName: text("fullName").notNull(),
+  changeType: varchar("changeType", { length: 20 }).notNull(), // added | updated | departed | returned
+  fields: text("fields").array().notNull().default([]), // Changed columns, e.g., {"designation","email"}
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type FacultyChange = typeof facultyChanges.$inferSelect;
+export type InsertFacultyChange = typeof facultyChanges.$inferInsert;
+
+/**
+ * Office hours a teacher keeps, shown on top of the free windows their routine leaves
+ */
+export const officeHours = pgTable("officeHours", {
+  id: serial("id").primaryKey(),
+  facultyId: integer("facultyId").notNull(), // Foreign key to faculty
+  day: varchar("day", { length: 20 }).notNull(), // Uppercase, e.g., "SUNDAY"
+  timeStart: varchar("timeStart", { length: 10 }).notNull(), // Routine time, e.g., "02:30"
+  timeEnd: varchar("timeEnd", { length: 10 }).notNull(),
+  room: varchar("room", { length: 50 }), // Defaults to the faculty office room
+  note: text("note"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type OfficeHour = typeof officeHours.$inferSelect;
+export type InsertOfficeHour = typeof officeHours.$inferInsert;
+
+/**
+ * Rooms seen in parsed routines, with the details admins add (capacity)
+ */
+export const rooms = pgTable("rooms", {
+  id: serial("id").primaryKey(),
+  code: varchar("code", { length: 50 }).notNull().unique(), // Normalized, e.g., "KT-222"
+  building: varchar("building", { length: 20 }).notNull(), // e.g., "KT", "G1"
+  floor: integer("floor"), // From the room number (KT-222 -> 2), null if it has none
+  type: varchar("type", { length: 20 }).notNull().default("theory"), // theory | lab
+  capacity: integer("capacity"), // Seats, set by an admin
+  departments: text("departments").array().notNull().default([]), // Departments whose routines use the room
+  lastSeenAt: timestamp("lastSeenAt").defaultNow().notNull(), // Last routine that used the room
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type Room = typeof rooms.$inferSelect;
+export type InsertRoom = typeof rooms.$inferInsert;
@@ -0,0 +1,23 @@
+import { useMemo } from "react";
+import { trpc } from "@/lib/trpc";
+import type { CalendarDayInfo } from "@/lib/schedule";
+
+/**
+ * Holidays, day swaps and semester breaks for the coming weeks, keyed by YYYY-MM-DD.
+ * Without a calendar every day runs its own weekday's routine.
+ */
+export function useAcademicCalendar(days: number = 21) {
+  const { data } = trpc.diu.getAcademicCalendar.useQuery({ days }, { staleTime: 60 * 60 * 1000 });
+
+  const calendarDays = useMemo(() => {
+    const byDate: Record<string, CalendarDayInfo> = {};
+    for (const day of data?.days || []) byDate[day.date] = day;
+    return byDate;
+  }, [data]);
+
+  return {
+    calendarDays,
+    today: data ? calendarDays[data.today] : undefined,
+    semester: data?.semester || null,
+  };
+}
@@ -0,0 +1,81 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useCallback, useEffect, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { getExpoPushToken } from "@/lib/notifications";
+
+const ALERTS_STORAGE_KEY = "change_alerts";
+
+type ChangeAlertSubscription = {
+  department: string;
+  batchSection: string;
+  expoPushToken: string;
+};
+
+/**
+ * Push alerts when a new routine version changes the subscribed batch_section.
+ * The subscription lives on the server; the device remembers what it subscribed to.
+ */
+export function useChangeAlerts() {
+  const [subscription, setSubscription] = useState<ChangeAlertSubscription | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const subscribeMutation = trpc.diu.subscribeToChanges.useMutation();
+  const unsubscribeMutation = trpc.diu.unsubscribeFromChanges.useMutation();
+
+  useEffect(() => {
+    AsyncStorage.getItem(ALERTS_STORAGE_KEY)
+      .then((saved) => saved && setSubscription(JSON.parse(saved)))
+      .catch((err) => console.error("Failed to load change alerts:", err));
+  }, []);
+
+  const isSubscribed = useCallback(
+    (department: string, batchSection: string) =>
+      !!subscription &&
+      subscription.department === department &&
+      subscription.batchSection.toUpperCase() === batchSection.toUpperCase(),
+    [subscription]
+  );
+
+  const subscribe = useCallback(
+    async (department: string, batchSection: string) => {
+      setIsUpdating(true);
+      setError(null);
+      try {
+        const expoPushToken = await getExpoPushToken();
+        if (!expoPushToken) {
+          setError("Allow notifications in your device settings to get change alerts.");
+          return;
+        }
+
+        await subscribeMutation.mutateAsync({ expoPushToken, department, batchSection });
+        const saved = { department, batchSection, expoPushToken };
+        await AsyncStorage.setItem(ALERTS_STORAGE_KEY, JSON.stringify(saved));
+        setSubscription(saved);
+      } catch (err: any) {
+        setError(err.message);
+      } finally {
+        setIsUpdating(false);
+      }
+    },
+    [subscribeMutation]
+  );
+
+  const unsubscribe = useCallback(async () => {
+    if (!subscription) return;
+
+    setIsUpdating(true);
+    setError(null);
+    try {
+      await unsubscribeMutation.mutateAsync({ expoPushToken: subscription.expoPushToken });
+      await AsyncStorage.removeItem(ALERTS_STORAGE_KEY);
+      setSubscription(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [subscription, unsubscribeMutation]);
+
+  return { subscription, isSubscribed, subscribe, unsubscribe, isUpdating, error };
+}
@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ensureNotificationPermission } from "@/lib/notifications";
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  loadReminderSettings,
+  saveReminderSettings,
+  scheduleClassReminders,
+  type ReminderSettings,
+} from "@/lib/reminders";
+import type { CalendarDayInfo, TimetableClass } from "@/lib/schedule";
+
+// The previous value while its key is unchanged, so effects only rerun when the contents change
+function useKeyedMemo<T>(value: T, key: string): T {
+  const memo = useRef({ key, value });
+  if (memo.current.key !== key) memo.current = { key, value };
+  return memo.current.value;
+}
+
+/**
+ * Local notifications before each class of the given schedule.
+ * Reminders are rescheduled whenever the schedule, routine version, academic calendar or settings change.
+ */
+export function useClassReminders(
+  schedule: Record<string, TimetableClass[]> | undefined,
+  routineVersion?: string,
+  calendarDays: Record<string, CalendarDayInfo> = {}
+) {
+  const [settings, setSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+  const [hasLoadedSettings, setHasLoadedSettings] = useState(false);
+  const [scheduledCount, setScheduledCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  // Runs cancel and reschedule everything, so they go one at a time; a run superseded while waiting is skipped
+  const lastRun = useRef<Promise<void>>(Promise.resolve());
+  const latestRunId = useRef(0);
+
+  useEffect(() => {
+    loadReminderSettings()
+      .then(setSettings)
+      .catch((err) => console.error("Failed to load reminder settings:", err))
+      .finally(() => setHasLoadedSettings(true));
+  }, []);
+
+  // Keyed by contents so a refetch returning the same classes doesn't reschedule
+  const scheduleKey = schedule
+    ? JSON.stringify(
+        Object.entries(schedule).map(([day, classes]) => [
+          day,
+          classes.map((c) => `${c.courseCode}|${c.timeStart}|${c.room}|${c.teacher}`),
+        ])
+      )
+    : "";
+  const calendarKey = JSON.stringify(
+    Object.values(calendarDays)
+      .filter((d) => d.status !== "classes")
+      .map((d) => `${d.date}|${d.routineDay}`)
+  );
+  const stableSchedule = useKeyedMemo(schedule, scheduleKey);
+  const stableCalendarDays = useKeyedMemo(calendarDays, calendarKey);
+
+  useEffect(() => {
+    if (!hasLoadedSettings || !stableSchedule) return;
+
+    const runId = ++latestRunId.current;
+    lastRun.current = lastRun.current.then(async () => {
+      if (runId !== latestRunId.current) return;
+      try {
+        setScheduledCount(await scheduleClassReminders(stableSchedule, settings, stableCalendarDays));
+      } catch (err: any) {
+        console.error("Failed to schedule class reminders:", err);
+        setError(err.message);
+      }
+    });
+  }, [hasLoadedSettings, stableSchedule, stableCalendarDays, routineVersion, settings]);
+
+  const updateSettings = useCallback(
+    async (changes: Partial<ReminderSettings>) => {
+      setError(null);
+      if (changes.enabled && !(await ensureNotificationPermission())) {
+        setError("Allow notifications in your device settings to get class reminders.");
+        return;
+      }
+
+      const next = { ...settings, ...changes };
+      setSettings(next);
+      await saveReminderSettings(next);
+    },
+    [settings]
+  );
+
+  const toggleCourseMute = useCallback(
+    (courseCode: string) =>
+      updateSettings({
+        mutedCourses: settings.mutedCourses.includes(courseCode)
+          ? settings.mutedCourses.filter((code) => code !== courseCode)
+          : [...settings.mutedCourses, courseCode],
+      }),
+    [settings, updateSettings]
+  );
+
+  return { settings, updateSettings, toggleCourseMute, scheduledCount, error };
+}
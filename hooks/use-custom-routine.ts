@@ -0,0 +1,51 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useCallback, useEffect, useState } from "react";
+
+export type CourseSelection = {
+  courseCode: string;
+  batchSection: string;
+};
+
+const storageKey = (department: string) => `custom_routine_${department}`;
+
+/**
+ * Course + section picks for the custom routine, remembered per department
+ */
+export function useCustomRoutine(department: string) {
+  const [selections, setSelections] = useState<CourseSelection[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    setIsLoaded(false);
+    AsyncStorage.getItem(storageKey(department))
+      .then((saved) => setSelections(saved ? JSON.parse(saved) : []))
+      .catch((err) => console.error("Failed to load custom routine:", err))
+      .finally(() => setIsLoaded(true));
+  }, [department]);
+
+  const save = useCallback(
+    (next: CourseSelection[]) => {
+      setSelections(next);
+      AsyncStorage.setItem(storageKey(department), JSON.stringify(next)).catch((err) =>
+        console.error("Failed to save custom routine:", err)
+      );
+    },
+    [department]
+  );
+
+  // One section per course: picking another section replaces the old one
+  const select = useCallback(
+    (courseCode: string, batchSection: string) =>
+      save([...selections.filter((s) => s.courseCode !== courseCode), { courseCode, batchSection }]),
+    [selections, save]
+  );
+
+  const remove = useCallback(
+    (courseCode: string) => save(selections.filter((s) => s.courseCode !== courseCode)),
+    [selections, save]
+  );
+
+  const clear = useCallback(() => save([]), [save]);
+
+  return { selections, isLoaded, select, remove, clear, replace: save };
+}
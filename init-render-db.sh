@@ -23,7 +23,7 @@ CREATE TABLE IF NOT EXISTS users (
 CREATE TABLE IF NOT EXISTS faculty (
   id SERIAL PRIMARY KEY,
   "fullName" TEXT NOT NULL,
-  initials VARCHAR(10) NOT NULL UNIQUE,
+  initials VARCHAR(10) NOT NULL,
   department VARCHAR(50) DEFAULT 'cse' NOT NULL,
   "photoUrl" TEXT,
   "profileUrl" TEXT,
@@ -31,9 +31,24 @@ CREATE TABLE IF NOT EXISTS faculty (
   phone VARCHAR(20),
   room VARCHAR(50),
   designation TEXT,
+  status VARCHAR(20) DEFAULT 'active' NOT NULL,
+  "listingHash" VARCHAR(64),
+  "profileFetchedAt" TIMESTAMP,
+  "lastSeenAt" TIMESTAMP,
   "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
   "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
 );
+ALTER TABLE faculty ADD COLUMN IF NOT EXISTS status VARCHAR(20) DEFAULT 'active' NOT NULL;
+ALTER TABLE faculty ADD COLUMN IF NOT EXISTS "listingHash" VARCHAR(64);
+ALTER TABLE faculty ADD COLUMN IF NOT EXISTS "profileFetchedAt" TIMESTAMP;
+ALTER TABLE faculty ADD COLUMN IF NOT EXISTS "lastSeenAt" TIMESTAMP;
+
+-- Generated initials collide, so faculty are unique by name within a department
+-- (routine initials are mapped through facultyAliases)
+ALTER TABLE faculty DROP CONSTRAINT IF EXISTS faculty_initials_key;
+ALTER TABLE faculty DROP CONSTRAINT IF EXISTS faculty_initials_unique;
+DROP INDEX IF EXISTS faculty_department_initials_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS faculty_department_fullname_unique ON faculty(department, "fullName");
 
 -- Create pdfCache table
 CREATE TABLE IF NOT EXISTS "pdfCache" (
@@ -60,18 +75,201 @@ CREATE TABLE IF NOT EXISTS "classSchedules" (
   "batchSection" VARCHAR(20) NOT NULL,
   room VARCHAR(50) NOT NULL,
   teacher VARCHAR(20) NOT NULL,
+  "sessionType" VARCHAR(20) DEFAULT 'theory' NOT NULL,
+  department VARCHAR(50) DEFAULT 'cse' NOT NULL,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+ALTER TABLE "classSchedules" ADD COLUMN IF NOT EXISTS "sessionType" VARCHAR(20) DEFAULT 'theory' NOT NULL;
+
+-- Create routineIngestions table (noticeboard watcher log)
+CREATE TABLE IF NOT EXISTS "routineIngestions" (
+  id SERIAL PRIMARY KEY,
+  department VARCHAR(50) NOT NULL,
+  "noticeTitle" TEXT,
+  "pdfUrl" TEXT NOT NULL,
+  version VARCHAR(20) NOT NULL,
+  status VARCHAR(20) NOT NULL,
+  "cacheId" INTEGER,
+  "totalClasses" INTEGER DEFAULT 0 NOT NULL,
+  error TEXT,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Create pushSubscriptions table (routine change alerts)
+CREATE TABLE IF NOT EXISTS "pushSubscriptions" (
+  id SERIAL PRIMARY KEY,
+  "expoPushToken" VARCHAR(255) NOT NULL UNIQUE,
   department VARCHAR(50) DEFAULT 'cse' NOT NULL,
+  "batchSection" VARCHAR(20) NOT NULL,
+  teacher VARCHAR(20),
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Create courses table (course catalog, seeded by the server on first use)
+CREATE TABLE IF NOT EXISTS courses (
+  id SERIAL PRIMARY KEY,
+  department VARCHAR(50) NOT NULL,
+  code VARCHAR(20) NOT NULL,
+  title TEXT NOT NULL,
+  credits REAL,
+  level INTEGER,
+  term INTEGER,
+  prerequisites TEXT[] DEFAULT '{}' NOT NULL,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT courses_department_code_unique UNIQUE (department, code)
+);
+
+-- Create examRoutines table (midterm / final exam routines)
+CREATE TABLE IF NOT EXISTS "examRoutines" (
+  id SERIAL PRIMARY KEY,
+  department VARCHAR(50) NOT NULL,
+  "examType" VARCHAR(20) NOT NULL,
+  title TEXT,
+  "pdfUrl" TEXT NOT NULL,
+  "totalExams" INTEGER DEFAULT 0 NOT NULL,
+  "parsedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Create examSchedules table
+CREATE TABLE IF NOT EXISTS "examSchedules" (
+  id SERIAL PRIMARY KEY,
+  "examRoutineId" INTEGER NOT NULL,
+  department VARCHAR(50) NOT NULL,
+  "examDate" VARCHAR(10) NOT NULL,
+  day VARCHAR(20) NOT NULL,
+  "timeStart" VARCHAR(10) NOT NULL,
+  "timeEnd" VARCHAR(10) NOT NULL,
+  "courseCode" VARCHAR(20) NOT NULL,
+  "courseName" TEXT,
+  "batchSection" VARCHAR(20) NOT NULL,
+  rooms TEXT[] DEFAULT '{}' NOT NULL,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Create notices table (noticeboard feed)
+CREATE TABLE IF NOT EXISTS notices (
+  id SERIAL PRIMARY KEY,
+  url TEXT NOT NULL UNIQUE,
+  title TEXT NOT NULL,
+  department VARCHAR(50),
+  category VARCHAR(20) DEFAULT 'general' NOT NULL,
+  "noticeDate" VARCHAR(10),
+  attachments TEXT[] DEFAULT '{}' NOT NULL,
   "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL
 );
 
+-- Create academicSemesters table (academic calendar)
+CREATE TABLE IF NOT EXISTS "academicSemesters" (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(50) NOT NULL UNIQUE,
+  "startDate" VARCHAR(10) NOT NULL,
+  "endDate" VARCHAR(10) NOT NULL,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Create calendarEvents table (holidays and day swaps)
+CREATE TABLE IF NOT EXISTS "calendarEvents" (
+  id SERIAL PRIMARY KEY,
+  type VARCHAR(20) NOT NULL,
+  title TEXT NOT NULL,
+  "startDate" VARCHAR(10) NOT NULL,
+  "endDate" VARCHAR(10) NOT NULL,
+  "followsDay" VARCHAR(20),
+  "noticeUrl" TEXT,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Create facultyAliases table (routine initials -> faculty)
+CREATE TABLE IF NOT EXISTS "facultyAliases" (
+  id SERIAL PRIMARY KEY,
+  department VARCHAR(50) NOT NULL,
+  initials VARCHAR(10) NOT NULL,
+  "facultyId" INTEGER NOT NULL,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT "facultyAliases_department_initials_unique" UNIQUE (department, initials)
+);
+
+-- Create facultySyncRuns table (faculty sync report)
+CREATE TABLE IF NOT EXISTS "facultySyncRuns" (
+  id SERIAL PRIMARY KEY,
+  department VARCHAR(50) NOT NULL,
+  status VARCHAR(20) NOT NULL,
+  listed INTEGER DEFAULT 0 NOT NULL,
+  added INTEGER DEFAULT 0 NOT NULL,
+  updated INTEGER DEFAULT 0 NOT NULL,
+  departed INTEGER DEFAULT 0 NOT NULL,
+  returned INTEGER DEFAULT 0 NOT NULL,
+  "profilesFetched" INTEGER DEFAULT 0 NOT NULL,
+  "profilesFailed" INTEGER DEFAULT 0 NOT NULL,
+  requests INTEGER DEFAULT 0 NOT NULL,
+  error TEXT,
+  "startedAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "finishedAt" TIMESTAMP
+);
+
+-- Create facultyChanges table (what each faculty sync found)
+CREATE TABLE IF NOT EXISTS "facultyChanges" (
+  id SERIAL PRIMARY KEY,
+  "syncRunId" INTEGER NOT NULL,
+  department VARCHAR(50) NOT NULL,
+  "facultyId" INTEGER NOT NULL,
+  "fullName" TEXT NOT NULL,
+  "changeType" VARCHAR(20) NOT NULL,
+  fields TEXT[] DEFAULT '{}' NOT NULL,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Create officeHours table (teacher-maintained office hours)
+CREATE TABLE IF NOT EXISTS "officeHours" (
+  id SERIAL PRIMARY KEY,
+  "facultyId" INTEGER NOT NULL,
+  day VARCHAR(20) NOT NULL,
+  "timeStart" VARCHAR(10) NOT NULL,
+  "timeEnd" VARCHAR(10) NOT NULL,
+  room VARCHAR(50),
+  note TEXT,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Create rooms table (auto-discovered from routines)
+CREATE TABLE IF NOT EXISTS rooms (
+  id SERIAL PRIMARY KEY,
+  code VARCHAR(50) NOT NULL UNIQUE,
+  building VARCHAR(20) NOT NULL,
+  floor INTEGER,
+  type VARCHAR(20) DEFAULT 'theory' NOT NULL,
+  capacity INTEGER,
+  departments TEXT[] DEFAULT '{}' NOT NULL,
+  "lastSeenAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
 -- Create indexes for better query performance
 CREATE INDEX IF NOT EXISTS idx_faculty_initials ON faculty(initials);
 CREATE INDEX IF NOT EXISTS idx_faculty_department ON faculty(department);
+CREATE INDEX IF NOT EXISTS idx_facultyaliases_facultyid ON "facultyAliases"("facultyId");
+CREATE INDEX IF NOT EXISTS idx_facultysyncruns_department ON "facultySyncRuns"(department, "startedAt");
+CREATE INDEX IF NOT EXISTS idx_facultychanges_syncrunid ON "facultyChanges"("syncRunId");
+CREATE INDEX IF NOT EXISTS idx_officehours_facultyid ON "officeHours"("facultyId");
+CREATE INDEX IF NOT EXISTS idx_rooms_building ON rooms(building);
 CREATE INDEX IF NOT EXISTS idx_pdfcache_department ON "pdfCache"(department);
 CREATE INDEX IF NOT EXISTS idx_classschedules_cacheid ON "classSchedules"("cacheId");
 CREATE INDEX IF NOT EXISTS idx_classschedules_batchsection ON "classSchedules"("batchSection");
 CREATE INDEX IF NOT EXISTS idx_classschedules_teacher ON "classSchedules"(teacher);
 CREATE INDEX IF NOT EXISTS idx_classschedules_room ON "classSchedules"(room);
+CREATE INDEX IF NOT EXISTS idx_routineingestions_department ON "routineIngestions"(department);
+CREATE INDEX IF NOT EXISTS idx_pushsubscriptions_department ON "pushSubscriptions"(department);
+CREATE INDEX IF NOT EXISTS idx_examroutines_department ON "examRoutines"(department);
+CREATE INDEX IF NOT EXISTS idx_examschedules_routineid ON "examSchedules"("examRoutineId");
+CREATE INDEX IF NOT EXISTS idx_notices_department ON notices(department);
+CREATE INDEX IF NOT EXISTS idx_calendarevents_startdate ON "calendarEvents"("startDate");
+CREATE INDEX IF NOT EXISTS idx_notices_title_search ON notices USING GIN (to_tsvector('english', title));
 
 -- Verify tables were created
 SELECT 
@@ -79,10 +277,10 @@ SELECT
   (SELECT COUNT(*) FROM information_schema.columns WHERE table_name = t.table_name) as column_count
 FROM information_schema.tables t
 WHERE table_schema = 'public'
-  AND table_name IN ('users', 'faculty', 'pdfCache', 'classSchedules')
+  AND table_name IN ('users', 'faculty', 'pdfCache', 'classSchedules', 'routineIngestions', 'pushSubscriptions', 'courses', 'examRoutines', 'examSchedules', 'notices', 'academicSemesters', 'calendarEvents', 'facultyAliases', 'facultySyncRuns', 'facultyChanges', 'officeHours', 'rooms')
 ORDER BY table_name;
 EOF
 
 echo ""
 echo "✅ Database initialization complete!"
-echo "Tables created: users, faculty, pdfCache, classSchedules"
+echo "Tables created: users, faculty, pdfCache, classSchedules, routineIngestions, pushSubscriptions, courses, examRoutines, examSchedules, notices, academicSemesters, calendarEvents, facultyAliases, facultySyncRuns, facultyChanges, officeHours, rooms"
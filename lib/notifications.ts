@@ -0,0 +1,67 @@
+import * as Notifications from "expo-notifications";
+import Constants from "expo-constants";
+import { Platform } from "react-native";
+
+export const ROUTINE_CHANGES_CHANNEL = "routine-changes";
+export const CLASS_REMINDERS_CHANNEL = "class-reminders";
+
+/**
+ * Show notifications while the app is open and set up the Android channels.
+ * Call once from the root layout.
+ */
+export function configureNotifications() {
+  if (Platform.OS === "web") return;
+
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+
+  if (Platform.OS === "android") {
+    const channels = [
+      { id: ROUTINE_CHANGES_CHANNEL, name: "Routine changes" },
+      { id: CLASS_REMINDERS_CHANNEL, name: "Class reminders" },
+    ];
+    for (const channel of channels) {
+      Notifications.setNotificationChannelAsync(channel.id, {
+        name: channel.name,
+        importance: Notifications.AndroidImportance.HIGH,
+      }).catch((error) => console.error("[notifications] Failed to create channel:", error));
+    }
+  }
+}
+
+/**
+ * Ask for notification permission if needed
+ * Returns false when the user declined or the platform has no notifications (web)
+ */
+export async function ensureNotificationPermission(): Promise<boolean> {
+  if (Platform.OS === "web") return false;
+
+  const { status } = await Notifications.getPermissionsAsync();
+  if (status === "granted") return true;
+
+  const { status: requested } = await Notifications.requestPermissionsAsync();
+  return requested === "granted";
+}
+
+/**
+ * Get this device's Expo push token, asking for permission if needed
+ * Returns null on web, in simulators, or when permission is denied
+ */
+export async function getExpoPushToken(): Promise<string | null> {
+  try {
+    if (!(await ensureNotificationPermission())) return null;
+
+    const projectId = Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+    const { data } = await Notifications.getExpoPushTokenAsync(projectId ? { projectId } : undefined);
+    return data;
+  } catch (error) {
+    console.error("[notifications] Failed to get push token:", error);
+    return null;
+  }
+}
@@ -0,0 +1,131 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Notifications from "expo-notifications";
+import { Platform } from "react-native";
+import { timeToMinutes, toDateKey, type CalendarDayInfo, type TimetableClass } from "@/lib/schedule";
+import { CLASS_REMINDERS_CHANNEL } from "@/lib/notifications";
+
+const SETTINGS_STORAGE_KEY = "reminder_settings";
+const REMINDER_KIND = "class-reminder";
+
+// iOS keeps at most 64 pending notifications, so only the next two weeks are scheduled,
+// and no more than 64 reminders of them. Opening the app reschedules and moves the window forward.
+const SCHEDULE_WINDOW_DAYS = 14;
+const MAX_PENDING_REMINDERS = 64;
+
+export const LEAD_TIME_OPTIONS = [5, 10, 15, 30];
+
+export interface ReminderSettings {
+  enabled: boolean;
+  leadMinutes: number;
+  mutedCourses: string[]; // Course codes, e.g. "CSE112"
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  leadMinutes: 10,
+  mutedCourses: [],
+};
+
+export interface PlannedReminder {
+  date: Date;
+  title: string;
+  body: string;
+  courseCode: string;
+}
+
+export async function loadReminderSettings(): Promise<ReminderSettings> {
+  const saved = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
+  return saved ? { ...DEFAULT_REMINDER_SETTINGS, ...JSON.parse(saved) } : DEFAULT_REMINDER_SETTINGS;
+}
+
+export async function saveReminderSettings(settings: ReminderSettings): Promise<void> {
+  await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Turn the weekly schedule (keyed by DAYS, Saturday first) into reminders on real dates.
+ * Routine times are read on the device clock, i.e. the student is assumed to be in Dhaka.
+ * Dates in `calendar` (keyed YYYY-MM-DD) skip holidays and follow day swaps.
+ * Only the soonest 64 reminders are kept.
+ */
+export function planClassReminders(
+  schedule: Record<string, TimetableClass[]>,
+  settings: ReminderSettings,
+  from: Date = new Date(),
+  windowDays: number = SCHEDULE_WINDOW_DAYS,
+  calendar: Record<string, CalendarDayInfo> = {}
+): PlannedReminder[] {
+  const weekdayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+  const reminders: PlannedReminder[] = [];
+
+  for (let offset = 0; offset < windowDays; offset++) {
+    const date = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset);
+    const calendarDay = calendar[toDateKey(date)];
+    const routineDay = calendarDay ? calendarDay.routineDay : weekdayNames[date.getDay()];
+    const classes = routineDay ? schedule[routineDay] || [] : [];
+
+    for (const c of classes) {
+      if (settings.mutedCourses.includes(c.courseCode)) continue;
+
+      const fireAt = new Date(date);
+      fireAt.setMinutes(timeToMinutes(c.timeStart) - settings.leadMinutes);
+      if (fireAt <= from) continue;
+
+      reminders.push({
+        date: fireAt,
+        title: `${c.courseCode} in ${settings.leadMinutes} min`,
+        body: `${c.courseName} · 📍 ${c.room} · 👨‍🏫 ${c.teacher} · ${c.timeStart}-${c.timeEnd}`,
+        courseCode: c.courseCode,
+      });
+    }
+  }
+
+  return reminders.sort((a, b) => a.date.getTime() - b.date.getTime()).slice(0, MAX_PENDING_REMINDERS);
+}
+
+/**
+ * Cancel every class reminder this app scheduled (other notifications are left alone)
+ */
+export async function cancelClassReminders(): Promise<void> {
+  if (Platform.OS === "web") return;
+
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter((n) => n.content.data?.kind === REMINDER_KIND)
+      .map((n) => Notifications.cancelScheduledNotificationAsync(n.identifier))
+  );
+}
+
+/**
+ * Replace all class reminders with ones for the given schedule
+ * Returns the number of reminders scheduled
+ */
+export async function scheduleClassReminders(
+  schedule: Record<string, TimetableClass[]>,
+  settings: ReminderSettings,
+  calendar: Record<string, CalendarDayInfo> = {}
+): Promise<number> {
+  if (Platform.OS === "web") return 0;
+
+  await cancelClassReminders();
+  if (!settings.enabled) return 0;
+
+  const reminders = planClassReminders(schedule, settings, new Date(), SCHEDULE_WINDOW_DAYS, calendar);
+  for (const reminder of reminders) {
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: reminder.title,
+        body: reminder.body,
+        data: { kind: REMINDER_KIND, courseCode: reminder.courseCode },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: reminder.date,
+        channelId: CLASS_REMINDERS_CHANNEL,
+      },
+    });
+  }
+
+  return reminders.length;
+}
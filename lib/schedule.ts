@@ -0,0 +1,157 @@
+import { DAYS } from "@/types";
+import { timeToMinutes } from "@/shared/routine-time";
+
+export { timeToMinutes };
+
+export type SessionType = "theory" | "lab" | "tutorial";
+
+/**
+ * Class shape returned by the diu router (see server/services/routine-query.ts)
+ */
+export interface TimetableClass {
+  day: string;
+  timeStart: string;
+  timeEnd: string;
+  courseCode: string;
+  courseName: string;
+  batch: string;
+  section: string;
+  batchSection: string;
+  room: string;
+  teacher: string;
+  sessionType: SessionType;
+}
+
+export const WEEK_TIME_SLOTS = ["08:30-10:00", "10:00-11:30", "11:30-01:00", "01:00-02:30", "02:30-04:00"];
+
+/**
+ * Whether a session runs during a "08:30-10:00" slot (labs run through two)
+ */
+export const sessionCoversSlot = (session: { timeStart: string; timeEnd: string }, slot: string) => {
+  const slotStart = timeToMinutes(slot.split("-")[0]);
+  return timeToMinutes(session.timeStart) <= slotStart && slotStart < timeToMinutes(session.timeEnd);
+};
+
+/**
+ * Format a duration in minutes as "3h" / "1h 30m"
+ */
+export const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+/**
+ * Badge for non-theory sessions
+ */
+export const SESSION_BADGES: Record<SessionType, string | null> = {
+  theory: null,
+  lab: "🧪 Lab",
+  tutorial: "✏️ Tutorial",
+};
+
+/**
+ * Academic calendar day returned by the diu router (see server/services/academic-calendar.ts)
+ */
+export interface CalendarDayInfo {
+  date: string; // YYYY-MM-DD
+  weekday: string;
+  routineDay: string | null; // Weekday whose classes run, null on holidays and breaks
+  status: "classes" | "holiday" | "day_swap" | "break";
+  title?: string;
+  semester?: string;
+}
+
+/**
+ * A local date as YYYY-MM-DD, the calendar's date key
+ */
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+/**
+ * Dates of the upcoming academic week (Saturday first)
+ */
+const getUpcomingWeek = () => {
+  const today = new Date();
+  const currentDay = today.getDay(); // 0 = Sunday, 6 = Saturday
+  const saturday = new Date(today);
+  // Find the upcoming Saturday (start of next academic week)
+  // Always show the next Saturday onwards for future planning
+  if (currentDay === 6) {
+    // Today is Saturday, use today
+  } else {
+    // Go forward to next Saturday
+    // Sunday (0) -> forward 6 days, Monday (1) -> forward 5 days, ..., Friday (5) -> forward 1 day
+    const daysToGoForward = currentDay === 0 ? 6 : 6 - currentDay;
+    saturday.setDate(today.getDate() + daysToGoForward);
+  }
+
+  const dates: Record<string, Date> = {};
+  DAYS.forEach((day, index) => {
+    const date = new Date(saturday);
+    date.setDate(saturday.getDate() + index);
+    dates[day] = date;
+  });
+  return dates;
+};
+
+/**
+ * Get the date number for each day of the upcoming academic week (Saturday first)
+ */
+export const getWeekDates = () => {
+  const dates: Record<string, number> = {};
+  Object.entries(getUpcomingWeek()).forEach(([day, date]) => {
+    dates[day] = date.getDate();
+  });
+  return dates;
+};
+
+/**
+ * Get the YYYY-MM-DD date of each day of the upcoming academic week, for calendar lookups
+ */
+export const getWeekDateKeys = () => {
+  const dates: Record<string, string> = {};
+  Object.entries(getUpcomingWeek()).forEach(([day, date]) => {
+    dates[day] = toDateKey(date);
+  });
+  return dates;
+};
+
+/**
+ * Get color for course type
+ */
+export const getCourseColor = (courseCode: string) => {
+  const prefix = courseCode.match(/^[A-Z]+/)?.[0] || "";
+  const colorMap: Record<string, { bg: string; text: string; border: string }> = {
+    CSE: { bg: "bg-blue-500", text: "text-white", border: "#3B82F6" },
+    MAT: { bg: "bg-green-500", text: "text-white", border: "#10B981" },
+    ENG: { bg: "bg-orange-500", text: "text-white", border: "#F97316" },
+    BNS: { bg: "bg-purple-500", text: "text-white", border: "#A855F7" },
+  };
+  return colorMap[prefix] || { bg: "bg-primary", text: "text-white", border: "#0a7ea4" };
+};
+
+/**
+ * Whether a class is running right now on this device's clock
+ */
+export const isClassOngoing = (timeStart: string, timeEnd: string, day: string): boolean => {
+  const now = new Date();
+  const currentDay = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"][now.getDay()];
+
+  if (day !== currentDay) return false;
+
+  const parseTime = (timeStr: string) => {
+    const [time, period] = timeStr.split(' ');
+    let [hours, minutes] = time.split(':').map(Number);
+    if (period === 'PM' && hours !== 12) hours += 12;
+    if (period === 'AM' && hours === 12) hours = 0;
+    return hours * 60 + minutes;
+  };
+
+  const currentMinutes = now.getHours() * 60 + now.getMinutes();
+  const startMinutes = parseTime(timeStart);
+  const endMinutes = parseTime(timeEnd);
+
+  return currentMinutes >= startMinutes && currentMinutes < endMinutes;
+};
@@ -0,0 +1,48 @@
+/**
+ * Capture a published routine as a golden-file fixture (needs pdftotext, like the server):
+ *   pnpm fixture:capture cse-fall-2026-v1 cse "https://daffodilvarsity.edu.bd/.../routine.pdf"
+ *
+ * Writes tests/fixtures/routines/<name>/{routine.pdf,routine.txt,expected.json}.
+ * expected.json is the current v3 parser's output: check it against the PDF by hand
+ * before committing, since the point is to pin down what the parsers *should* produce.
+ */
+import axios from "axios";
+import { execFile } from "child_process";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { promisify } from "util";
+import { pdfParserV3 } from "../server/services/pdf-parser-v3";
+
+const execFileAsync = promisify(execFile);
+
+const [name, department, pdfUrl] = process.argv.slice(2);
+
+if (!name || !department || !pdfUrl) {
+  console.error('Usage: pnpm fixture:capture <fixture-name> <department> "<routine pdf url>"');
+  process.exit(1);
+}
+
+async function main() {
+  const dir = path.resolve("tests", "fixtures", "routines", name);
+  await fs.mkdir(dir, { recursive: true });
+
+  const response = await axios.get(pdfUrl, { responseType: "arraybuffer", timeout: 30000 });
+  const pdfPath = path.join(dir, "routine.pdf");
+  await fs.writeFile(pdfPath, Buffer.from(response.data));
+
+  const { stdout: text } = await execFileAsync("pdftotext", ["-layout", pdfPath, "-"], {
+    maxBuffer: 10 * 1024 * 1024,
+  });
+  await fs.writeFile(path.join(dir, "routine.txt"), text);
+
+  const { classes } = pdfParserV3.parsePDFText(text, department);
+  const expected = { department, description: `Captured from ${pdfUrl}`, classes };
+  await fs.writeFile(path.join(dir, "expected.json"), `${JSON.stringify(expected, null, 2)}\n`);
+
+  console.log(`✅ Saved ${classes.length} classes to ${path.relative(process.cwd(), dir)} (review expected.json!)`);
+}
+
+main().catch((error) => {
+  console.error("Failed to capture fixture:", error);
+  process.exit(1);
+});
@@ -6,7 +6,10 @@ import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
-import { PdfCacheService } from "../services/pdf-cache-service";
+import { NoticeboardWatcher } from "../services/noticeboard-watcher";
+import { FacultySync } from "../services/faculty-sync";
+import { registerCalendarRoutes } from "../routes/calendar";
+import { registerTimetableExportRoutes } from "../routes/timetable-export";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise((resolve) => {
@@ -27,34 +30,6 @@ async function findAvailablePort(startPort: number = 3000): Promise<number> {
   throw new Error(`No available port found starting from ${startPort}`);
 }
 
-// Pre-warm cache for common departments to speed up first requests
-async function prewarmCache() {
-  const commonDepartments = [
-    { dept: "cse", url: "https://daffodilvarsity.edu.bd/noticeFile/cse-class-routine-spring-2026-v1-8d732090c2.pdf" },
-    { dept: "eee", url: "https://daffodilvarsity.edu.bd/noticeFile/eee-class-routine-spring-2026-v1.pdf" },
-    { dept: "swe", url: "https://daffodilvarsity.edu.bd/noticeFile/swe-class-routine-spring-2026-v1.pdf" },
-  ];
-
-  console.log("[cache] Pre-warming cache for common departments...");
-  
-  for (const { dept, url } of commonDepartments) {
-    try {
-      const status = await PdfCacheService.getCacheStatus(dept);
-      if (!status.isCached) {
-        console.log(`[cache] Pre-warming ${dept}...`);
-        await PdfCacheService.getOrParsePdf(dept, url, "1.0");
-        console.log(`[cache] ✓ ${dept} cached`);
-      } else {
-        console.log(`[cache] ✓ ${dept} already cached`);
-      }
-    } catch (error: any) {
-      console.error(`[cache] Failed to pre-warm ${dept}:`, error.message);
-    }
-  }
-  
-  console.log("[cache] Pre-warming complete");
-}
-
 async function startServer() {
   const app = express();
   const server = createServer(app);
@@ -98,6 +73,10 @@ async function startServer() {
     res.json({ ok: true, timestamp: Date.now() });
   });
 
+  // iCalendar feeds and printable timetables
+  registerCalendarRoutes(app);
+  registerTimetableExportRoutes(app);
+
   app.use(
     "/api/trpc",
     createExpressMiddleware({
@@ -115,11 +94,12 @@ async function startServer() {
 
   server.listen(port, () => {
     console.log(`[api] server listening on port ${port}`);
-    
-    // Pre-warm cache for common departments (async, non-blocking)
-    prewarmCache().catch((err) => {
-      console.error("[cache] Pre-warming failed:", err.message);
-    });
+
+    // Watch the noticeboard for new routines (first check also warms the cache)
+    NoticeboardWatcher.start();
+
+    // Keep the faculty directory in sync with the faculty site
+    FacultySync.start();
   });
 }
 
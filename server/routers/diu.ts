@@ -1,17 +1,106 @@
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
-import { publicProcedure, router } from "../_core/trpc";
-import { FacultyScraper } from "../services/faculty-scraper";
+import { adminProcedure, protectedProcedure, publicProcedure, router } from "../_core/trpc";
+import { CourseService } from "../services/course-service";
+import { ExamRoutineService, buildExamSchedule } from "../services/exam-routine-service";
+import { NoticeService } from "../services/notice-service";
+import { AcademicCalendarService, getCalendarDays, resolveCalendarDay } from "../services/academic-calendar";
 import { FacultyService } from "../services/faculty-service";
-import { pdfParserV3 } from "../services/pdf-parser-v3";
-import { getLatestRoutinePdfUrl } from "../services/noticeboard-scraper";
-import { PdfCacheService } from "../services/pdf-cache-service";
+import { FacultyResolver } from "../services/faculty-resolver";
+import { FacultySync } from "../services/faculty-sync";
+import {
+  OfficeHoursService,
+  getTeacherStatus,
+  getTeacherWeek,
+  normalizeOfficeHours,
+} from "../services/teacher-availability";
+import { buildWorkloadCsv, calculateWorkloads } from "../services/teacher-workload";
+import {
+  calculateStats,
+  filterByBatchSection,
+  filterByRoom,
+  filterByTeacher,
+  groupByDay,
+  type ClassSchedule,
+} from "../services/routine-query";
+import {
+  compareRoutineParsers,
+  downloadRoutineFile,
+  listRoutineParsers,
+  parseRoutineFromURL,
+  resolveRoutineParser,
+} from "../services/routine-parser";
+import { layoutPdfParser } from "../services/pdf-parser-layout";
+import { PdfCacheService, findPreviousVersion } from "../services/pdf-cache-service";
+import { IngestionLogService } from "../services/ingestion-log";
+import { NoticeboardWatcher } from "../services/noticeboard-watcher";
+import { PushNotificationService } from "../services/push-notifications";
+import { RoomFinder } from "../services/room-finder";
+import { RoomService } from "../services/room-service";
+import { calculateUtilization } from "../services/room-utilization";
+import { buildCustomRoutine } from "../services/custom-routine";
+import { planSections } from "../services/section-planner";
+import { diffRoutines } from "../services/routine-diff";
+import {
+  DEFAULT_PDF_URLS,
+  discoverRoutinePdfUrl,
+  forgetRoutinePdfUrl,
+  isKnownDepartment,
+  resolveRoutinePdfUrl,
+} from "../services/routine-source";
+import { getRoutineDate, getRoutineNow, timeToMinutes } from "../../shared/routine-time";
+import { DAYS } from "../../types";
 
-// Default PDF URLs by department
-const DEFAULT_PDF_URLS: Record<string, string> = {
-  cse: "https://daffodilvarsity.edu.bd/noticeFile/cse-class-routine-spring-2026-v1-8d732090c2.pdf",
-  eee: "https://daffodilvarsity.edu.bd/noticeFile/eee-class-routine-spring-2026-v1.pdf",
-  swe: "https://daffodilvarsity.edu.bd/noticeFile/swe-class-routine-spring-2026-v1.pdf",
-};
+// Any department code from DEPARTMENTS (types/index.ts), case-insensitive
+const knownDepartment = z
+  .string()
+  .toLowerCase()
+  .refine(isKnownDepartment, { message: "Unknown department" });
+
+const departmentInput = knownDepartment.default("cse");
+
+// Calendar date, e.g. "2026-03-26"
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Use YYYY-MM-DD" });
+
+// Routine time, e.g., "02:30" (before 08:00 is afternoon, as in the routine)
+const routineTime = z.string().regex(/^\d{1,2}:\d{2}$/, { message: "Use hh:mm" });
+
+// Day of the week, e.g. "Sunday" (any case)
+const weekday = z.string().refine((d) => DAYS.some((day) => day.toLowerCase() === d.toLowerCase()), {
+  message: "Unknown day",
+});
+
+// A department code or "all", which searches every cached department
+const roomDepartmentInput = z
+  .string()
+  .toLowerCase()
+  .refine((d) => d === "all" || isKnownDepartment(d), { message: "Unknown department" })
+  .default("cse");
+
+/**
+ * Classes of one department's routine, or of every department already parsed ("all"),
+ * since rooms are shared across departments
+ */
+async function loadRoomClasses(
+  department: string,
+  pdfUrl?: string
+): Promise<{ departments: string[]; allClasses: ClassSchedule[] }> {
+  if (department === "all") {
+    const cached = await PdfCacheService.getCachedDepartments();
+    const perDepartment = await Promise.all(
+      cached.map((c) => PdfCacheService.getOrParsePdf(c.department, c.pdfUrl, c.version))
+    );
+    return { departments: cached.map((c) => c.department), allClasses: perDepartment.flat() };
+  }
+
+  const url = await resolveRoutinePdfUrl(department, pdfUrl);
+  return { departments: [department], allClasses: await PdfCacheService.getOrParsePdf(department, url) };
+}
+
+// Expo push token, e.g. "ExponentPushToken[xxxxxxxx]"
+const expoPushTokenInput = z
+  .string()
+  .regex(/^Expo(nent)?PushToken\[.+\]$/, { message: "Invalid Expo push token" });
 
 export const diuRouter = router({
   /**
@@ -20,7 +109,7 @@ export const diuRouter = router({
   scrapeFaculty: publicProcedure
     .input(
       z.object({
-        department: z.string().default("cse"),
+        department: departmentInput,
       })
     )
     .query(async ({ input }) => {
@@ -30,18 +119,85 @@ export const diuRouter = router({
     }),
 
   /**
-   * Parse PDF and get all classes
+   * Parse PDF and get all classes (with the department's parser unless one is given)
    */
   parsePDF: publicProcedure
     .input(
       z.object({
+        department: departmentInput,
         pdfUrl: z.string().url().optional(),
+        parser: z.string().optional(),
       })
     )
     .query(async ({ input }) => {
-      const url = input.pdfUrl || DEFAULT_PDF_URLS.cse;
-      const result = await pdfParserV3.parsePDFFromURL(url);
-      return result;
+      const url = await resolveRoutinePdfUrl(input.department, input.pdfUrl);
+      try {
+        return await parseRoutineFromURL(url, input.department, { parserId: input.parser });
+      } catch (error) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: String(error) });
+      }
+    }),
+
+  /**
+   * Available routine parsers and the one each department uses
+   */
+  listParsers: publicProcedure
+    .input(
+      z.object({
+        department: departmentInput,
+      })
+    )
+    .query(({ input }) => {
+      return {
+        parsers: listRoutineParsers().map(({ id, description, formats }) => ({ id, description, formats })),
+        active: resolveRoutineParser(input.department).id,
+      };
+    }),
+
+  /**
+   * Admin: run two parsers on the same routine and report where they disagree
+   */
+  compareParsers: adminProcedure
+    .input(
+      z.object({
+        department: departmentInput,
+        pdfUrl: z.string().url().optional(),
+        parserA: z.string(),
+        parserB: z.string(),
+      })
+    )
+    .query(async ({ input }) => {
+      const known = new Set(listRoutineParsers().map((p) => p.id));
+      for (const id of [input.parserA, input.parserB]) {
+        if (!known.has(id)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: `Unknown routine parser: ${id}` });
+        }
+      }
+
+      const url = await resolveRoutinePdfUrl(input.department, input.pdfUrl);
+      const file = await downloadRoutineFile(url);
+      const result = await compareRoutineParsers(file, input.department, input.parserA, input.parserB);
+
+      return {
+        department: input.department,
+        pdfUrl: url,
+        ...result,
+      };
+    }),
+
+  /**
+   * Parse PDF from positioned text, with per-class confidence and the fragments that couldn't be placed
+   */
+  parsePDFLayout: publicProcedure
+    .input(
+      z.object({
+        department: departmentInput,
+        pdfUrl: z.string().url().optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const url = await resolveRoutinePdfUrl(input.department, input.pdfUrl);
+      return layoutPdfParser.parsePDFFromURL(url, input.department);
     }),
 
   /**
@@ -51,49 +207,230 @@ export const diuRouter = router({
     .input(
       z.object({
         batchSection: z.string(), // e.g., "71_I"
-        department: z.string().default("cse"),
+        department: departmentInput,
         pdfUrl: z.string().url().optional(),
       })
     )
     .query(async ({ input }) => {
-      const url = input.pdfUrl || DEFAULT_PDF_URLS[input.department] || DEFAULT_PDF_URLS.cse;
+      const url = await resolveRoutinePdfUrl(input.department, input.pdfUrl);
       
       // Use cached data or parse PDF
       const allClasses = await PdfCacheService.getOrParsePdf(input.department, url);
 
       // Filter classes for this batch_section
-      const classes = pdfParserV3.filterByBatchSection(allClasses, input.batchSection);
+      const classes = filterByBatchSection(allClasses, input.batchSection);
 
       // Get faculty for these classes
       const teacherInitials = Array.from(new Set(classes.map((c) => c.teacher)));
 
-      // Scrape faculty data
-      const facultyData = await FacultyScraper.scrapeFaculty("cse");
+      // Faculty of the routine's own department (cached for 7 days)
+      const facultyData = await FacultyService.scrapeAndStoreFaculty(input.department, false);
 
-      // Match teachers to faculty
-      const faculty = facultyData.filter((f: any) =>
-        teacherInitials.some((initial) => f.initials === initial)
-      );
+      // Match teachers to faculty (confirmed aliases, then name matching)
+      const faculty = await FacultyResolver.resolveFaculty(input.department, teacherInitials, facultyData);
 
       // Calculate stats for this student
-      const stats = pdfParserV3.calculateStats(classes);
+      const stats = calculateStats(classes);
+      const creditLoad = CourseService.getCreditLoad(classes, input.department);
 
       // Group by day
-      const schedule = pdfParserV3.groupByDay(classes);
+      const schedule = groupByDay(classes);
 
       // Get cache info for timestamp
-      const cacheStatus = await PdfCacheService.getCacheStatus(input.department);
+      const cacheStatus = await PdfCacheService.getCacheStatus(input.department, url);
 
       return {
         batchSection: input.batchSection,
+        department: input.department,
+        pdfUrl: url,
         classes,
         schedule,
         stats,
+        creditLoad,
         faculty,
+        version: cacheStatus.version,
         parsedAt: cacheStatus.parsedAt,
       };
     }),
 
+  /**
+   * Every course in the routine with the sections it is offered to (custom routine picker)
+   */
+  getCourseOfferings: publicProcedure
+    .input(
+      z.object({
+        department: departmentInput,
+        pdfUrl: z.string().url().optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const url = await resolveRoutinePdfUrl(input.department, input.pdfUrl);
+      const allClasses = await PdfCacheService.getOrParsePdf(input.department, url);
+
+      const offerings = new Map<string, { courseCode: string; courseName: string; sections: Set<string> }>();
+      for (const c of allClasses) {
+        const offering = offerings.get(c.courseCode) || {
+          courseCode: c.courseCode,
+          courseName: c.courseName,
+          sections: new Set<string>(),
+        };
+        offering.sections.add(c.batchSection);
+        offerings.set(c.courseCode, offering);
+      }
+
+      const courses = Array.from(offerings.values())
+        .map((o) => ({
+          courseCode: o.courseCode,
+          courseName: o.courseName,
+          credits: CourseService.getCourse(input.department, o.courseCode)?.credits ?? null,
+          sections: Array.from(o.sections).sort(),
+        }))
+        .sort((a, b) => a.courseCode.localeCompare(b.courseCode));
+
+      return {
+        courses,
+        total: courses.length,
+      };
+    }),
+
+  /**
+   * The department's course catalog, optionally filtered by code or title
+   */
+  listCourses: publicProcedure
+    .input(
+      z.object({
+        department: departmentInput,
+        search: z.string().max(100).optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const courses = await CourseService.listCourses(input.department, input.search);
+      return {
+        courses,
+        total: courses.length,
+      };
+    }),
+
+  /**
+   * Admin: add a course to the catalog or edit an existing one
+   */
+  upsertCourse: adminProcedure
+    .input(
+      z.object({
+        department: departmentInput,
+        code: z.string().regex(/^[A-Za-z]{2,4}\s?\d{3}$/, { message: "Invalid course code" }), // e.g., "CSE112"
+        title: z.string().min(1).max(200),
+        credits: z.number().min(0).max(12).nullable().default(null),
+        level: z.number().int().min(1).max(6).nullable().default(null),
+        term: z.number().int().min(1).max(3).nullable().default(null),
+        prerequisites: z.array(z.string().min(1)).max(20).default([]),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const course = await CourseService.upsertCourse(input);
+      return { course };
+    }),
+
+  /**
+   * Admin: remove a course from the catalog
+   */
+  deleteCourse: adminProcedure
+    .input(
+      z.object({
+        department: departmentInput,
+        code: z.string().min(1),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const deleted = await CourseService.deleteCourse(input.department, input.code);
+      if (!deleted) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Course not found: ${input.code}` });
+      }
+      return { success: true };
+    }),
+
+  /**
+   * Merge hand-picked course + section pairs into one schedule, with clash and transfer warnings
+   */
+  getCustomSchedule: publicProcedure
+    .input(
+      z.object({
+        selections: z
+          .array(
+            z.object({
+              courseCode: z.string().min(1), // e.g., "CSE112"
+              batchSection: z.string().min(1), // e.g., "70_B"
+            })
+          )
+          .max(20),
+        department: departmentInput,
+        pdfUrl: z.string().url().optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const url = await resolveRoutinePdfUrl(input.department, input.pdfUrl);
+      const allClasses = await PdfCacheService.getOrParsePdf(input.department, url);
+
+      const routine = buildCustomRoutine(allClasses, input.selections);
+
+      // Faculty of the routine's own department (cached for 7 days)
+      const teacherInitials = Array.from(new Set(routine.classes.map((c) => c.teacher)));
+      const facultyData = await FacultyService.scrapeAndStoreFaculty(input.department, false);
+      const faculty = await FacultyResolver.resolveFaculty(input.department, teacherInitials, facultyData);
+
+      const cacheStatus = await PdfCacheService.getCacheStatus(input.department, url);
+
+      return {
+        department: input.department,
+        pdfUrl: url,
+        ...routine,
+        schedule: groupByDay(routine.classes),
+        stats: calculateStats(routine.classes),
+        creditLoad: CourseService.getCreditLoad(routine.classes, input.department),
+        faculty,
+        version: cacheStatus.version,
+        parsedAt: cacheStatus.parsedAt,
+      };
+    }),
+
+  /**
+   * Rank conflict-free section combinations for a set of courses (advising planner)
+   */
+  planSections: publicProcedure
+    .input(
+      z.object({
+        courseCodes: z.array(z.string().min(1)).min(1).max(10), // e.g., ["CSE112", "MAT101"]
+        preferences: z
+          .object({
+            daysOff: z.array(z.string().toUpperCase()).optional(), // e.g., ["THURSDAY"]
+            earliestStart: z
+              .string()
+              .regex(/^\d{2}:\d{2}$/)
+              .optional(), // e.g., "10:00"
+            maxGapMinutes: z.number().int().min(0).optional(),
+          })
+          .default({}),
+        limit: z.number().int().min(1).max(20).default(5),
+        department: departmentInput,
+        pdfUrl: z.string().url().optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const url = await resolveRoutinePdfUrl(input.department, input.pdfUrl);
+      const allClasses = await PdfCacheService.getOrParsePdf(input.department, url);
+
+      const result = planSections(allClasses, input.courseCodes, input.preferences, input.limit);
+      const cacheStatus = await PdfCacheService.getCacheStatus(input.department, url);
+
+      return {
+        department: input.department,
+        pdfUrl: url,
+        ...result,
+        plans: result.plans.map((plan) => ({ ...plan, schedule: groupByDay(plan.classes) })),
+        version: cacheStatus.version,
+      };
+    }),
+
   /**
    * Get teacher schedule by initials
    */
@@ -101,37 +438,165 @@ export const diuRouter = router({
     .input(
       z.object({
         teacherInitials: z.string(), // e.g., "MB"
-        department: z.string().default("cse"),
+        department: departmentInput,
         pdfUrl: z.string().url().optional(),
       })
     )
     .query(async ({ input }) => {
-      const url = input.pdfUrl || DEFAULT_PDF_URLS[input.department] || DEFAULT_PDF_URLS.cse;
+      const url = await resolveRoutinePdfUrl(input.department, input.pdfUrl);
       
       // Use cached data or parse PDF
       const allClasses = await PdfCacheService.getOrParsePdf(input.department, url);
 
       // Filter classes for this teacher
-      const classes = pdfParserV3.filterByTeacher(allClasses, input.teacherInitials);
+      const classes = filterByTeacher(allClasses, input.teacherInitials);
 
       // Get unique sections taught
-      const sections = Array.from(new Set(classes.map((c) => c.batchSection))).join(", ");
+      const sectionList = Array.from(new Set(classes.map((c) => c.batchSection))).sort();
+      const sections = sectionList.join(", ");
+      const courses = Array.from(new Set(classes.map((c) => c.courseCode))).sort();
+
+      // Weekly contact hours
+      const weeklyMinutes = classes.reduce(
+        (total, c) => total + timeToMinutes(c.timeEnd) - timeToMinutes(c.timeStart),
+        0
+      );
 
       // Calculate stats
-      const stats = pdfParserV3.calculateStats(classes);
+      const stats = calculateStats(classes);
 
       // Group by day
-      const schedule = pdfParserV3.groupByDay(classes);
+      const schedule = groupByDay(classes);
 
       return {
         teacherInitials: input.teacherInitials.toUpperCase(),
         sections,
+        sectionList,
+        courses,
+        weeklyHours: Math.round((weeklyMinutes / 60) * 10) / 10,
         classes,
         schedule,
         stats,
       };
     }),
 
+  /**
+   * When a teacher is free to meet: free windows per day, office hours, and where they are right now
+   */
+  getTeacherAvailability: publicProcedure
+    .input(
+      z.object({
+        teacherInitials: z.string().min(1), // e.g., "MB"
+        department: departmentInput,
+        pdfUrl: z.string().url().optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const url = await resolveRoutinePdfUrl(input.department, input.pdfUrl);
+      const allClasses = await PdfCacheService.getOrParsePdf(input.department, url);
+      const classes = filterByTeacher(allClasses, input.teacherInitials);
+
+      const initials = input.teacherInitials.toUpperCase();
+      const faculty = await FacultyService.getAllFaculty(input.department);
+      const [member] = await FacultyResolver.resolveFaculty(input.department, [initials], faculty);
+      const hours = member ? await OfficeHoursService.getOfficeHours(member.id) : [];
+
+      // Today may be a holiday or run another weekday's routine
+      const now = getRoutineNow();
+      const today = resolveCalendarDay(await AcademicCalendarService.getCalendar(), getRoutineDate());
+
+      return {
+        teacherInitials: initials,
+        faculty: member ? { id: member.id, fullName: member.fullName, room: member.room } : null,
+        status: getTeacherStatus(classes, hours, today.routineDay, now.minutes, member?.room || null),
+        today,
+        days: getTeacherWeek(classes, hours),
+      };
+    }),
+
+  /**
+   * Set a teacher's office hours, replacing the old ones.
+   * Teachers can edit their own (signed in with their faculty email); admins anyone's.
+   */
+  setOfficeHours: protectedProcedure
+    .input(
+      z.object({
+        teacherInitials: z.string().min(1),
+        department: departmentInput,
+        hours: z
+          .array(
+            z.object({
+              day: weekday,
+              timeStart: routineTime,
+              timeEnd: routineTime,
+              room: z.string().max(50).nullable().default(null),
+              note: z.string().max(200).nullable().default(null),
+            })
+          )
+          .max(20),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const faculty = await FacultyService.getAllFaculty(input.department);
+      const [member] = await FacultyResolver.resolveFaculty(
+        input.department,
+        [input.teacherInitials.toUpperCase()],
+        faculty
+      );
+      if (!member) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `No faculty profile for ${input.teacherInitials}` });
+      }
+
+      const isOwnProfile =
+        !!member.email && !!ctx.user.email && member.email.toLowerCase() === ctx.user.email.toLowerCase();
+      if (ctx.user.role !== "admin" && !isOwnProfile) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Only the teacher or an admin can set office hours" });
+      }
+
+      let hours;
+      try {
+        hours = normalizeOfficeHours(input.hours);
+      } catch (error) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: error instanceof Error ? error.message : String(error) });
+      }
+
+      await OfficeHoursService.setOfficeHours(member.id, hours);
+      return { success: true };
+    }),
+
+  /**
+   * Admin: teaching load per teacher in a department's routine, with outliers and a CSV export
+   */
+  getTeacherWorkload: adminProcedure
+    .input(
+      z.object({
+        department: departmentInput,
+        pdfUrl: z.string().url().optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const url = await resolveRoutinePdfUrl(input.department, input.pdfUrl);
+      const allClasses = await PdfCacheService.getOrParsePdf(input.department, url);
+      const cacheStatus = await PdfCacheService.getCacheStatus(input.department, url);
+
+      // Full names for the initials that map to a faculty profile
+      const initials = Array.from(new Set(allClasses.map((c) => c.teacher.toUpperCase()).filter(Boolean)));
+      const faculty = await FacultyService.getAllFaculty(input.department);
+      const resolved = await FacultyResolver.resolveFaculty(input.department, initials, faculty);
+      const names = Object.fromEntries(resolved.map((f) => [f.initials, f.fullName]));
+
+      const { teachers, summary } = calculateWorkloads(allClasses, names);
+
+      return {
+        department: input.department,
+        version: cacheStatus.version,
+        teachers,
+        summary,
+        csv: buildWorkloadCsv(teachers),
+        fileName: `${input.department}-teacher-workload.csv`,
+      };
+    }),
+
   /**
    * Get room schedule by room number
    */
@@ -139,24 +604,24 @@ export const diuRouter = router({
     .input(
       z.object({
         roomNumber: z.string(), // e.g., "KT-222"
-        department: z.string().default("cse"),
+        department: departmentInput,
         pdfUrl: z.string().url().optional(),
       })
     )
     .query(async ({ input }) => {
-      const url = input.pdfUrl || DEFAULT_PDF_URLS[input.department] || DEFAULT_PDF_URLS.cse;
+      const url = await resolveRoutinePdfUrl(input.department, input.pdfUrl);
       
       // Use cached data or parse PDF
       const allClasses = await PdfCacheService.getOrParsePdf(input.department, url);
 
       // Filter classes for this room
-      const classes = pdfParserV3.filterByRoom(allClasses, input.roomNumber);
+      const classes = filterByRoom(allClasses, input.roomNumber);
 
       // Calculate stats
-      const stats = pdfParserV3.calculateStats(classes);
+      const stats = calculateStats(classes);
 
       // Group by day
-      const schedule = pdfParserV3.groupByDay(classes);
+      const schedule = groupByDay(classes);
 
       return {
         roomNumber: input.roomNumber.toUpperCase(),
@@ -166,21 +631,98 @@ export const diuRouter = router({
       };
     }),
 
+  /**
+   * Find rooms with no class on a given day and time slot
+   */
+  findFreeRooms: publicProcedure
+    .input(
+      z.object({
+        department: roomDepartmentInput,
+        day: weekday.optional(), // e.g., "Sunday", defaults to today
+        timeSlot: z.union([z.literal("now"), routineTime]).default("now"), // slot start (e.g., "10:00") or "now"
+        pdfUrl: z.string().url().optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const now = getRoutineNow();
+      const day = input.day || now.day;
+
+      const { departments, allClasses } = await loadRoomClasses(input.department, input.pdfUrl);
+
+      // Today may be a holiday or run another weekday's routine
+      const calendarDay = input.day
+        ? null
+        : resolveCalendarDay(await AcademicCalendarService.getCalendar(), getRoutineDate());
+
+      const from = input.timeSlot === "now" ? now.minutes : timeToMinutes(input.timeSlot);
+      const result = RoomFinder.findFreeRooms(allClasses, day, from, calendarDay ? calendarDay.routineDay : day);
+
+      return {
+        ...result,
+        departments,
+        isNow: input.timeSlot === "now",
+        calendarDay,
+      };
+    }),
+
+  /**
+   * How busy rooms are per day and slot, per room and per building, with seat capacity where known
+   */
+  getRoomUtilization: publicProcedure
+    .input(
+      z.object({
+        department: roomDepartmentInput,
+        building: z.string().toUpperCase().optional(), // e.g., "KT"
+        pdfUrl: z.string().url().optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const { departments, allClasses } = await loadRoomClasses(input.department, input.pdfUrl);
+      const report = calculateUtilization(allClasses, await RoomService.getRooms());
+
+      return {
+        ...report,
+        departments,
+        rooms: input.building ? report.rooms.filter((r) => r.building === input.building) : report.rooms,
+      };
+    }),
+
+  /**
+   * Admin: set a room's capacity, type or floor
+   */
+  updateRoom: adminProcedure
+    .input(
+      z.object({
+        code: z.string().min(1), // e.g., "KT-222"
+        capacity: z.number().int().min(1).max(1000).nullable().optional(),
+        type: z.enum(["theory", "lab"]).optional(),
+        floor: z.number().int().min(0).max(99).nullable().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const { code, ...changes } = input;
+      const room = await RoomService.updateRoom(code, changes);
+      if (!room) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Room not found: ${code}` });
+      }
+      return { room };
+    }),
+
   /**
    * Get latest PDF URL for a department from noticeboard
    */
   getLatestPdfUrl: publicProcedure
     .input(
       z.object({
-        department: z.string().default("cse"),
+        department: departmentInput,
       })
     )
     .query(async ({ input }) => {
-      const pdfUrl = await getLatestRoutinePdfUrl(input.department);
+      const latest = await discoverRoutinePdfUrl(input.department);
       return {
         department: input.department,
-        pdfUrl: pdfUrl || DEFAULT_PDF_URLS[input.department] || DEFAULT_PDF_URLS.cse,
-        isLatest: !!pdfUrl,
+        pdfUrl: latest || DEFAULT_PDF_URLS[input.department] || null,
+        isLatest: !!latest,
       };
     }),
 
@@ -190,29 +732,350 @@ export const diuRouter = router({
   clearCache: publicProcedure
     .input(
       z.object({
-        department: z.string().default("cse"),
+        department: departmentInput,
       })
     )
     .mutation(async ({ input }) => {
       await PdfCacheService.clearCache(input.department);
+      forgetRoutinePdfUrl(input.department);
       return {
         success: true,
         message: `Cache cleared for ${input.department}`,
       };
     }),
 
+  /**
+   * Recent noticeboard watcher ingestions, newest first
+   */
+  getIngestionLog: publicProcedure
+    .input(
+      z.object({
+        department: knownDepartment.optional(),
+        limit: z.number().int().min(1).max(200).default(50),
+      })
+    )
+    .query(async ({ input }) => {
+      const entries = await IngestionLogService.list(input.department, input.limit);
+      return { entries };
+    }),
+
+  /**
+   * Check the noticeboard now instead of waiting for the next scheduled run (admin only)
+   */
+  checkNoticeboard: adminProcedure
+    .input(
+      z.object({
+        departments: z.array(knownDepartment).optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const results = await NoticeboardWatcher.runOnce({ departments: input.departments });
+      if (!results) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "A noticeboard check is already running",
+        });
+      }
+      return { results };
+    }),
+
+  /**
+   * Exams for a batch_section and/or a course list from the newest exam routine,
+   * with countdowns and clashes
+   */
+  getExamSchedule: publicProcedure
+    .input(
+      z
+        .object({
+          department: departmentInput,
+          examType: z.enum(["midterm", "final"]).optional(),
+          batchSection: z.string().min(1).optional(), // e.g., "71_I"
+          courses: z
+            .array(
+              z.object({
+                courseCode: z.string().min(1), // e.g., "CSE112"
+                batchSection: z.string().min(1).optional(), // Omit for common exams
+              })
+            )
+            .max(20)
+            .optional(),
+        })
+        .refine((input) => input.batchSection || input.courses?.length, {
+          message: "Give a batchSection or a list of courses",
+        })
+    )
+    .query(async ({ input }) => {
+      const routine = await ExamRoutineService.getLatestExamRoutine(input.department, input.examType);
+      if (!routine) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: `No ${input.examType || "exam"} routine found for ${input.department}`,
+        });
+      }
+
+      const allExams = await ExamRoutineService.getExams(routine.id);
+      const schedule = buildExamSchedule(allExams, input);
+
+      return {
+        department: input.department,
+        examType: routine.examType,
+        title: routine.title,
+        pdfUrl: routine.pdfUrl,
+        parsedAt: routine.parsedAt,
+        ...schedule,
+      };
+    }),
+
+  /**
+   * Check the noticeboard for new exam routines now (admin only)
+   */
+  checkExamRoutines: adminProcedure
+    .input(
+      z.object({
+        departments: z.array(knownDepartment).optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const results = await ExamRoutineService.checkNoticeboard(undefined, input.departments);
+      return { results };
+    }),
+
+  /**
+   * Noticeboard feed, newest first, with full-text search over titles
+   * `cursor` is the page number, so the app can page with useInfiniteQuery
+   */
+  listNotices: publicProcedure
+    .input(
+      z.object({
+        department: knownDepartment.optional(), // The department's notices plus university-wide ones
+        category: z.enum(["routine", "exam", "advising", "holiday", "result", "admission", "general"]).optional(),
+        search: z.string().max(100).optional(),
+        limit: z.number().int().min(1).max(50).default(20),
+        cursor: z.number().int().min(1).default(1),
+      })
+    )
+    .query(async ({ input }) => {
+      const result = await NoticeService.listNotices({
+        department: input.department,
+        category: input.category,
+        search: input.search,
+        page: input.cursor,
+        pageSize: input.limit,
+      });
+      return {
+        ...result,
+        nextCursor: result.hasMore ? result.page + 1 : null,
+      };
+    }),
+
+  /**
+   * Pull new notices into the feed now instead of waiting for the watcher (admin only)
+   */
+  syncNotices: adminProcedure.mutation(async () => {
+    return NoticeService.syncNotices();
+  }),
+
+  /**
+   * Academic calendar for the coming days: holidays, day swaps and semester breaks
+   */
+  getAcademicCalendar: publicProcedure
+    .input(
+      z.object({
+        from: isoDate.optional(), // Defaults to today in Dhaka
+        days: z.number().int().min(1).max(120).default(14),
+      })
+    )
+    .query(async ({ input }) => {
+      const calendar = await AcademicCalendarService.getCalendar();
+      const from = input.from || getRoutineDate();
+      const days = getCalendarDays(calendar, from, input.days);
+      const to = days[days.length - 1].date;
+
+      return {
+        today: getRoutineDate(),
+        semester: calendar.semesters.find((s) => from >= s.startDate && from <= s.endDate) || null,
+        days,
+        events: calendar.events.filter((e) => e.endDate >= from && e.startDate <= to),
+      };
+    }),
+
+  /**
+   * Admin: set a semester's first and last day of classes
+   */
+  upsertSemester: adminProcedure
+    .input(
+      z
+        .object({
+          name: z.string().regex(/^(Spring|Summer|Fall) \d{4}$/, { message: 'Use e.g. "Spring 2026"' }),
+          startDate: isoDate,
+          endDate: isoDate,
+        })
+        .refine((s) => s.startDate <= s.endDate, { message: "Semester ends before it starts" })
+    )
+    .mutation(async ({ input }) => {
+      await AcademicCalendarService.upsertSemester(input);
+      return { success: true };
+    }),
+
+  /**
+   * Admin: add a holiday or a day swap (a date running another weekday's routine)
+   */
+  addCalendarEvent: adminProcedure
+    .input(
+      z
+        .object({
+          type: z.enum(["holiday", "day_swap"]),
+          title: z.string().min(1).max(200),
+          startDate: isoDate,
+          endDate: isoDate.optional(), // Defaults to startDate
+          followsDay: z.enum(["SATURDAY", "SUNDAY", "MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"]).optional(),
+        })
+        .refine((e) => e.type !== "day_swap" || !!e.followsDay, { message: "A day swap needs followsDay" })
+        .refine((e) => !e.endDate || e.startDate <= e.endDate, { message: "Event ends before it starts" })
+    )
+    .mutation(async ({ input }) => {
+      const id = await AcademicCalendarService.addEvent({
+        type: input.type,
+        title: input.title,
+        startDate: input.startDate,
+        endDate: input.type === "day_swap" ? input.startDate : input.endDate || input.startDate,
+        followsDay: input.followsDay || null,
+      });
+      return { id };
+    }),
+
+  /**
+   * Admin: remove a holiday or day swap
+   */
+  deleteCalendarEvent: adminProcedure
+    .input(z.object({ id: z.number().int() }))
+    .mutation(async ({ input }) => {
+      const deleted = await AcademicCalendarService.deleteEvent(input.id);
+      if (!deleted) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Calendar event not found: ${input.id}` });
+      }
+      return { success: true };
+    }),
+
+  /**
+   * Subscribe a device to change alerts for a batch_section (optionally one teacher's classes)
+   */
+  subscribeToChanges: publicProcedure
+    .input(
+      z.object({
+        expoPushToken: expoPushTokenInput,
+        department: departmentInput,
+        batchSection: z.string().min(1),
+        teacher: z.string().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const subscription = await PushNotificationService.subscribe(input);
+      return { subscription };
+    }),
+
+  /**
+   * Stop change alerts for a device
+   */
+  unsubscribeFromChanges: publicProcedure
+    .input(
+      z.object({
+        expoPushToken: expoPushTokenInput,
+      })
+    )
+    .mutation(async ({ input }) => {
+      await PushNotificationService.unsubscribe(input.expoPushToken);
+      return { success: true };
+    }),
+
+  /**
+   * Get a device's change alert subscription
+   */
+  getChangeSubscription: publicProcedure
+    .input(
+      z.object({
+        expoPushToken: expoPushTokenInput,
+      })
+    )
+    .query(async ({ input }) => {
+      const subscription = await PushNotificationService.getSubscription(input.expoPushToken);
+      return { subscription };
+    }),
+
+  /**
+   * List every parsed version of a department's routine, newest first
+   */
+  getRoutineVersions: publicProcedure
+    .input(
+      z.object({
+        department: departmentInput,
+      })
+    )
+    .query(async ({ input }) => {
+      const versions = await PdfCacheService.getVersionHistory(input.department);
+      return { department: input.department, versions };
+    }),
+
+  /**
+   * Compare two parsed routine versions (defaults to the two most recent)
+   */
+  diffRoutines: publicProcedure
+    .input(
+      z.object({
+        department: departmentInput,
+        fromCacheId: z.number().int().optional(),
+        toCacheId: z.number().int().optional(),
+        batchSection: z.string().optional(),
+        teacher: z.string().optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const versions = await PdfCacheService.getVersionHistory(input.department);
+
+      const to = input.toCacheId
+        ? versions.find((v) => v.cacheId === input.toCacheId)
+        : versions[0];
+      const from = input.fromCacheId
+        ? versions.find((v) => v.cacheId === input.fromCacheId)
+        : to && findPreviousVersion(versions, to);
+
+      if (!to || !from) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: `Need two parsed routine versions for ${input.department.toUpperCase()} to compare`,
+        });
+      }
+
+      const [before, after] = await Promise.all([
+        PdfCacheService.getClassesByCacheId(from.cacheId),
+        PdfCacheService.getClassesByCacheId(to.cacheId),
+      ]);
+
+      const diff = diffRoutines(before, after, {
+        batchSection: input.batchSection,
+        teacher: input.teacher,
+      });
+
+      return {
+        department: input.department,
+        from,
+        to,
+        ...diff,
+      };
+    }),
+
   /**
    * Get all unique batch_sections from cached data
    */
   getAllBatchSections: publicProcedure
     .input(
       z.object({
-        department: z.string().default("cse"),
+        department: departmentInput,
         pdfUrl: z.string().url().optional(),
       })
     )
     .query(async ({ input }) => {
-      const url = input.pdfUrl || DEFAULT_PDF_URLS[input.department] || DEFAULT_PDF_URLS.cse;
+      const url = await resolveRoutinePdfUrl(input.department, input.pdfUrl);
       
       // Use cached data or parse PDF
       const allClasses = await PdfCacheService.getOrParsePdf(input.department, url);
@@ -232,11 +1095,123 @@ export const diuRouter = router({
   getAllFaculty: publicProcedure
     .input(
       z.object({
-        department: z.string().default("cse"),
+        department: departmentInput,
       })
     )
     .query(async ({ input }) => {
       const faculty = await FacultyService.scrapeAndStoreFaculty(input.department, false);
       return { faculty };
     }),
+
+  /**
+   * Recent faculty sync runs, newest first, with the additions, departures and profile edits each found
+   */
+  getFacultySyncReport: publicProcedure
+    .input(
+      z.object({
+        department: knownDepartment.optional(),
+        limit: z.number().int().min(1).max(50).default(10),
+      })
+    )
+    .query(async ({ input }) => {
+      const runs = await FacultySync.getReport(input.department, input.limit);
+      return { runs };
+    }),
+
+  /**
+   * Sync a department's faculty now instead of waiting for the scheduled job (admin only)
+   * `force` refetches every profile page, not just new and changed ones
+   */
+  syncFaculty: adminProcedure
+    .input(
+      z.object({
+        department: departmentInput,
+        force: z.boolean().default(false),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const report = await FacultySync.syncDepartment(input.department, { force: input.force });
+      if (!report) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: `A ${input.department} faculty sync is already running`,
+        });
+      }
+      return report;
+    }),
+
+  /**
+   * Admin: how every teacher's initials in the routine map to faculty profiles,
+   * with candidates for unconfirmed initials and the conflicts to sort out
+   */
+  getTeacherResolution: adminProcedure
+    .input(
+      z.object({
+        department: departmentInput,
+        pdfUrl: z.string().url().optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const url = await resolveRoutinePdfUrl(input.department, input.pdfUrl);
+      const allClasses = await PdfCacheService.getOrParsePdf(input.department, url);
+
+      const classCounts = new Map<string, number>();
+      for (const c of allClasses) {
+        if (!c.teacher) continue;
+        classCounts.set(c.teacher.toUpperCase(), (classCounts.get(c.teacher.toUpperCase()) || 0) + 1);
+      }
+
+      const resolutions = await FacultyResolver.resolveTeachers(input.department, Array.from(classCounts.keys()));
+      const count = (...statuses: string[]) => resolutions.filter((r) => statuses.includes(r.status)).length;
+
+      return {
+        department: input.department,
+        teachers: resolutions.map((r) => ({ ...r, classCount: classCounts.get(r.initials) || 0 })),
+        summary: {
+          total: resolutions.length,
+          confirmed: count("confirmed"),
+          matched: count("matched"),
+          needsReview: count("suggested", "ambiguous", "shared", "unmatched"),
+        },
+      };
+    }),
+
+  /**
+   * Admin: map routine initials to a faculty profile
+   */
+  confirmTeacherAlias: adminProcedure
+    .input(
+      z.object({
+        department: departmentInput,
+        initials: z.string().regex(/^[A-Za-z]{1,10}$/, { message: "Invalid initials" }),
+        facultyId: z.number().int(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const faculty = await FacultyService.getAllFaculty(input.department);
+      if (!faculty.some((f) => f.id === input.facultyId)) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Faculty not found in ${input.department}: ${input.facultyId}` });
+      }
+
+      await FacultyResolver.confirmAlias(input.department, input.initials, input.facultyId);
+      return { success: true };
+    }),
+
+  /**
+   * Admin: forget a confirmed mapping, so the initials are matched by name again
+   */
+  removeTeacherAlias: adminProcedure
+    .input(
+      z.object({
+        department: departmentInput,
+        initials: z.string().min(1),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const removed = await FacultyResolver.removeAlias(input.department, input.initials);
+      if (!removed) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `No confirmed mapping for ${input.initials}` });
+      }
+      return { success: true };
+    }),
 });
@@ -0,0 +1,43 @@
+import type { Express, Request, Response } from "express";
+import { buildIcsFeed } from "../services/ical-feed";
+import { AcademicCalendarService } from "../services/academic-calendar";
+import { ScheduleQueryError, getScheduleFileName, resolveScheduleQuery } from "./schedule-query";
+
+/**
+ * Subscribable calendar feeds:
+ *   GET /api/calendar.ics?department=cse&batchSection=71_I
+ *   GET /api/calendar.ics?department=cse&teacher=MB
+ *   GET /api/calendar.ics?department=cse&room=KT-222
+ * Holidays and day swaps from the academic calendar are applied to the weekly events.
+ */
+export function registerCalendarRoutes(app: Express) {
+  app.get("/api/calendar.ics", async (req: Request, res: Response) => {
+    try {
+      const query = await resolveScheduleQuery(req);
+      const [semester, calendar] = await Promise.all([
+        AcademicCalendarService.getSemester(query.pdfUrl),
+        AcademicCalendarService.getCalendar(),
+      ]);
+
+      const ics = buildIcsFeed(query.classes, {
+        calendarName: `${query.department.toUpperCase()} ${query.subject}`,
+        department: query.department,
+        version: query.version,
+        semester,
+        calendar,
+        generatedAt: query.parsedAt,
+      });
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", `inline; filename="${getScheduleFileName(query)}.ics"`);
+      res.send(ics);
+    } catch (error: any) {
+      if (error instanceof ScheduleQueryError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error("[calendar] Failed to build feed", error);
+      res.status(500).json({ error: error.message || "Failed to build calendar feed" });
+    }
+  });
+}
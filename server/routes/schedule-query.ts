@@ -0,0 +1,80 @@
+import type { Request } from "express";
+import { PdfCacheService } from "../services/pdf-cache-service";
+import {
+  filterByBatchSection,
+  filterByRoom,
+  filterByTeacher,
+  type ClassSchedule,
+} from "../services/routine-query";
+import { isKnownDepartment, resolveRoutinePdfUrl } from "../services/routine-source";
+
+export type ScheduleSubjectType = "batchSection" | "teacher" | "room";
+
+export interface ScheduleQuery {
+  department: string;
+  subjectType: ScheduleSubjectType;
+  subject: string; // Uppercased batch_section, teacher initials or room
+  pdfUrl: string;
+  version: string;
+  parsedAt?: Date;
+  classes: ClassSchedule[];
+}
+
+/**
+ * Invalid query parameters; routes answer these with 400
+ */
+export class ScheduleQueryError extends Error {}
+
+export function getQueryParam(req: Request, key: string): string | undefined {
+  const value = req.query[key];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Resolve `?department=cse&batchSection=71_I` (or `teacher=` / `room=`) to the
+ * matching classes of the department's current routine
+ */
+export async function resolveScheduleQuery(req: Request): Promise<ScheduleQuery> {
+  const department = (getQueryParam(req, "department") || "cse").toLowerCase();
+  if (!isKnownDepartment(department)) {
+    throw new ScheduleQueryError("Unknown department");
+  }
+
+  const subjects = (["batchSection", "teacher", "room"] as const)
+    .map((type) => ({ type, value: getQueryParam(req, type) }))
+    .filter((s): s is { type: ScheduleSubjectType; value: string } => !!s.value);
+  if (subjects.length !== 1) {
+    throw new ScheduleQueryError("Exactly one of batchSection, teacher or room is required");
+  }
+
+  const subjectType = subjects[0].type;
+  const subject = subjects[0].value.toUpperCase();
+
+  const pdfUrl = await resolveRoutinePdfUrl(department);
+  const allClasses = await PdfCacheService.getOrParsePdf(department, pdfUrl);
+  const cacheStatus = await PdfCacheService.getCacheStatus(department, pdfUrl);
+
+  const classes =
+    subjectType === "batchSection"
+      ? filterByBatchSection(allClasses, subject)
+      : subjectType === "teacher"
+        ? filterByTeacher(allClasses, subject)
+        : filterByRoom(allClasses, subject);
+
+  return {
+    department,
+    subjectType,
+    subject,
+    pdfUrl,
+    version: cacheStatus.version || "1.0",
+    parsedAt: cacheStatus.parsedAt,
+    classes,
+  };
+}
+
+/**
+ * File name stem for downloads, e.g. "cse-71-i"
+ */
+export function getScheduleFileName(query: ScheduleQuery): string {
+  return `${query.department}-${query.subject.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`;
+}
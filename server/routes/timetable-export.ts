@@ -0,0 +1,76 @@
+import type { Express, Request, Response } from "express";
+import { FacultyResolver } from "../services/faculty-resolver";
+import { FacultyService } from "../services/faculty-service";
+import { groupByDay } from "../services/routine-query";
+import { getRoutineSemester } from "../services/semester";
+import {
+  renderTimetablePdf,
+  renderTimetablePng,
+  type TimetableDocument,
+} from "../services/timetable-renderer";
+import {
+  ScheduleQueryError,
+  getQueryParam,
+  getScheduleFileName,
+  resolveScheduleQuery,
+} from "./schedule-query";
+
+/**
+ * Printable timetables:
+ *   GET /api/timetable.pdf?department=cse&batchSection=71_I
+ *   GET /api/timetable.png?department=cse&teacher=MB
+ * Add `download=1` to get an attachment instead of an inline file.
+ */
+export function registerTimetableExportRoutes(app: Express) {
+  const handler = (format: "pdf" | "png") => async (req: Request, res: Response) => {
+    try {
+      const query = await resolveScheduleQuery(req);
+
+      // Full teacher names for the routine's initials (initials if unknown)
+      const initials = Array.from(new Set(query.classes.map((c) => c.teacher.toUpperCase()).filter(Boolean)));
+      if (query.subjectType === "teacher" && !initials.includes(query.subject)) initials.push(query.subject);
+      const faculty = await FacultyService.getAllFaculty(query.department);
+      const resolved = await FacultyResolver.resolveFaculty(query.department, initials, faculty);
+      const teacherNames = Object.fromEntries(resolved.map((f) => [f.initials, f.fullName]));
+
+      const subjectLabel =
+        query.subjectType === "teacher"
+          ? teacherNames[query.subject] || query.subject
+          : query.subjectType === "room"
+            ? `Room ${query.subject}`
+            : query.subject;
+
+      const doc: TimetableDocument = {
+        title: subjectLabel,
+        subtitle: [
+          query.department.toUpperCase(),
+          getRoutineSemester(query.pdfUrl).name,
+          `Routine v${query.version}`,
+        ].join(" · "),
+        schedule: groupByDay(query.classes),
+        teacherNames,
+        showSection: query.subjectType !== "batchSection",
+      };
+
+      const file = format === "pdf" ? await renderTimetablePdf(doc) : renderTimetablePng(doc);
+      const disposition = getQueryParam(req, "download") ? "attachment" : "inline";
+
+      res.setHeader("Content-Type", format === "pdf" ? "application/pdf" : "image/png");
+      res.setHeader(
+        "Content-Disposition",
+        `${disposition}; filename="${getScheduleFileName(query)}-timetable.${format}"`
+      );
+      res.send(file);
+    } catch (error: any) {
+      if (error instanceof ScheduleQueryError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error(`[timetable] Failed to render ${format}`, error);
+      res.status(500).json({ error: error.message || "Failed to render timetable" });
+    }
+  };
+
+  app.get("/api/timetable.pdf", handler("pdf"));
+  app.get("/api/timetable.png", handler("png"));
+}
@@ -0,0 +1,331 @@
+import { asc, eq } from "drizzle-orm";
+import { getDb } from "../db";
+import { academicSemesters, calendarEvents } from "../../drizzle/schema";
+import { parseExamDate } from "./exam-routine-parser";
+import { getRoutineSemester, type Semester } from "./semester";
+import { formatDay } from "../../shared/routine-time";
+import { DAYS } from "../../types";
+
+export type CalendarEventType = "holiday" | "day_swap";
+
+export type CalendarDayStatus = "classes" | "holiday" | "day_swap" | "break";
+
+export interface SemesterDates {
+  name: string; // e.g., "Spring 2026"
+  startDate: string; // YYYY-MM-DD
+  endDate: string;
+}
+
+export interface CalendarEventEntry {
+  id?: number;
+  type: CalendarEventType;
+  title: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // Same as startDate for one day
+  followsDay: string | null; // day_swap only, uppercase (e.g., "SUNDAY")
+  noticeUrl?: string | null;
+}
+
+export interface AcademicCalendar {
+  semesters: SemesterDates[];
+  events: CalendarEventEntry[];
+}
+
+export interface CalendarDay {
+  date: string; // YYYY-MM-DD
+  weekday: string; // Title case, e.g., "Saturday"
+  routineDay: string | null; // Weekday whose classes run, null when there are none
+  status: CalendarDayStatus;
+  title?: string; // Holiday or day swap title
+  semester?: string;
+}
+
+// Sentences that put a date off (rather than e.g. the date the notice was issued)
+const HOLIDAY_CONTEXT = /\b(holidays?|closed|vacation|off|suspended|break|shut)\b/i;
+
+// A full date in either format parseExamDate reads, e.g. "26-03-2026" or "26th March, 2026"
+const DATE_PATTERN =
+  /\b\d{1,2}[-/.]\d{1,2}[-/.](?:\d{4}|\d{2})\b|\b\d{1,2}(?:st|nd|rd|th)?[\s-]+[A-Za-z]{3,9}[\s,-]+(?:\d{4}|\d{2})\b/g;
+
+// "10-14 April 2026", "10th to 14th April, 2026"
+const SHORT_RANGE_PATTERN =
+  /\b(\d{1,2})(?:st|nd|rd|th)?\s*(?:-|–|to|till)\s*(\d{1,2})(?:st|nd|rd|th)?[\s-]+([A-Za-z]{3,9})[\s,-]+(\d{4}|\d{2})\b/gi;
+
+// What may separate the two ends of a range, once weekdays and brackets are dropped
+const RANGE_JOINER = /^[\s,]*(?:-|–|to|till|until|through)[\s,]*$/i;
+
+// "Sunday classes will be held on ...", "... will follow Sunday's routine", "routine of Sunday"
+const FOLLOWS_DAY_PATTERNS = [
+  /\b([a-z]+day)(?:'s)?\s+(?:classes|routine|schedule)\s+will\s+(?:be\s+held|run|take\s+place)/i,
+  /\bfollow(?:s|ing)?\s+(?:the\s+)?([a-z]+day)(?:'s)?\s+(?:classes|routine|schedule)/i,
+  /\b(?:classes|routine|schedule)\s+of\s+([a-z]+day)\b/i,
+];
+
+const weekdayOf = (date: string) => DAYS[(new Date(`${date}T00:00:00Z`).getUTCDay() + 1) % 7];
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+/**
+ * Date ranges mentioned in a sentence, e.g. "from 10 April 2026 (Friday) to 14 April 2026"
+ */
+export function findDateRanges(sentence: string): { start: string; end: string }[] {
+  const found: { index: number; length: number; start: string; end: string }[] = [];
+
+  for (const match of sentence.matchAll(SHORT_RANGE_PATTERN)) {
+    const end = parseExamDate(`${match[2]} ${match[3]} ${match[4]}`);
+    const start = parseExamDate(`${match[1]} ${match[3]} ${match[4]}`);
+    if (start && end) found.push({ index: match.index!, length: match[0].length, start, end });
+  }
+
+  for (const match of sentence.matchAll(DATE_PATTERN)) {
+    const index = match.index!;
+    if (found.some((f) => index >= f.index && index < f.index + f.length)) continue;
+    const date = parseExamDate(match[0]);
+    if (date) found.push({ index, length: match[0].length, start: date, end: date });
+  }
+
+  found.sort((a, b) => a.index - b.index);
+
+  const ranges: { start: string; end: string }[] = [];
+  for (let i = 0; i < found.length; i++) {
+    const current = found[i];
+    const next = found[i + 1];
+    if (next) {
+      const gap = sentence
+        .slice(current.index + current.length, next.index)
+        .replace(/\([^)]*\)/g, " ")
+        .replace(/\b[a-z]+day\b/gi, " ");
+      if (RANGE_JOINER.test(gap) && next.end >= current.start) {
+        ranges.push({ start: current.start, end: next.end });
+        i++;
+        continue;
+      }
+    }
+    ranges.push({ start: current.start, end: current.end });
+  }
+  return ranges;
+}
+
+/**
+ * Holidays and day swaps announced in a notice.
+ * Day swaps are read from any notice; holidays only when the notice is a holiday notice.
+ */
+export function parseCalendarNotice(
+  notice: { title: string; url?: string; isHolidayNotice: boolean },
+  text: string
+): CalendarEventEntry[] {
+  const sentences = `${notice.title}\n${text}`
+    .split(/\n|(?<=\.)\s+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  const events: CalendarEventEntry[] = [];
+  const seen = new Set<string>();
+  const add = (event: CalendarEventEntry) => {
+    const key = `${event.type}|${event.startDate}|${event.endDate}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    events.push(event);
+  };
+
+  for (const sentence of sentences) {
+    const ranges = findDateRanges(sentence);
+    if (ranges.length === 0) continue;
+
+    const followsDay = FOLLOWS_DAY_PATTERNS.map((p) => p.exec(sentence)?.[1])
+      .map((day) => day && DAYS.find((d) => d.toLowerCase() === day.toLowerCase()))
+      .find(Boolean);
+
+    if (followsDay) {
+      for (const range of ranges) {
+        if (range.start !== range.end || weekdayOf(range.start) === followsDay) continue;
+        add({
+          type: "day_swap",
+          title: `${followsDay} classes`,
+          startDate: range.start,
+          endDate: range.start,
+          followsDay: followsDay.toUpperCase(),
+          noticeUrl: notice.url,
+        });
+      }
+    } else if (notice.isHolidayNotice && HOLIDAY_CONTEXT.test(sentence)) {
+      for (const range of ranges) {
+        add({
+          type: "holiday",
+          title: notice.title,
+          startDate: range.start,
+          endDate: range.end,
+          followsDay: null,
+          noticeUrl: notice.url,
+        });
+      }
+    }
+  }
+
+  return events;
+}
+
+/**
+ * What a date looks like for classes: a holiday, a swapped day, a normal day,
+ * or a break when the date falls between two known semesters.
+ * Dates before the first or after the last known semester keep the weekly routine.
+ */
+export function resolveCalendarDay(calendar: AcademicCalendar, date: string): CalendarDay {
+  const weekday = weekdayOf(date);
+  const semester = calendar.semesters.find((s) => date >= s.startDate && date <= s.endDate);
+  const covering = calendar.events.filter((e) => date >= e.startDate && date <= e.endDate);
+
+  const holiday = covering.find((e) => e.type === "holiday");
+  if (holiday) {
+    return { date, weekday, routineDay: null, status: "holiday", title: holiday.title, semester: semester?.name };
+  }
+
+  const betweenSemesters =
+    !semester &&
+    calendar.semesters.some((s) => s.endDate < date) &&
+    calendar.semesters.some((s) => s.startDate > date);
+  if (betweenSemesters) {
+    return { date, weekday, routineDay: null, status: "break" };
+  }
+
+  const swap = covering.find((e) => e.type === "day_swap" && e.followsDay);
+  if (swap) {
+    return {
+      date,
+      weekday,
+      routineDay: formatDay(swap.followsDay!),
+      status: "day_swap",
+      title: swap.title,
+      semester: semester?.name,
+    };
+  }
+
+  return { date, weekday, routineDay: weekday, status: "classes", semester: semester?.name };
+}
+
+/**
+ * `days` consecutive calendar days starting at `from` (YYYY-MM-DD)
+ */
+export function getCalendarDays(calendar: AcademicCalendar, from: string, days: number): CalendarDay[] {
+  return Array.from({ length: days }, (_, i) => resolveCalendarDay(calendar, addDays(from, i)));
+}
+
+export class AcademicCalendarService {
+  /**
+   * All semesters and events; empty without a database so schedules fall back to the plain weekly routine
+   */
+  static async getCalendar(): Promise<AcademicCalendar> {
+    const db = await getDb();
+    if (!db) return { semesters: [], events: [] };
+
+    const [semesters, events] = await Promise.all([
+      db.select().from(academicSemesters).orderBy(asc(academicSemesters.startDate)),
+      db.select().from(calendarEvents).orderBy(asc(calendarEvents.startDate)),
+    ]);
+
+    return {
+      semesters: semesters.map((s) => ({ name: s.name, startDate: s.startDate, endDate: s.endDate })),
+      events: events.map((e) => ({
+        id: e.id,
+        type: e.type as CalendarEventType,
+        title: e.title,
+        startDate: e.startDate,
+        endDate: e.endDate,
+        followsDay: e.followsDay,
+        noticeUrl: e.noticeUrl,
+      })),
+    };
+  }
+
+  /**
+   * The routine's semester with admin-set dates when stored, otherwise guessed from its label
+   */
+  static async getSemester(routineLabel: string, now: Date = new Date()): Promise<Semester> {
+    const guess = getRoutineSemester(routineLabel, now);
+    const { semesters } = await this.getCalendar();
+    const stored = semesters.find((s) => s.name.toLowerCase() === guess.name.toLowerCase());
+    if (!stored) return guess;
+
+    return {
+      name: stored.name,
+      start: new Date(`${stored.startDate}T00:00:00Z`),
+      end: new Date(`${stored.endDate}T00:00:00Z`),
+    };
+  }
+
+  static async upsertSemester(semester: SemesterDates): Promise<void> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    await db
+      .insert(academicSemesters)
+      .values(semester)
+      .onConflictDoUpdate({
+        target: academicSemesters.name,
+        set: { startDate: semester.startDate, endDate: semester.endDate, updatedAt: new Date() },
+      });
+  }
+
+  /**
+   * Store a holiday or day swap
+   * Returns the new calendarEvents id
+   */
+  static async addEvent(event: CalendarEventEntry): Promise<number> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const [stored] = await db
+      .insert(calendarEvents)
+      .values({
+        type: event.type,
+        title: event.title,
+        startDate: event.startDate,
+        endDate: event.endDate,
+        followsDay: event.type === "day_swap" ? event.followsDay : null,
+        noticeUrl: event.noticeUrl,
+      })
+      .returning({ id: calendarEvents.id });
+
+    return stored.id;
+  }
+
+  /**
+   * Returns false if there was no such event
+   */
+  static async deleteEvent(id: number): Promise<boolean> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const deleted = await db.delete(calendarEvents).where(eq(calendarEvents.id, id)).returning({ id: calendarEvents.id });
+    return deleted.length > 0;
+  }
+
+  /**
+   * Store the holidays and day swaps a notice announces, once per notice
+   * Returns the number of events added
+   */
+  static async ingestNotice(notice: { url: string; title: string; isHolidayNotice: boolean }, text: string): Promise<number> {
+    const events = parseCalendarNotice(notice, text);
+    if (events.length === 0) return 0;
+
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const existing = await db
+      .select({ id: calendarEvents.id })
+      .from(calendarEvents)
+      .where(eq(calendarEvents.noticeUrl, notice.url))
+      .limit(1);
+    if (existing.length > 0) return 0;
+
+    for (const event of events) {
+      await this.addEvent(event);
+    }
+    console.log(`[calendar] ${events.length} calendar event(s) from "${notice.title}"`);
+    return events.length;
+  }
+}
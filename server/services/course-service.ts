@@ -0,0 +1,201 @@
+import { and, eq } from "drizzle-orm";
+import { getDb } from "../db";
+import { courses as coursesTable, type InsertCourse } from "../../drizzle/schema";
+import seedCourses from "../../drizzle/seed/courses.json";
+import type { ClassSchedule } from "./routine-query";
+
+export interface CatalogCourse {
+  department: string; // Lowercase department code, e.g., "cse"
+  code: string; // e.g., "CSE112"
+  title: string;
+  credits: number | null;
+  level: number | null;
+  term: number | null;
+  prerequisites: string[]; // Course codes
+}
+
+export interface CreditLoad {
+  credits: number;
+  courses: number; // Distinct courses in the schedule
+  unknownCourses: string[]; // Codes missing from the catalog or without credits
+}
+
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000; // Reload admin edits every 10 minutes
+
+// Only the CSE catalog is seeded: no EEE, SWE or other department course lists are on hand yet,
+// so their routines show bare course codes until an admin adds the courses (upsertCourse)
+const SEED_COURSES = seedCourses as CatalogCourse[];
+
+const courseKey = (department: string, code: string) =>
+  `${department.toLowerCase()}:${code.replace(/\s+/g, "").toUpperCase()}`;
+
+/**
+ * Course catalog per department.
+ * Routine files only print course codes, so titles and credits come from here: the
+ * `courses` table when a database is configured (seeded from drizzle/seed/courses.json
+ * the first time), otherwise the seed file itself. Lookups are synchronous so the
+ * parsers can use them; async callers reload the table once it is stale.
+ */
+export class CourseService {
+  private static catalog = new Map<string, CatalogCourse>(
+    SEED_COURSES.map((c) => [courseKey(c.department, c.code), c])
+  );
+  private static loadedAt = 0;
+
+  /**
+   * Reload the catalog from the database, seeding an empty table first
+   */
+  static async refresh(): Promise<void> {
+    const db = await getDb();
+    if (!db) return;
+
+    try {
+      let rows = await db.select().from(coursesTable);
+
+      if (rows.length === 0) {
+        console.log(`[courses] Seeding ${SEED_COURSES.length} courses`);
+        rows = await db.insert(coursesTable).values(SEED_COURSES).onConflictDoNothing().returning();
+      }
+
+      this.catalog = new Map(rows.map((c) => [courseKey(c.department, c.code), toCatalogCourse(c)]));
+      this.loadedAt = Date.now();
+    } catch (error) {
+      console.error("[courses] Failed to load the course catalog:", error);
+    }
+  }
+
+  /**
+   * Load the catalog if it has never been loaded or is older than the refresh interval
+   */
+  static async ensureLoaded(): Promise<void> {
+    if (Date.now() - this.loadedAt > REFRESH_INTERVAL_MS) {
+      await this.refresh();
+    }
+  }
+
+  static getCourse(department: string, code: string): CatalogCourse | null {
+    return this.catalog.get(courseKey(department, code)) || null;
+  }
+
+  /**
+   * Course title, or the code itself when the catalog doesn't know it
+   */
+  static getCourseName(department: string, code: string): string {
+    return this.getCourse(department, code)?.title || code;
+  }
+
+  /**
+   * A department's courses, optionally filtered by code or title
+   */
+  static async listCourses(department: string, search?: string): Promise<CatalogCourse[]> {
+    await this.ensureLoaded();
+
+    const dept = department.toLowerCase();
+    const query = search?.trim().toLowerCase();
+
+    return Array.from(this.catalog.values())
+      .filter((c) => c.department === dept)
+      .filter((c) => !query || c.code.toLowerCase().includes(query) || c.title.toLowerCase().includes(query))
+      .sort((a, b) => a.code.localeCompare(b.code));
+  }
+
+  /**
+   * Add a course or update the one with the same department and code
+   */
+  static async upsertCourse(course: CatalogCourse): Promise<CatalogCourse> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const values: InsertCourse = {
+      ...course,
+      department: course.department.toLowerCase(),
+      code: course.code.replace(/\s+/g, "").toUpperCase(),
+      prerequisites: course.prerequisites.map((p) => p.replace(/\s+/g, "").toUpperCase()),
+    };
+
+    const [saved] = await db
+      .insert(coursesTable)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [coursesTable.department, coursesTable.code],
+        set: {
+          title: values.title,
+          credits: values.credits,
+          level: values.level,
+          term: values.term,
+          prerequisites: values.prerequisites,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+
+    const stored = toCatalogCourse(saved);
+    this.catalog.set(courseKey(stored.department, stored.code), stored);
+    return stored;
+  }
+
+  /**
+   * Remove a course; returns false when it wasn't in the catalog
+   */
+  static async deleteCourse(department: string, code: string): Promise<boolean> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const deleted = await db
+      .delete(coursesTable)
+      .where(
+        and(
+          eq(coursesTable.department, department.toLowerCase()),
+          eq(coursesTable.code, code.replace(/\s+/g, "").toUpperCase())
+        )
+      )
+      .returning({ id: coursesTable.id });
+
+    this.catalog.delete(courseKey(department, code));
+    return deleted.length > 0;
+  }
+
+  /**
+   * Replace course names with catalog titles (stored routines keep the names they were parsed with)
+   */
+  static async enrichClasses<T extends ClassSchedule>(classes: T[], department: string): Promise<T[]> {
+    await this.ensureLoaded();
+
+    return classes.map((c) => {
+      const course = this.getCourse(department, c.courseCode);
+      return course ? { ...c, courseName: course.title } : c;
+    });
+  }
+
+  /**
+   * Weekly credit load of a schedule, counting each course once
+   */
+  static getCreditLoad(classes: ClassSchedule[], department: string): CreditLoad {
+    const codes = Array.from(new Set(classes.map((c) => c.courseCode))).sort();
+
+    let credits = 0;
+    const unknownCourses: string[] = [];
+    for (const code of codes) {
+      const course = this.getCourse(department, code);
+      if (course?.credits == null) {
+        unknownCourses.push(code);
+      } else {
+        credits += course.credits;
+      }
+    }
+
+    return { credits, courses: codes.length, unknownCourses };
+  }
+}
+
+function toCatalogCourse(row: typeof coursesTable.$inferSelect): CatalogCourse {
+  return {
+    department: row.department,
+    code: row.code,
+    title: row.title,
+    credits: row.credits,
+    level: row.level,
+    term: row.term,
+    prerequisites: row.prerequisites,
+  };
+}
@@ -0,0 +1,102 @@
+import type { ClassSchedule } from "./routine-query";
+import { RoomFinder } from "./room-finder";
+import { timeToMinutes } from "../../shared/routine-time";
+
+// Less time than this between classes in different buildings is flagged
+const MIN_TRANSFER_MINUTES = 10;
+
+const DAY_ORDER = ["SATURDAY", "SUNDAY", "MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"];
+
+export interface CourseSelection {
+  courseCode: string; // e.g., "CSE112"
+  batchSection: string; // e.g., "70_B"
+}
+
+export interface ScheduleClash {
+  day: string;
+  first: ClassSchedule;
+  second: ClassSchedule;
+  overlapMinutes: number;
+}
+
+export interface TightTransfer {
+  day: string;
+  from: ClassSchedule;
+  to: ClassSchedule;
+  gapMinutes: number;
+  fromBuilding: string;
+  toBuilding: string;
+}
+
+export interface CustomRoutine {
+  classes: ClassSchedule[];
+  missing: CourseSelection[]; // Selections with no classes in the routine
+  clashes: ScheduleClash[];
+  tightTransfers: TightTransfer[];
+}
+
+/**
+ * Minutes two classes overlap (0 if they are on different days or don't touch)
+ */
+export function getOverlapMinutes(a: ClassSchedule, b: ClassSchedule): number {
+  if (a.day.toUpperCase() !== b.day.toUpperCase()) return 0;
+  const overlap =
+    Math.min(timeToMinutes(a.timeEnd), timeToMinutes(b.timeEnd)) -
+    Math.max(timeToMinutes(a.timeStart), timeToMinutes(b.timeStart));
+  return Math.max(overlap, 0);
+}
+
+const selectionKey = (courseCode: string, batchSection: string) =>
+  `${courseCode.toUpperCase()}|${batchSection.toUpperCase()}`;
+
+/**
+ * Merge hand-picked course + section pairs (retakes, improvements) into one routine,
+ * flagging overlapping classes and back-to-back classes in different buildings
+ */
+export function buildCustomRoutine(allClasses: ClassSchedule[], selections: CourseSelection[]): CustomRoutine {
+  const wanted = new Set(selections.map((s) => selectionKey(s.courseCode, s.batchSection)));
+
+  const classes = allClasses
+    .filter((c) => wanted.has(selectionKey(c.courseCode, c.batchSection)))
+    .sort(
+      (a, b) =>
+        DAY_ORDER.indexOf(a.day.toUpperCase()) - DAY_ORDER.indexOf(b.day.toUpperCase()) ||
+        timeToMinutes(a.timeStart) - timeToMinutes(b.timeStart)
+    );
+
+  const found = new Set(classes.map((c) => selectionKey(c.courseCode, c.batchSection)));
+  const missing = selections.filter((s) => !found.has(selectionKey(s.courseCode, s.batchSection)));
+
+  const clashes: ScheduleClash[] = [];
+  const tightTransfers: TightTransfer[] = [];
+
+  for (const day of DAY_ORDER) {
+    const dayClasses = classes.filter((c) => c.day.toUpperCase() === day);
+
+    for (let i = 0; i < dayClasses.length; i++) {
+      const a = dayClasses[i];
+      const aEnd = timeToMinutes(a.timeEnd);
+
+      for (let j = i + 1; j < dayClasses.length; j++) {
+        const b = dayClasses[j];
+        const overlap = getOverlapMinutes(a, b);
+        if (overlap > 0) {
+          clashes.push({ day: a.day, first: a, second: b, overlapMinutes: overlap });
+        }
+      }
+
+      // Next class that starts after this one ends
+      const next = dayClasses.slice(i + 1).find((b) => timeToMinutes(b.timeStart) >= aEnd);
+      if (next) {
+        const gap = timeToMinutes(next.timeStart) - aEnd;
+        const fromBuilding = RoomFinder.getBuilding(a.room);
+        const toBuilding = RoomFinder.getBuilding(next.room);
+        if (gap < MIN_TRANSFER_MINUTES && fromBuilding !== toBuilding) {
+          tightTransfers.push({ day: a.day, from: a, to: next, gapMinutes: gap, fromBuilding, toBuilding });
+        }
+      }
+    }
+  }
+
+  return { classes, missing, clashes, tightTransfers };
+}
@@ -0,0 +1,230 @@
+import { exec } from "child_process";
+import { promisify } from "util";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+import { randomUUID } from "crypto";
+import { CourseService } from "./course-service";
+import { downloadRoutineFile } from "./routine-parser";
+import { minutesToTime, timeToMinutes } from "../../shared/routine-time";
+
+const execAsync = promisify(exec);
+
+export type ExamType = "midterm" | "final";
+
+export interface ExamSchedule {
+  date: string; // YYYY-MM-DD
+  day: string; // e.g., "SATURDAY"
+  timeStart: string; // Routine "hh:mm" format, like class times
+  timeEnd: string;
+  courseCode: string;
+  courseName: string;
+  batchSection: string; // e.g., "71_I"
+  rooms: string[]; // Seat plan rooms for this section
+}
+
+export interface ParsedExamRoutine {
+  examType: ExamType;
+  exams: ExamSchedule[];
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// 14-03-2026, 14/03/2026, 14.03.26
+const NUMERIC_DATE_PATTERN = /\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/;
+// 14 Mar 2026, 14-March-2026, 14th March, 2026
+const NAMED_DATE_PATTERN = /\b(\d{1,2})(?:st|nd|rd|th)?[\s-]+([A-Za-z]{3,9})[\s,-]+(\d{4}|\d{2})\b/;
+// 09:00 AM - 10:30 AM, 9.00-10.30, 02:00 PM to 03:30 PM
+const TIME_RANGE_PATTERN =
+  /\b(\d{1,2})[:.](\d{2})\s*([AaPp]\.?[Mm]\.?)?\s*(?:-|–|to)\s*(\d{1,2})[:.](\d{2})\s*([AaPp]\.?[Mm]\.?)?/;
+const COURSE_PATTERN = /\b([A-Z]{3})\s?(\d{3})\b/;
+// A seat plan room, optionally tagged with the section seated there: "KT-222(71_I)"
+const ROOM_PATTERN = /\b([A-Z]{1,3}\d?-\d{2,4})(?:\s*\((\d{2,3}_[A-Z]\d?)\))?/g;
+const SECTION_PATTERN = /\b(\d{2,3})_([A-Z]\d?)\b/g;
+
+/**
+ * Exam type from a notice title or file name; anything that isn't a midterm is a final
+ */
+export function detectExamType(title: string): ExamType {
+  return /mid[\s-]?term|\bmid\b/i.test(title) ? "midterm" : "final";
+}
+
+/**
+ * Parses exam routine PDFs: one row per course with its date, time, sections and seat plan rooms.
+ * Merged date and time cells only print on the first row they cover, so both carry down
+ * to the following rows; a line with rooms but no course continues the previous row's seat plan.
+ */
+export class ExamRoutineParser {
+  async parsePDFFromURL(url: string, department: string = "cse", title: string = url): Promise<ParsedExamRoutine> {
+    const file = await downloadRoutineFile(url);
+    return this.parsePDFBuffer(file, department, title);
+  }
+
+  /**
+   * Parse a downloaded exam routine with pdftotext -layout
+   */
+  async parsePDFBuffer(pdfBuffer: Buffer, department: string = "cse", title: string = ""): Promise<ParsedExamRoutine> {
+    const tempPdfPath = path.join(os.tmpdir(), `exam_routine_${randomUUID()}.pdf`);
+    await fs.writeFile(tempPdfPath, pdfBuffer);
+
+    try {
+      const { stdout } = await execAsync(`pdftotext -layout "${tempPdfPath}" -`);
+      return this.parseText(stdout, department, title);
+    } finally {
+      fs.unlink(tempPdfPath).catch(() => {});
+    }
+  }
+
+  /**
+   * Parse `pdftotext -layout` output; the exam type comes from the title, or the text's own heading
+   */
+  parseText(text: string, department: string = "cse", title: string = ""): ParsedExamRoutine {
+    const heading = text.split("\n").slice(0, 10).join(" ");
+    const exams = this.extractExams(text, department);
+
+    console.log(`[exam-parser] Extracted ${exams.length} exams`);
+
+    return { examType: detectExamType(`${title} ${heading}`), exams };
+  }
+
+  private extractExams(text: string, department: string): ExamSchedule[] {
+    const exams: ExamSchedule[] = [];
+    const seen = new Set<string>();
+
+    let currentDate = "";
+    let currentTime: { start: string; end: string } | null = null;
+    let previousRow: ExamSchedule[] = [];
+
+    for (const rawLine of text.split("\n")) {
+      const time = parseTimeRange(rawLine);
+      if (time) currentTime = time;
+
+      // Times first: "9.00-10.30" would otherwise look like a date
+      const withoutTime = rawLine.replace(TIME_RANGE_PATTERN, " ");
+      const date = parseExamDate(withoutTime);
+      if (date) currentDate = date;
+
+      // Blank out the date too so its digits aren't read as sections or rooms
+      const line = withoutTime.replace(NUMERIC_DATE_PATTERN, " ").replace(NAMED_DATE_PATTERN, " ");
+
+      const rooms = Array.from(line.matchAll(ROOM_PATTERN), (m) => ({ room: m[1], section: m[2] }));
+      const withoutRooms = line.replace(ROOM_PATTERN, " ");
+      const course = COURSE_PATTERN.exec(withoutRooms);
+
+      if (!course) {
+        // Seat plan wrapped onto the next line
+        if (rooms.length > 0) assignRooms(previousRow, rooms);
+        continue;
+      }
+      if (!currentDate || !currentTime) continue;
+
+      const courseCode = `${course[1]}${course[2]}`;
+      const sections = Array.from(withoutRooms.matchAll(SECTION_PATTERN), (m) => `${m[1]}_${m[2]}`);
+      // Sections only named in the seat plan still sit the exam
+      for (const { section } of rooms) {
+        if (section && !sections.includes(section)) sections.push(section);
+      }
+      if (sections.length === 0) continue;
+
+      const printedTitle = withoutRooms
+        .slice(course.index + course[0].length)
+        .split(/\s{2,}/)
+        .map((part) => part.trim())
+        .find((part) => part && !/^\d{2,3}_/.test(part));
+      const courseName = CourseService.getCourse(department, courseCode)?.title || printedTitle || courseCode;
+
+      previousRow = [];
+      for (const batchSection of sections) {
+        const key = `${currentDate}|${courseCode}|${batchSection}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const exam: ExamSchedule = {
+          date: currentDate,
+          day: getDayOfDate(currentDate),
+          timeStart: currentTime.start,
+          timeEnd: currentTime.end,
+          courseCode,
+          courseName,
+          batchSection,
+          rooms: [],
+        };
+        exams.push(exam);
+        previousRow.push(exam);
+      }
+      assignRooms(previousRow, rooms);
+    }
+
+    return exams;
+  }
+}
+
+/**
+ * Rooms tagged with a section go to that section; untagged rooms are shared by the whole row
+ */
+function assignRooms(row: ExamSchedule[], rooms: { room: string; section?: string }[]) {
+  for (const { room, section } of rooms) {
+    for (const exam of row) {
+      if ((!section || section === exam.batchSection) && !exam.rooms.includes(room)) {
+        exam.rooms.push(room);
+      }
+    }
+  }
+}
+
+/**
+ * First date on a line as YYYY-MM-DD (day first, as DIU prints dates), or null
+ */
+export function parseExamDate(line: string): string | null {
+  let day: number;
+  let month: number;
+  let year: number;
+
+  const numeric = NUMERIC_DATE_PATTERN.exec(line);
+  const named = NAMED_DATE_PATTERN.exec(line);
+  if (numeric) {
+    day = Number(numeric[1]);
+    month = Number(numeric[2]);
+    year = Number(numeric[3]);
+  } else if (named && MONTHS.includes(named[2].slice(0, 3).toLowerCase())) {
+    day = Number(named[1]);
+    month = MONTHS.indexOf(named[2].slice(0, 3).toLowerCase()) + 1;
+    year = Number(named[3]);
+  } else {
+    return null;
+  }
+
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * First time range on a line in the routine's "hh:mm" format.
+ * AM/PM is honoured when printed; otherwise the routine convention (before 08:00 is PM) applies.
+ */
+export function parseTimeRange(line: string): { start: string; end: string } | null {
+  const match = TIME_RANGE_PATTERN.exec(line);
+  if (!match) return null;
+
+  const toMinutes = (hours: string, minutes: string, meridiem?: string) => {
+    if (!meridiem) return timeToMinutes(`${hours}:${minutes}`);
+    const h = Number(hours) % 12 + (meridiem.toLowerCase().startsWith("p") ? 12 : 0);
+    return h * 60 + Number(minutes);
+  };
+
+  return {
+    start: minutesToTime(toMinutes(match[1], match[2], match[3])),
+    end: minutesToTime(toMinutes(match[4], match[5], match[6])),
+  };
+}
+
+function getDayOfDate(date: string): string {
+  // Dates carry no time, so UTC gives the calendar day
+  const index = new Date(`${date}T00:00:00Z`).getUTCDay(); // 0 = Sunday
+  return ["SUNDAY", "MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY", "SATURDAY"][index];
+}
+
+// Export singleton instance
+export const examRoutineParser = new ExamRoutineParser();
@@ -0,0 +1,284 @@
+import { and, desc, eq } from "drizzle-orm";
+import { getDb } from "../db";
+import { examRoutines, examSchedules } from "../../drizzle/schema";
+import { examRoutineParser, type ExamSchedule, type ExamType } from "./exam-routine-parser";
+import { NOTICEBOARD_URL, getNoticeAttachment, scrapeNoticeboardExamRoutines } from "./noticeboard-scraper";
+import { DEPARTMENT_CODES } from "./routine-source";
+import { timeToMinutes } from "../../shared/routine-time";
+
+// DIU exam times are Bangladesh time, which has no daylight saving
+const DHAKA_UTC_OFFSET = "+06:00";
+
+export interface StoredExamRoutine {
+  id: number;
+  department: string;
+  examType: ExamType;
+  title: string | null;
+  pdfUrl: string;
+  totalExams: number;
+  parsedAt: Date;
+}
+
+export interface ExamCourseSelection {
+  courseCode: string; // e.g., "CSE112"
+  batchSection?: string; // Omit for exams shared by every section
+}
+
+export type ExamStatus = "upcoming" | "ongoing" | "finished";
+
+export interface PersonalExam extends ExamSchedule {
+  startsAt: string; // ISO timestamp
+  endsAt: string;
+  minutesUntilStart: number; // Negative once the exam has started
+  status: ExamStatus;
+}
+
+export interface ExamClash {
+  date: string;
+  first: PersonalExam;
+  second: PersonalExam;
+  overlapMinutes: number;
+}
+
+export interface PersonalExamSchedule {
+  exams: PersonalExam[];
+  missing: ExamCourseSelection[]; // Selections with no exam in the routine
+  clashes: ExamClash[];
+  nextExam: PersonalExam | null;
+}
+
+export interface ExamIngestResult {
+  department: string;
+  status: "ingested" | "unchanged" | "not_found" | "failed";
+  noticeTitle?: string;
+  pdfUrl?: string;
+  examType?: ExamType;
+  examRoutineId?: number;
+  totalExams?: number;
+  error?: string;
+}
+
+/**
+ * Start and end of an exam as Dates
+ */
+export function getExamTimes(exam: ExamSchedule): { start: Date; end: Date } {
+  const at = (time: string) => {
+    const minutes = timeToMinutes(time);
+    const hh = String(Math.floor(minutes / 60)).padStart(2, "0");
+    const mm = String(minutes % 60).padStart(2, "0");
+    return new Date(`${exam.date}T${hh}:${mm}:00${DHAKA_UTC_OFFSET}`);
+  };
+  return { start: at(exam.timeStart), end: at(exam.timeEnd) };
+}
+
+/**
+ * A student's exams for a batch_section or a hand-picked course list, in date order,
+ * with countdowns and clashes (two exams at overlapping times on the same date)
+ */
+export function buildExamSchedule(
+  allExams: ExamSchedule[],
+  filter: { batchSection?: string; courses?: ExamCourseSelection[] },
+  now: Date = new Date()
+): PersonalExamSchedule {
+  const courses = filter.courses || [];
+  const batchSection = filter.batchSection?.toUpperCase();
+
+  const matchesSelection = (exam: ExamSchedule, selection: ExamCourseSelection) =>
+    exam.courseCode === selection.courseCode.replace(/\s+/g, "").toUpperCase() &&
+    (!selection.batchSection || exam.batchSection === selection.batchSection.toUpperCase());
+
+  const selected = allExams.filter(
+    (exam) => exam.batchSection.toUpperCase() === batchSection || courses.some((s) => matchesSelection(exam, s))
+  );
+
+  // A course picked without a section matches every section's row; keep one per sitting
+  const sittings = new Map<string, ExamSchedule>();
+  for (const exam of selected) {
+    const key = `${exam.courseCode}|${exam.date}|${exam.timeStart}`;
+    const existing = sittings.get(key);
+    if (!existing || exam.batchSection === batchSection) sittings.set(key, exam);
+  }
+
+  const exams = Array.from(sittings.values())
+    .map((exam): PersonalExam => {
+      const { start, end } = getExamTimes(exam);
+      const status: ExamStatus = now < start ? "upcoming" : now < end ? "ongoing" : "finished";
+      return {
+        ...exam,
+        startsAt: start.toISOString(),
+        endsAt: end.toISOString(),
+        minutesUntilStart: Math.round((start.getTime() - now.getTime()) / 60000),
+        status,
+      };
+    })
+    .sort((a, b) => a.startsAt.localeCompare(b.startsAt) || a.courseCode.localeCompare(b.courseCode));
+
+  const missing = courses.filter((s) => !selected.some((exam) => matchesSelection(exam, s)));
+
+  const clashes: ExamClash[] = [];
+  for (let i = 0; i < exams.length; i++) {
+    for (let j = i + 1; j < exams.length; j++) {
+      const a = exams[i];
+      const b = exams[j];
+      if (a.date !== b.date) continue;
+
+      const overlap =
+        Math.min(timeToMinutes(a.timeEnd), timeToMinutes(b.timeEnd)) -
+        Math.max(timeToMinutes(a.timeStart), timeToMinutes(b.timeStart));
+      if (overlap > 0) {
+        clashes.push({ date: a.date, first: a, second: b, overlapMinutes: overlap });
+      }
+    }
+  }
+
+  return {
+    exams,
+    missing,
+    clashes,
+    nextExam: exams.find((e) => e.status !== "finished") || null,
+  };
+}
+
+export class ExamRoutineService {
+  /**
+   * Store a parsed exam routine with its exams
+   * Returns the new examRoutines id
+   */
+  static async storeExamRoutine(
+    department: string,
+    routine: { examType: ExamType; title?: string; pdfUrl: string },
+    exams: ExamSchedule[]
+  ): Promise<number> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const [stored] = await db
+      .insert(examRoutines)
+      .values({
+        department,
+        examType: routine.examType,
+        title: routine.title,
+        pdfUrl: routine.pdfUrl,
+        totalExams: exams.length,
+      })
+      .returning({ id: examRoutines.id });
+
+    if (exams.length > 0) {
+      await db.insert(examSchedules).values(
+        exams.map((e) => ({
+          examRoutineId: stored.id,
+          department,
+          examDate: e.date,
+          day: e.day,
+          timeStart: e.timeStart,
+          timeEnd: e.timeEnd,
+          courseCode: e.courseCode,
+          courseName: e.courseName,
+          batchSection: e.batchSection,
+          rooms: e.rooms,
+        }))
+      );
+    }
+
+    console.log(`[exams] Stored ${exams.length} ${routine.examType} exams for ${department}`);
+    return stored.id;
+  }
+
+  /**
+   * A department's newest exam routine, optionally of one type
+   */
+  static async getLatestExamRoutine(department: string, examType?: ExamType): Promise<StoredExamRoutine | null> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const [latest] = await db
+      .select()
+      .from(examRoutines)
+      .where(
+        examType
+          ? and(eq(examRoutines.department, department), eq(examRoutines.examType, examType))
+          : eq(examRoutines.department, department)
+      )
+      .orderBy(desc(examRoutines.parsedAt))
+      .limit(1);
+
+    return latest ? { ...latest, examType: latest.examType as ExamType } : null;
+  }
+
+  static async getExams(examRoutineId: number): Promise<ExamSchedule[]> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const rows = await db.select().from(examSchedules).where(eq(examSchedules.examRoutineId, examRoutineId));
+
+    return rows.map((e) => ({
+      date: e.examDate,
+      day: e.day,
+      timeStart: e.timeStart,
+      timeEnd: e.timeEnd,
+      courseCode: e.courseCode,
+      courseName: e.courseName || e.courseCode,
+      batchSection: e.batchSection,
+      rooms: e.rooms,
+    }));
+  }
+
+  /**
+   * Parse and store the newest exam routine notice of each department, unless it is already stored
+   */
+  static async checkNoticeboard(
+    noticeboardUrl: string = NOTICEBOARD_URL,
+    departments: string[] = DEPARTMENT_CODES
+  ): Promise<ExamIngestResult[]> {
+    // The noticeboard lists newest notices first
+    const notices = await scrapeNoticeboardExamRoutines(noticeboardUrl);
+
+    const results: ExamIngestResult[] = [];
+    for (const department of departments) {
+      const notice = notices.find((n) => n.department === department);
+      if (!notice) {
+        results.push({ department, status: "not_found" });
+        continue;
+      }
+
+      const result: ExamIngestResult = {
+        department,
+        status: "unchanged",
+        noticeTitle: notice.title,
+        examType: notice.examType,
+      };
+      results.push(result);
+
+      try {
+        const attachment = await getNoticeAttachment(notice.noticeUrl);
+        if (!attachment || attachment.format !== "pdf") {
+          result.status = "not_found";
+          continue;
+        }
+        result.pdfUrl = attachment.url;
+
+        const current = await this.getLatestExamRoutine(department, notice.examType);
+        if (current?.pdfUrl === attachment.url) continue;
+
+        const parsed = await examRoutineParser.parsePDFFromURL(attachment.url, department, notice.title);
+        if (parsed.exams.length === 0) {
+          throw new Error("No exams found in exam routine PDF");
+        }
+
+        result.examRoutineId = await this.storeExamRoutine(
+          department,
+          { examType: notice.examType, title: notice.title, pdfUrl: attachment.url },
+          parsed.exams
+        );
+        result.totalExams = parsed.exams.length;
+        result.status = "ingested";
+      } catch (error: any) {
+        console.error(`[exams] Failed to ingest ${department} exam routine:`, error.message);
+        result.status = "failed";
+        result.error = error.message;
+      }
+    }
+
+    return results;
+  }
+}
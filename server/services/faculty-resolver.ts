@@ -0,0 +1,217 @@
+import { and, eq } from "drizzle-orm";
+import { getDb } from "../db";
+import { facultyAliases } from "../../drizzle/schema";
+import { FacultyService } from "./faculty-service";
+
+export type TeacherResolutionStatus =
+  | "confirmed" // An admin mapped the initials (facultyAliases)
+  | "matched" // One clear candidate
+  | "suggested" // Only weak candidates; needs confirming
+  | "ambiguous" // Several equally good candidates
+  | "shared" // The best candidate is also the best for other initials
+  | "unmatched"; // No candidate at all
+
+export interface FacultyCandidate {
+  facultyId: number;
+  fullName: string;
+  score: number; // 0-1
+  reason: string;
+}
+
+export interface TeacherResolution {
+  initials: string;
+  facultyId: number | null;
+  status: TeacherResolutionStatus;
+  candidates: FacultyCandidate[];
+}
+
+interface FacultyRecord {
+  id: number;
+  fullName: string;
+}
+
+// Scores at or above this resolve on their own
+const CONFIDENT_SCORE = 0.9;
+
+const MAX_CANDIDATES = 5;
+
+// Honorifics never appear in routine initials; "Md"/"Mohammad" sometimes do
+const HONORIFICS = ["dr", "prof", "professor", "mr", "mrs", "ms", "engr", "doctor"];
+const OPTIONAL_PREFIXES = ["md", "mohammad", "mohammed", "muhammad", "muhammed"];
+
+function nameWords(fullName: string): { words: string[]; withPrefixes: string[] } {
+  const all = fullName
+    .replace(/[^A-Za-z\s-]/g, " ")
+    .split(/[\s-]+/)
+    .filter((w) => w.length > 0 && !HONORIFICS.includes(w.toLowerCase()));
+  return {
+    words: all.filter((w) => !OPTIONAL_PREFIXES.includes(w.toLowerCase())),
+    withPrefixes: all,
+  };
+}
+
+const initialsOf = (words: string[]) => words.map((w) => w[0].toUpperCase()).join("");
+
+/**
+ * Whether `needle` can be read left to right out of `haystack`
+ */
+function isSubsequence(needle: string, haystack: string): boolean {
+  let i = 0;
+  for (const char of haystack) {
+    if (char === needle[i]) i++;
+    if (i === needle.length) return true;
+  }
+  return needle.length === 0;
+}
+
+/**
+ * How well routine initials fit a faculty name, from 1 (every word's initial) down to 0 (no fit)
+ */
+export function scoreInitials(initials: string, fullName: string): { score: number; reason: string } {
+  const target = initials.replace(/[^A-Za-z]/g, "").toUpperCase();
+  const { words, withPrefixes } = nameWords(fullName);
+  if (!target || words.length === 0) return { score: 0, reason: "" };
+
+  if (target === initialsOf(words)) return { score: 1, reason: "Initials of every name" };
+  if (target === initialsOf(withPrefixes)) return { score: 0.95, reason: "Initials including Md." };
+  if (words.length > 1 && target === initialsOf([words[0], words[words.length - 1]])) {
+    return { score: 0.9, reason: "First and last name" };
+  }
+
+  const wordInitials = initialsOf(withPrefixes);
+  if (target[0] === wordInitials[0] && isSubsequence(target, wordInitials)) {
+    return { score: 0.7, reason: "Initials of some names" };
+  }
+
+  // e.g. "SHR" for "Shahriar": letters in order, starting a word
+  const letters = withPrefixes.join("").toUpperCase();
+  if (wordInitials.includes(target[0]) && isSubsequence(target, letters.slice(letters.indexOf(target[0])))) {
+    return { score: 0.4, reason: "Letters of the name" };
+  }
+
+  return { score: 0, reason: "" };
+}
+
+/**
+ * Best-fitting faculty for routine initials, best first
+ */
+export function suggestFacultyMatches(initials: string, faculty: FacultyRecord[]): FacultyCandidate[] {
+  return faculty
+    .map((f) => ({ facultyId: f.id, fullName: f.fullName, ...scoreInitials(initials, f.fullName) }))
+    .filter((c) => c.score > 0)
+    .sort((a, b) => b.score - a.score || a.fullName.localeCompare(b.fullName))
+    .slice(0, MAX_CANDIDATES);
+}
+
+/**
+ * Map each routine initials to a faculty record: confirmed aliases first, then a clear best candidate.
+ * Faculty already confirmed for other initials aren't suggested again.
+ */
+export function resolveTeacherInitials(
+  initials: string[],
+  faculty: FacultyRecord[],
+  aliases: { initials: string; facultyId: number }[]
+): TeacherResolution[] {
+  const aliasByInitials = new Map(aliases.map((a) => [a.initials.toUpperCase(), a.facultyId]));
+  const claimed = new Set(aliases.map((a) => a.facultyId));
+  const unclaimed = faculty.filter((f) => !claimed.has(f.id));
+
+  const resolutions = Array.from(new Set(initials.map((i) => i.toUpperCase())))
+    .sort()
+    .map((routineInitials): TeacherResolution => {
+      const aliased = aliasByInitials.get(routineInitials);
+      if (aliased !== undefined && faculty.some((f) => f.id === aliased)) {
+        return { initials: routineInitials, facultyId: aliased, status: "confirmed", candidates: [] };
+      }
+
+      const candidates = suggestFacultyMatches(routineInitials, unclaimed);
+      const [best, runnerUp] = candidates;
+      if (!best) return { initials: routineInitials, facultyId: null, status: "unmatched", candidates };
+      if (runnerUp && runnerUp.score === best.score) {
+        return { initials: routineInitials, facultyId: null, status: "ambiguous", candidates };
+      }
+      if (best.score < CONFIDENT_SCORE) {
+        return { initials: routineInitials, facultyId: null, status: "suggested", candidates };
+      }
+      return { initials: routineInitials, facultyId: best.facultyId, status: "matched", candidates };
+    });
+
+  // Two initials can't both be one teacher unless an admin says so
+  const matchCounts = new Map<number, number>();
+  for (const r of resolutions) {
+    if (r.status === "matched") matchCounts.set(r.facultyId!, (matchCounts.get(r.facultyId!) || 0) + 1);
+  }
+  for (const r of resolutions) {
+    if (r.status === "matched" && matchCounts.get(r.facultyId!)! > 1) {
+      r.status = "shared";
+      r.facultyId = null;
+    }
+  }
+
+  return resolutions;
+}
+
+export class FacultyResolver {
+  static async getAliases(department: string) {
+    const db = await getDb();
+    if (!db) return [];
+
+    return db.select().from(facultyAliases).where(eq(facultyAliases.department, department));
+  }
+
+  /**
+   * Resolution of every routine initials in a department, with candidates for the unconfirmed ones
+   */
+  static async resolveTeachers(department: string, initials: string[]): Promise<TeacherResolution[]> {
+    const [faculty, aliases] = await Promise.all([FacultyService.getAllFaculty(department), this.getAliases(department)]);
+    return resolveTeacherInitials(initials, faculty, aliases);
+  }
+
+  /**
+   * Faculty records for routine initials, each carrying the routine's initials so the app can look them up
+   */
+  static async resolveFaculty<T extends FacultyRecord & { initials: string }>(
+    department: string,
+    initials: string[],
+    faculty: T[]
+  ): Promise<T[]> {
+    const aliases = await this.getAliases(department);
+    const byId = new Map(faculty.map((f) => [f.id, f]));
+
+    return resolveTeacherInitials(initials, faculty, aliases).flatMap((r) => {
+      const member = r.facultyId !== null ? byId.get(r.facultyId) : undefined;
+      return member ? [{ ...member, initials: r.initials }] : [];
+    });
+  }
+
+  /**
+   * Map routine initials to a faculty member, replacing any earlier mapping
+   */
+  static async confirmAlias(department: string, initials: string, facultyId: number): Promise<void> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    await db
+      .insert(facultyAliases)
+      .values({ department, initials: initials.toUpperCase(), facultyId })
+      .onConflictDoUpdate({
+        target: [facultyAliases.department, facultyAliases.initials],
+        set: { facultyId, updatedAt: new Date() },
+      });
+    console.log(`[faculty] ${department} ${initials.toUpperCase()} -> faculty ${facultyId}`);
+  }
+
+  /**
+   * Returns false if the initials had no confirmed mapping
+   */
+  static async removeAlias(department: string, initials: string): Promise<boolean> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const deleted = await db
+      .delete(facultyAliases)
+      .where(and(eq(facultyAliases.department, department), eq(facultyAliases.initials, initials.toUpperCase())))
+      .returning({ id: facultyAliases.id });
+    return deleted.length > 0;
+  }
+}
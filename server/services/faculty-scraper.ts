@@ -2,9 +2,44 @@ import axios from "axios";
 import * as cheerio from "cheerio";
 import type { Faculty } from "../../types";
 
+/**
+ * Fetches a page's HTML; the faculty sync passes a rate-limited one
+ */
+export type FetchPage = (url: string) => Promise<string>;
+
+export interface ListingOptions {
+  maxPages?: number; // Default: unlimited
+  baseUrl?: string;
+  fetchPage?: FetchPage;
+}
+
+export interface ListingResult {
+  faculty: Faculty[];
+  complete: boolean; // False when a later page failed or a page limit cut the listing short
+}
+
+export interface ProfileContact {
+  email: string;
+  phone: string;
+  room: string;
+}
+
 export class FacultyScraper {
-  private static readonly BASE_URL = "https://faculty.daffodilvarsity.edu.bd";
+  static readonly BASE_URL = "https://faculty.daffodilvarsity.edu.bd";
   private static readonly BATCH_SIZE = 10; // Process 10 profiles in parallel
+
+  /**
+   * Plain GET of a faculty site page
+   */
+  static async fetchPage(url: string): Promise<string> {
+    const response = await axios.get(url, {
+      headers: {
+        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+      },
+      timeout: 10000,
+    });
+    return response.data;
+  }
   
   /**
    * Scrape all faculty members from a department
@@ -13,10 +48,33 @@ export class FacultyScraper {
    * @param maxPages Maximum number of pages to scrape (default: unlimited)
    */
   static async scrapeFaculty(department: string = "cse", maxPages: number = 999): Promise<Faculty[]> {
+    let allFaculty: Faculty[];
+    try {
+      ({ faculty: allFaculty } = await this.scrapeListing(department, { maxPages }));
+    } catch (error) {
+      console.error(`[FacultyScraper] Error scraping ${department.toUpperCase()} faculty listing:`, error);
+      return [];
+    }
+    
+    // Step 2: Scrape profile pages in parallel batches
+    console.log(`[FacultyScraper] Starting parallel profile scraping (batch size: ${this.BATCH_SIZE})...`);
+    await this.enrichWithProfileDataParallel(allFaculty);
+    
+    return allFaculty;
+  }
+
+  /**
+   * Scrape a department's listing pages: names, designations, photos and profile URLs (no contact details)
+   * Throws if the first page can't be fetched, so a site outage isn't mistaken for an empty department;
+   * a later page failing returns what was read so far, flagged as incomplete
+   */
+  static async scrapeListing(department: string, options: ListingOptions = {}): Promise<ListingResult> {
+    const { maxPages = 999, baseUrl = this.BASE_URL, fetchPage = (url: string) => this.fetchPage(url) } = options;
     const allFaculty: Faculty[] = [];
     let offset = 0;
     const PAGE_SIZE = 20;
     let hasMore = true;
+    let complete = true;
 
     console.log(`[FacultyScraper] Starting to scrape ${department.toUpperCase()} faculty...`);
 
@@ -24,19 +82,12 @@ export class FacultyScraper {
     while (hasMore) {
       try {
         const url = offset === 0 
-          ? `${this.BASE_URL}/teachers/${department}`
-          : `${this.BASE_URL}/teachers/${department}/${offset}`;
+          ? `${baseUrl}/teachers/${department}`
+          : `${baseUrl}/teachers/${department}/${offset}`;
         
         console.log(`[FacultyScraper] Fetching page at offset ${offset}: ${url}`);
         
-        const response = await axios.get(url, {
-          headers: {
-            "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-          },
-          timeout: 10000,
-        });
-
-        const $ = cheerio.load(response.data);
+        const $ = cheerio.load(await fetchPage(url));
         let facultyCount = 0;
 
         $("li").each((_, element) => {
@@ -57,14 +108,14 @@ export class FacultyScraper {
           if (profileUrl) {
             fullProfileUrl = profileUrl.startsWith("http") 
               ? profileUrl 
-              : `${this.BASE_URL}${profileUrl}`;
+              : `${baseUrl}${profileUrl}`;
           }
           
           allFaculty.push({
             id: initials,
             name,
             initials,
-            photoUrl: photoUrl.startsWith("http") ? photoUrl : `${this.BASE_URL}${photoUrl}`,
+            photoUrl: photoUrl.startsWith("http") ? photoUrl : `${baseUrl}${photoUrl}`,
             department: department.toUpperCase(),
             designation: designation || "Faculty Member",
             email: "",
@@ -86,28 +137,27 @@ export class FacultyScraper {
         }
         
         const currentPage = (offset / PAGE_SIZE) + 1;
-        if (currentPage >= maxPages) {
+        if (hasMore && currentPage >= maxPages) {
           console.log(`[FacultyScraper] Reached maxPages limit (${maxPages})`);
           hasMore = false;
+          complete = false;
         }
         
-        if (offset > 500) {
+        if (hasMore && offset > 500) {
           console.log(`[FacultyScraper] Safety limit reached`);
           hasMore = false;
+          complete = false;
         }
       } catch (error) {
+        if (offset === 0) throw error;
         console.error(`[FacultyScraper] Error scraping page at offset ${offset}:`, error);
         hasMore = false;
+        complete = false;
       }
     }
 
     console.log(`[FacultyScraper] Completed scraping listing pages. Total faculty: ${allFaculty.length}`);
-    
-    // Step 2: Scrape profile pages in parallel batches
-    console.log(`[FacultyScraper] Starting parallel profile scraping (batch size: ${this.BATCH_SIZE})...`);
-    await this.enrichWithProfileDataParallel(allFaculty);
-    
-    return allFaculty;
+    return { faculty: allFaculty, complete };
   }
 
   /**
@@ -162,46 +212,53 @@ export class FacultyScraper {
     if (!member.profileUrl) return;
     
     try {
-      const response = await axios.get(member.profileUrl, {
-        headers: {
-          "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-        },
-        timeout: 8000,
-      });
-      
-      const $ = cheerio.load(response.data);
-      
-      // Extract contact information from DIV-based layout
-      // Structure: <div>Label</div><div>Value</div>
-      $("div").each((_, element) => {
-        const $div = $(element);
-        const label = $div.text().trim().toLowerCase();
-        const $nextDiv = $div.next("div");
-        const value = $nextDiv.text().trim();
-        
-        // Only process if this looks like a label and has a next sibling
-        if (!value || value.length > 100) return;
-        
-        if (label === "e-mail" || label === "email") {
-          const emails = value.split(",").map(e => e.trim());
-          member.email = emails[0] || "";
-        } else if (label === "cell-phone" || label === "cell phone") {
-          member.phone = value;
-        } else if (label === "phone") {
-          // Prefer cell phone over office phone
-          if (!member.phone) {
-            member.phone = value;
-          }
-        } else if (label === "room" || label === "office") {
-          member.room = value;
-        }
-      });
+      Object.assign(member, await this.scrapeProfile(member.profileUrl));
     } catch (error) {
       // Silent fail - profile page might not exist or be inaccessible
       // We'll just keep the empty contact fields
     }
   }
 
+  /**
+   * Contact details from a profile page
+   * Throws if the page can't be fetched
+   */
+  static async scrapeProfile(
+    profileUrl: string,
+    fetchPage: FetchPage = (url: string) => this.fetchPage(url)
+  ): Promise<ProfileContact> {
+    const $ = cheerio.load(await fetchPage(profileUrl));
+    const contact: ProfileContact = { email: "", phone: "", room: "" };
+    
+    // Extract contact information from DIV-based layout
+    // Structure: <div>Label</div><div>Value</div>
+    $("div").each((_, element) => {
+      const $div = $(element);
+      const label = $div.text().trim().toLowerCase();
+      const $nextDiv = $div.next("div");
+      const value = $nextDiv.text().trim();
+      
+      // Only process if this looks like a label and has a next sibling
+      if (!value || value.length > 100) return;
+      
+      if (label === "e-mail" || label === "email") {
+        const emails = value.split(",").map(e => e.trim());
+        contact.email = emails[0] || "";
+      } else if (label === "cell-phone" || label === "cell phone") {
+        contact.phone = value;
+      } else if (label === "phone") {
+        // Prefer cell phone over office phone
+        if (!contact.phone) {
+          contact.phone = value;
+        }
+      } else if (label === "room" || label === "office") {
+        contact.room = value;
+      }
+    });
+
+    return contact;
+  }
+
   /**
    * Generate initials from full name
    */
@@ -1,11 +1,15 @@
 import { getDb } from "../db";
-import { faculty as facultyTable } from "../../drizzle/schema";
+import { faculty as facultyTable, type Faculty as FacultyRow } from "../../drizzle/schema";
 import { FacultyScraper } from "./faculty-scraper";
-import { eq } from "drizzle-orm";
+import { FacultySync } from "./faculty-sync";
+import { and, eq } from "drizzle-orm";
+
+// Stored faculty older than this are refreshed by a background sync
+const FACULTY_MAX_AGE_DAYS = 7;
 
 export class FacultyService {
   /**
-   * Get all faculty from database
+   * Get all current faculty from database (not those who have left the faculty site)
    */
   static async getAllFaculty(department: string = "cse") {
     const db = await getDb();
@@ -14,22 +18,28 @@ export class FacultyService {
     const result = await db
       .select()
       .from(facultyTable)
-      .where(eq(facultyTable.department, department));
+      .where(and(eq(facultyTable.department, department), eq(facultyTable.status, "active")));
     
     return result;
   }
 
   /**
-   * Get faculty by initials
+   * Get faculty by initials within a department
+   * Generated initials can collide; use FacultyResolver to map routine initials
    */
-  static async getFacultyByInitials(initials: string) {
+  static async getFacultyByInitials(initials: string, department: string = "cse") {
     const db = await getDb();
     if (!db) return null;
     
     const result = await db
       .select()
       .from(facultyTable)
-      .where(eq(facultyTable.initials, initials.toUpperCase()))
+      .where(
+        and(
+          eq(facultyTable.department, department),
+          eq(facultyTable.initials, initials.toUpperCase())
+        )
+      )
       .limit(1);
     
     return result[0] || null;
@@ -37,78 +47,52 @@ export class FacultyService {
 
   /**
    * Scrape and store faculty data
-   * Returns cached data if available and fresh (< 7 days old)
+   * Returns stored data, syncing first when there is none and in the background once it is a week old
    */
-  static async scrapeAndStoreFaculty(department: string = "cse", forceRefresh: boolean = false) {
+  static async scrapeAndStoreFaculty(department: string = "cse", forceRefresh: boolean = false): Promise<FacultyRow[]> {
     const db = await getDb();
     if (!db) {
       console.warn("Database not available, returning scraped data only");
-      return await FacultyScraper.scrapeFaculty(department);
+      const scraped = await FacultyScraper.scrapeFaculty(department);
+      const now = new Date();
+      // Shaped like stored rows; ids only hold for this response
+      return scraped.map((member, index) => ({
+        id: index + 1,
+        fullName: member.name,
+        initials: member.initials,
+        department,
+        photoUrl: member.photoUrl,
+        profileUrl: member.profileUrl || null,
+        email: member.email || null,
+        phone: member.phone || null,
+        room: member.room || null,
+        designation: member.designation || null,
+        status: "active",
+        listingHash: null,
+        profileFetchedAt: now,
+        lastSeenAt: now,
+        createdAt: now,
+        updatedAt: now,
+      }));
     }
-    // Check if we have cached data
-    if (!forceRefresh) {
-      const cached = await this.getAllFaculty(department);
-      if (cached.length > 0) {
-        // Check if data is fresh (less than 7 days old)
-        const oldestEntry = cached.sort((a: any, b: any) => 
-          new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime()
-        )[0];
-        
-        const daysSinceUpdate = (Date.now() - new Date(oldestEntry.updatedAt).getTime()) / (1000 * 60 * 60 * 24);
-        
-        if (daysSinceUpdate < 7) {
-          console.log(`Using cached faculty data (${daysSinceUpdate.toFixed(1)} days old)`);
-          return cached;
-        }
-      }
+    const cached = await this.getAllFaculty(department);
+    if (forceRefresh || cached.length === 0) {
+      // Nothing stored yet (or a refresh was asked for): wait for the sync
+      await FacultySync.syncDepartment(department, { force: forceRefresh });
+      return this.getAllFaculty(department);
     }
 
-    // Scrape fresh data
-    console.log(`Scraping faculty from DIU website (department: ${department})...`);
-    const scrapedFaculty = await FacultyScraper.scrapeFaculty(department);
-
-    // Store in database
-    const stored = [];
-    for (const member of scrapedFaculty) {
-      try {
-        // Check if exists
-        const existing = await this.getFacultyByInitials(member.initials);
-        
-        if (existing) {
-          // Update
-          await db
-            .update(facultyTable)
-            .set({
-              fullName: member.name,
-              photoUrl: member.photoUrl,
-              // profileUrl: member.profileUrl,
-              updatedAt: new Date(),
-            })
-            .where(eq(facultyTable.initials, member.initials));
-          
-          stored.push({ ...existing, ...member });
-        } else {
-          // Insert
-          const [inserted] = await db
-            .insert(facultyTable)
-            .values({
-              fullName: member.name,
-              initials: member.initials,
-              department,
-              photoUrl: member.photoUrl,
-              // profileUrl: member.profileUrl,
-            })
-            .returning();
-          
-          stored.push(inserted);
-        }
-      } catch (error) {
-        console.error(`Error storing faculty ${member.initials}:`, error);
-      }
+    // Stale data is still usable while a sync refreshes it in the background
+    const lastSync = await FacultySync.getLastCompletedRun(department);
+    const daysSinceSync = lastSync ? (Date.now() - lastSync.startedAt.getTime()) / (1000 * 60 * 60 * 24) : Infinity;
+    if (daysSinceSync >= FACULTY_MAX_AGE_DAYS) {
+      console.log(`Faculty data for ${department} is stale, syncing in the background`);
+      FacultySync.syncDepartment(department).catch((error) => {
+        console.error(`Background faculty sync failed for ${department}:`, error);
+      });
     }
 
-    console.log(`Stored ${stored.length} faculty members in database`);
-    return stored;
+    return cached;
   }
 
   /**
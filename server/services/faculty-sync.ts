@@ -0,0 +1,379 @@
+import { createHash } from "crypto";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  faculty as facultyTable,
+  facultyChanges,
+  facultySyncRuns,
+  type Faculty as FacultyRow,
+  type FacultySyncRun,
+} from "../../drizzle/schema";
+import { FacultyScraper, type FetchPage, type ProfileContact } from "./faculty-scraper";
+import { DEPARTMENT_CODES } from "./routine-source";
+import type { Faculty } from "../../types";
+
+const DEFAULT_REQUESTS_PER_SECOND = 2;
+const DEFAULT_INTERVAL_HOURS = 24;
+
+// Profiles are refetched at least this often, even when their listing entry is unchanged
+const PROFILE_MAX_AGE_DAYS = 30;
+
+// A listing this much shorter than the stored faculty is taken as a partial scrape: nobody is marked departed
+const MIN_LISTED_RATIO = 0.5;
+
+// Columns compared between syncs (the initials are generated from the name)
+const TRACKED_FIELDS = ["fullName", "designation", "photoUrl", "profileUrl", "email", "phone", "room"] as const;
+
+type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+export type FacultyChangeType = "added" | "updated" | "departed" | "returned";
+
+export interface FacultyChangeEntry {
+  facultyId: number;
+  fullName: string;
+  changeType: FacultyChangeType;
+  fields: string[]; // Changed columns ("updated" and "returned")
+}
+
+export interface FacultySyncOptions {
+  force?: boolean; // Refetch every profile
+  baseUrl?: string; // Faculty site, for tests
+  requestsPerSecond?: number; // Default: FACULTY_SYNC_REQUESTS_PER_SECOND
+}
+
+export interface FacultySyncReport {
+  syncRunId: number;
+  department: string;
+  status: "completed" | "failed";
+  listed: number;
+  added: number;
+  updated: number;
+  departed: number;
+  returned: number;
+  profilesFetched: number;
+  profilesFailed: number;
+  requests: number;
+  changes: FacultyChangeEntry[];
+  error?: string;
+}
+
+const getRequestsPerSecond = () =>
+  parseFloat(process.env.FACULTY_SYNC_REQUESTS_PER_SECOND || "") || DEFAULT_REQUESTS_PER_SECOND;
+
+/**
+ * Wrap a page fetcher so requests start at most `requestsPerSecond` times a second
+ */
+export function createRateLimitedFetch(
+  requestsPerSecond: number,
+  fetchPage: FetchPage = (url) => FacultyScraper.fetchPage(url)
+): FetchPage {
+  const interval = 1000 / requestsPerSecond;
+  let nextSlot = 0;
+
+  return async (url) => {
+    const now = Date.now();
+    const wait = Math.max(0, nextSlot - now);
+    nextSlot = Math.max(now, nextSlot) + interval;
+    if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+    return fetchPage(url);
+  };
+}
+
+/**
+ * Fingerprint of a listing entry; when it changes the profile page is fetched again
+ */
+export function getListingHash(member: Faculty): string {
+  return createHash("sha256")
+    .update([member.name, member.designation, member.photoUrl, member.profileUrl].join("|"))
+    .digest("hex");
+}
+
+/**
+ * Whether a listed faculty member's profile page has to be fetched this sync
+ */
+export function needsProfileFetch(
+  stored: Pick<FacultyRow, "listingHash" | "profileFetchedAt"> | undefined,
+  listingHash: string,
+  now: Date = new Date(),
+  force: boolean = false
+): boolean {
+  if (force || !stored || !stored.profileFetchedAt) return true;
+  if (stored.listingHash !== listingHash) return true;
+  return now.getTime() - stored.profileFetchedAt.getTime() > PROFILE_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Tracked columns whose value differs; missing contact details count as empty
+ */
+export function diffFacultyFields(
+  stored: Pick<FacultyRow, TrackedField>,
+  next: Partial<Record<TrackedField, string | null>>
+): string[] {
+  return TRACKED_FIELDS.filter((field) => field in next && (stored[field] || "") !== (next[field] || ""));
+}
+
+export class FacultySync {
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static syncing = new Set<string>();
+
+  /**
+   * Bring a department's faculty in line with the faculty site: new and changed listing
+   * entries get their profile fetched, everyone else only has lastSeenAt bumped.
+   * Returns null if the department is already being synced.
+   */
+  static async syncDepartment(department: string, options: FacultySyncOptions = {}): Promise<FacultySyncReport | null> {
+    if (this.syncing.has(department)) {
+      console.log(`[faculty-sync] ${department} sync already in progress, skipping`);
+      return null;
+    }
+
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    this.syncing.add(department);
+    let run: { id: number };
+    try {
+      [run] = await db
+        .insert(facultySyncRuns)
+        .values({ department, status: "running" })
+        .returning({ id: facultySyncRuns.id });
+    } catch (error) {
+      this.syncing.delete(department);
+      throw error;
+    }
+
+    const report: FacultySyncReport = {
+      syncRunId: run.id,
+      department,
+      status: "completed",
+      listed: 0,
+      added: 0,
+      updated: 0,
+      departed: 0,
+      returned: 0,
+      profilesFetched: 0,
+      profilesFailed: 0,
+      requests: 0,
+      changes: [],
+    };
+
+    const limitedFetch = createRateLimitedFetch(options.requestsPerSecond || getRequestsPerSecond());
+    const fetchPage: FetchPage = (url) => {
+      report.requests++;
+      return limitedFetch(url);
+    };
+
+    try {
+      const { faculty: listing, complete } = await FacultyScraper.scrapeListing(department, {
+        baseUrl: options.baseUrl,
+        fetchPage,
+      });
+      if (listing.length === 0) throw new Error("No faculty on the listing pages");
+
+      // The same person can be listed twice (e.g., under two designations)
+      const listed = Array.from(new Map(listing.map((m) => [m.profileUrl || m.name, m])).values());
+      report.listed = listed.length;
+
+      const stored = await db.select().from(facultyTable).where(eq(facultyTable.department, department));
+      const seen = new Set<number>();
+      const now = new Date();
+
+      for (const member of listed) {
+        try {
+          const current =
+            (member.profileUrl && stored.find((f) => f.profileUrl === member.profileUrl)) ||
+            stored.find((f) => f.fullName === member.name);
+          const listingHash = getListingHash(member);
+
+          let contact: ProfileContact | null = null;
+          const wantsProfile = !!member.profileUrl && needsProfileFetch(current, listingHash, now, options.force);
+          if (wantsProfile) {
+            try {
+              contact = await FacultyScraper.scrapeProfile(member.profileUrl!, fetchPage);
+              report.profilesFetched++;
+            } catch (error: any) {
+              report.profilesFailed++;
+              console.error(`[faculty-sync] Failed to fetch profile ${member.profileUrl}:`, error.message);
+            }
+          }
+
+          const fields = {
+            fullName: member.name,
+            designation: member.designation || null,
+            photoUrl: member.photoUrl || null,
+            profileUrl: member.profileUrl || null,
+            ...(contact ? { email: contact.email || null, phone: contact.phone || null, room: contact.room || null } : {}),
+          };
+          // A failed profile fetch keeps the old hash, so the next sync tries again
+          const profileState =
+            !wantsProfile || contact
+              ? { listingHash, profileFetchedAt: contact ? now : current?.profileFetchedAt ?? null }
+              : {};
+
+          if (!current) {
+            const [inserted] = await db
+              .insert(facultyTable)
+              .values({
+                department,
+                initials: member.initials,
+                ...fields,
+                ...profileState,
+                status: "active",
+                lastSeenAt: now,
+              })
+              .returning({ id: facultyTable.id });
+            report.changes.push({ facultyId: inserted.id, fullName: member.name, changeType: "added", fields: [] });
+            continue;
+          }
+
+          seen.add(current.id);
+          const changed = diffFacultyFields(current, fields);
+          const hasReturned = current.status === "departed";
+
+          await db
+            .update(facultyTable)
+            .set({
+              initials: member.initials,
+              ...fields,
+              ...profileState,
+              status: "active",
+              lastSeenAt: now,
+              ...(changed.length > 0 || hasReturned ? { updatedAt: now } : {}),
+            })
+            .where(eq(facultyTable.id, current.id));
+
+          if (hasReturned || changed.length > 0) {
+            report.changes.push({
+              facultyId: current.id,
+              fullName: member.name,
+              changeType: hasReturned ? "returned" : "updated",
+              fields: changed,
+            });
+          }
+        } catch (error: any) {
+          console.error(`[faculty-sync] Failed to store ${member.name}:`, error.message);
+        }
+      }
+
+      const active = stored.filter((f) => f.status !== "departed");
+      const gone = active.filter((f) => !seen.has(f.id));
+      if (gone.length > 0 && !complete) {
+        console.warn(`[faculty-sync] ${department} listing incomplete; not marking anyone departed`);
+      } else if (gone.length > 0 && listed.length < active.length * MIN_LISTED_RATIO) {
+        console.warn(
+          `[faculty-sync] Only ${listed.length} of ${active.length} ${department} faculty listed; not marking anyone departed`
+        );
+      } else if (gone.length > 0) {
+        await db
+          .update(facultyTable)
+          .set({ status: "departed", updatedAt: now })
+          .where(inArray(facultyTable.id, gone.map((f) => f.id)));
+        for (const f of gone) {
+          report.changes.push({ facultyId: f.id, fullName: f.fullName, changeType: "departed", fields: [] });
+        }
+      }
+
+      if (report.changes.length > 0) {
+        await db.insert(facultyChanges).values(report.changes.map((c) => ({ syncRunId: run.id, department, ...c })));
+      }
+
+      for (const type of ["added", "updated", "departed", "returned"] as const) {
+        report[type] = report.changes.filter((c) => c.changeType === type).length;
+      }
+      console.log(
+        `[faculty-sync] ${department}: ${report.listed} listed, +${report.added} -${report.departed} ~${report.updated}, ` +
+          `${report.profilesFetched} profiles fetched in ${report.requests} requests`
+      );
+    } catch (error: any) {
+      console.error(`[faculty-sync] ${department} sync failed:`, error.message);
+      report.status = "failed";
+      report.error = error.message;
+    } finally {
+      this.syncing.delete(department);
+    }
+
+    const { syncRunId, changes, ...counts } = report;
+    await db
+      .update(facultySyncRuns)
+      .set({ ...counts, error: report.error ?? null, finishedAt: new Date() })
+      .where(eq(facultySyncRuns.id, syncRunId));
+
+    return report;
+  }
+
+  static async getLastCompletedRun(department: string): Promise<FacultySyncRun | null> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const [run] = await db
+      .select()
+      .from(facultySyncRuns)
+      .where(and(eq(facultySyncRuns.department, department), eq(facultySyncRuns.status, "completed")))
+      .orderBy(desc(facultySyncRuns.startedAt))
+      .limit(1);
+    return run || null;
+  }
+
+  /**
+   * Recent sync runs, newest first, each with the changes it found
+   */
+  static async getReport(department?: string, limit: number = 10) {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const runs = await db
+      .select()
+      .from(facultySyncRuns)
+      .where(department ? eq(facultySyncRuns.department, department) : undefined)
+      .orderBy(desc(facultySyncRuns.startedAt))
+      .limit(limit);
+    if (runs.length === 0) return [];
+
+    const changes = await db
+      .select()
+      .from(facultyChanges)
+      .where(inArray(facultyChanges.syncRunId, runs.map((r) => r.id)));
+
+    return runs.map((run) => ({
+      ...run,
+      changes: changes
+        .filter((c) => c.syncRunId === run.id)
+        .map((c) => ({ ...c, changeType: c.changeType as FacultyChangeType })),
+    }));
+  }
+
+  /**
+   * Sync every department on an interval (FACULTY_SYNC_INTERVAL_HOURS, default 24), one after the other
+   * Departments synced within the interval are skipped, so restarts don't rescrape
+   */
+  static start(
+    intervalHours: number = parseFloat(process.env.FACULTY_SYNC_INTERVAL_HOURS || "") || DEFAULT_INTERVAL_HOURS
+  ): void {
+    if (this.timer) return;
+
+    const run = async () => {
+      if (!(await getDb())) return;
+
+      for (const department of DEPARTMENT_CODES) {
+        try {
+          const last = await this.getLastCompletedRun(department);
+          if (last && Date.now() - last.startedAt.getTime() < intervalHours * 60 * 60 * 1000) continue;
+          await this.syncDepartment(department);
+        } catch (error: any) {
+          console.error(`[faculty-sync] Scheduled ${department} sync failed:`, error.message);
+        }
+      }
+    };
+
+    console.log(`[faculty-sync] Syncing faculty every ${intervalHours} hours`);
+    run();
+    this.timer = setInterval(run, intervalHours * 60 * 60 * 1000);
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
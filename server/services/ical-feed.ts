@@ -0,0 +1,204 @@
+import type { ClassSchedule } from "./routine-query";
+import type { Semester } from "./semester";
+import { resolveCalendarDay, type AcademicCalendar } from "./academic-calendar";
+import { ROUTINE_TIME_ZONE, timeToMinutes } from "../../shared/routine-time";
+
+export interface IcsFeedOptions {
+  calendarName: string; // e.g., "CSE 71_I"
+  department: string;
+  version: string;
+  semester: Semester;
+  calendar?: AcademicCalendar; // Holidays are skipped and day swaps added as one-off events
+  generatedAt?: Date;
+}
+
+// JS weekday numbers (Date#getUTCDay)
+const WEEKDAY_INDEX: Record<string, number> = {
+  SUNDAY: 0,
+  MONDAY: 1,
+  TUESDAY: 2,
+  WEDNESDAY: 3,
+  THURSDAY: 4,
+  FRIDAY: 5,
+  SATURDAY: 6,
+};
+
+// Saturday-first DIU week, for a stable session order
+const DAY_ORDER = ["SATURDAY", "SUNDAY", "MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"];
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+const formatDate = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+
+const formatUtcTimestamp = (date: Date) =>
+  `${formatDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const formatLocalTime = (minutes: number) => `${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}00`;
+
+/**
+ * Escape TEXT values (RFC 5545 §3.3.11)
+ */
+const escapeText = (text: string) =>
+  text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545 §3.1)
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74; // Continuation lines start with a space
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * Stable UID per weekly session: course + section + its position in the week.
+ * A session that moves keeps its UID, so calendars update it instead of adding a duplicate.
+ */
+function assignUids(classes: ClassSchedule[], department: string): Map<ClassSchedule, string> {
+  const groups = new Map<string, ClassSchedule[]>();
+  for (const c of classes) {
+    const key = `${c.courseCode}|${c.batchSection}`;
+    groups.set(key, [...(groups.get(key) || []), c]);
+  }
+
+  const uids = new Map<ClassSchedule, string>();
+  groups.forEach((sessions) => {
+    sessions
+      .sort(
+        (a, b) =>
+          DAY_ORDER.indexOf(a.day.toUpperCase()) - DAY_ORDER.indexOf(b.day.toUpperCase()) ||
+          timeToMinutes(a.timeStart) - timeToMinutes(b.timeStart)
+      )
+      .forEach((c, index) => {
+        const id = `${department}-${c.courseCode}-${c.batchSection}-${index + 1}`
+          .toLowerCase()
+          .replace(/[^a-z0-9-]/g, "-");
+        uids.set(c, `${id}@diu-routine`);
+      });
+  });
+  return uids;
+}
+
+const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const fromDateKey = (date: string) => new Date(`${date}T00:00:00Z`);
+
+/**
+ * Build a weekly-recurring iCalendar feed for a set of classes,
+ * bounded by the semester and tagged with the routine version
+ */
+export function buildIcsFeed(classes: ClassSchedule[], options: IcsFeedOptions): string {
+  const { calendarName, department, version, semester } = options;
+  const stamp = formatUtcTimestamp(options.generatedAt || new Date());
+  // Last class can end at 23:59 on the final day; UNTIL must be UTC (Dhaka is UTC+6)
+  const until = `${formatDate(semester.end)}T175959Z`;
+  // Bump SEQUENCE with every routine version so clients accept the update
+  const sequence = Math.round(Number(version) * 100) || 0;
+  const uids = assignUids(classes, department);
+
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//DIU Routine Scrapper//Class Routine//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${ROUTINE_TIME_ZONE}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT6H",
+    "X-PUBLISHED-TTL:PT6H",
+    "BEGIN:VTIMEZONE",
+    `TZID:${ROUTINE_TIME_ZONE}`,
+    "BEGIN:STANDARD",
+    "DTSTART:19700101T000000",
+    "TZOFFSETFROM:+0600",
+    "TZOFFSETTO:+0600",
+    "TZNAME:+06",
+    "END:STANDARD",
+    "END:VTIMEZONE",
+  ];
+
+  for (const c of classes) {
+    const weekday = WEEKDAY_INDEX[c.day.toUpperCase()];
+    if (weekday === undefined) continue;
+
+    // First occurrence on or after the semester start
+    const first = new Date(semester.start);
+    first.setUTCDate(first.getUTCDate() + ((weekday - first.getUTCDay() + 7) % 7));
+    if (first > semester.end) continue;
+
+    const description = [
+      `${c.courseCode} ${c.courseName}`,
+      `Section: ${c.batchSection}`,
+      `Teacher: ${c.teacher}`,
+      `Room: ${c.room}`,
+      `Routine: ${department.toUpperCase()} v${version} (${semester.name})`,
+    ].join("\n");
+
+    const start = formatLocalTime(timeToMinutes(c.timeStart));
+    const end = formatLocalTime(timeToMinutes(c.timeEnd));
+    const details = [
+      `SUMMARY:${escapeText(`${c.courseCode} ${c.courseName}`)}`,
+      `LOCATION:${escapeText(c.room)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+    ];
+
+    // Weekly occurrences that fall on a holiday or a day running another weekday's routine
+    const excluded: string[] = [];
+    if (options.calendar) {
+      for (const date = new Date(first); date <= semester.end; date.setUTCDate(date.getUTCDate() + 7)) {
+        if (resolveCalendarDay(options.calendar, toDateKey(date)).status !== "classes") {
+          excluded.push(`${formatDate(date)}T${start}`);
+        }
+      }
+    }
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${uids.get(c)}`,
+      `DTSTAMP:${stamp}`,
+      `SEQUENCE:${sequence}`,
+      `DTSTART;TZID=${ROUTINE_TIME_ZONE}:${formatDate(first)}T${start}`,
+      `DTEND;TZID=${ROUTINE_TIME_ZONE}:${formatDate(first)}T${end}`,
+      `RRULE:FREQ=WEEKLY;UNTIL=${until}`,
+      ...(excluded.length > 0 ? [`EXDATE;TZID=${ROUTINE_TIME_ZONE}:${excluded.join(",")}`] : []),
+      ...details,
+      "END:VEVENT"
+    );
+
+    // Swapped days that run this class's weekday
+    const swapDates = new Set(
+      (options.calendar?.events || [])
+        .filter((e) => e.type === "day_swap" && e.followsDay?.toUpperCase() === c.day.toUpperCase())
+        .map((e) => e.startDate)
+    );
+    for (const date of Array.from(swapDates).sort()) {
+      const day = fromDateKey(date);
+      if (day < semester.start || day > semester.end) continue;
+      if (resolveCalendarDay(options.calendar!, date).status !== "day_swap") continue;
+
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${uids.get(c)!.replace("@", `-${formatDate(day)}@`)}`,
+        `DTSTAMP:${stamp}`,
+        `SEQUENCE:${sequence}`,
+        `DTSTART;TZID=${ROUTINE_TIME_ZONE}:${formatDate(day)}T${start}`,
+        `DTEND;TZID=${ROUTINE_TIME_ZONE}:${formatDate(day)}T${end}`,
+        ...details,
+        "END:VEVENT"
+      );
+    }
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,30 @@
+import { eq, desc } from "drizzle-orm";
+import { getDb } from "../db";
+import { routineIngestions, type InsertRoutineIngestion, type RoutineIngestion } from "../../drizzle/schema";
+
+export class IngestionLogService {
+  /**
+   * Record one watcher ingestion attempt
+   */
+  static async record(entry: InsertRoutineIngestion): Promise<void> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    await db.insert(routineIngestions).values(entry);
+  }
+
+  /**
+   * List recent ingestions, newest first, optionally for one department
+   */
+  static async list(department?: string, limit: number = 50): Promise<RoutineIngestion[]> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(routineIngestions)
+      .where(department ? eq(routineIngestions.department, department) : undefined)
+      .orderBy(desc(routineIngestions.createdAt))
+      .limit(limit);
+  }
+}
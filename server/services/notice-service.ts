@@ -0,0 +1,120 @@
+import { and, count, desc, eq, inArray, isNull, or, sql, type SQL } from "drizzle-orm";
+import { getDb } from "../db";
+import { notices } from "../../drizzle/schema";
+import { AcademicCalendarService } from "./academic-calendar";
+import {
+  NOTICEBOARD_URL,
+  getNoticeDetails,
+  scrapeNoticeboardNotices,
+  type NoticeCategory,
+} from "./noticeboard-scraper";
+
+// Notice pages fetched per sync for attachments; older notices are picked up by later runs
+const MAX_NEW_NOTICES_PER_SYNC = 30;
+
+export interface NoticeQuery {
+  department?: string; // The department's notices plus university-wide ones
+  category?: NoticeCategory;
+  search?: string;
+  page?: number; // 1-based
+  pageSize?: number;
+}
+
+export class NoticeService {
+  /**
+   * Store notices that aren't in the feed yet, with their attachments,
+   * and add the holidays and day swaps they announce to the academic calendar
+   */
+  static async syncNotices(noticeboardUrl: string = NOTICEBOARD_URL): Promise<{ found: number; added: number }> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const scraped = await scrapeNoticeboardNotices(noticeboardUrl);
+    if (scraped.length === 0) return { found: 0, added: 0 };
+
+    const known = await db
+      .select({ url: notices.url })
+      .from(notices)
+      .where(inArray(notices.url, scraped.map((n) => n.url)));
+    const knownUrls = new Set(known.map((n) => n.url));
+
+    const fresh = scraped.filter((n) => !knownUrls.has(n.url)).slice(0, MAX_NEW_NOTICES_PER_SYNC);
+
+    let added = 0;
+    for (const notice of fresh) {
+      // A notice whose page can't be fetched isn't stored, so the next sync tries it again
+      try {
+        const { text, attachments } = await getNoticeDetails(notice.url);
+        const inserted = await db
+          .insert(notices)
+          .values({
+            url: notice.url,
+            title: notice.title,
+            department: notice.department,
+            category: notice.category,
+            noticeDate: notice.date,
+            attachments,
+          })
+          .onConflictDoNothing()
+          .returning({ id: notices.id });
+        added += inserted.length;
+
+        await AcademicCalendarService.ingestNotice(
+          { url: notice.url, title: notice.title, isHolidayNotice: notice.category === "holiday" },
+          text
+        );
+      } catch (error) {
+        console.error(`[notices] Failed to fetch or store notice ${notice.url}:`, error);
+      }
+    }
+
+    console.log(`[notices] ${scraped.length} notices on the noticeboard, ${added} new`);
+    return { found: scraped.length, added };
+  }
+
+  /**
+   * One page of the feed, newest first; `search` is full-text over titles
+   */
+  static async listNotices(query: NoticeQuery = {}) {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const page = query.page || 1;
+    const pageSize = query.pageSize || 20;
+
+    const conditions: SQL[] = [];
+    if (query.department) {
+      conditions.push(or(eq(notices.department, query.department), isNull(notices.department))!);
+    }
+    if (query.category) {
+      conditions.push(eq(notices.category, query.category));
+    }
+    if (query.search?.trim()) {
+      // Matches the GIN index in init-render-db.sh
+      conditions.push(
+        sql`to_tsvector('english', ${notices.title}) @@ websearch_to_tsquery('english', ${query.search.trim()})`
+      );
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(notices)
+        .where(where)
+        // Undated notices sort by when they were first seen
+        .orderBy(desc(sql`coalesce(${notices.noticeDate}, to_char(${notices.createdAt}, 'YYYY-MM-DD'))`), desc(notices.id))
+        .limit(pageSize)
+        .offset((page - 1) * pageSize),
+      db.select({ total: count() }).from(notices).where(where),
+    ]);
+
+    return {
+      notices: rows.map((n) => ({ ...n, category: n.category as NoticeCategory })),
+      total,
+      page,
+      pageSize,
+      hasMore: page * pageSize < total,
+    };
+  }
+}
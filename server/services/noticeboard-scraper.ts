@@ -1,14 +1,43 @@
 import axios from "axios";
 import * as cheerio from "cheerio";
+import { detectExamType, parseExamDate, type ExamType } from "./exam-routine-parser";
+import type { RoutineFormat } from "./routine-parser";
+
+export interface RoutineAttachment {
+  url: string;
+  format: RoutineFormat;
+}
 
 export interface DepartmentRoutine {
   department: string;
   title: string;
+  noticeUrl: string;
   pdfUrl: string;
   version: string;
   date: string;
 }
 
+export interface DepartmentExamRoutine {
+  department: string;
+  title: string;
+  noticeUrl: string;
+  examType: ExamType;
+}
+
+export type NoticeCategory = "routine" | "exam" | "advising" | "holiday" | "result" | "admission" | "general";
+
+export interface NoticeboardNotice {
+  title: string;
+  url: string;
+  department: string | null; // Null for university-wide notices
+  category: NoticeCategory;
+  date: string | null; // YYYY-MM-DD
+}
+
+// Overridable so a local fixture server can stand in for the noticeboard
+export const NOTICEBOARD_URL =
+  process.env.NOTICEBOARD_URL || "https://daffodilvarsity.edu.bd/noticeboard";
+
 const DEPARTMENT_KEYWORDS = {
   cse: ["CSE", "Computer Science"],
   eee: ["EEE", "Electrical"],
@@ -20,12 +49,45 @@ const DEPARTMENT_KEYWORDS = {
   architecture: ["Architecture"],
 };
 
+/**
+ * Whether a notice title mentions a department keyword as a whole word
+ * ("ICE" must not count as "CE")
+ */
+function matchesDepartment(text: string, keywords: string[]): boolean {
+  return keywords.some((keyword) => new RegExp(`\\b${keyword}\\b`).test(text));
+}
+
+/**
+ * Department a notice title is about, or null if it names none
+ */
+function detectDepartment(text: string): string | null {
+  for (const [dept, keywords] of Object.entries(DEPARTMENT_KEYWORDS)) {
+    if (matchesDepartment(text, keywords)) return dept;
+  }
+  return null;
+}
+
+/**
+ * Extract a routine version from a notice title or PDF URL
+ * e.g. "CSE Class Routine Spring 2026 V2" or ".../cse-class-routine-spring-2026-v2.pdf" -> "2.0"
+ */
+export function extractRoutineVersion(text: string): string {
+  // A "v" inside a word ("Nov 2025") or a Google Sheets document ID isn't a version
+  const versionMatch = text
+    .replace(/docs\.google\.com\/spreadsheets\/d\/[\w-]+/gi, "")
+    .match(/(?:^|[\s_\-(/])v(?:ersion)?[\s-]*(\d+(?:\.\d+)?)\b/i);
+  if (!versionMatch) return "1.0";
+  return versionMatch[1].includes(".") ? versionMatch[1] : `${versionMatch[1]}.0`;
+}
+
 /**
  * Scrape DIU noticeboard to find latest routine PDFs for all departments
  */
-export async function scrapeNoticeboardRoutines(): Promise<DepartmentRoutine[]> {
+export async function scrapeNoticeboardRoutines(
+  noticeboardUrl: string = NOTICEBOARD_URL
+): Promise<DepartmentRoutine[]> {
   try {
-    const response = await axios.get("https://daffodilvarsity.edu.bd/noticeboard", {
+    const response = await axios.get(noticeboardUrl, {
       timeout: 10000,
     });
 
@@ -46,25 +108,20 @@ export async function scrapeNoticeboardRoutines(): Promise<DepartmentRoutine[]>
         !lowerText.includes("advising") &&
         !lowerText.includes("exam")
       ) {
-        // Determine department
-        let department = "unknown";
-        for (const [dept, keywords] of Object.entries(DEPARTMENT_KEYWORDS)) {
-          if (keywords.some((keyword) => text.includes(keyword))) {
-            department = dept;
-            break;
-          }
+        const department = detectDepartment(text);
+        let noticeUrl: string;
+        try {
+          noticeUrl = new URL(href, noticeboardUrl).toString();
+        } catch {
+          return;
         }
-
-        if (department !== "unknown") {
-          // Extract version if present
-          const versionMatch = text.match(/[Vv](?:ersion)?\s*(\d+\.?\d*)/);
-          const version = versionMatch ? versionMatch[1] : "1.0";
-
+        if (department) {
           routines.push({
             department,
             title: text,
+            noticeUrl,
             pdfUrl: "", // Will be fetched from detail page
-            version,
+            version: extractRoutineVersion(text),
             date: new Date().toISOString(),
           });
         }
@@ -79,9 +136,210 @@ export async function scrapeNoticeboardRoutines(): Promise<DepartmentRoutine[]>
 }
 
 /**
- * Get PDF URL for a specific notice
+ * Scrape the noticeboard for midterm and final exam routine notices, newest first
  */
-export async function getNoticePdfUrl(noticeUrl: string): Promise<string | null> {
+export async function scrapeNoticeboardExamRoutines(
+  noticeboardUrl: string = NOTICEBOARD_URL
+): Promise<DepartmentExamRoutine[]> {
+  try {
+    const response = await axios.get(noticeboardUrl, {
+      timeout: 10000,
+    });
+
+    const $ = cheerio.load(response.data);
+    const routines: DepartmentExamRoutine[] = [];
+
+    $("a").each((_, element) => {
+      const $el = $(element);
+      const text = $el.text().trim();
+      const href = $el.attr("href");
+
+      if (!href || !text) return;
+
+      const lowerText = text.toLowerCase();
+      if (
+        lowerText.includes("exam") &&
+        (lowerText.includes("routine") || lowerText.includes("schedule")) &&
+        !lowerText.includes("result")
+      ) {
+        const department = detectDepartment(text);
+        let noticeUrl: string;
+        try {
+          noticeUrl = new URL(href, noticeboardUrl).toString();
+        } catch {
+          return;
+        }
+        if (department) {
+          routines.push({
+            department,
+            title: text,
+            noticeUrl,
+            examType: detectExamType(text),
+          });
+        }
+      }
+    });
+
+    return routines;
+  } catch (error) {
+    console.error("Failed to scrape noticeboard for exam routines:", error);
+    return [];
+  }
+}
+
+// Checked in order: "Exam Result" is a result, "Exam Routine" an exam
+const CATEGORY_KEYWORDS: [NoticeCategory, string[]][] = [
+  ["result", ["result"]],
+  ["exam", ["exam"]],
+  ["advising", ["advising", "registration", "course drop"]],
+  ["routine", ["routine", "class schedule"]],
+  ["holiday", ["holiday", "closed", "vacation", "eid", "puja"]],
+  ["admission", ["admission"]],
+];
+
+// Notice detail pages, as opposed to attachments ("/noticeFile/...") and paging links
+const NOTICE_LINK_PATTERN = /\/notices?\/[^/]+\/?$/i;
+
+// Files worth linking from a notice besides routine files
+const ATTACHMENT_EXTENSIONS = [".xls", ".doc", ".docx", ".jpg", ".jpeg", ".png"];
+
+/**
+ * Category of a notice from its title
+ */
+export function categorizeNotice(title: string): NoticeCategory {
+  const lowerTitle = title.toLowerCase();
+  const match = CATEGORY_KEYWORDS.find(([, keywords]) => keywords.some((k) => lowerTitle.includes(k)));
+  return match ? match[0] : "general";
+}
+
+/**
+ * Every notice on the noticeboard page, newest first
+ * The date is read from the notice's list item or table row when the page shows one
+ */
+export async function scrapeNoticeboardNotices(
+  noticeboardUrl: string = NOTICEBOARD_URL
+): Promise<NoticeboardNotice[]> {
+  try {
+    const response = await axios.get(noticeboardUrl, {
+      timeout: 10000,
+    });
+
+    const $ = cheerio.load(response.data);
+    const notices: NoticeboardNotice[] = [];
+    const seen = new Set<string>();
+
+    $("a").each((_, element) => {
+      const $el = $(element);
+      const text = $el.text().trim();
+      const href = $el.attr("href");
+
+      if (!href || !text) return;
+
+      let url: URL;
+      try {
+        url = new URL(href, noticeboardUrl);
+      } catch {
+        return;
+      }
+      if (!NOTICE_LINK_PATTERN.test(url.pathname) || seen.has(url.toString())) return;
+      seen.add(url.toString());
+
+      const row = $el.closest("li, tr");
+      notices.push({
+        title: text,
+        url: url.toString(),
+        department: detectDepartment(text),
+        category: categorizeNotice(text),
+        date: row.length > 0 ? parseExamDate(row.text()) : null,
+      });
+    });
+
+    return notices;
+  } catch (error) {
+    console.error("Failed to scrape noticeboard notices:", error);
+    return [];
+  }
+}
+
+export interface NoticeDetails {
+  text: string; // The notice page's text, one line per block
+  attachments: string[]; // File links (routine files, documents and images)
+}
+
+/**
+ * Text and attached files of a notice page
+ * Throws if the page can't be fetched, so a notice isn't stored without its details
+ */
+export async function getNoticeDetails(noticeUrl: string): Promise<NoticeDetails> {
+  const response = await axios.get(noticeUrl, {
+    timeout: 10000,
+  });
+
+  const $ = cheerio.load(response.data);
+  const attachments = new Set<string>();
+
+  $("a").each((_, element) => {
+    const href = $(element).attr("href");
+    if (!href) return;
+
+    const routineFile = getAttachmentFormat(href, noticeUrl);
+    if (routineFile) {
+      attachments.add(routineFile.url);
+      return;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(href, noticeUrl);
+    } catch {
+      return;
+    }
+    if (ATTACHMENT_EXTENSIONS.some((ext) => url.pathname.toLowerCase().endsWith(ext))) {
+      attachments.add(url.toString());
+    }
+  });
+
+  $("script, style").remove();
+  const text = $("body")
+    .text()
+    .replace(/[ \t]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim();
+
+  return { text, attachments: Array.from(attachments) };
+}
+
+// Preferred attachment when a notice links the routine in several formats
+const ATTACHMENT_PRIORITY: RoutineFormat[] = ["pdf", "xlsx", "html"];
+
+/**
+ * Routine format of a notice attachment link, or null if it isn't a routine file.
+ * Google Sheets links are turned into their .xlsx export.
+ */
+export function getAttachmentFormat(href: string, baseUrl: string): RoutineAttachment | null {
+  let url: URL;
+  try {
+    url = new URL(href, baseUrl);
+  } catch {
+    return null;
+  }
+
+  const sheetMatch = url.hostname === "docs.google.com" && url.pathname.match(/^\/spreadsheets\/d\/([\w-]+)/);
+  if (sheetMatch) {
+    return { url: `https://docs.google.com/spreadsheets/d/${sheetMatch[1]}/export?format=xlsx`, format: "xlsx" };
+  }
+
+  const pathname = url.pathname.toLowerCase();
+  if (pathname.endsWith(".pdf")) return { url: url.toString(), format: "pdf" };
+  if (pathname.endsWith(".xlsx")) return { url: url.toString(), format: "xlsx" };
+  if (pathname.endsWith(".html") || pathname.endsWith(".htm")) return { url: url.toString(), format: "html" };
+  return null;
+}
+
+/**
+ * Get the routine attachment (PDF, spreadsheet or HTML table) of a specific notice
+ */
+export async function getNoticeAttachment(noticeUrl: string): Promise<RoutineAttachment | null> {
   try {
     const response = await axios.get(noticeUrl, {
       timeout: 10000,
@@ -89,29 +347,33 @@ export async function getNoticePdfUrl(noticeUrl: string): Promise<string | null>
 
     const $ = cheerio.load(response.data);
 
-    // Find PDF link
-    let pdfUrl: string | null = null;
+    const attachments: RoutineAttachment[] = [];
     $("a").each((_, element) => {
       const href = $(element).attr("href");
-      if (href && href.toLowerCase().endsWith(".pdf")) {
-        pdfUrl = href.startsWith("http") ? href : `https://daffodilvarsity.edu.bd${href}`;
-        return false; // Break loop
-      }
+      const attachment = href ? getAttachmentFormat(href, noticeUrl) : null;
+      if (attachment) attachments.push(attachment);
     });
 
-    return pdfUrl;
+    for (const format of ATTACHMENT_PRIORITY) {
+      const attachment = attachments.find((a) => a.format === format);
+      if (attachment) return attachment;
+    }
+    return null;
   } catch (error) {
-    console.error("Failed to get PDF URL:", error);
+    console.error("Failed to get routine attachment:", error);
     return null;
   }
 }
 
 /**
- * Get latest routine PDF URL for a specific department
+ * Get latest routine file URL (PDF, spreadsheet or HTML table) for a specific department
  */
-export async function getLatestRoutinePdfUrl(department: string): Promise<string | null> {
+export async function getLatestRoutinePdfUrl(
+  department: string,
+  noticeboardUrl: string = NOTICEBOARD_URL
+): Promise<string | null> {
   try {
-    const response = await axios.get("https://daffodilvarsity.edu.bd/noticeboard", {
+    const response = await axios.get(noticeboardUrl, {
       timeout: 10000,
     });
 
@@ -132,9 +394,13 @@ export async function getLatestRoutinePdfUrl(department: string): Promise<string
         (lowerText.includes("routine") || lowerText.includes("class schedule")) &&
         !lowerText.includes("advising") &&
         !lowerText.includes("exam") &&
-        keywords.some((keyword) => text.includes(keyword))
+        matchesDepartment(text, keywords)
       ) {
-        noticeHref = href.startsWith("http") ? href : `https://daffodilvarsity.edu.bd${href}`;
+        try {
+          noticeHref = new URL(href, noticeboardUrl).toString();
+        } catch {
+          return;
+        }
         return false; // Break loop
       }
     });
@@ -144,9 +410,9 @@ export async function getLatestRoutinePdfUrl(department: string): Promise<string
       return null;
     }
 
-    // Get PDF URL from notice detail page
-    const pdfUrl = await getNoticePdfUrl(noticeHref);
-    return pdfUrl;
+    // Get the routine file from the notice detail page
+    const attachment = await getNoticeAttachment(noticeHref);
+    return attachment?.url || null;
   } catch (error) {
     console.error(`Failed to get routine PDF for ${department}:`, error);
     return null;
@@ -0,0 +1,192 @@
+import {
+  NOTICEBOARD_URL,
+  extractRoutineVersion,
+  getNoticeAttachment,
+  scrapeNoticeboardRoutines,
+} from "./noticeboard-scraper";
+import { ExamRoutineService } from "./exam-routine-service";
+import { NoticeService } from "./notice-service";
+import { PdfCacheService } from "./pdf-cache-service";
+import { IngestionLogService } from "./ingestion-log";
+import { PushNotificationService } from "./push-notifications";
+import { parseRoutineFromURL, type RoutineFormat } from "./routine-parser";
+import { DEPARTMENT_CODES, forgetRoutinePdfUrl } from "./routine-source";
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+export type WatchStatus = "ingested" | "unchanged" | "not_found" | "failed";
+
+export interface WatchResult {
+  department: string;
+  status: WatchStatus;
+  noticeTitle?: string;
+  pdfUrl?: string; // Routine file, which may also be a spreadsheet or HTML table
+  format?: RoutineFormat;
+  version?: string;
+  cacheId?: number;
+  totalClasses?: number;
+  error?: string;
+}
+
+export interface WatchOptions {
+  noticeboardUrl?: string;
+  departments?: string[];
+}
+
+/**
+ * Periodically checks the noticeboard for new routine PDFs and ingests them
+ * as new cache generations. Only "ingested" and "failed" checks are written
+ * to the ingestion log; "unchanged" and "not_found" are the normal case.
+ */
+export class NoticeboardWatcher {
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static running = false;
+
+  /**
+   * Check every department once
+   * Returns null if a previous run is still in progress
+   */
+  static async runOnce(options: WatchOptions = {}): Promise<WatchResult[] | null> {
+    if (this.running) {
+      console.log("[watcher] Previous run still in progress, skipping");
+      return null;
+    }
+
+    this.running = true;
+    try {
+      const noticeboardUrl = options.noticeboardUrl || NOTICEBOARD_URL;
+      const departments = options.departments || DEPARTMENT_CODES;
+
+      // The noticeboard lists newest notices first
+      const notices = await scrapeNoticeboardRoutines(noticeboardUrl);
+
+      const results: WatchResult[] = [];
+      for (const department of departments) {
+        const notice = notices.find((n) => n.department === department);
+        results.push(await this.checkDepartment(department, notice?.title, notice?.noticeUrl));
+      }
+
+      const ingested = results.filter((r) => r.status === "ingested").length;
+      const failed = results.filter((r) => r.status === "failed").length;
+      console.log(`[watcher] Checked ${results.length} departments: ${ingested} ingested, ${failed} failed`);
+
+      return results;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Resolve a department's latest notice to its routine file and ingest it if it is new
+   */
+  private static async checkDepartment(
+    department: string,
+    noticeTitle?: string,
+    noticeUrl?: string
+  ): Promise<WatchResult> {
+    if (!noticeTitle || !noticeUrl) {
+      return { department, status: "not_found" };
+    }
+
+    const attachment = await getNoticeAttachment(noticeUrl);
+    if (!attachment) {
+      return { department, status: "not_found", noticeTitle };
+    }
+    const { url: pdfUrl, format } = attachment;
+
+    // Title versions ("V2") win over the file name; the file name is the fallback
+    const version = extractRoutineVersion(`${noticeTitle} ${pdfUrl}`);
+    const result: WatchResult = { department, status: "unchanged", noticeTitle, pdfUrl, format, version };
+
+    try {
+      // The newest routine, even if its cache has expired or been cleared since
+      const [latest] = await PdfCacheService.getVersionHistory(department);
+      if (latest && latest.pdfUrl === pdfUrl && latest.version === version) {
+        return result;
+      }
+
+      console.log(`[watcher] New routine for ${department}: v${version} ${pdfUrl}`);
+      const parsed = await parseRoutineFromURL(pdfUrl, department, { format });
+      if (parsed.classes.length === 0) {
+        throw new Error("No classes found in routine PDF");
+      }
+
+      result.cacheId = await PdfCacheService.storeRoutine(department, pdfUrl, version, parsed.classes);
+      result.totalClasses = parsed.classes.length;
+      result.status = "ingested";
+
+      // Make the API pick up the new PDF immediately
+      forgetRoutinePdfUrl(department);
+
+      // Alert subscribers whose classes changed since the previous version
+      if (latest) {
+        try {
+          const before = await PdfCacheService.getClassesByCacheId(latest.cacheId);
+          await PushNotificationService.notifyRoutineChanges(department, before, parsed.classes, version);
+        } catch (error: any) {
+          console.error(`[watcher] Failed to send change alerts for ${department}:`, error.message);
+        }
+      }
+    } catch (error: any) {
+      console.error(`[watcher] Failed to ingest ${department}:`, error.message);
+      result.status = "failed";
+      result.error = error.message;
+    }
+
+    try {
+      await IngestionLogService.record({
+        department,
+        noticeTitle,
+        pdfUrl,
+        version,
+        status: result.status,
+        cacheId: result.cacheId,
+        totalClasses: result.totalClasses || 0,
+        error: result.error,
+      });
+    } catch (error: any) {
+      console.error(`[watcher] Failed to write ingestion log for ${department}:`, error.message);
+    }
+
+    return result;
+  }
+
+  /**
+   * Start checking on an interval (NOTICEBOARD_CHECK_INTERVAL_MINUTES, default 60),
+   * along with exam routines and the notice feed
+   * The first check runs immediately, which also warms the cache after a deploy
+   */
+  static start(
+    intervalMinutes: number = parseInt(process.env.NOTICEBOARD_CHECK_INTERVAL_MINUTES || "") ||
+      DEFAULT_INTERVAL_MINUTES
+  ): void {
+    if (this.timer) return;
+
+    // Class routines, exam routines, then the notice feed, one after the other
+    const run = async () => {
+      await this.runOnce().catch((err) => {
+        console.error("[watcher] Noticeboard check failed:", err.message);
+      });
+      await ExamRoutineService.checkNoticeboard().catch((err) => {
+        console.error("[watcher] Exam routine check failed:", err.message);
+      });
+      await NoticeService.syncNotices().catch((err) => {
+        console.error("[watcher] Notice feed sync failed:", err.message);
+      });
+    };
+
+    console.log(`[watcher] Checking the noticeboard every ${intervalMinutes} minutes`);
+    run();
+    this.timer = setInterval(run, intervalMinutes * 60 * 1000);
+  }
+
+  /**
+   * Stop the periodic check
+   */
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
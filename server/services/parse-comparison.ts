@@ -0,0 +1,86 @@
+import type { ClassSchedule } from "./routine-query";
+
+// Fields that must match once two classes are paired up by day, slot, course and section
+const COMPARED_FIELDS = ["timeEnd", "courseName", "room", "teacher", "sessionType"] as const;
+
+export type ComparedField = (typeof COMPARED_FIELDS)[number];
+
+export interface FieldMismatch {
+  key: string; // "SATURDAY 08:30 CSE112 71_I"
+  field: ComparedField;
+  expected: string;
+  actual: string;
+}
+
+export interface ParseComparison {
+  matched: number;
+  missing: ClassSchedule[]; // Expected but not produced
+  extra: ClassSchedule[]; // Produced but not expected
+  mismatched: FieldMismatch[];
+}
+
+/**
+ * Identity of a class cell, independent of the day casing each parser uses
+ */
+export function getClassKey(c: ClassSchedule): string {
+  return `${c.day.toUpperCase()} ${c.timeStart} ${c.courseCode} ${c.batchSection}`;
+}
+
+/**
+ * Compare a parser's output against a reference class list
+ */
+export function compareClassLists(expected: ClassSchedule[], actual: ClassSchedule[]): ParseComparison {
+  const actualByKey = new Map(actual.map((c) => [getClassKey(c), c]));
+  const expectedKeys = new Set(expected.map(getClassKey));
+
+  const missing: ClassSchedule[] = [];
+  const mismatched: FieldMismatch[] = [];
+  let matched = 0;
+
+  for (const want of expected) {
+    const key = getClassKey(want);
+    const got = actualByKey.get(key);
+    if (!got) {
+      missing.push(want);
+      continue;
+    }
+
+    const fieldMismatches = COMPARED_FIELDS.filter((field) => want[field] !== got[field]).map((field) => ({
+      key,
+      field,
+      expected: want[field],
+      actual: got[field],
+    }));
+    if (fieldMismatches.length === 0) matched++;
+    mismatched.push(...fieldMismatches);
+  }
+
+  const extra = actual.filter((c) => !expectedKeys.has(getClassKey(c)));
+
+  return { matched, missing, extra, mismatched };
+}
+
+export function isExactMatch(comparison: ParseComparison): boolean {
+  return comparison.missing.length === 0 && comparison.extra.length === 0 && comparison.mismatched.length === 0;
+}
+
+/**
+ * Plain-text report of a comparison, for test failures and logs
+ */
+export function formatComparisonReport(title: string, comparison: ParseComparison): string {
+  const lines = [
+    `${title}: ${comparison.matched} matched, ${comparison.missing.length} missing, ${comparison.extra.length} extra, ${comparison.mismatched.length} mismatched fields`,
+  ];
+
+  for (const c of comparison.missing) {
+    lines.push(`  - missing  ${getClassKey(c)} (${c.room}, ${c.teacher})`);
+  }
+  for (const c of comparison.extra) {
+    lines.push(`  + extra    ${getClassKey(c)} (${c.room}, ${c.teacher})`);
+  }
+  for (const m of comparison.mismatched) {
+    lines.push(`  ~ ${m.field.padEnd(10)} ${m.key}: expected "${m.expected}", got "${m.actual}"`);
+  }
+
+  return lines.join("\n");
+}
@@ -1,78 +1,169 @@
-import { eq, and } from "drizzle-orm";
+import { eq, and, gt, desc } from "drizzle-orm";
 import { getDb } from "../db";
-import { pdfCache, classSchedules } from "../../drizzle/schema";
-import { pdfParserV3, type ClassSchedule } from "./pdf-parser-v3";
+import { pdfCache, classSchedules, type PdfCache } from "../../drizzle/schema";
+import { normalizeClasses, type ClassSchedule, type SessionType } from "./routine-query";
+import { parseRoutineFromURL } from "./routine-parser";
+import { CourseService } from "./course-service";
+import { RoomService } from "./room-service";
+import { extractRoutineVersion } from "./noticeboard-scraper";
+import { isOfficialRoutineUrl } from "./routine-source";
 
 const CACHE_DURATION_DAYS = 30; // Cache expires after 30 days
 
+export interface RoutineVersion {
+  cacheId: number;
+  department: string;
+  pdfUrl: string;
+  version: string;
+  parsedAt: Date;
+  totalClasses: number;
+  isCurrent: boolean;
+}
+
+const isSameRoutine = (a: { pdfUrl: string; version: string }, b: { pdfUrl: string; version: string }) =>
+  a.pdfUrl === b.pdfUrl && a.version === b.version;
+
+/**
+ * Version history from pdfCache rows (newest first), one entry per routine file and version.
+ * Routines cached before re-parses reused their row can have several generations of the same file;
+ * the newest stands for all of them, and is current if any of them is.
+ */
+export function collapseVersionHistory(caches: PdfCache[], now: Date = new Date()): RoutineVersion[] {
+  const currentId = caches.find((c) => new Date(c.expiresAt) > now)?.id;
+  const current = caches.find((c) => c.id === currentId);
+
+  return caches
+    .filter((c, index) => caches.findIndex((other) => isSameRoutine(other, c)) === index)
+    .map((c) => ({
+      cacheId: c.id,
+      department: c.department,
+      pdfUrl: c.pdfUrl,
+      version: c.version,
+      parsedAt: c.parsedAt,
+      totalClasses: c.totalClasses,
+      isCurrent: !!current && isSameRoutine(c, current),
+    }));
+}
+
+/**
+ * The version parsed before `to`, skipping re-parses of the same file and version
+ */
+export function findPreviousVersion(versions: RoutineVersion[], to: RoutineVersion): RoutineVersion | undefined {
+  return versions.find((v) => v.parsedAt < to.parsedAt && !isSameRoutine(v, to));
+}
+
 export class PdfCacheService {
   /**
    * Get cached PDF data or parse and cache if not found/expired
+   * Without a version, the one already stored for the URL is used (the watcher may have read it from the
+   * notice title), falling back to the one in the PDF file name (e.g., "-v2" -> "2.0") for a new URL
+   * Only official routines (from the noticeboard, the known defaults, or stored before) are cached:
+   * any other URL a caller passes is parsed but never becomes part of the version history
+   * Course names come from the course catalog, so catalog edits apply to cached routines too
    */
-  static async getOrParsePdf(department: string, pdfUrl: string, version: string = "1.0"): Promise<ClassSchedule[]> {
+  static async getOrParsePdf(department: string, pdfUrl: string, version?: string): Promise<ClassSchedule[]> {
     const db = await getDb();
     if (!db) throw new Error("Database not available");
 
-    // Check if we have valid cache
-    const cache = await db
+    // Check if we have valid cache for this exact PDF
+    const now = new Date();
+    const [validCache] = await db
       .select()
       .from(pdfCache)
       .where(
         and(
           eq(pdfCache.department, department),
-          eq(pdfCache.version, version)
+          eq(pdfCache.pdfUrl, pdfUrl),
+          version ? eq(pdfCache.version, version) : undefined,
+          gt(pdfCache.expiresAt, now)
         )
       )
+      .orderBy(desc(pdfCache.parsedAt))
       .limit(1);
 
-    const now = new Date();
-    const validCache = cache.find((c) => new Date(c.expiresAt) > now);
-
     if (validCache) {
-      console.log(`Using cached PDF data for ${department} v${version}`);
-      
-      // Get classes from cache
-      const classes = await db
-        .select()
-        .from(classSchedules)
-        .where(eq(classSchedules.cacheId, validCache.id));
-
-      return classes.map((c) => ({
-        day: c.day,
-        timeStart: c.timeStart,
-        timeEnd: c.timeEnd,
-        courseCode: c.courseCode,
-        courseName: c.courseName || c.courseCode,
-        batch: c.batch,
-        section: c.section,
-        batchSection: c.batchSection,
-        room: c.room,
-        teacher: c.teacher,
-      }));
+      console.log(`Using cached PDF data for ${department} v${validCache.version}`);
+      return CourseService.enrichClasses(await this.getClassesByCacheId(validCache.id), department);
     }
 
+    const knownVersion = await this.getStoredVersion(department, pdfUrl);
+    if (!knownVersion && !(await isOfficialRoutineUrl(department, pdfUrl))) {
+      console.log(`Parsing unofficial PDF for ${department} without caching: ${pdfUrl}`);
+      const parsed = await parseRoutineFromURL(pdfUrl, department);
+      return CourseService.enrichClasses(parsed.classes, department);
+    }
+
+    const storedVersion = version || knownVersion || extractRoutineVersion(pdfUrl);
+
     // No valid cache, parse PDF
-    console.log(`Parsing PDF for ${department} v${version}...`);
-    const parsed = await pdfParserV3.parsePDFFromURL(pdfUrl);
+    console.log(`Parsing PDF for ${department} v${storedVersion}...`);
+    const parsed = await parseRoutineFromURL(pdfUrl, department);
+    await this.storeRoutine(department, pdfUrl, storedVersion, parsed.classes);
+
+    return CourseService.enrichClasses(parsed.classes, department);
+  }
+
+  /**
+   * Version of the most recent parse of a PDF, expired or not; null if it was never parsed
+   */
+  private static async getStoredVersion(department: string, pdfUrl: string): Promise<string | null> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const [latest] = await db
+      .select({ version: pdfCache.version })
+      .from(pdfCache)
+      .where(and(eq(pdfCache.department, department), eq(pdfCache.pdfUrl, pdfUrl)))
+      .orderBy(desc(pdfCache.parsedAt))
+      .limit(1);
+    return latest?.version || null;
+  }
+
+  /**
+   * Store a parsed routine as a new cache generation, or, for a file and version already stored
+   * (a re-parse after expiry or a cleared cache), replace that generation's classes and extend it,
+   * so version history lists each routine once
+   * Returns the pdfCache id
+   */
+  static async storeRoutine(
+    department: string,
+    pdfUrl: string,
+    version: string,
+    classes: ClassSchedule[]
+  ): Promise<number> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
 
-    // Store in cache
     const expiresAt = new Date();
     expiresAt.setDate(expiresAt.getDate() + CACHE_DURATION_DAYS);
 
-    const [newCache] = await db.insert(pdfCache).values({
-      department,
-      pdfUrl,
-      version,
-      expiresAt,
-      totalClasses: parsed.classes.length,
-    }).returning({ id: pdfCache.id });
+    const [existing] = await db
+      .select({ id: pdfCache.id })
+      .from(pdfCache)
+      .where(and(eq(pdfCache.department, department), eq(pdfCache.pdfUrl, pdfUrl), eq(pdfCache.version, version)))
+      .orderBy(desc(pdfCache.parsedAt))
+      .limit(1);
 
-    const cacheId = newCache.id;
+    let cacheId: number;
+    if (existing) {
+      cacheId = existing.id;
+      await db.update(pdfCache).set({ expiresAt, totalClasses: classes.length }).where(eq(pdfCache.id, cacheId));
+      await db.delete(classSchedules).where(eq(classSchedules.cacheId, cacheId));
+    } else {
+      const [newCache] = await db.insert(pdfCache).values({
+        department,
+        pdfUrl,
+        version,
+        expiresAt,
+        totalClasses: classes.length,
+      }).returning({ id: pdfCache.id });
+      cacheId = newCache.id;
+    }
 
     // Store classes
-    if (parsed.classes.length > 0) {
+    if (classes.length > 0) {
       await db.insert(classSchedules).values(
-        parsed.classes.map((c) => ({
+        classes.map((c) => ({
           cacheId,
           day: c.day,
           timeStart: c.timeStart,
@@ -84,44 +175,116 @@ export class PdfCacheService {
           batchSection: c.batchSection,
           room: c.room,
           teacher: c.teacher,
+          sessionType: c.sessionType,
           department,
         }))
       );
     }
 
-    console.log(`Cached ${parsed.classes.length} classes for ${department}`);
-    return parsed.classes;
+    console.log(`Cached ${classes.length} classes for ${department}`);
+
+    // The room list grows with every routine; a failure here mustn't lose the routine
+    try {
+      await RoomService.syncRooms(department, classes);
+    } catch (error) {
+      console.error(`[rooms] Failed to record rooms from the ${department} routine:`, error);
+    }
+
+    return cacheId;
+  }
+
+  /**
+   * Get the classes stored for one parsed routine
+   */
+  static async getClassesByCacheId(cacheId: number): Promise<ClassSchedule[]> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const classes = await db
+      .select()
+      .from(classSchedules)
+      .where(eq(classSchedules.cacheId, cacheId));
+
+    // Routines stored before sessions were merged still have "(LAB)" rooms and one row per slot
+    return normalizeClasses(
+      classes.map((c) => ({
+        day: c.day,
+        timeStart: c.timeStart,
+        timeEnd: c.timeEnd,
+        courseCode: c.courseCode,
+        courseName: c.courseName || c.courseCode,
+        batch: c.batch,
+        section: c.section,
+        batchSection: c.batchSection,
+        room: c.room,
+        teacher: c.teacher,
+        sessionType: c.sessionType as SessionType,
+      }))
+    );
   }
 
   /**
    * Clear cache for a department
+   * Parsed routines are expired rather than deleted so version history is kept
    */
   static async clearCache(department: string): Promise<void> {
     const db = await getDb();
     if (!db) throw new Error("Database not available");
 
-    // Get cache IDs
+    await db
+      .update(pdfCache)
+      .set({ expiresAt: new Date() })
+      .where(and(eq(pdfCache.department, department), gt(pdfCache.expiresAt, new Date())));
+
+    console.log(`Cleared cache for ${department}`);
+  }
+
+  /**
+   * List every parsed routine for a department, newest first, each file and version once
+   */
+  static async getVersionHistory(department: string): Promise<RoutineVersion[]> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
     const caches = await db
       .select()
       .from(pdfCache)
-      .where(eq(pdfCache.department, department));
+      .where(eq(pdfCache.department, department))
+      .orderBy(desc(pdfCache.parsedAt));
 
-    // Delete classes
-    for (const cache of caches) {
-      await db.delete(classSchedules).where(eq(classSchedules.cacheId, cache.id));
-    }
+    return collapseVersionHistory(caches);
+  }
 
-    // Delete cache entries
-    await db.delete(pdfCache).where(eq(pdfCache.department, department));
+  /**
+   * List departments that currently have a valid (non-expired) cache,
+   * with the most recently parsed PDF for each
+   */
+  static async getCachedDepartments(): Promise<{ department: string; pdfUrl: string; version: string }[]> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
 
-    console.log(`Cleared cache for ${department}`);
+    const caches = await db
+      .select()
+      .from(pdfCache)
+      .where(gt(pdfCache.expiresAt, new Date()))
+      .orderBy(desc(pdfCache.parsedAt));
+
+    const latest = new Map<string, { department: string; pdfUrl: string; version: string }>();
+    for (const c of caches) {
+      if (!latest.has(c.department)) {
+        latest.set(c.department, { department: c.department, pdfUrl: c.pdfUrl, version: c.version });
+      }
+    }
+
+    return Array.from(latest.values());
   }
 
   /**
    * Get cache status
    */
-  static async getCacheStatus(department: string): Promise<{
+  static async getCacheStatus(department: string, pdfUrl?: string): Promise<{
     isCached: boolean;
+    version?: string;
     parsedAt?: Date;
     expiresAt?: Date;
     totalClasses?: number;
@@ -132,7 +295,12 @@ export class PdfCacheService {
     const cache = await db
       .select()
       .from(pdfCache)
-      .where(eq(pdfCache.department, department))
+      .where(
+        pdfUrl
+          ? and(eq(pdfCache.department, department), eq(pdfCache.pdfUrl, pdfUrl))
+          : eq(pdfCache.department, department)
+      )
+      .orderBy(desc(pdfCache.parsedAt))
       .limit(1);
 
     if (cache.length === 0) {
@@ -145,6 +313,7 @@ export class PdfCacheService {
 
     return {
       isCached: !isExpired,
+      version: c.version,
       parsedAt: c.parsedAt,
       expiresAt: c.expiresAt,
       totalClasses: c.totalClasses,
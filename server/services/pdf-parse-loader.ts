@@ -0,0 +1,8 @@
+import { createRequire } from "module";
+import type PdfParse from "pdf-parse";
+
+// pdf-parse's index.js runs a self-test when it has no parent module (as under ESM),
+// so load the library entry directly
+const require = createRequire(import.meta.url);
+
+export const pdfParse: typeof PdfParse = require("pdf-parse/lib/pdf-parse.js");
@@ -0,0 +1,408 @@
+import axios from "axios";
+import { CourseService } from "./course-service";
+import { pdfParse } from "./pdf-parse-loader";
+import {
+  buildParsedSchedule,
+  detectSessionType,
+  mergeSessions,
+  type ClassSchedule,
+  type ParsedSchedule,
+} from "./routine-query";
+
+/**
+ * A piece of text and where it sits on the page (top-left origin, PDF points)
+ */
+export interface TextBox {
+  text: string;
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ParsedClass extends ClassSchedule {
+  confidence: number; // 0-1, lowered for every guess the parser had to make
+  issues: string[]; // Why confidence was lowered
+  page: number;
+}
+
+export interface UnparsedFragment {
+  text: string;
+  page: number;
+  x: number;
+  y: number;
+  day: string | null;
+  reason: string;
+}
+
+export interface LayoutParseResult extends ParsedSchedule {
+  classes: ParsedClass[];
+  unparsed: UnparsedFragment[];
+  averageConfidence: number;
+}
+
+interface Column {
+  start: string; // Slot start time, e.g., "08:30"
+  end: string;
+  left: number;
+  right: number;
+}
+
+// The parts of a pdf.js page that pdf-parse hands to pagerender and that we read
+interface PdfTextItem {
+  str: string;
+  transform: number[]; // [scaleX, skewY, skewX, scaleY, x, baseline]
+  width: number;
+  height: number;
+}
+
+interface PdfPage {
+  pageIndex: number;
+  view: number[]; // [left, bottom, right, top]
+  getTextContent(options: { normalizeWhitespace: boolean }): Promise<{ items: PdfTextItem[] }>;
+}
+
+const DAYS = ["SATURDAY", "SUNDAY", "MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"];
+const HEADER_WORDS = new Set(["ROOM", "COURSE", "TEACHER"]);
+
+const COURSE_PATTERN = /^([A-Z]{3}\d{3})\((\d{2,3})_([A-Z]\d?)\)$/;
+const ROOM_PATTERN = /^(?:[A-Z]{1,3}\d?-\d{2,4}(?:\([A-Z]\))?)$/;
+const TEACHER_PATTERN = /^[A-Z]{2,4}(?:_\d+)?$/;
+const TIME_RANGE_PATTERN = /^(\d{1,2}:\d{2})-(\d{1,2}:\d{2})/;
+// Something that was probably meant to be a class but didn't match COURSE_PATTERN
+const COURSE_LIKE_PATTERN = /[A-Z]{3}\s*-?\s*\d{3}/;
+
+const CONFIDENCE_PENALTIES = {
+  missingRoom: 0.3,
+  missingTeacher: 0.3,
+  inferredColumns: 0.2,
+  crossesColumn: 0.2,
+};
+
+/**
+ * Split text items into single words, spreading each item's width over its characters
+ */
+function splitWords(boxes: TextBox[]): TextBox[] {
+  const words: TextBox[] = [];
+  for (const box of boxes) {
+    const charWidth = box.text.length > 0 ? box.width / box.text.length : 0;
+    const wordPattern = /\S+/g;
+    let match;
+    while ((match = wordPattern.exec(box.text)) !== null) {
+      words.push({
+        ...box,
+        text: match[0],
+        x: box.x + match.index * charWidth,
+        width: match[0].length * charWidth,
+      });
+    }
+  }
+  return words;
+}
+
+/**
+ * Group words into visual lines (same page, overlapping vertical centres), left to right
+ */
+function groupLines(words: TextBox[]): TextBox[][] {
+  const center = (w: TextBox) => w.y + w.height / 2;
+  const sorted = [...words].sort((a, b) => a.page - b.page || center(a) - center(b));
+
+  const lines: TextBox[][] = [];
+  for (const word of sorted) {
+    const line = lines[lines.length - 1];
+    const first = line?.[0];
+    const tolerance = first ? Math.max(Math.min(first.height, word.height) / 2, 1) : 0;
+    if (first && first.page === word.page && Math.abs(center(word) - center(first)) <= tolerance) {
+      line.push(word);
+    } else {
+      lines.push([word]);
+    }
+  }
+  return lines.map((line) => line.sort((a, b) => a.x - b.x));
+}
+
+/**
+ * Time slot labels on a line, e.g. "08:30-10:00" (also when split as "08:30", "-", "10:00")
+ */
+function findTimeSlots(line: TextBox[]): { start: string; end: string; left: number; right: number }[] {
+  const slots: { start: string; end: string; left: number; right: number }[] = [];
+  for (let i = 0; i < line.length; i++) {
+    const joined = line
+      .slice(i, i + 3)
+      .map((w) => w.text)
+      .join("");
+    const match = TIME_RANGE_PATTERN.exec(joined);
+    if (!match) continue;
+
+    // Consume the words that make up the range
+    let consumed = line[i].text.length;
+    let last = i;
+    while (consumed < match[0].length && last + 1 < line.length) {
+      last++;
+      consumed += line[last].text.length;
+    }
+    slots.push({ start: match[1], end: match[2], left: line[i].x, right: line[last].x + line[last].width });
+    i = last;
+  }
+  return slots;
+}
+
+/**
+ * Column boundaries for a day's time slots. The Room/Course/Teacher header gives exact
+ * cell edges; without it, split halfway between the time labels.
+ */
+function buildColumns(
+  slots: { start: string; end: string; left: number; right: number }[],
+  headerLine: TextBox[] | null
+): { columns: Column[]; inferred: boolean } {
+  const rooms = headerLine?.filter((w) => w.text.toUpperCase() === "ROOM") || [];
+  const teachers = headerLine?.filter((w) => w.text.toUpperCase() === "TEACHER") || [];
+
+  const edges: number[] = [];
+  const inferred = rooms.length !== slots.length || teachers.length !== slots.length;
+  for (let k = 1; k < slots.length; k++) {
+    edges.push(
+      inferred
+        ? (slots[k - 1].right + slots[k].left) / 2
+        : (teachers[k - 1].x + teachers[k - 1].width + rooms[k].x) / 2
+    );
+  }
+
+  const columns = slots.map((slot, k) => ({
+    start: slot.start,
+    end: slot.end,
+    left: k === 0 ? -Infinity : edges[k - 1],
+    right: k === slots.length - 1 ? Infinity : edges[k],
+  }));
+  return { columns, inferred };
+}
+
+export class LayoutPDFParser {
+  /**
+   * Download and parse a routine PDF from its positioned text
+   * @param department Department code used to look up course names (e.g., "eee")
+   */
+  async parsePDFFromURL(url: string, department: string = "cse"): Promise<LayoutParseResult> {
+    try {
+      const response = await axios.get(url, {
+        responseType: "arraybuffer",
+        timeout: 30000,
+      });
+      return await this.parsePDFBuffer(Buffer.from(response.data), department);
+    } catch (error) {
+      console.error("[layout-parser] PDF parsing error:", error);
+      throw new Error(`Failed to parse PDF: ${error}`);
+    }
+  }
+
+  async parsePDFBuffer(buffer: Buffer, department: string = "cse"): Promise<LayoutParseResult> {
+    const boxes = await this.extractTextBoxes(buffer);
+    const extracted = this.extractClasses(boxes, department);
+    const classes = mergeSessions(extracted.classes);
+    const { unparsed } = extracted;
+
+    const averageConfidence =
+      classes.length > 0 ? classes.reduce((sum, c) => sum + c.confidence, 0) / classes.length : 0;
+
+    console.log(
+      `[layout-parser] Extracted ${classes.length} classes (avg confidence ${averageConfidence.toFixed(2)}), ${unparsed.length} unparsed fragments`
+    );
+
+    return {
+      ...buildParsedSchedule(classes),
+      classes,
+      unparsed,
+      averageConfidence: Math.round(averageConfidence * 100) / 100,
+    };
+  }
+
+  /**
+   * Every text item in the PDF with its bounding box
+   */
+  async extractTextBoxes(buffer: Buffer): Promise<TextBox[]> {
+    const boxes: TextBox[] = [];
+
+    // pdf.js reads the underlying ArrayBuffer, so hand it a copy that isn't a slice of Node's buffer pool
+    await pdfParse(new Uint8Array(buffer) as Buffer, {
+      pagerender: async (pageData: PdfPage) => {
+        const [, viewBottom, , viewTop] = pageData.view;
+        const content = await pageData.getTextContent({ normalizeWhitespace: true });
+
+        for (const item of content.items) {
+          if (!item.str.trim()) continue;
+          const [, , , scaleY, x, baseline] = item.transform;
+          const height = item.height || Math.abs(scaleY);
+          boxes.push({
+            text: item.str,
+            page: pageData.pageIndex + 1,
+            x,
+            y: viewTop - viewBottom - baseline - height,
+            width: item.width,
+            height,
+          });
+        }
+        return "";
+      },
+    });
+
+    return boxes;
+  }
+
+  /**
+   * Assign every course cell to its day (section header above it) and time slot
+   * (column it sits in), reporting what couldn't be placed
+   */
+  extractClasses(boxes: TextBox[], department: string): { classes: ParsedClass[]; unparsed: UnparsedFragment[] } {
+    const classes = new Map<string, ParsedClass>();
+    const unparsed: UnparsedFragment[] = [];
+    const lines = groupLines(splitWords(boxes));
+
+    let currentDay: string | null = null;
+    let pendingSlots: ReturnType<typeof findTimeSlots> = [];
+    let columns: Column[] = [];
+    let inferredColumns = false;
+    let inComLabSection = false;
+
+    const addUnparsed = (word: TextBox, reason: string) =>
+      unparsed.push({ text: word.text, page: word.page, x: word.x, y: word.y, day: currentDay, reason });
+
+    for (const line of lines) {
+      const upperWords = line.map((w) => w.text.toUpperCase());
+      const dayWord = upperWords.find((w) => DAYS.includes(w));
+      const hasCourse = line.some((w) => COURSE_PATTERN.test(w.text));
+
+      // Day header
+      if (dayWord && !hasCourse) {
+        currentDay = dayWord;
+        pendingSlots = [];
+        columns = [];
+        inComLabSection = false;
+      }
+
+      // Time slot labels, possibly on the day header line itself
+      const slots = findTimeSlots(line);
+      if (slots.length > 0 && !hasCourse) {
+        pendingSlots = slots;
+        ({ columns, inferred: inferredColumns } = buildColumns(slots, null));
+        continue;
+      }
+      if (dayWord && !hasCourse) continue;
+
+      // Room / Course / Teacher header: exact column edges
+      if (upperWords.every((w) => HEADER_WORDS.has(w))) {
+        if (pendingSlots.length > 0) {
+          ({ columns, inferred: inferredColumns } = buildColumns(pendingSlots, line));
+        }
+        continue;
+      }
+
+      if (upperWords.join(" ").includes("COM LAB")) {
+        inComLabSection = true;
+        continue;
+      }
+
+      if (!hasCourse) {
+        for (const word of line) {
+          if (currentDay && COURSE_LIKE_PATTERN.test(word.text)) {
+            addUnparsed(word, "Looks like a course but doesn't match CODE(BATCH_SECTION)");
+          }
+        }
+        continue;
+      }
+
+      if (!currentDay || columns.length === 0) {
+        line.filter((w) => COURSE_PATTERN.test(w.text)).forEach((w) =>
+          addUnparsed(w, currentDay ? "No time slot header for this day" : "Class found before any day header")
+        );
+        continue;
+      }
+
+      // Cells of this row, column by column
+      const used = new Set<TextBox>();
+      for (const column of columns) {
+        const cell = line.filter((w) => {
+          const center = w.x + w.width / 2;
+          return center >= column.left && center < column.right;
+        });
+        const courseIndexes = cell.flatMap((w, i) => (COURSE_PATTERN.test(w.text) ? [i] : []));
+
+        courseIndexes.forEach((index, n) => {
+          const courseWord = cell[index];
+          const [, courseCode, batch, section] = COURSE_PATTERN.exec(courseWord.text)!;
+          const previousCourse = n > 0 ? courseIndexes[n - 1] : -1;
+          const nextCourse = n + 1 < courseIndexes.length ? courseIndexes[n + 1] : cell.length;
+
+          const roomWord = cell
+            .slice(previousCourse + 1, index)
+            .reverse()
+            .find((w) => ROOM_PATTERN.test(w.text) && !used.has(w));
+          const teacherWord = cell.slice(index + 1, nextCourse).find((w) => TEACHER_PATTERN.test(w.text));
+
+          const issues: string[] = [];
+          let confidence = 1;
+          if (!roomWord) {
+            issues.push("Room not found");
+            confidence -= CONFIDENCE_PENALTIES.missingRoom;
+          }
+          if (!teacherWord) {
+            issues.push("Teacher not found");
+            confidence -= CONFIDENCE_PENALTIES.missingTeacher;
+          }
+          if (inferredColumns) {
+            issues.push("Columns inferred from time labels");
+            confidence -= CONFIDENCE_PENALTIES.inferredColumns;
+          }
+          if (courseWord.x < column.left || courseWord.x + courseWord.width > column.right) {
+            issues.push("Cell crosses a time slot boundary");
+            confidence -= CONFIDENCE_PENALTIES.crossesColumn;
+          }
+
+          [courseWord, roomWord, teacherWord].forEach((w) => w && used.add(w));
+
+          const room = roomWord?.text || "TBA";
+          const courseName = CourseService.getCourseName(department, courseCode);
+          const batchSection = `${batch}_${section}`;
+          const parsed: ParsedClass = {
+            day: currentDay!,
+            timeStart: column.start,
+            timeEnd: column.end,
+            courseCode,
+            courseName,
+            batch,
+            section,
+            room,
+            teacher: teacherWord?.text || "TBA",
+            batchSection,
+            sessionType: detectSessionType(courseName, room, inComLabSection),
+            confidence: Math.max(Math.round(confidence * 100) / 100, 0),
+            issues,
+            page: courseWord.page,
+          };
+
+          // Keep the most confident reading of a repeated cell
+          const key = `${currentDay}|${column.start}|${courseCode}|${batchSection}`;
+          const existing = classes.get(key);
+          if (!existing || existing.confidence < parsed.confidence) {
+            classes.set(key, parsed);
+          }
+        });
+      }
+
+      for (const word of line) {
+        if (used.has(word)) continue;
+        addUnparsed(
+          word,
+          COURSE_LIKE_PATTERN.test(word.text)
+            ? "Looks like a course but doesn't match CODE(BATCH_SECTION)"
+            : "Not part of any class cell"
+        );
+      }
+    }
+
+    return { classes: Array.from(classes.values()), unparsed };
+  }
+}
+
+// Export singleton instance
+export const layoutPdfParser = new LayoutPDFParser();
@@ -4,81 +4,18 @@ import { promisify } from "util";
 import * as fs from "fs/promises";
 import * as path from "path";
 import * as os from "os";
+import { randomUUID } from "crypto";
 import { createWriteStream } from "fs";
 import { pipeline } from "stream/promises";
+import { CourseService } from "./course-service";
+import { DAYS, buildParsedSchedule, detectSessionType, type ClassSchedule, type ParsedSchedule } from "./routine-query";
 
 const execAsync = promisify(exec);
 
-export interface ClassSchedule {
-  day: string;
-  timeStart: string;
-  timeEnd: string;
-  courseCode: string;
-  courseName: string;
-  batch: string;
-  section: string;
-  room: string;
-  teacher: string;
-  batchSection: string;
-}
-
-export interface ScheduleStats {
-  totalClasses: number;
-  busiestDay: string;
-  lightestDay: string;
-  busiestDayCount: number;
-  lightestDayCount: number;
-}
-
-export interface ParsedSchedule {
-  classes: ClassSchedule[];
-  stats: ScheduleStats;
-  faculty: string[];
-}
-
-const DAYS = ["SATURDAY", "SUNDAY", "MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"];
-
 // In-memory cache for recently parsed PDFs
 const memoryCache = new Map<string, { data: ParsedSchedule; timestamp: number }>();
 const MEMORY_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
-// Course name mapping (abbreviated for speed)
-const COURSE_NAMES: Record<string, string> = {
-  CSE112: "Computer Fundamentals",
-  CSE113: "Programming and Problem Solving",
-  CSE114: "Programming and Problem Solving Lab",
-  CSE123: "Data Structure",
-  CSE124: "Data Structure Lab",
-  CSE213: "Algorithms",
-  CSE214: "Algorithms Lab",
-  CSE221: "Object Oriented Programming",
-  CSE222: "Object Oriented Programming Lab",
-  CSE223: "Digital Logic Design",
-  CSE224: "Digital Logic Design Lab",
-  CSE225: "Data Communication",
-  CSE311: "Database Management System",
-  CSE312: "Database Management System Lab",
-  CSE313: "Compiler Design",
-  CSE314: "Compiler Design Lab",
-  CSE315: "Software Engineering",
-  CSE316: "Artificial Intelligence",
-  CSE321: "Computer Networks",
-  CSE322: "Computer Networks Lab",
-  CSE323: "Operating Systems",
-  CSE324: "Operating Systems Lab",
-  CSE411: "Computer Graphics",
-  CSE412: "Computer Graphics Lab",
-  CSE413: "Computer Architecture and Organization",
-  CSE498: "Capstone Project (Phase I)",
-  CSE499: "Capstone Project (Phase II)",
-  MAT101: "Mathematics - I",
-  MAT102: "Mathematics-II",
-  ENG101: "Basic Functional English",
-  ENG102: "Writing and Comprehension",
-  PHY101: "Physics-I",
-  PHY102: "Physics - II",
-};
-
 export class PDFParserOptimized {
   /**
    * Download and parse PDF from URL with optimizations:
@@ -100,7 +37,7 @@ export class PDFParserOptimized {
     
     try {
       // Generate temp file path
-      tempPdfPath = path.join(os.tmpdir(), `routine_${Date.now()}.pdf`);
+      tempPdfPath = path.join(os.tmpdir(), `routine_${randomUUID()}.pdf`);
       
       // Stream download directly to file (faster than buffering)
       const response = await axios.get(url, {
@@ -121,15 +58,9 @@ export class PDFParserOptimized {
       console.log(`[PDFParser] Extracted text (${Date.now() - startTime}ms)`);
 
       // Extract classes (this is the main parsing logic)
-      const classes = this.extractClasses(stdout);
+      const result = this.parsePDFText(stdout);
       
-      console.log(`[PDFParser] Parsed ${classes.length} classes (${Date.now() - startTime}ms)`);
-
-      // Calculate stats quickly
-      const stats = this.calculateStats(classes);
-      const faculty = [...new Set(classes.map((c) => c.teacher))];
-
-      const result = { classes, stats, faculty };
+      console.log(`[PDFParser] Parsed ${result.classes.length} classes (${Date.now() - startTime}ms)`);
       
       // Store in memory cache
       memoryCache.set(url, { data: result, timestamp: Date.now() });
@@ -154,10 +85,34 @@ export class PDFParserOptimized {
     }
   }
 
+  /**
+   * Parse an already downloaded PDF (no memory cache)
+   */
+  async parsePDFBuffer(pdfBuffer: Buffer, department: string = "cse"): Promise<ParsedSchedule> {
+    const tempPdfPath = path.join(os.tmpdir(), `routine_${randomUUID()}.pdf`);
+    await fs.writeFile(tempPdfPath, pdfBuffer);
+
+    try {
+      const { stdout } = await execAsync(`pdftotext -layout "${tempPdfPath}" -`, {
+        maxBuffer: 10 * 1024 * 1024, // 10MB buffer
+      });
+      return this.parsePDFText(stdout, department);
+    } finally {
+      fs.unlink(tempPdfPath).catch(() => {});
+    }
+  }
+
+  /**
+   * Parse `pdftotext -layout` output without downloading anything
+   */
+  parsePDFText(text: string, department: string = "cse"): ParsedSchedule {
+    return buildParsedSchedule(this.extractClasses(text, department));
+  }
+
   /**
    * Extract class schedules from PDF text (optimized version)
    */
-  private extractClasses(text: string): ClassSchedule[] {
+  private extractClasses(text: string, department: string): ClassSchedule[] {
     const classes: ClassSchedule[] = [];
     const seen = new Set<string>();
     const lines = text.split("\n");
@@ -262,91 +217,25 @@ export class PDFParserOptimized {
         }
         seen.add(uniqueKey);
 
+        const courseName = CourseService.getCourseName(department, courseCode);
         classes.push({
-          day: currentDay.charAt(0) + currentDay.slice(1).toLowerCase(),
+          day: currentDay,
           timeStart: slot.start,
           timeEnd: slot.end,
           courseCode,
-          courseName: COURSE_NAMES[courseCode] || courseCode,
+          courseName,
           batch,
           section,
           batchSection,
           room,
           teacher,
+          sessionType: detectSessionType(courseName, room),
         });
       }
     }
 
     return classes;
   }
-
-  /**
-   * Calculate schedule statistics (optimized)
-   */
-  calculateStats(classes: ClassSchedule[]): ScheduleStats {
-    const dayCount: Record<string, number> = {};
-    
-    for (const cls of classes) {
-      dayCount[cls.day] = (dayCount[cls.day] || 0) + 1;
-    }
-
-    const entries = Object.entries(dayCount);
-    if (entries.length === 0) {
-      return {
-        totalClasses: 0,
-        busiestDay: "N/A",
-        lightestDay: "N/A",
-        busiestDayCount: 0,
-        lightestDayCount: 0,
-      };
-    }
-
-    const busiest = entries.reduce((a, b) => (a[1] > b[1] ? a : b));
-    const lightest = entries.reduce((a, b) => (a[1] < b[1] ? a : b));
-
-    return {
-      totalClasses: classes.length,
-      busiestDay: busiest[0],
-      busiestDayCount: busiest[1],
-      lightestDay: lightest[0],
-      lightestDayCount: lightest[1],
-    };
-  }
-
-  /**
-   * Filter classes by batch and section
-   */
-  filterByBatchSection(classes: ClassSchedule[], batchSection: string): ClassSchedule[] {
-    return classes.filter((c) => c.batchSection === batchSection);
-  }
-
-  /**
-   * Filter classes by teacher
-   */
-  filterByTeacher(classes: ClassSchedule[], teacher: string): ClassSchedule[] {
-    return classes.filter((c) => c.teacher.toUpperCase() === teacher.toUpperCase());
-  }
-
-  /**
-   * Filter classes by room
-   */
-  filterByRoom(classes: ClassSchedule[], room: string): ClassSchedule[] {
-    return classes.filter((c) => c.room.includes(room.toUpperCase()));
-  }
-
-  /**
-   * Group classes by day
-   */
-  groupByDay(classes: ClassSchedule[]): Record<string, ClassSchedule[]> {
-    const grouped: Record<string, ClassSchedule[]> = {};
-
-    DAYS.forEach((day) => {
-      const formattedDay = day.charAt(0) + day.slice(1).toLowerCase();
-      grouped[formattedDay] = classes.filter((c) => c.day.toUpperCase() === day);
-    });
-
-    return grouped;
-  }
 }
 
 export const pdfParserOptimized = new PDFParserOptimized();
@@ -1,6 +1,6 @@
-const pdf = require("pdf-parse");
 import axios from "axios";
 import type { ClassSchedule } from "../../types";
+import { pdfParse } from "./pdf-parse-loader";
 
 export class PDFParser {
   /**
@@ -15,17 +15,21 @@ export class PDFParser {
         },
       });
 
-      const dataBuffer = Buffer.from(response.data);
-      const pdfData = await pdf(dataBuffer);
-      const text = pdfData.text;
-
-      return this.extractSchedules(text);
+      return await this.parsePDFBuffer(Buffer.from(response.data));
     } catch (error) {
       console.error("Error parsing PDF:", error);
       return [];
     }
   }
 
+  /**
+   * Extract class schedules from an already downloaded PDF
+   */
+  static async parsePDFBuffer(dataBuffer: Buffer): Promise<ClassSchedule[]> {
+    const pdfData = await pdfParse(dataBuffer);
+    return this.extractSchedules(pdfData.text);
+  }
+
   /**
    * Extract class schedules from PDF text
    */
@@ -0,0 +1,249 @@
+import { eq, inArray } from "drizzle-orm";
+import { getDb } from "../db";
+import { pushSubscriptions, type PushSubscription } from "../../drizzle/schema";
+import type { ClassSchedule } from "./routine-query";
+import { diffRoutines, type RoutineChange } from "./routine-diff";
+import { formatDay } from "../../shared/routine-time";
+
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+const EXPO_PUSH_CHUNK_SIZE = 100; // Expo accepts at most 100 messages per request
+const MAX_CHANGES_IN_BODY = 3;
+const ROUTINE_CHANGES_CHANNEL = "routine-changes"; // Android channel the app creates in lib/notifications.ts
+
+export interface PushMessage {
+  to: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+export interface PushResult {
+  to: string;
+  ok: boolean;
+  error?: string; // e.g., "DeviceNotRegistered"
+}
+
+/**
+ * Delivery layer for push messages
+ */
+export interface PushSender {
+  send(messages: PushMessage[]): Promise<PushResult[]>;
+}
+
+/**
+ * Sends through the Expo push service
+ */
+export class ExpoPushSender implements PushSender {
+  async send(messages: PushMessage[]): Promise<PushResult[]> {
+    const results: PushResult[] = [];
+
+    for (let i = 0; i < messages.length; i += EXPO_PUSH_CHUNK_SIZE) {
+      const chunk = messages.slice(i, i + EXPO_PUSH_CHUNK_SIZE);
+
+      try {
+        const response = await fetch(EXPO_PUSH_URL, {
+          method: "POST",
+          headers: {
+            accept: "application/json",
+            "content-type": "application/json",
+          },
+          body: JSON.stringify(chunk.map((m) => ({ ...m, sound: "default", channelId: ROUTINE_CHANGES_CHANNEL }))),
+        });
+
+        if (!response.ok) {
+          const error = `${response.status} ${response.statusText}`;
+          results.push(...chunk.map((m) => ({ to: m.to, ok: false, error })));
+          continue;
+        }
+
+        // One ticket per message, in order
+        const { data: tickets } = (await response.json()) as {
+          data: { status: "ok" | "error"; message?: string; details?: { error?: string } }[];
+        };
+        chunk.forEach((m, index) => {
+          const ticket = tickets[index];
+          results.push({
+            to: m.to,
+            ok: ticket?.status === "ok",
+            error: ticket?.status === "ok" ? undefined : ticket?.details?.error || ticket?.message,
+          });
+        });
+      } catch (error: any) {
+        results.push(...chunk.map((m) => ({ to: m.to, ok: false, error: error.message })));
+      }
+    }
+
+    return results;
+  }
+}
+
+/**
+ * Collects messages instead of sending them (tests, local development)
+ */
+export class InMemoryPushSender implements PushSender {
+  sent: PushMessage[] = [];
+
+  async send(messages: PushMessage[]): Promise<PushResult[]> {
+    this.sent.push(...messages);
+    return messages.map((m) => ({ to: m.to, ok: true }));
+  }
+}
+
+/**
+ * One line per change, e.g. "CSE112 moved to Tuesday 01:00-02:30"
+ */
+export function describeChange(change: RoutineChange): string {
+  const slot = (c: ClassSchedule) => `${formatDay(c.day)} ${c.timeStart}-${c.timeEnd}`;
+
+  switch (change.type) {
+    case "added":
+      return `${change.courseCode} added on ${slot(change.after!)}`;
+    case "removed":
+      return `${change.courseCode} on ${slot(change.before!)} removed`;
+    case "moved":
+      return `${change.courseCode} moved to ${slot(change.after!)}`;
+    case "room_changed":
+      return `${change.courseCode} room changed to ${change.after!.room}`;
+    case "teacher_changed":
+      return `${change.courseCode} now taught by ${change.after!.teacher}`;
+  }
+}
+
+/**
+ * Build one alert per subscription whose classes changed between two routines
+ */
+export function buildChangeAlerts(
+  subscriptions: Pick<PushSubscription, "expoPushToken" | "department" | "batchSection" | "teacher">[],
+  before: ClassSchedule[],
+  after: ClassSchedule[],
+  version: string
+): PushMessage[] {
+  const messages: PushMessage[] = [];
+
+  for (const sub of subscriptions) {
+    const { changes } = diffRoutines(before, after, {
+      batchSection: sub.batchSection,
+      teacher: sub.teacher || undefined,
+    });
+    if (changes.length === 0) continue;
+
+    const lines = changes.slice(0, MAX_CHANGES_IN_BODY).map(describeChange);
+    if (changes.length > MAX_CHANGES_IN_BODY) {
+      lines.push(`+${changes.length - MAX_CHANGES_IN_BODY} more`);
+    }
+
+    messages.push({
+      to: sub.expoPushToken,
+      title: `Routine v${version}: ${changes.length} change${changes.length === 1 ? "" : "s"} for ${sub.batchSection}`,
+      body: lines.join("\n"),
+      data: { department: sub.department, batchSection: sub.batchSection },
+    });
+  }
+
+  return messages;
+}
+
+export class PushNotificationService {
+  private static sender: PushSender = new ExpoPushSender();
+
+  /**
+   * Swap the delivery layer (e.g., InMemoryPushSender in tests)
+   */
+  static setSender(sender: PushSender): void {
+    this.sender = sender;
+  }
+
+  /**
+   * Create or replace the subscription for a device
+   */
+  static async subscribe(subscription: {
+    expoPushToken: string;
+    department: string;
+    batchSection: string;
+    teacher?: string;
+  }): Promise<PushSubscription> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const values = {
+      department: subscription.department,
+      batchSection: subscription.batchSection.toUpperCase(),
+      teacher: subscription.teacher?.toUpperCase() || null,
+      updatedAt: new Date(),
+    };
+
+    const [saved] = await db
+      .insert(pushSubscriptions)
+      .values({ expoPushToken: subscription.expoPushToken, ...values })
+      .onConflictDoUpdate({ target: pushSubscriptions.expoPushToken, set: values })
+      .returning();
+
+    return saved;
+  }
+
+  /**
+   * Remove a device's subscription
+   */
+  static async unsubscribe(expoPushToken: string): Promise<void> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    await db.delete(pushSubscriptions).where(eq(pushSubscriptions.expoPushToken, expoPushToken));
+  }
+
+  /**
+   * Get a device's subscription, if any
+   */
+  static async getSubscription(expoPushToken: string): Promise<PushSubscription | null> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const [subscription] = await db
+      .select()
+      .from(pushSubscriptions)
+      .where(eq(pushSubscriptions.expoPushToken, expoPushToken))
+      .limit(1);
+
+    return subscription || null;
+  }
+
+  /**
+   * List all subscriptions for a department
+   */
+  static async listSubscriptions(department: string): Promise<PushSubscription[]> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db.select().from(pushSubscriptions).where(eq(pushSubscriptions.department, department));
+  }
+
+  /**
+   * Alert every subscriber of a department whose classes changed in a new routine version
+   * Devices Expo reports as unregistered are unsubscribed
+   * Returns the number of alerts delivered
+   */
+  static async notifyRoutineChanges(
+    department: string,
+    before: ClassSchedule[],
+    after: ClassSchedule[],
+    version: string
+  ): Promise<number> {
+    const subscriptions = await this.listSubscriptions(department);
+    const messages = buildChangeAlerts(subscriptions, before, after, version);
+    if (messages.length === 0) return 0;
+
+    const results = await this.sender.send(messages);
+
+    const unregistered = results.filter((r) => r.error === "DeviceNotRegistered").map((r) => r.to);
+    if (unregistered.length > 0) {
+      const db = await getDb();
+      if (db) {
+        await db.delete(pushSubscriptions).where(inArray(pushSubscriptions.expoPushToken, unregistered));
+      }
+    }
+
+    const delivered = results.filter((r) => r.ok).length;
+    console.log(`[push] Sent ${delivered}/${messages.length} change alerts for ${department} v${version}`);
+    return delivered;
+  }
+}
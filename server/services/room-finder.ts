@@ -0,0 +1,130 @@
+import type { ClassSchedule } from "./routine-query";
+import { formatDay, minutesToTime, timeToMinutes } from "../../shared/routine-time";
+
+export interface TimeSlot {
+  start: string;
+  end: string;
+}
+
+export interface FreeRoom {
+  room: string; // e.g., "KT-222"
+  building: string; // e.g., "KT"
+  isLab: boolean;
+  freeUntil: string | null; // Start of the next class, null if free for the rest of the day
+  freeMinutes: number;
+  nextCourse: string | null;
+}
+
+export interface FreeRoomsResult {
+  day: string;
+  at: string;
+  slot: TimeSlot | null;
+  slots: TimeSlot[];
+  rooms: FreeRoom[];
+  buildings: string[];
+  totalRooms: number;
+  occupiedRooms: number;
+}
+
+export class RoomFinder {
+  /**
+   * Normalize a room ("kt-222", or "KT-222 (LAB)" in older routines) to its plain code ("KT-222")
+   */
+  static normalizeRoom(room: string): string {
+    return room.replace(/\s*\(LAB\)\s*$/i, "").trim().toUpperCase();
+  }
+
+  /**
+   * Building prefix of a room code: KT-222 -> KT, G1-301 -> G1
+   */
+  static getBuilding(room: string): string {
+    return this.normalizeRoom(room).split("-")[0];
+  }
+
+  /**
+   * All distinct time slots in the routine, in chronological order.
+   * Sessions spanning several slots (labs) don't count as slots of their own.
+   */
+  static getTimeSlots(classes: ClassSchedule[]): TimeSlot[] {
+    const slots = new Map<string, TimeSlot>();
+    for (const c of classes) {
+      slots.set(`${c.timeStart}-${c.timeEnd}`, { start: c.timeStart, end: c.timeEnd });
+    }
+    const starts = Array.from(slots.values()).map((s) => timeToMinutes(s.start));
+    return Array.from(slots.values())
+      .filter((s) => !starts.some((start) => start > timeToMinutes(s.start) && start < timeToMinutes(s.end)))
+      .sort((a, b) => timeToMinutes(a.start) - timeToMinutes(b.start));
+  }
+
+  /**
+   * Find every room seen in the routine that has no class on `day` at minute `from`.
+   * When `from` is the start of a slot the room must be free for the whole slot,
+   * otherwise it is checked as a single point in time (e.g., "now").
+   * `routineDay` is the weekday whose classes run on `day` (another one on a swapped day, null on a holiday).
+   */
+  static findFreeRooms(
+    classes: ClassSchedule[],
+    day: string,
+    from: number,
+    routineDay: string | null = day
+  ): FreeRoomsResult {
+    const slots = this.getTimeSlots(classes);
+    const slot = slots.find((s) => timeToMinutes(s.start) === from) || null;
+
+    const to = slot ? timeToMinutes(slot.end) : from + 1;
+    const dayEnd = slots.length > 0 ? Math.max(...slots.map((s) => timeToMinutes(s.end))) : to;
+
+    // Collect every known room across the whole week
+    const allRooms = new Map<string, { isLab: boolean }>();
+    for (const c of classes) {
+      const room = this.normalizeRoom(c.room);
+      if (!room || room === "TBA") continue;
+      const isLab = c.sessionType === "lab" || /\(LAB\)/i.test(c.room) || allRooms.get(room)?.isLab === true;
+      allRooms.set(room, { isLab });
+    }
+
+    const dayClasses = routineDay ? classes.filter((c) => c.day.toUpperCase() === routineDay.toUpperCase()) : [];
+
+    const rooms: FreeRoom[] = [];
+    let occupiedRooms = 0;
+
+    allRooms.forEach(({ isLab }, room) => {
+      const roomClasses = dayClasses.filter((c) => this.normalizeRoom(c.room) === room);
+
+      const isOccupied = roomClasses.some(
+        (c) => timeToMinutes(c.timeStart) < to && timeToMinutes(c.timeEnd) > from
+      );
+      if (isOccupied) {
+        occupiedRooms++;
+        return;
+      }
+
+      // The room stays free until its next class of the day
+      const nextClass = roomClasses
+        .filter((c) => timeToMinutes(c.timeStart) >= from)
+        .sort((a, b) => timeToMinutes(a.timeStart) - timeToMinutes(b.timeStart))[0];
+
+      rooms.push({
+        room,
+        building: this.getBuilding(room),
+        isLab,
+        freeUntil: nextClass ? nextClass.timeStart : null,
+        freeMinutes: Math.max(0, (nextClass ? timeToMinutes(nextClass.timeStart) : dayEnd) - from),
+        nextCourse: nextClass ? nextClass.courseCode : null,
+      });
+    });
+
+    rooms.sort((a, b) => b.freeMinutes - a.freeMinutes || a.room.localeCompare(b.room));
+
+    return {
+      day: formatDay(day),
+      at: minutesToTime(from),
+      slot,
+      slots,
+      rooms,
+      buildings: Array.from(new Set(rooms.map((r) => r.building))).sort(),
+      totalRooms: allRooms.size,
+      occupiedRooms,
+    };
+  }
+}
@@ -0,0 +1,130 @@
+import { asc, eq, inArray } from "drizzle-orm";
+import { getDb } from "../db";
+import { rooms as roomsTable, type Room } from "../../drizzle/schema";
+import { RoomFinder } from "./room-finder";
+import type { ClassSchedule } from "./routine-query";
+
+export type RoomType = "theory" | "lab";
+
+export interface RoomRecord {
+  code: string; // e.g., "KT-222"
+  building: string; // e.g., "KT"
+  floor: number | null;
+  type: RoomType;
+  capacity: number | null;
+}
+
+/**
+ * Building and floor from a room code: KT-222 -> KT, floor 2; G1-301 -> G1, floor 3; KT-1002 -> floor 10.
+ * Codes without a room number (e.g., "AUDITORIUM") have no floor.
+ */
+export function parseRoomCode(room: string): { code: string; building: string; floor: number | null } {
+  const code = RoomFinder.normalizeRoom(room);
+  const building = RoomFinder.getBuilding(code);
+  const number = /-(\d+)/.exec(code)?.[1];
+
+  return {
+    code,
+    building,
+    floor: number ? Math.floor(parseInt(number, 10) / 100) : null,
+  };
+}
+
+/**
+ * Every room a routine uses, labs being rooms with any lab session
+ */
+export function discoverRooms(classes: ClassSchedule[]): RoomRecord[] {
+  const found = new Map<string, RoomRecord>();
+  for (const c of classes) {
+    const { code, building, floor } = parseRoomCode(c.room);
+    if (!code || code === "TBA") continue;
+
+    const isLab = c.sessionType === "lab" || /\(LAB\)/i.test(c.room) || found.get(code)?.type === "lab";
+    found.set(code, { code, building, floor, type: isLab ? "lab" : "theory", capacity: null });
+  }
+  return Array.from(found.values()).sort((a, b) => a.code.localeCompare(b.code));
+}
+
+const toRoomRecord = (room: Room): RoomRecord => ({
+  code: room.code,
+  building: room.building,
+  floor: room.floor,
+  type: room.type as RoomType,
+  capacity: room.capacity,
+});
+
+export class RoomService {
+  /**
+   * Every stored room; empty without a database
+   */
+  static async getRooms(): Promise<RoomRecord[]> {
+    const db = await getDb();
+    if (!db) return [];
+
+    const rows = await db.select().from(roomsTable).orderBy(asc(roomsTable.code));
+    return rows.map(toRoomRecord);
+  }
+
+  /**
+   * Store rooms a department's routine uses that aren't known yet, and note the department on known ones.
+   * Type, floor and capacity of known rooms are left alone, so admin edits stick.
+   * Returns the number of new rooms.
+   */
+  static async syncRooms(department: string, classes: ClassSchedule[]): Promise<number> {
+    const discovered = discoverRooms(classes);
+    if (discovered.length === 0) return 0;
+
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const codes = discovered.map((r) => r.code);
+    const existing = await db.select().from(roomsTable).where(inArray(roomsTable.code, codes));
+    const known = new Map(existing.map((r) => [r.code, r]));
+    const now = new Date();
+
+    const added = discovered.filter((r) => !known.has(r.code));
+    if (added.length > 0) {
+      await db
+        .insert(roomsTable)
+        .values(added.map((r) => ({ ...r, departments: [department], lastSeenAt: now })))
+        .onConflictDoNothing();
+    }
+
+    if (existing.length > 0) {
+      await db
+        .update(roomsTable)
+        .set({ lastSeenAt: now })
+        .where(inArray(roomsTable.id, existing.map((r) => r.id)));
+    }
+    for (const room of existing.filter((r) => !r.departments.includes(department))) {
+      await db
+        .update(roomsTable)
+        .set({ departments: [...room.departments, department] })
+        .where(eq(roomsTable.id, room.id));
+    }
+
+    if (added.length > 0) {
+      console.log(`[rooms] ${added.length} new room(s) from the ${department} routine`);
+    }
+    return added.length;
+  }
+
+  /**
+   * Set a room's capacity, type or floor
+   * Returns null if there is no such room
+   */
+  static async updateRoom(
+    code: string,
+    changes: Partial<Pick<RoomRecord, "capacity" | "type" | "floor">>
+  ): Promise<RoomRecord | null> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const [updated] = await db
+      .update(roomsTable)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(roomsTable.code, RoomFinder.normalizeRoom(code)))
+      .returning();
+    return updated ? toRoomRecord(updated) : null;
+  }
+}
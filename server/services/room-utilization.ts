@@ -0,0 +1,132 @@
+import { RoomFinder, type TimeSlot } from "./room-finder";
+import { discoverRooms, type RoomRecord } from "./room-service";
+import type { ClassSchedule } from "./routine-query";
+import { formatDay, timeToMinutes } from "../../shared/routine-time";
+import { DAYS } from "../../types";
+
+/**
+ * Use of a cell of the week (one day, one slot), 0-100
+ */
+export type UtilizationGrid = number[][]; // [day][slot], in the order of `days` and `slots`
+
+export interface RoomUtilization extends RoomRecord {
+  utilization: number; // % of the week's slots with a class
+  byDay: number[]; // % of each day's slots
+  grid: UtilizationGrid; // 100 when in use, 0 when free
+}
+
+export interface BuildingUtilization {
+  building: string;
+  rooms: number;
+  labs: number;
+  capacity: number; // Known seats
+  roomsWithoutCapacity: number;
+  utilization: number; // % of room-slots in use
+  seatUtilization: number | null; // % of known seat-slots in use, null without capacities
+  grid: UtilizationGrid; // % of the building's rooms in use
+  peak: { day: string; slot: string; utilization: number } | null;
+}
+
+export interface UtilizationReport {
+  days: string[]; // Title case; days the routine has classes on
+  slots: TimeSlot[];
+  rooms: RoomUtilization[]; // Busiest first
+  buildings: BuildingUtilization[];
+  summary: {
+    rooms: number;
+    utilization: number;
+    totalSeats: number;
+    roomsWithoutCapacity: number;
+  };
+}
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+const usedCells = (grid: UtilizationGrid) =>
+  grid.reduce((total, row) => total + row.filter((cell) => cell > 0).length, 0);
+
+/**
+ * Share of the week each room in the classes is booked, and the same per building, by day and slot.
+ * Type, floor and capacity come from `records` where known.
+ */
+export function calculateUtilization(classes: ClassSchedule[], records: RoomRecord[] = []): UtilizationReport {
+  const slots = RoomFinder.getTimeSlots(classes);
+  const days = DAYS.filter((day) => classes.some((c) => c.day.toUpperCase() === day.toUpperCase()));
+  const stored = new Map(records.map((r) => [r.code, r]));
+
+  const rooms: RoomUtilization[] = discoverRooms(classes).map((found) => {
+    const record = { ...found, ...stored.get(found.code) };
+    const roomClasses = classes.filter((c) => RoomFinder.normalizeRoom(c.room) === found.code);
+
+    // A lab over two slots fills both
+    const grid = days.map((day) =>
+      slots.map((slot) =>
+        roomClasses.some(
+          (c) =>
+            formatDay(c.day) === day &&
+            timeToMinutes(c.timeStart) < timeToMinutes(slot.end) &&
+            timeToMinutes(c.timeEnd) > timeToMinutes(slot.start)
+        )
+          ? 100
+          : 0
+      )
+    );
+    return {
+      ...record,
+      utilization: percent(usedCells(grid), days.length * slots.length),
+      byDay: grid.map((row) => percent(usedCells([row]), slots.length)),
+      grid,
+    };
+  });
+  rooms.sort((a, b) => b.utilization - a.utilization || a.code.localeCompare(b.code));
+
+  const cellsPerRoom = days.length * slots.length;
+  const roomSlotsUsed = (list: RoomUtilization[]) => list.reduce((total, r) => total + usedCells(r.grid), 0);
+
+  const buildingNames = Array.from(new Set(rooms.map((r) => r.building))).sort();
+  const buildings = buildingNames.map((building): BuildingUtilization => {
+    const buildingRooms = rooms.filter((r) => r.building === building);
+    const withCapacity = buildingRooms.filter((r) => r.capacity !== null && r.capacity > 0);
+
+    const grid = days.map((_, d) =>
+      slots.map((_, s) => percent(buildingRooms.filter((r) => r.grid[d][s] > 0).length, buildingRooms.length))
+    );
+
+    let peak: BuildingUtilization["peak"] = null;
+    grid.forEach((row, d) =>
+      row.forEach((utilization, s) => {
+        if (utilization > 0 && (!peak || utilization > peak.utilization)) {
+          peak = { day: days[d], slot: `${slots[s].start}-${slots[s].end}`, utilization };
+        }
+      })
+    );
+
+    const capacity = withCapacity.reduce((total, r) => total + r.capacity!, 0);
+    const usedSeats = withCapacity.reduce((total, r) => total + r.capacity! * usedCells(r.grid), 0);
+
+    return {
+      building,
+      rooms: buildingRooms.length,
+      labs: buildingRooms.filter((r) => r.type === "lab").length,
+      capacity,
+      roomsWithoutCapacity: buildingRooms.length - withCapacity.length,
+      utilization: percent(roomSlotsUsed(buildingRooms), buildingRooms.length * cellsPerRoom),
+      seatUtilization: capacity > 0 ? percent(usedSeats, capacity * cellsPerRoom) : null,
+      grid,
+      peak,
+    };
+  });
+
+  return {
+    days,
+    slots,
+    rooms,
+    buildings,
+    summary: {
+      rooms: rooms.length,
+      utilization: percent(roomSlotsUsed(rooms), rooms.length * cellsPerRoom),
+      totalSeats: buildings.reduce((total, b) => total + b.capacity, 0),
+      roomsWithoutCapacity: buildings.reduce((total, b) => total + b.roomsWithoutCapacity, 0),
+    },
+  };
+}
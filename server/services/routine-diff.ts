@@ -0,0 +1,157 @@
+import type { ClassSchedule } from "./routine-query";
+import { timeToMinutes } from "../../shared/routine-time";
+
+export type RoutineChangeType = "added" | "removed" | "moved" | "room_changed" | "teacher_changed";
+
+export interface RoutineChange {
+  type: RoutineChangeType;
+  courseCode: string;
+  courseName: string;
+  batchSection: string;
+  before: ClassSchedule | null;
+  after: ClassSchedule | null;
+  changedFields: ("day" | "time" | "room" | "teacher")[];
+}
+
+export interface RoutineDiff {
+  changes: RoutineChange[];
+  summary: Record<RoutineChangeType, number>;
+}
+
+export interface RoutineDiffFilter {
+  batchSection?: string;
+  teacher?: string;
+}
+
+const DAY_ORDER = ["SATURDAY", "SUNDAY", "MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"];
+
+const sameSlot = (a: ClassSchedule, b: ClassSchedule) =>
+  a.day.toUpperCase() === b.day.toUpperCase() && a.timeStart === b.timeStart && a.timeEnd === b.timeEnd;
+
+const isUnchanged = (a: ClassSchedule, b: ClassSchedule) =>
+  sameSlot(a, b) && a.room === b.room && a.teacher.toUpperCase() === b.teacher.toUpperCase();
+
+const byDayAndTime = (a: ClassSchedule, b: ClassSchedule) =>
+  DAY_ORDER.indexOf(a.day.toUpperCase()) - DAY_ORDER.indexOf(b.day.toUpperCase()) ||
+  timeToMinutes(a.timeStart) - timeToMinutes(b.timeStart);
+
+/**
+ * Compare two parsed routines.
+ *
+ * Classes are matched per course + batch_section, since a course meets several
+ * times a week: unchanged sessions are paired first, then sessions in the same
+ * day/slot (room or teacher changed), then whatever is left in weekly order
+ * (moved). Anything still unpaired was added or removed.
+ */
+export function diffRoutines(
+  before: ClassSchedule[],
+  after: ClassSchedule[],
+  filter: RoutineDiffFilter = {}
+): RoutineDiff {
+  const matchesFilter = (c: ClassSchedule) =>
+    (!filter.batchSection || c.batchSection.toUpperCase() === filter.batchSection.toUpperCase()) &&
+    (!filter.teacher || c.teacher.toUpperCase() === filter.teacher.toUpperCase());
+
+  const group = (classes: ClassSchedule[]) => {
+    const groups = new Map<string, ClassSchedule[]>();
+    for (const c of classes) {
+      const key = `${c.courseCode}|${c.batchSection}`;
+      groups.set(key, [...(groups.get(key) || []), c]);
+    }
+    return groups;
+  };
+
+  const beforeGroups = group(before);
+  const afterGroups = group(after);
+  const keys = new Set([...beforeGroups.keys(), ...afterGroups.keys()]);
+
+  const changes: RoutineChange[] = [];
+
+  const addPair = (from: ClassSchedule, to: ClassSchedule) => {
+    const changedFields: RoutineChange["changedFields"] = [];
+    if (from.day.toUpperCase() !== to.day.toUpperCase()) changedFields.push("day");
+    if (from.timeStart !== to.timeStart || from.timeEnd !== to.timeEnd) changedFields.push("time");
+    if (from.room !== to.room) changedFields.push("room");
+    if (from.teacher.toUpperCase() !== to.teacher.toUpperCase()) changedFields.push("teacher");
+
+    const type: RoutineChangeType =
+      changedFields.includes("day") || changedFields.includes("time")
+        ? "moved"
+        : changedFields.includes("room")
+          ? "room_changed"
+          : "teacher_changed";
+
+    changes.push({
+      type,
+      courseCode: to.courseCode,
+      courseName: to.courseName,
+      batchSection: to.batchSection,
+      before: from,
+      after: to,
+      changedFields,
+    });
+  };
+
+  keys.forEach((key) => {
+    const remainingBefore = [...(beforeGroups.get(key) || [])].sort(byDayAndTime);
+    const remainingAfter = [...(afterGroups.get(key) || [])].sort(byDayAndTime);
+
+    // Pair sessions using progressively looser rules
+    const pairWhere = (matches: (a: ClassSchedule, b: ClassSchedule) => boolean, record: boolean) => {
+      let i = 0;
+      while (i < remainingBefore.length) {
+        const j = remainingAfter.findIndex((b) => matches(remainingBefore[i], b));
+        if (j === -1) {
+          i++;
+          continue;
+        }
+        if (record) addPair(remainingBefore[i], remainingAfter[j]);
+        remainingBefore.splice(i, 1);
+        remainingAfter.splice(j, 1);
+      }
+    };
+
+    pairWhere(isUnchanged, false);
+    pairWhere(sameSlot, true);
+    pairWhere(() => true, true);
+
+    for (const c of remainingBefore) {
+      changes.push({
+        type: "removed",
+        courseCode: c.courseCode,
+        courseName: c.courseName,
+        batchSection: c.batchSection,
+        before: c,
+        after: null,
+        changedFields: [],
+      });
+    }
+    for (const c of remainingAfter) {
+      changes.push({
+        type: "added",
+        courseCode: c.courseCode,
+        courseName: c.courseName,
+        batchSection: c.batchSection,
+        before: null,
+        after: c,
+        changedFields: [],
+      });
+    }
+  });
+
+  // A change is relevant if either side belongs to the filtered section/teacher
+  const filtered = changes
+    .filter((c) => (c.before && matchesFilter(c.before)) || (c.after && matchesFilter(c.after)))
+    .sort((a, b) => byDayAndTime((a.after || a.before)!, (b.after || b.before)!));
+
+  const summary: Record<RoutineChangeType, number> = {
+    added: 0,
+    removed: 0,
+    moved: 0,
+    room_changed: 0,
+    teacher_changed: 0,
+  };
+  filtered.forEach((c) => summary[c.type]++);
+
+  return { changes: filtered, summary };
+}
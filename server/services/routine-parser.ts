@@ -0,0 +1,248 @@
+import axios from "axios";
+import type { ClassSchedule as LegacyClassSchedule } from "../../types";
+import { compareClassLists, formatComparisonReport, type ParseComparison } from "./parse-comparison";
+import { PDFParser } from "./pdf-parser";
+import { layoutPdfParser } from "./pdf-parser-layout";
+import { pdfParserOptimized } from "./pdf-parser-optimized";
+import { pdfParserV2 } from "./pdf-parser-v2";
+import { pdfParserV3 } from "./pdf-parser-v3";
+import { tableRoutineParser } from "./routine-table-parser";
+import {
+  buildParsedSchedule,
+  detectSessionType,
+  normalizeClasses,
+  type ParsedSchedule,
+} from "./routine-query";
+
+export type RoutineFormat = "pdf" | "xlsx" | "html";
+
+/**
+ * Turns a published routine file into classes. Departments whose routines are laid out
+ * differently get their own parser via the registry below.
+ */
+export interface RoutineParser {
+  id: string; // e.g., "v3"
+  description: string;
+  formats: RoutineFormat[];
+  parse(file: Buffer, department: string): Promise<ParsedSchedule>;
+}
+
+export interface ParserRunResult extends ParsedSchedule {
+  parserId: string;
+}
+
+export interface ParserComparisonResult {
+  reference: string; // Parser id whose output is treated as expected
+  candidate: string;
+  referenceTotal: number;
+  candidateTotal: number;
+  comparison: ParseComparison;
+  report: string;
+}
+
+// Any department without its own entry
+const ALL_DEPARTMENTS = "*";
+
+const parsers = new Map<string, RoutineParser>();
+
+// "department:format" -> parser id
+const assignments = new Map<string, string>([
+  [`${ALL_DEPARTMENTS}:pdf`, "v3"],
+  [`${ALL_DEPARTMENTS}:xlsx`, "xlsx"],
+  [`${ALL_DEPARTMENTS}:html`, "html"],
+]);
+
+export function registerRoutineParser(parser: RoutineParser) {
+  parsers.set(parser.id, parser);
+}
+
+export function listRoutineParsers(): RoutineParser[] {
+  return Array.from(parsers.values());
+}
+
+export function getRoutineParser(id: string): RoutineParser {
+  const parser = parsers.get(id);
+  if (!parser) throw new Error(`Unknown routine parser: ${id}`);
+  return parser;
+}
+
+/**
+ * Use a dedicated parser for one department's routines (or "*" for the default)
+ */
+export function assignRoutineParser(department: string, format: RoutineFormat, parserId: string) {
+  const parser = getRoutineParser(parserId);
+  if (!parser.formats.includes(format)) {
+    throw new Error(`Parser ${parserId} can't read ${format} routines`);
+  }
+  assignments.set(`${department.toLowerCase()}:${format}`, parserId);
+}
+
+/**
+ * Parser for a department's routines in the given format
+ */
+export function resolveRoutineParser(department: string, format: RoutineFormat = "pdf"): RoutineParser {
+  const parserId =
+    assignments.get(`${department.toLowerCase()}:${format}`) || assignments.get(`${ALL_DEPARTMENTS}:${format}`);
+  if (!parserId) throw new Error(`No parser for ${format} routines`);
+  return getRoutineParser(parserId);
+}
+
+/**
+ * Tell a routine file's format from its first bytes (xlsx files are zip archives)
+ */
+export function detectRoutineFormat(file: Buffer): RoutineFormat {
+  const head = file.subarray(0, 512).toString("latin1");
+  if (head.startsWith("%PDF")) return "pdf";
+  if (head.startsWith("PK")) return "xlsx";
+  if (/<(!doctype html|html|table)/i.test(head) || /<table/i.test(file.toString("utf8"))) return "html";
+  return "pdf";
+}
+
+/**
+ * Parse a routine file with a given parser, or the department's assigned one for its format
+ */
+export async function parseRoutine(
+  file: Buffer,
+  department: string,
+  options: { format?: RoutineFormat; parserId?: string } = {}
+): Promise<ParserRunResult> {
+  const parser = options.parserId
+    ? getRoutineParser(options.parserId)
+    : resolveRoutineParser(department, options.format || detectRoutineFormat(file));
+
+  const parsed = await parser.parse(file, department);
+  return { ...buildParsedSchedule(normalizeClasses(parsed.classes)), parserId: parser.id };
+}
+
+export async function downloadRoutineFile(url: string): Promise<Buffer> {
+  const response = await axios.get(url, {
+    responseType: "arraybuffer",
+    timeout: 30000,
+  });
+  return Buffer.from(response.data);
+}
+
+export async function parseRoutineFromURL(
+  url: string,
+  department: string,
+  options: { format?: RoutineFormat; parserId?: string } = {}
+): Promise<ParserRunResult> {
+  try {
+    return await parseRoutine(await downloadRoutineFile(url), department, options);
+  } catch (error) {
+    console.error("[routine-parser] Parsing error:", error);
+    throw new Error(`Failed to parse routine: ${error}`);
+  }
+}
+
+/**
+ * Run two parsers on the same file and report where they disagree
+ */
+export async function compareRoutineParsers(
+  file: Buffer,
+  department: string,
+  referenceId: string,
+  candidateId: string
+): Promise<ParserComparisonResult> {
+  const [reference, candidate] = await Promise.all([
+    parseRoutine(file, department, { parserId: referenceId }),
+    parseRoutine(file, department, { parserId: candidateId }),
+  ]);
+
+  const comparison = compareClassLists(reference.classes, candidate.classes);
+
+  return {
+    reference: referenceId,
+    candidate: candidateId,
+    referenceTotal: reference.classes.length,
+    candidateTotal: candidate.classes.length,
+    comparison,
+    report: formatComparisonReport(`${department}: ${referenceId} vs ${candidateId}`, comparison),
+  };
+}
+
+/**
+ * Apply ROUTINE_PARSERS overrides, e.g. "eee=layout,architecture=layout"
+ */
+export function applyRoutineParserOverrides(setting: string | undefined = process.env.ROUTINE_PARSERS) {
+  for (const entry of (setting || "").split(",").map((part) => part.trim())) {
+    const [department, parserId] = entry.split("=").map((part) => part.trim());
+    if (!department || !parserId) continue;
+    try {
+      for (const format of getRoutineParser(parserId).formats) {
+        assignRoutineParser(department, format, parserId);
+      }
+    } catch (error) {
+      console.warn(`[routine-parser] Ignoring ROUTINE_PARSERS entry "${entry}":`, error);
+    }
+  }
+}
+
+// Built-in parsers
+registerRoutineParser({
+  id: "v3",
+  description: "pdftotext -layout columns (default)",
+  formats: ["pdf"],
+  parse: (file, department) => pdfParserV3.parsePDFBuffer(file, department),
+});
+
+registerRoutineParser({
+  id: "layout",
+  description: "Positioned text with per-class confidence",
+  formats: ["pdf"],
+  parse: (file, department) => layoutPdfParser.parsePDFBuffer(file, department),
+});
+
+registerRoutineParser({
+  id: "xlsx",
+  description: "Spreadsheet routines (.xlsx, Google Sheets exports)",
+  formats: ["xlsx"],
+  parse: (file, department) => tableRoutineParser.parseSpreadsheetBuffer(file, department),
+});
+
+registerRoutineParser({
+  id: "html",
+  description: "HTML table routines",
+  formats: ["html"],
+  parse: async (file, department) => tableRoutineParser.parseHtml(file.toString("utf8"), department),
+});
+
+registerRoutineParser({
+  id: "optimized",
+  description: "pdftotext -layout, Course header columns (legacy)",
+  formats: ["pdf"],
+  parse: (file, department) => pdfParserOptimized.parsePDFBuffer(file, department),
+});
+
+registerRoutineParser({
+  id: "v2",
+  description: "pdf-parse merged text lines (legacy)",
+  formats: ["pdf"],
+  parse: (file, department) => pdfParserV2.parsePDFBuffer(file, department),
+});
+
+registerRoutineParser({
+  id: "v1",
+  description: "pdf-parse line scan (legacy)",
+  formats: ["pdf"],
+  parse: async (file) => {
+    const schedules: LegacyClassSchedule[] = await PDFParser.parsePDFBuffer(file);
+    return buildParsedSchedule(
+      schedules.map((s) => ({
+        day: s.day,
+        timeStart: s.timeStart,
+        timeEnd: s.timeEnd,
+        courseCode: s.courseCode,
+        courseName: s.courseName,
+        batch: s.batch,
+        section: s.section,
+        room: s.room,
+        teacher: s.teacherInitials,
+        batchSection: `${s.batch}_${s.section}`,
+        sessionType: s.roomType ? "lab" : detectSessionType(s.courseName, s.room),
+      }))
+    );
+  },
+});
+
+applyRoutineParserOverrides();
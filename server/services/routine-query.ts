@@ -0,0 +1,196 @@
+import { timeToMinutes } from "../../shared/routine-time";
+
+/**
+ * Routine data shared by every parser, and the queries the API runs on it
+ */
+
+export type SessionType = "theory" | "lab" | "tutorial";
+
+/**
+ * One class session; labs run over consecutive slots and are kept as a single session
+ */
+export interface ClassSchedule {
+  day: string; // Uppercase, e.g., "SATURDAY"
+  timeStart: string;
+  timeEnd: string;
+  courseCode: string;
+  courseName: string;
+  batch: string;
+  section: string;
+  room: string;
+  teacher: string;
+  batchSection: string; // e.g., "71_J"
+  sessionType: SessionType;
+}
+
+export interface ScheduleStats {
+  totalClasses: number; // Sessions, so a two-slot lab counts once
+  totalMinutes: number;
+  labSessions: number;
+  busiestDay: string; // Most scheduled minutes
+  lightestDay: string;
+  busiestDayCount: number; // Sessions on that day
+  lightestDayCount: number;
+}
+
+export interface ParsedSchedule {
+  classes: ClassSchedule[];
+  stats: ScheduleStats;
+  faculty: string[]; // Unique teacher initials
+}
+
+export const DAYS = ["SATURDAY", "SUNDAY", "MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"];
+
+// How parsers used to tag classes in a routine's COM LAB block ("KT-501 (LAB)")
+const LAB_ROOM_SUFFIX = /\s*\(LAB\)\s*$/i;
+
+/**
+ * Session type from the course (catalog names end in "Lab") and the room (lab rooms, COM LAB block)
+ */
+export function detectSessionType(courseName: string, room: string, inLabSection = false): SessionType {
+  if (inLabSection || LAB_ROOM_SUFFIX.test(room) || /\bLAB\b/i.test(room) || /\bLab\b/.test(courseName)) {
+    return "lab";
+  }
+  if (/\bTutorial\b/i.test(courseName)) return "tutorial";
+  return "theory";
+}
+
+/**
+ * Length of a session in minutes
+ */
+export function getSessionMinutes(c: ClassSchedule): number {
+  return timeToMinutes(c.timeEnd) - timeToMinutes(c.timeStart);
+}
+
+/**
+ * Join back-to-back entries of the same session (a lab printed once per slot) into one
+ */
+export function mergeSessions<T extends ClassSchedule>(classes: T[]): T[] {
+  const sessionKey = (c: ClassSchedule) =>
+    [c.day, c.courseCode, c.batchSection, c.room, c.teacher, c.sessionType].join("|");
+
+  const sessions = classes.map((c) => ({ ...c }));
+  const sorted = [...sessions].sort((a, b) => timeToMinutes(a.timeStart) - timeToMinutes(b.timeStart));
+  const open = new Map<string, T>(); // Latest session per key, extended in place
+  const merged = new Set<T>();
+
+  for (const c of sorted) {
+    const key = sessionKey(c);
+    const previous = open.get(key);
+    if (previous && previous.timeEnd === c.timeStart) {
+      previous.timeEnd = c.timeEnd;
+      merged.add(c);
+      continue;
+    }
+    open.set(key, c);
+  }
+
+  return sessions.filter((c) => !merged.has(c));
+}
+
+/**
+ * Calculate statistics for a set of classes
+ */
+export function calculateStats(classes: ClassSchedule[]): ScheduleStats {
+  // Sessions and scheduled minutes per day
+  const dayCounts: Record<string, number> = {};
+  const dayMinutes: Record<string, number> = {};
+  DAYS.forEach((day) => {
+    const dayClasses = classes.filter((c) => c.day === day);
+    dayCounts[day] = dayClasses.length;
+    dayMinutes[day] = dayClasses.reduce((total, c) => total + getSessionMinutes(c), 0);
+  });
+
+  // Find busiest and lightest days
+  let busiestDay = DAYS[0];
+  let busiestMinutes = 0;
+  let lightestDay = DAYS[0];
+  let lightestMinutes = Infinity;
+
+  DAYS.forEach((day) => {
+    const minutes = dayMinutes[day];
+    if (minutes > busiestMinutes) {
+      busiestMinutes = minutes;
+      busiestDay = day;
+    }
+    if (minutes < lightestMinutes && minutes > 0) {
+      lightestMinutes = minutes;
+      lightestDay = day;
+    }
+  });
+
+  return {
+    totalClasses: classes.length,
+    totalMinutes: DAYS.reduce((total, day) => total + dayMinutes[day], 0),
+    labSessions: classes.filter((c) => c.sessionType === "lab").length,
+    busiestDay: busiestDay.charAt(0) + busiestDay.slice(1).toLowerCase(),
+    lightestDay: lightestDay.charAt(0) + lightestDay.slice(1).toLowerCase(),
+    busiestDayCount: busiestMinutes > 0 ? dayCounts[busiestDay] : 0,
+    lightestDayCount: lightestMinutes === Infinity ? 0 : dayCounts[lightestDay],
+  };
+}
+
+/**
+ * Classes, stats and faculty initials in the shape every parser returns
+ */
+export function buildParsedSchedule(classes: ClassSchedule[]): ParsedSchedule {
+  return {
+    classes,
+    stats: calculateStats(classes),
+    faculty: Array.from(new Set(classes.map((c) => c.teacher))),
+  };
+}
+
+/**
+ * Bring a parser's classes to the shared shape (uppercase days, trimmed codes, plain rooms)
+ * and join multi-slot sessions. Also upgrades routines stored with "(LAB)" room tags.
+ */
+export function normalizeClasses(classes: ClassSchedule[]): ClassSchedule[] {
+  return mergeSessions(
+    classes.map((c) => ({
+      ...c,
+      day: c.day.trim().toUpperCase(),
+      courseCode: c.courseCode.trim().toUpperCase(),
+      room: c.room.replace(LAB_ROOM_SUFFIX, "").trim(),
+      teacher: c.teacher.trim(),
+      batchSection: c.batchSection || `${c.batch}_${c.section}`,
+      sessionType: LAB_ROOM_SUFFIX.test(c.room) ? "lab" : c.sessionType || detectSessionType(c.courseName, c.room),
+    }))
+  );
+}
+
+/**
+ * Filter classes by batch and section
+ */
+export function filterByBatchSection(classes: ClassSchedule[], batchSection: string): ClassSchedule[] {
+  return classes.filter((c) => c.batchSection === batchSection);
+}
+
+/**
+ * Filter classes by teacher
+ */
+export function filterByTeacher(classes: ClassSchedule[], teacher: string): ClassSchedule[] {
+  return classes.filter((c) => c.teacher.toUpperCase() === teacher.toUpperCase());
+}
+
+/**
+ * Filter classes by room
+ */
+export function filterByRoom(classes: ClassSchedule[], room: string): ClassSchedule[] {
+  return classes.filter((c) => c.room.includes(room.toUpperCase()));
+}
+
+/**
+ * Group classes by day
+ */
+export function groupByDay(classes: ClassSchedule[]): Record<string, ClassSchedule[]> {
+  const grouped: Record<string, ClassSchedule[]> = {};
+
+  DAYS.forEach((day) => {
+    // Convert SATURDAY -> Saturday for frontend compatibility
+    const formattedDay = day.charAt(0) + day.slice(1).toLowerCase();
+    grouped[formattedDay] = classes.filter((c) => c.day === day);
+  });
+
+  return grouped;
+}
@@ -0,0 +1,77 @@
+import { TRPCError } from "@trpc/server";
+import { DEPARTMENTS } from "../../types";
+import { getLatestRoutinePdfUrl } from "./noticeboard-scraper";
+
+/**
+ * Lowercase department codes accepted by the API (e.g., "cse", "architecture")
+ */
+export const DEPARTMENT_CODES: string[] = DEPARTMENTS.map((d) => d.code.toLowerCase());
+
+// Known routine PDFs, used when the noticeboard cannot be reached (only CSE also has a seeded course catalog)
+export const DEFAULT_PDF_URLS: Record<string, string> = {
+  cse: "https://daffodilvarsity.edu.bd/noticeFile/cse-class-routine-spring-2026-v1-8d732090c2.pdf",
+  eee: "https://daffodilvarsity.edu.bd/noticeFile/eee-class-routine-spring-2026-v1.pdf",
+  swe: "https://daffodilvarsity.edu.bd/noticeFile/swe-class-routine-spring-2026-v1.pdf",
+};
+
+// In-memory cache of noticeboard lookups so every request doesn't hit the noticeboard
+const resolvedUrls = new Map<string, { pdfUrl: string | null; timestamp: number }>();
+const RESOLVE_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Whether a department code is one of DEPARTMENTS
+ */
+export function isKnownDepartment(department: string): boolean {
+  return DEPARTMENT_CODES.includes(department.toLowerCase());
+}
+
+/**
+ * Find the latest routine PDF on the noticeboard for a department (cached for an hour)
+ */
+export async function discoverRoutinePdfUrl(department: string): Promise<string | null> {
+  const key = department.toLowerCase();
+  const cached = resolvedUrls.get(key);
+  if (cached && Date.now() - cached.timestamp < RESOLVE_CACHE_TTL) {
+    return cached.pdfUrl;
+  }
+
+  const pdfUrl = await getLatestRoutinePdfUrl(key);
+  resolvedUrls.set(key, { pdfUrl, timestamp: Date.now() });
+  return pdfUrl;
+}
+
+/**
+ * Drop the cached noticeboard lookup so the next request checks again
+ */
+export function forgetRoutinePdfUrl(department: string): void {
+  resolvedUrls.delete(department.toLowerCase());
+}
+
+/**
+ * Whether a routine URL is the department's noticeboard PDF or its known default, rather than any URL a caller sent
+ */
+export async function isOfficialRoutineUrl(department: string, pdfUrl: string): Promise<boolean> {
+  const key = department.toLowerCase();
+  if (DEFAULT_PDF_URLS[key] === pdfUrl) return true;
+  return (await discoverRoutinePdfUrl(key)) === pdfUrl;
+}
+
+/**
+ * Resolve which routine PDF to use for a department.
+ * An explicit URL wins, then the latest noticeboard PDF, then the known default.
+ */
+export async function resolveRoutinePdfUrl(department: string, pdfUrl?: string): Promise<string> {
+  if (pdfUrl) return pdfUrl;
+
+  const latest = await discoverRoutinePdfUrl(department);
+  const url = latest || DEFAULT_PDF_URLS[department.toLowerCase()];
+
+  if (!url) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `No routine PDF found for ${department.toUpperCase()}`,
+    });
+  }
+
+  return url;
+}
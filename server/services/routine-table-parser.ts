@@ -0,0 +1,252 @@
+import * as cheerio from "cheerio";
+import ExcelJS from "exceljs";
+import { CourseService } from "./course-service";
+import {
+  DAYS,
+  buildParsedSchedule,
+  detectSessionType,
+  mergeSessions,
+  type ClassSchedule,
+  type ParsedSchedule,
+} from "./routine-query";
+
+/**
+ * A sheet or table as rows of cell text; merged cells repeat their text in every cell they cover
+ */
+export type RoutineGrid = string[][];
+
+interface SlotColumn {
+  start: string; // Slot start time, e.g., "08:30"
+  end: string;
+  courseColumn: number;
+  roomColumn?: number; // Unset when room, course and teacher share one cell
+  teacherColumn?: number;
+}
+
+interface TimeLabel {
+  start: string;
+  end: string;
+  column: number;
+}
+
+const TIME_RANGE_PATTERN = /^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/;
+const COURSE_PATTERN = /([A-Z]{3})\s?(\d{3})\s*\((\d{2,3})_([A-Z]\d?)\)/;
+const ROOM_PATTERN = /([A-Z]{1,3}\d?-\d{2,4}(?:\([A-Z]\))?)/;
+const TEACHER_PATTERN = /\b([A-Z]{2,4}(?:_\d+)?)\b/;
+
+/**
+ * Parses routines published as spreadsheets (.xlsx, including Google Sheets exports) or HTML tables.
+ * The sheets follow the PDF layout: a day row, a time slot row, a Room/Course/Teacher header
+ * repeated per slot, class rows and an optional COM LAB block.
+ */
+export class TableRoutineParser {
+  async parseSpreadsheetBuffer(file: Buffer, department: string = "cse"): Promise<ParsedSchedule> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(file as unknown as ArrayBuffer);
+
+    const grids = workbook.worksheets.map((sheet) => {
+      const grid: RoutineGrid = [];
+      sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+        const cells: string[] = [];
+        row.eachCell({ includeEmpty: true }, (cell, columnNumber) => {
+          cells[columnNumber - 1] = cell.text.trim();
+        });
+        grid[rowNumber - 1] = Array.from(cells, (cell) => cell ?? "");
+      });
+      return Array.from(grid, (row) => row ?? []);
+    });
+
+    return this.parseGrids(grids, department);
+  }
+
+  parseHtml(html: string, department: string = "cse"): ParsedSchedule {
+    return this.parseGrids(htmlTablesToGrids(html), department);
+  }
+
+  parseGrids(grids: RoutineGrid[], department: string = "cse"): ParsedSchedule {
+    const classes = grids.flatMap((grid) => this.extractClasses(grid, department));
+
+    console.log(`[table-parser] Extracted ${classes.length} classes from ${grids.length} table(s)`);
+
+    return buildParsedSchedule(mergeSessions(classes));
+  }
+
+  extractClasses(grid: RoutineGrid, department: string): ClassSchedule[] {
+    const classes: ClassSchedule[] = [];
+    const seen = new Set<string>();
+
+    let currentDay = "";
+    let times: TimeLabel[] = [];
+    let slots: SlotColumn[] = [];
+    let inComLabSection = false;
+
+    for (const row of grid) {
+      const cells = row.map((cell) => cell.replace(/\s+/g, " ").trim());
+      const hasCourse = cells.some((cell) => COURSE_PATTERN.test(cell));
+
+      // Day cells may span the whole day block, so only a new day resets the columns
+      const day = cells.map((cell) => cell.toUpperCase()).find((cell) => DAYS.includes(cell));
+      if (day && day !== currentDay && !hasCourse) {
+        currentDay = day;
+        times = [];
+        slots = [];
+        inComLabSection = false;
+      }
+
+      if (!hasCourse) {
+        const rowTimes = findTimeLabels(cells);
+        if (rowTimes.length > 0) {
+          times = rowTimes;
+          // Until a header row says otherwise, each slot is one cell holding room, course and teacher
+          slots = rowTimes.map((t) => ({ start: t.start, end: t.end, courseColumn: t.column }));
+          continue;
+        }
+
+        const headerSlots = findHeaderSlots(cells, times);
+        if (headerSlots.length > 0) {
+          slots = headerSlots;
+          continue;
+        }
+
+        if (cells.some((cell) => cell.toUpperCase().includes("COM LAB"))) {
+          inComLabSection = true;
+        }
+        continue;
+      }
+
+      if (!currentDay || slots.length === 0) continue;
+
+      for (const slot of slots) {
+        const cell = cells[slot.courseColumn] || "";
+        const match = COURSE_PATTERN.exec(cell);
+        if (!match) continue;
+
+        const courseCode = `${match[1]}${match[2]}`;
+        const batch = match[3];
+        const section = match[4];
+
+        const roomText = slot.roomColumn !== undefined ? cells[slot.roomColumn] || "" : cell.slice(0, match.index);
+        const teacherText =
+          slot.teacherColumn !== undefined
+            ? cells[slot.teacherColumn] || ""
+            : cell.slice(match.index + match[0].length);
+
+        const room = ROOM_PATTERN.exec(roomText)?.[1] || "TBA";
+        const teacher = TEACHER_PATTERN.exec(teacherText)?.[1] || "TBA";
+        const courseName = CourseService.getCourseName(department, courseCode);
+        const batchSection = `${batch}_${section}`;
+
+        const uniqueKey = `${currentDay}|${slot.start}|${courseCode}|${batchSection}`;
+        if (seen.has(uniqueKey)) continue;
+        seen.add(uniqueKey);
+
+        classes.push({
+          day: currentDay,
+          timeStart: slot.start,
+          timeEnd: slot.end,
+          courseCode,
+          courseName,
+          batch,
+          section,
+          room,
+          teacher,
+          batchSection,
+          sessionType: detectSessionType(courseName, room, inComLabSection),
+        });
+      }
+    }
+
+    return classes;
+  }
+}
+
+/**
+ * Time slot labels in a row; a label merged over several cells counts once, at its first column
+ */
+function findTimeLabels(cells: string[]): TimeLabel[] {
+  const labels: TimeLabel[] = [];
+  cells.forEach((cell, column) => {
+    const match = TIME_RANGE_PATTERN.exec(cell);
+    if (!match) return;
+    if (column > 0 && cells[column - 1] === cell) return;
+    labels.push({ start: match[1].padStart(5, "0"), end: match[2].padStart(5, "0"), column });
+  });
+  return labels;
+}
+
+/**
+ * Slot columns from a Room/Course/Teacher header row
+ */
+function findHeaderSlots(cells: string[], times: TimeLabel[]): SlotColumn[] {
+  const headerColumns = (name: string) =>
+    cells.flatMap((cell, column) => (cell.toUpperCase() === name ? [column] : []));
+
+  const courseColumns = headerColumns("COURSE");
+  if (courseColumns.length === 0 || times.length === 0) return [];
+
+  const roomColumns = headerColumns("ROOM");
+  const teacherColumns = headerColumns("TEACHER");
+
+  return courseColumns.map((courseColumn, i) => {
+    const previous = i > 0 ? courseColumns[i - 1] : -1;
+    const next = i < courseColumns.length - 1 ? courseColumns[i + 1] : Infinity;
+
+    // The label over this slot's cells; fall back to position when the counts line up
+    const time =
+      times.length === courseColumns.length
+        ? times[i]
+        : [...times].reverse().find((t) => t.column <= courseColumn) || times[0];
+
+    return {
+      start: time.start,
+      end: time.end,
+      courseColumn,
+      roomColumn: [...roomColumns].reverse().find((c) => c > previous && c < courseColumn),
+      teacherColumn: teacherColumns.find((c) => c > courseColumn && c < next),
+    };
+  });
+}
+
+/**
+ * Every <table> in a page as a grid, with colspan/rowspan cells repeated like merged sheet cells
+ */
+export function htmlTablesToGrids(html: string): RoutineGrid[] {
+  const $ = cheerio.load(html);
+
+  return $("table")
+    .toArray()
+    .map((table) => {
+      const grid: RoutineGrid = [];
+      const rows = $(table)
+        .find("tr")
+        .toArray()
+        .filter((tr) => $(tr).closest("table").get(0) === table);
+
+      rows.forEach((tr, r) => {
+        grid[r] = grid[r] || [];
+        let column = 0;
+        $(tr)
+          .children("td, th")
+          .each((_, cell) => {
+            while (grid[r][column] !== undefined) column++;
+
+            const text = $(cell).text().replace(/\s+/g, " ").trim();
+            const colspan = Math.max(1, Number($(cell).attr("colspan")) || 1);
+            const rowspan = Math.max(1, Number($(cell).attr("rowspan")) || 1);
+
+            for (let dr = 0; dr < rowspan && r + dr < rows.length; dr++) {
+              grid[r + dr] = grid[r + dr] || [];
+              for (let dc = 0; dc < colspan; dc++) {
+                grid[r + dr][column + dc] = text;
+              }
+            }
+            column += colspan;
+          });
+      });
+
+      return Array.from(grid, (row) => Array.from(row || [], (cell) => cell ?? ""));
+    });
+}
+
+// Export singleton instance
+export const tableRoutineParser = new TableRoutineParser();
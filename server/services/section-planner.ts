@@ -0,0 +1,168 @@
+import type { ClassSchedule } from "./routine-query";
+import { getOverlapMinutes, type CourseSelection } from "./custom-routine";
+import { minutesToTime, timeToMinutes } from "../../shared/routine-time";
+
+// Stop exploring after this many partial combinations (keeps the request fast)
+const MAX_SEARCH_STEPS = 200_000;
+
+// Score weights: lower scores are better
+const PENALTY = {
+  campusDay: 10,
+  dayOff: 50, // per requested day off that still has classes
+  earlyClass: 30, // per class starting before the earliest start
+  longGap: 20, // per gap longer than the maximum
+  idleHour: 2, // per hour waiting between classes
+};
+
+export interface PlanPreferences {
+  daysOff?: string[]; // e.g., ["THURSDAY"]
+  earliestStart?: string; // e.g., "10:00"
+  maxGapMinutes?: number; // e.g., 90
+}
+
+export interface SectionPlan {
+  score: number;
+  selections: CourseSelection[];
+  classes: ClassSchedule[];
+  campusDays: string[]; // Uppercase, Saturday first
+  earliestStart: string;
+  latestEnd: string;
+  longestGapMinutes: number;
+  idleMinutes: number;
+  violations: string[]; // Preferences this plan doesn't meet
+}
+
+export interface PlanResult {
+  plans: SectionPlan[];
+  unknownCourses: string[]; // Course codes not offered in the routine
+  combinationsChecked: number;
+  exhaustive: boolean; // False if the search stopped at MAX_SEARCH_STEPS
+}
+
+const DAY_ORDER = ["SATURDAY", "SUNDAY", "MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"];
+
+/**
+ * Score one conflict-free combination against the student's preferences
+ */
+function scorePlan(selections: CourseSelection[], classes: ClassSchedule[], preferences: PlanPreferences): SectionPlan {
+  const byDay = new Map<string, ClassSchedule[]>();
+  for (const c of classes) {
+    const day = c.day.toUpperCase();
+    byDay.set(day, [...(byDay.get(day) || []), c]);
+  }
+  const campusDays = DAY_ORDER.filter((day) => byDay.has(day));
+
+  let longestGap = 0;
+  let idleMinutes = 0;
+  let longGaps = 0;
+  for (const dayClasses of Array.from(byDay.values())) {
+    const sorted = [...dayClasses].sort((a, b) => timeToMinutes(a.timeStart) - timeToMinutes(b.timeStart));
+    for (let i = 1; i < sorted.length; i++) {
+      const gap = timeToMinutes(sorted[i].timeStart) - timeToMinutes(sorted[i - 1].timeEnd);
+      if (gap <= 0) continue;
+      idleMinutes += gap;
+      longestGap = Math.max(longestGap, gap);
+      if (preferences.maxGapMinutes !== undefined && gap > preferences.maxGapMinutes) longGaps++;
+    }
+  }
+
+  const starts = classes.map((c) => timeToMinutes(c.timeStart));
+  const ends = classes.map((c) => timeToMinutes(c.timeEnd));
+
+  const daysOffUsed = (preferences.daysOff || []).map((d) => d.toUpperCase()).filter((d) => byDay.has(d));
+  const earlyClasses = preferences.earliestStart
+    ? classes.filter((c) => timeToMinutes(c.timeStart) < timeToMinutes(preferences.earliestStart!)).length
+    : 0;
+
+  const violations: string[] = [];
+  if (daysOffUsed.length > 0) violations.push(`Classes on ${daysOffUsed.join(", ")}`);
+  if (earlyClasses > 0) violations.push(`${earlyClasses} class(es) before ${preferences.earliestStart}`);
+  if (longGaps > 0) violations.push(`${longGaps} gap(s) longer than ${preferences.maxGapMinutes} min`);
+
+  const score =
+    campusDays.length * PENALTY.campusDay +
+    daysOffUsed.length * PENALTY.dayOff +
+    earlyClasses * PENALTY.earlyClass +
+    longGaps * PENALTY.longGap +
+    Math.round((idleMinutes / 60) * PENALTY.idleHour);
+
+  return {
+    score,
+    selections,
+    classes,
+    campusDays,
+    earliestStart: minutesToTime(Math.min(...starts)),
+    latestEnd: minutesToTime(Math.max(...ends)),
+    longestGapMinutes: longestGap,
+    idleMinutes,
+    violations,
+  };
+}
+
+/**
+ * Search every section of the chosen courses for conflict-free combinations,
+ * best (lowest score) first
+ */
+export function planSections(
+  allClasses: ClassSchedule[],
+  courseCodes: string[],
+  preferences: PlanPreferences = {},
+  limit: number = 5
+): PlanResult {
+  const wanted = Array.from(new Set(courseCodes.map((c) => c.toUpperCase())));
+
+  // courseCode -> batchSection -> classes
+  const offerings = new Map<string, Map<string, ClassSchedule[]>>();
+  for (const c of allClasses) {
+    const code = c.courseCode.toUpperCase();
+    if (!wanted.includes(code)) continue;
+    const sections = offerings.get(code) || new Map<string, ClassSchedule[]>();
+    sections.set(c.batchSection, [...(sections.get(c.batchSection) || []), c]);
+    offerings.set(code, sections);
+  }
+
+  const unknownCourses = wanted.filter((code) => !offerings.has(code));
+
+  // Courses with the fewest sections first: clashes prune the search earlier
+  const courses = Array.from(offerings.entries())
+    .map(([courseCode, sections]) => ({ courseCode, sections: Array.from(sections.entries()) }))
+    .sort((a, b) => a.sections.length - b.sections.length);
+
+  const plans: SectionPlan[] = [];
+  let steps = 0;
+  let combinationsChecked = 0;
+
+  const search = (index: number, selections: CourseSelection[], classes: ClassSchedule[]) => {
+    if (steps >= MAX_SEARCH_STEPS) return;
+
+    if (index === courses.length) {
+      combinationsChecked++;
+      plans.push(scorePlan(selections, classes, preferences));
+      plans.sort((a, b) => a.score - b.score);
+      if (plans.length > limit) plans.pop();
+      return;
+    }
+
+    const course = courses[index];
+    for (const [batchSection, sectionClasses] of course.sections) {
+      steps++;
+      const clashes = sectionClasses.some((c) => classes.some((taken) => getOverlapMinutes(c, taken) > 0));
+      if (clashes) continue;
+
+      search(
+        index + 1,
+        [...selections, { courseCode: sectionClasses[0].courseCode, batchSection }],
+        [...classes, ...sectionClasses]
+      );
+    }
+  };
+
+  if (courses.length > 0) search(0, [], []);
+
+  return {
+    plans,
+    unknownCourses,
+    combinationsChecked,
+    exhaustive: steps < MAX_SEARCH_STEPS,
+  };
+}
@@ -0,0 +1,42 @@
+export type SemesterTerm = "Spring" | "Summer" | "Fall";
+
+export interface Semester {
+  name: string; // e.g., "Spring 2026"
+  start: Date; // First day (UTC midnight of the calendar date)
+  end: Date; // Last day (UTC midnight of the calendar date)
+}
+
+// DIU runs three terms a year: Spring (Jan-Apr), Summer (May-Aug), Fall (Sep-Dec)
+const TERM_MONTHS: Record<SemesterTerm, { startMonth: number; endMonth: number }> = {
+  Spring: { startMonth: 0, endMonth: 3 },
+  Summer: { startMonth: 4, endMonth: 7 },
+  Fall: { startMonth: 8, endMonth: 11 },
+};
+
+function buildSemester(term: SemesterTerm, year: number): Semester {
+  const { startMonth, endMonth } = TERM_MONTHS[term];
+  return {
+    name: `${term} ${year}`,
+    start: new Date(Date.UTC(year, startMonth, 1)),
+    end: new Date(Date.UTC(year, endMonth + 1, 0)), // Day 0 = last day of the previous month
+  };
+}
+
+/**
+ * Work out the semester a routine belongs to from its title or PDF URL
+ * (e.g., ".../cse-class-routine-spring-2026-v1.pdf" -> Spring 2026, Jan 1 - Apr 30).
+ * Falls back to the term containing `now`.
+ */
+export function getRoutineSemester(routineLabel: string, now: Date = new Date()): Semester {
+  const match = routineLabel.match(/(spring|summer|fall)[\s_-]*(\d{4})/i);
+  if (match) {
+    const term = (match[1].charAt(0).toUpperCase() + match[1].slice(1).toLowerCase()) as SemesterTerm;
+    return buildSemester(term, Number(match[2]));
+  }
+
+  const month = now.getUTCMonth();
+  const term = (Object.keys(TERM_MONTHS) as SemesterTerm[]).find(
+    (t) => month >= TERM_MONTHS[t].startMonth && month <= TERM_MONTHS[t].endMonth
+  )!;
+  return buildSemester(term, now.getUTCFullYear());
+}
@@ -0,0 +1,236 @@
+import { eq } from "drizzle-orm";
+import { getDb } from "../db";
+import { officeHours } from "../../drizzle/schema";
+import type { ClassSchedule } from "./routine-query";
+import { formatDay, minutesToTime, timeToMinutes } from "../../shared/routine-time";
+import { DAYS } from "../../types";
+
+export interface OfficeHoursEntry {
+  day: string; // Uppercase, e.g., "SUNDAY"
+  timeStart: string; // Routine time, e.g., "02:30"
+  timeEnd: string;
+  room: string | null; // null: the faculty office room
+  note: string | null;
+}
+
+export interface FreeWindow {
+  start: string;
+  end: string;
+  minutes: number;
+  officeHours: boolean; // Overlaps the teacher's office hours
+}
+
+export interface TeacherDayAvailability {
+  day: string; // Title case, e.g., "Saturday"
+  onCampus: boolean; // Has classes or office hours
+  classes: number;
+  firstClass: string | null;
+  lastClassEnd: string | null;
+  freeWindows: FreeWindow[];
+  officeHours: OfficeHoursEntry[];
+}
+
+export type TeacherState = "in_class" | "office_hours" | "free" | "off_campus";
+
+export interface TeacherStatus {
+  state: TeacherState;
+  room: string | null; // Classroom when in class, office room otherwise
+  courseCode: string | null; // in_class only
+  until: string | null; // When the state ends (off campus: next class or office hours today), null for the rest of the day
+  reason?: "holiday" | "no_classes" | "before_classes" | "after_classes"; // off_campus only
+}
+
+// Gaps shorter than this are just the walk between classrooms
+const MIN_FREE_MINUTES = 30;
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+/**
+ * Sort and merge overlapping or touching intervals
+ */
+function mergeIntervals(intervals: Interval[]): Interval[] {
+  const merged: Interval[] = [];
+  for (const interval of [...intervals].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+const classIntervals = (classes: ClassSchedule[]) =>
+  mergeIntervals(classes.map((c) => ({ start: timeToMinutes(c.timeStart), end: timeToMinutes(c.timeEnd) })));
+
+const officeHourIntervals = (hours: OfficeHoursEntry[]) =>
+  hours.map((h) => ({ start: timeToMinutes(h.timeStart), end: timeToMinutes(h.timeEnd) }));
+
+/**
+ * Windows a teacher is free on a day: gaps between their classes, plus their office hours,
+ * never overlapping a class
+ */
+export function getFreeWindows(dayClasses: ClassSchedule[], dayOfficeHours: OfficeHoursEntry[] = []): FreeWindow[] {
+  const busy = classIntervals(dayClasses);
+  const office = officeHourIntervals(dayOfficeHours);
+
+  const gaps: Interval[] = [];
+  for (let i = 1; i < busy.length; i++) {
+    if (busy[i].start - busy[i - 1].end >= MIN_FREE_MINUTES) {
+      gaps.push({ start: busy[i - 1].end, end: busy[i].start });
+    }
+  }
+
+  // Cut class time out of every candidate window
+  const windows = mergeIntervals([...gaps, ...office]).flatMap((window) => {
+    const pieces: Interval[] = [];
+    let start = window.start;
+    for (const b of busy) {
+      if (b.end <= start || b.start >= window.end) continue;
+      if (b.start > start) pieces.push({ start, end: b.start });
+      start = Math.max(start, b.end);
+    }
+    if (start < window.end) pieces.push({ start, end: window.end });
+    return pieces;
+  });
+
+  return windows
+    .filter((w) => w.end - w.start >= MIN_FREE_MINUTES)
+    .map((w) => ({
+      start: minutesToTime(w.start),
+      end: minutesToTime(w.end),
+      minutes: w.end - w.start,
+      officeHours: office.some((o) => o.start < w.end && o.end > w.start),
+    }));
+}
+
+/**
+ * A teacher's week from their classes (already filtered to the teacher) and office hours, Saturday first
+ */
+export function getTeacherWeek(classes: ClassSchedule[], hours: OfficeHoursEntry[] = []): TeacherDayAvailability[] {
+  return DAYS.map((day) => {
+    const dayClasses = classes.filter((c) => c.day.toUpperCase() === day.toUpperCase());
+    const dayOfficeHours = hours
+      .filter((h) => h.day.toUpperCase() === day.toUpperCase())
+      .sort((a, b) => timeToMinutes(a.timeStart) - timeToMinutes(b.timeStart));
+    const busy = classIntervals(dayClasses);
+
+    return {
+      day,
+      onCampus: dayClasses.length > 0 || dayOfficeHours.length > 0,
+      classes: dayClasses.length,
+      firstClass: busy.length > 0 ? minutesToTime(busy[0].start) : null,
+      lastClassEnd: busy.length > 0 ? minutesToTime(busy[busy.length - 1].end) : null,
+      freeWindows: getFreeWindows(dayClasses, dayOfficeHours),
+      officeHours: dayOfficeHours,
+    };
+  });
+}
+
+/**
+ * Where a teacher is at `minutes` past midnight on a day running `routineDay`'s classes
+ * (null on a holiday). Outside their classes and office hours they're taken to be off campus.
+ */
+export function getTeacherStatus(
+  classes: ClassSchedule[],
+  hours: OfficeHoursEntry[],
+  routineDay: string | null,
+  minutes: number,
+  officeRoom: string | null = null
+): TeacherStatus {
+  const offCampus = (reason: TeacherStatus["reason"], until: number | null = null): TeacherStatus => ({
+    state: "off_campus",
+    room: null,
+    courseCode: null,
+    until: until === null ? null : minutesToTime(until),
+    reason,
+  });
+
+  if (!routineDay) return offCampus("holiday");
+
+  const dayClasses = classes.filter((c) => c.day.toUpperCase() === routineDay.toUpperCase());
+  const dayOfficeHours = hours.filter((h) => h.day.toUpperCase() === routineDay.toUpperCase());
+  const busy = classIntervals(dayClasses);
+
+  const current = dayClasses.find((c) => timeToMinutes(c.timeStart) <= minutes && timeToMinutes(c.timeEnd) > minutes);
+  if (current) {
+    // Back-to-back classes keep them busy until the last one ends
+    const block = busy.find((b) => b.start <= minutes && b.end > minutes)!;
+    return {
+      state: "in_class",
+      room: current.room,
+      courseCode: current.courseCode,
+      until: minutesToTime(block.end),
+    };
+  }
+
+  const nextClass = busy.find((b) => b.start > minutes);
+
+  const office = dayOfficeHours.find(
+    (h) => timeToMinutes(h.timeStart) <= minutes && timeToMinutes(h.timeEnd) > minutes
+  );
+  if (office) {
+    const end = Math.min(timeToMinutes(office.timeEnd), nextClass ? nextClass.start : Infinity);
+    return { state: "office_hours", room: office.room || officeRoom, courseCode: null, until: minutesToTime(end) };
+  }
+
+  if (busy.length > 0 && busy[0].start <= minutes && nextClass) {
+    return { state: "free", room: officeRoom, courseCode: null, until: minutesToTime(nextClass.start) };
+  }
+
+  const nextOfficeHours = officeHourIntervals(dayOfficeHours)
+    .filter((o) => o.start > minutes)
+    .sort((a, b) => a.start - b.start)[0];
+  const next = Math.min(nextClass ? nextClass.start : Infinity, nextOfficeHours ? nextOfficeHours.start : Infinity);
+  const until = Number.isFinite(next) ? next : null;
+
+  if (busy.length === 0) return offCampus("no_classes", until);
+  return offCampus(nextClass ? "before_classes" : "after_classes", until);
+}
+
+/**
+ * Reject office hours that end before they start; returns the entries with uppercase days
+ */
+export function normalizeOfficeHours(hours: OfficeHoursEntry[]): OfficeHoursEntry[] {
+  return hours.map((h) => {
+    if (timeToMinutes(h.timeEnd) <= timeToMinutes(h.timeStart)) {
+      throw new Error(`Office hours on ${formatDay(h.day)} end before they start (${h.timeStart}-${h.timeEnd})`);
+    }
+    return { ...h, day: h.day.toUpperCase() };
+  });
+}
+
+export class OfficeHoursService {
+  /**
+   * A teacher's office hours; empty without a database
+   */
+  static async getOfficeHours(facultyId: number): Promise<OfficeHoursEntry[]> {
+    const db = await getDb();
+    if (!db) return [];
+
+    const rows = await db.select().from(officeHours).where(eq(officeHours.facultyId, facultyId));
+    return rows.map((r) => ({ day: r.day, timeStart: r.timeStart, timeEnd: r.timeEnd, room: r.room, note: r.note }));
+  }
+
+  /**
+   * Replace a teacher's office hours
+   */
+  static async setOfficeHours(facultyId: number, hours: OfficeHoursEntry[]): Promise<void> {
+    const entries = normalizeOfficeHours(hours);
+
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    await db.transaction(async (tx) => {
+      await tx.delete(officeHours).where(eq(officeHours.facultyId, facultyId));
+      if (entries.length > 0) {
+        await tx.insert(officeHours).values(entries.map((h) => ({ ...h, facultyId })));
+      }
+    });
+    console.log(`[office-hours] ${entries.length} office hour slot(s) for faculty ${facultyId}`);
+  }
+}
@@ -0,0 +1,207 @@
+import { mergeSessions, type ClassSchedule } from "./routine-query";
+import { formatDay, minutesToTime, timeToMinutes } from "../../shared/routine-time";
+
+export type WorkloadOutlier = "overloaded" | "underloaded";
+
+export interface TeacherWorkload {
+  initials: string;
+  fullName: string | null; // From the faculty directory, null if unresolved
+  weeklyHours: number; // Contact hours; a class taught to merged sections counts once
+  sessions: number; // Distinct class times a week
+  courses: string[];
+  sections: string[]; // batch_sections taught
+  daysOnCampus: number;
+  longestDay: {
+    day: string; // Title case
+    firstClass: string;
+    lastClassEnd: string;
+    spanHours: number; // First class start to last class end
+  } | null;
+  backToBack: number; // Classes starting right after another one ends
+  outlier: WorkloadOutlier | null;
+}
+
+export interface WorkloadSummary {
+  teachers: number;
+  totalHours: number;
+  meanHours: number;
+  medianHours: number;
+  overloadedAbove: number; // Weekly hours above this are flagged (Tukey fence)
+  underloadedBelow: number;
+}
+
+// A gap this short between two classes leaves no real break
+const BACK_TO_BACK_GAP_MINUTES = 10;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Value at quantile `q` (0-1) of sorted values, interpolating between neighbours
+ */
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Distinct class times on a day; sections sharing a class (same time) count once
+ */
+function classTimes(dayClasses: ClassSchedule[]): { start: number; end: number }[] {
+  const seen = new Map<string, { start: number; end: number }>();
+  for (const c of dayClasses) {
+    seen.set(`${c.timeStart}-${c.timeEnd}`, { start: timeToMinutes(c.timeStart), end: timeToMinutes(c.timeEnd) });
+  }
+  return Array.from(seen.values()).sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+/**
+ * Load figures for one teacher's classes (outlier is left to calculateWorkloads)
+ */
+export function getTeacherWorkload(initials: string, classes: ClassSchedule[], fullName: string | null = null): TeacherWorkload {
+  const merged = mergeSessions(classes);
+  const byDay = new Map<string, ClassSchedule[]>();
+  for (const c of merged) {
+    byDay.set(c.day.toUpperCase(), [...(byDay.get(c.day.toUpperCase()) || []), c]);
+  }
+
+  let contactMinutes = 0;
+  let sessionCount = 0;
+  let backToBack = 0;
+  let longestDay: TeacherWorkload["longestDay"] = null;
+  let longestSpan = 0;
+
+  byDay.forEach((dayClasses, day) => {
+    const times = classTimes(dayClasses);
+    sessionCount += times.length;
+
+    // Union of class times, so overlapping entries aren't counted twice
+    let coveredUntil = 0;
+    for (const t of times) {
+      contactMinutes += Math.max(0, t.end - Math.max(t.start, coveredUntil));
+      coveredUntil = Math.max(coveredUntil, t.end);
+    }
+
+    for (let i = 1; i < times.length; i++) {
+      const gap = times[i].start - times[i - 1].end;
+      if (gap >= 0 && gap <= BACK_TO_BACK_GAP_MINUTES) backToBack++;
+    }
+
+    const first = times[0].start;
+    const last = Math.max(...times.map((t) => t.end));
+    if (last - first > longestSpan) {
+      longestSpan = last - first;
+      longestDay = {
+        day: formatDay(day),
+        firstClass: minutesToTime(first),
+        lastClassEnd: minutesToTime(last),
+        spanHours: round1((last - first) / 60),
+      };
+    }
+  });
+
+  return {
+    initials,
+    fullName,
+    weeklyHours: round1(contactMinutes / 60),
+    sessions: sessionCount,
+    courses: Array.from(new Set(merged.map((c) => c.courseCode))).sort(),
+    sections: Array.from(new Set(merged.map((c) => c.batchSection))).sort(),
+    daysOnCampus: byDay.size,
+    longestDay,
+    backToBack,
+    outlier: null,
+  };
+}
+
+/**
+ * Workload of every teacher in a routine, heaviest first, with outliers flagged
+ * by Tukey's fences (1.5 IQR beyond the quartiles) on weekly hours
+ */
+export function calculateWorkloads(
+  classes: ClassSchedule[],
+  names: Record<string, string> = {}
+): { teachers: TeacherWorkload[]; summary: WorkloadSummary } {
+  const byTeacher = new Map<string, ClassSchedule[]>();
+  for (const c of classes) {
+    const initials = c.teacher.trim().toUpperCase();
+    if (!initials || initials === "TBA") continue;
+    byTeacher.set(initials, [...(byTeacher.get(initials) || []), c]);
+  }
+
+  const teachers = Array.from(byTeacher.entries())
+    .map(([initials, teacherClasses]) => getTeacherWorkload(initials, teacherClasses, names[initials] || null))
+    .sort((a, b) => b.weeklyHours - a.weeklyHours || a.initials.localeCompare(b.initials));
+
+  const hours = teachers.map((t) => t.weeklyHours).sort((a, b) => a - b);
+  const q1 = quantile(hours, 0.25);
+  const q3 = quantile(hours, 0.75);
+  const overloadedAbove = round1(q3 + 1.5 * (q3 - q1));
+  const underloadedBelow = round1(Math.max(0, q1 - 1.5 * (q3 - q1)));
+
+  // Too few teachers for quartiles to mean much
+  if (teachers.length >= 4) {
+    for (const t of teachers) {
+      if (t.weeklyHours > overloadedAbove) t.outlier = "overloaded";
+      else if (t.weeklyHours < underloadedBelow) t.outlier = "underloaded";
+    }
+  }
+
+  const totalHours = round1(hours.reduce((total, h) => total + h, 0));
+  return {
+    teachers,
+    summary: {
+      teachers: teachers.length,
+      totalHours,
+      meanHours: teachers.length > 0 ? round1(totalHours / teachers.length) : 0,
+      medianHours: round1(quantile(hours, 0.5)),
+      overloadedAbove,
+      underloadedBelow,
+    },
+  };
+}
+
+const CSV_COLUMNS = [
+  "Initials",
+  "Name",
+  "Weekly hours",
+  "Sessions",
+  "Courses",
+  "Sections",
+  "Days on campus",
+  "Longest day",
+  "Longest day hours",
+  "Back-to-back",
+  "Outlier",
+];
+
+/**
+ * Quote a CSV field when it holds a comma, quote or line break
+ */
+function csvField(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Workloads as CSV (one row per teacher), for spreadsheets
+ */
+export function buildWorkloadCsv(teachers: TeacherWorkload[]): string {
+  const rows = teachers.map((t) => [
+    t.initials,
+    t.fullName,
+    t.weeklyHours,
+    t.sessions,
+    t.courses.join(" "),
+    t.sections.join(" "),
+    t.daysOnCampus,
+    t.longestDay ? `${t.longestDay.day} ${t.longestDay.firstClass}-${t.longestDay.lastClassEnd}` : null,
+    t.longestDay ? t.longestDay.spanHours : null,
+    t.backToBack,
+    t.outlier,
+  ]);
+
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
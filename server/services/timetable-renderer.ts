@@ -0,0 +1,294 @@
+import { createRequire } from "module";
+import PDFDocument from "pdfkit";
+import { Resvg } from "@resvg/resvg-js";
+import type { ClassSchedule } from "./routine-query";
+import { timeToMinutes } from "../../shared/routine-time";
+
+export interface TimetableDocument {
+  title: string; // e.g., "71_I"
+  subtitle: string; // e.g., "CSE · Spring 2026 · Routine v2.0"
+  schedule: Record<string, ClassSchedule[]>; // groupByDay output
+  teacherNames: Record<string, string>; // initials -> full name
+  showSection?: boolean; // Teacher and room timetables list the batch_section
+  generatedAt?: Date;
+}
+
+// A4 landscape, in PDF points
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 28;
+const GRID_TOP = 84;
+const GRID_BOTTOM = PAGE_HEIGHT - 36;
+const DAY_COLUMN_WIDTH = 72;
+const HEADER_ROW_HEIGHT = 22;
+const CELL_PADDING = 5;
+
+const COLORS = {
+  primary: "#0a7ea4",
+  text: "#11181C",
+  muted: "#687076",
+  border: "#D6DCE0",
+  headerFill: "#F1F5F7",
+  cellFill: "#E8F4F8",
+  page: "#FFFFFF",
+};
+
+// Inter's ascender (1984 / 2048 units), to place SVG baselines where PDFKit puts them
+const FONT_ASCENT = 0.97;
+// Average Inter glyph width relative to font size, used to fit text without measuring
+const AVERAGE_CHAR_WIDTH = 0.56;
+
+// The server is bundled as ESM, so resolve font files through createRequire
+const require = createRequire(import.meta.url);
+const FONT_FILES = {
+  regular: require.resolve("@expo-google-fonts/inter/400Regular/Inter_400Regular.ttf"),
+  bold: require.resolve("@expo-google-fonts/inter/700Bold/Inter_700Bold.ttf"),
+};
+
+type Shape =
+  | { kind: "rect"; x: number; y: number; w: number; h: number; fill: string; stroke?: string }
+  | { kind: "text"; x: number; y: number; text: string; size: number; bold?: boolean; color: string };
+
+function fitText(text: string, maxWidth: number, size: number): string {
+  const maxChars = Math.floor(maxWidth / (size * AVERAGE_CHAR_WIDTH));
+  return text.length <= maxChars ? text : `${text.slice(0, Math.max(maxChars - 1, 0)).trimEnd()}…`;
+}
+
+function wrapText(text: string, maxWidth: number, size: number, maxLines: number): string[] {
+  const maxChars = Math.floor(maxWidth / (size * AVERAGE_CHAR_WIDTH));
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of text.split(/\s+/)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars || !current) {
+      current = candidate;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = fitText(`${lines[maxLines - 1]} …`, maxWidth, size);
+  }
+  return lines.map((line) => fitText(line, maxWidth, size));
+}
+
+/**
+ * Lay the week out as a day × time-slot grid
+ */
+function layoutTimetable(doc: TimetableDocument): Shape[] {
+  const shapes: Shape[] = [
+    { kind: "rect", x: 0, y: 0, w: PAGE_WIDTH, h: PAGE_HEIGHT, fill: COLORS.page },
+    { kind: "text", x: MARGIN, y: MARGIN, text: doc.title, size: 20, bold: true, color: COLORS.text },
+    { kind: "text", x: MARGIN, y: MARGIN + 28, text: doc.subtitle, size: 10, color: COLORS.muted },
+  ];
+
+  const generatedAt = (doc.generatedAt || new Date()).toISOString().slice(0, 10);
+  shapes.push({
+    kind: "text",
+    x: MARGIN,
+    y: PAGE_HEIGHT - 24,
+    text: `Generated ${generatedAt} · DIU Routine Scrapper`,
+    size: 8,
+    color: COLORS.muted,
+  });
+
+  // Saturday-Thursday always; Friday only when something is scheduled
+  const days = Object.keys(doc.schedule).filter(
+    (day) => day.toUpperCase() !== "FRIDAY" || doc.schedule[day].length > 0
+  );
+
+  // One column per distinct start time, labelled with its most common end time
+  const classes = Object.values(doc.schedule).flat();
+  const slotEnds = new Map<string, Map<string, number>>();
+  for (const c of classes) {
+    const ends = slotEnds.get(c.timeStart) || new Map<string, number>();
+    ends.set(c.timeEnd, (ends.get(c.timeEnd) || 0) + 1);
+    slotEnds.set(c.timeStart, ends);
+  }
+  const slots = Array.from(slotEnds.keys()).sort((a, b) => timeToMinutes(a) - timeToMinutes(b));
+
+  if (slots.length === 0 || days.length === 0) {
+    shapes.push({ kind: "text", x: MARGIN, y: GRID_TOP, text: "No classes found.", size: 12, color: COLORS.muted });
+    return shapes;
+  }
+
+  const gridWidth = PAGE_WIDTH - MARGIN * 2;
+  const slotWidth = (gridWidth - DAY_COLUMN_WIDTH) / slots.length;
+  const rowHeight = (GRID_BOTTOM - GRID_TOP - HEADER_ROW_HEIGHT) / days.length;
+
+  // Header row
+  shapes.push({
+    kind: "rect",
+    x: MARGIN,
+    y: GRID_TOP,
+    w: gridWidth,
+    h: HEADER_ROW_HEIGHT,
+    fill: COLORS.headerFill,
+    stroke: COLORS.border,
+  });
+  slots.forEach((start, index) => {
+    const end = Array.from(slotEnds.get(start)!.entries()).sort((a, b) => b[1] - a[1])[0][0];
+    shapes.push({
+      kind: "text",
+      x: MARGIN + DAY_COLUMN_WIDTH + index * slotWidth + CELL_PADDING,
+      y: GRID_TOP + 6,
+      text: `${start} - ${end}`,
+      size: 9,
+      bold: true,
+      color: COLORS.text,
+    });
+  });
+
+  days.forEach((day, dayIndex) => {
+    const rowY = GRID_TOP + HEADER_ROW_HEIGHT + dayIndex * rowHeight;
+
+    shapes.push(
+      { kind: "rect", x: MARGIN, y: rowY, w: gridWidth, h: rowHeight, fill: COLORS.page, stroke: COLORS.border },
+      { kind: "text", x: MARGIN + CELL_PADDING, y: rowY + 6, text: day, size: 10, bold: true, color: COLORS.text }
+    );
+
+    slots.forEach((start, slotIndex) => {
+      const cellX = MARGIN + DAY_COLUMN_WIDTH + slotIndex * slotWidth;
+      // Labs and other multi-slot sessions fill every slot they run through
+      const inSlot = doc.schedule[day].filter(
+        (c) => timeToMinutes(c.timeStart) <= timeToMinutes(start) && timeToMinutes(start) < timeToMinutes(c.timeEnd)
+      );
+      const blockHeight = rowHeight / Math.max(inSlot.length, 1);
+      const textWidth = slotWidth - CELL_PADDING * 2 - 4;
+
+      inSlot.forEach((c, i) => {
+        const x = cellX + 2;
+        const y = rowY + i * blockHeight + 2;
+        shapes.push(
+          { kind: "rect", x, y, w: slotWidth - 4, h: blockHeight - 4, fill: COLORS.cellFill },
+          { kind: "rect", x, y, w: 3, h: blockHeight - 4, fill: COLORS.primary }
+        );
+
+        const lines: { text: string; size: number; bold?: boolean; color: string }[] = [
+          {
+            text: doc.showSection ? `${c.courseCode} · ${c.batchSection}` : c.courseCode,
+            size: 9,
+            bold: true,
+            color: COLORS.primary,
+          },
+          ...wrapText(c.courseName, textWidth, 8, inSlot.length > 1 ? 1 : 2).map((text) => ({
+            text,
+            size: 8,
+            color: COLORS.text,
+          })),
+          { text: c.sessionType === "lab" ? `Lab · Room ${c.room}` : `Room ${c.room}`, size: 7.5, color: COLORS.muted },
+          { text: doc.teacherNames[c.teacher.toUpperCase()] || c.teacher, size: 7.5, color: COLORS.muted },
+        ];
+
+        let lineY = y + 4;
+        for (const line of lines) {
+          if (lineY + line.size > y + blockHeight - 4) break;
+          shapes.push({
+            kind: "text",
+            x: x + CELL_PADDING + 2,
+            y: lineY,
+            text: fitText(line.text, textWidth, line.size),
+            size: line.size,
+            bold: line.bold,
+            color: line.color,
+          });
+          lineY += line.size + 3;
+        }
+      });
+    });
+  });
+
+  // Day column divider
+  shapes.push({
+    kind: "rect",
+    x: MARGIN + DAY_COLUMN_WIDTH,
+    y: GRID_TOP,
+    w: 0.5,
+    h: GRID_BOTTOM - GRID_TOP,
+    fill: COLORS.border,
+  });
+
+  return shapes;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/**
+ * Timetable as an SVG document (also the source for the PNG export)
+ */
+export function buildTimetableSvg(doc: TimetableDocument): string {
+  const body = layoutTimetable(doc)
+    .map((shape) =>
+      shape.kind === "rect"
+        ? `<rect x="${shape.x}" y="${shape.y}" width="${shape.w}" height="${shape.h}" fill="${shape.fill}"${
+            shape.stroke ? ` stroke="${shape.stroke}" stroke-width="0.5"` : ""
+          }/>`
+        : `<text x="${shape.x}" y="${(shape.y + shape.size * FONT_ASCENT).toFixed(2)}" font-family="Inter" font-size="${
+            shape.size
+          }" font-weight="${shape.bold ? 700 : 400}" fill="${shape.color}">${escapeXml(shape.text)}</text>`
+    )
+    .join("\n");
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH}" height="${PAGE_HEIGHT}" viewBox="0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}">\n${body}\n</svg>`;
+}
+
+/**
+ * Render the timetable as a PNG (2x for sharp text on phones)
+ */
+export function renderTimetablePng(doc: TimetableDocument, scale: number = 2): Buffer {
+  const resvg = new Resvg(buildTimetableSvg(doc), {
+    fitTo: { mode: "zoom", value: scale },
+    font: {
+      fontFiles: [FONT_FILES.regular, FONT_FILES.bold],
+      loadSystemFonts: false,
+      defaultFontFamily: "Inter",
+    },
+  });
+  return resvg.render().asPng();
+}
+
+/**
+ * Render the timetable as a one-page PDF
+ */
+export function renderTimetablePdf(doc: TimetableDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({
+      size: "A4",
+      layout: "landscape",
+      margin: 0,
+      info: { Title: `${doc.title} timetable`, Subject: doc.subtitle },
+    });
+    pdf.registerFont("regular", FONT_FILES.regular);
+    pdf.registerFont("bold", FONT_FILES.bold);
+
+    const chunks: Buffer[] = [];
+    pdf.on("data", (chunk: Buffer) => chunks.push(chunk));
+    pdf.on("end", () => resolve(Buffer.concat(chunks)));
+    pdf.on("error", reject);
+
+    for (const shape of layoutTimetable(doc)) {
+      if (shape.kind === "rect") {
+        pdf.rect(shape.x, shape.y, shape.w, shape.h);
+        if (shape.stroke) {
+          pdf.lineWidth(0.5).fillAndStroke(shape.fill, shape.stroke);
+        } else {
+          pdf.fill(shape.fill);
+        }
+      } else {
+        pdf
+          .font(shape.bold ? "bold" : "regular")
+          .fontSize(shape.size)
+          .fillColor(shape.color)
+          .text(shape.text, shape.x, shape.y, { lineBreak: false });
+      }
+    }
+
+    pdf.end();
+  });
+}
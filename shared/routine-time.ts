@@ -0,0 +1,68 @@
+import { DAYS } from "../types";
+
+/**
+ * DIU runs on Bangladesh time regardless of where the server is hosted.
+ */
+export const ROUTINE_TIME_ZONE = "Asia/Dhaka";
+
+/**
+ * Convert a routine time to minutes since midnight.
+ * Routine PDFs print 12-hour times without AM/PM, so "01:00" means 1 PM.
+ * Anything before 08:00 is treated as an afternoon time.
+ */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  const adjustedHours = hours < 8 ? hours + 12 : hours;
+  return adjustedHours * 60 + (minutes || 0);
+}
+
+/**
+ * Convert minutes since midnight back to the routine's "hh:mm" format
+ */
+export function minutesToTime(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  const displayHours = hours > 12 ? hours - 12 : hours;
+  return `${String(displayHours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+/**
+ * Convert SATURDAY / saturday -> Saturday
+ */
+export function formatDay(day: string): string {
+  return day.charAt(0).toUpperCase() + day.slice(1).toLowerCase();
+}
+
+/**
+ * Current routine day and minute of day in Dhaka
+ */
+export function getRoutineNow(date: Date = new Date()): { day: string; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: ROUTINE_TIME_ZONE,
+    weekday: "long",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || "";
+  const day = DAYS.find((d) => d === get("weekday")) || DAYS[0];
+
+  return {
+    day,
+    minutes: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
+
+/**
+ * Current calendar date in Dhaka as YYYY-MM-DD
+ */
+export function getRoutineDate(date: Date = new Date()): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: ROUTINE_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  findDateRanges,
+  getCalendarDays,
+  parseCalendarNotice,
+  resolveCalendarDay,
+  type AcademicCalendar,
+} from "../server/services/academic-calendar";
+
+describe("parseCalendarNotice", () => {
+  it("reads single days and ranges off a holiday notice, ignoring the issue date", () => {
+    const text = [
+      "Date: 20 March 2026",
+      "The university will remain closed on 26 March 2026 on the occasion of Independence Day.",
+      "Eid-ul-Fitr vacation will be from 29 March 2026 (Sunday) to 4 April 2026 (Saturday).",
+    ].join("\n");
+
+    const events = parseCalendarNotice({ title: "Notice of Holiday", url: "https://x/notice/1", isHolidayNotice: true }, text);
+
+    expect(events.map((e) => [e.type, e.startDate, e.endDate])).toEqual([
+      ["holiday", "2026-03-26", "2026-03-26"],
+      ["holiday", "2026-03-29", "2026-04-04"],
+    ]);
+    expect(events[0]).toMatchObject({ title: "Notice of Holiday", noticeUrl: "https://x/notice/1" });
+  });
+
+  it("reads day swaps, but holidays only from holiday notices", () => {
+    const text =
+      "Classes will remain off on 10-11 May 2026. Sunday classes will be held on Saturday, 16 May 2026 instead.";
+
+    expect(parseCalendarNotice({ title: "Make-up classes", isHolidayNotice: false }, text)).toEqual([
+      expect.objectContaining({ type: "day_swap", startDate: "2026-05-16", followsDay: "SUNDAY" }),
+    ]);
+  });
+
+  it("reads short ranges", () => {
+    expect(findDateRanges("closed from 10th to 14th April, 2026")).toEqual([{ start: "2026-04-10", end: "2026-04-14" }]);
+  });
+});
+
+describe("resolveCalendarDay", () => {
+  const calendar: AcademicCalendar = {
+    semesters: [
+      { name: "Spring 2026", startDate: "2026-01-10", endDate: "2026-04-30" },
+      { name: "Summer 2026", startDate: "2026-05-10", endDate: "2026-08-31" },
+    ],
+    events: [
+      { type: "holiday", title: "Independence Day", startDate: "2026-03-26", endDate: "2026-03-26", followsDay: null },
+      { type: "day_swap", title: "Sunday classes", startDate: "2026-03-28", endDate: "2026-03-28", followsDay: "SUNDAY" },
+    ],
+  };
+
+  it("marks holidays, swapped days and breaks", () => {
+    expect(resolveCalendarDay(calendar, "2026-03-26")).toMatchObject({
+      weekday: "Thursday",
+      routineDay: null,
+      status: "holiday",
+      title: "Independence Day",
+    });
+    expect(resolveCalendarDay(calendar, "2026-03-28")).toMatchObject({
+      weekday: "Saturday",
+      routineDay: "Sunday",
+      status: "day_swap",
+    });
+    expect(resolveCalendarDay(calendar, "2026-05-02")).toMatchObject({ status: "break", routineDay: null });
+  });
+
+  it("keeps the weekly routine outside the semesters it knows about", () => {
+    expect(resolveCalendarDay(calendar, "2026-01-03")).toMatchObject({ status: "classes", routineDay: "Saturday" });
+    expect(resolveCalendarDay(calendar, "2026-09-05")).toMatchObject({ status: "classes", routineDay: "Saturday" });
+  });
+
+  it("runs every day's own routine without a calendar", () => {
+    const days = getCalendarDays({ semesters: [], events: [] }, "2026-03-27", 3);
+
+    expect(days.map((d) => [d.date, d.routineDay, d.status])).toEqual([
+      ["2026-03-27", "Friday", "classes"],
+      ["2026-03-28", "Saturday", "classes"],
+      ["2026-03-29", "Sunday", "classes"],
+    ]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { CourseService } from "../server/services/course-service";
+import { makeClass } from "./fixtures/classes";
+
+describe("CourseService", () => {
+  it("looks courses up in the seeded catalog", () => {
+    expect(CourseService.getCourseName("CSE", "cse 112")).toBe("Computer Fundamentals");
+    expect(CourseService.getCourseName("cse", "XYZ999")).toBe("XYZ999");
+    // Catalogs are per department
+    expect(CourseService.getCourse("eee", "CSE112")).toBeNull();
+  });
+
+  it("searches a department's courses by code or title", async () => {
+    const courses = await CourseService.listCourses("cse", "data structure");
+
+    expect(courses.map((c) => c.code)).toEqual(["CSE123", "CSE124"]);
+  });
+
+  it("replaces stored course names with catalog titles", async () => {
+    const [known, unknown] = await CourseService.enrichClasses(
+      [makeClass({ courseName: "CSE112" }), makeClass({ courseCode: "XYZ999", courseName: "Mystery Course" })],
+      "cse"
+    );
+
+    expect(known.courseName).toBe("Computer Fundamentals");
+    expect(unknown.courseName).toBe("Mystery Course");
+  });
+
+  it("counts each course's credits once per week", () => {
+    const load = CourseService.getCreditLoad(
+      [
+        makeClass({}),
+        makeClass({ day: "MONDAY" }),
+        makeClass({ courseCode: "CSE114", sessionType: "lab" }),
+        makeClass({ courseCode: "XYZ999" }),
+      ],
+      "cse"
+    );
+
+    expect(load).toEqual({ credits: 3 + 1, courses: 3, unknownCourses: ["XYZ999"] });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { buildCustomRoutine } from "../server/services/custom-routine";
+import type { ClassSchedule } from "../server/services/routine-query";
+import { makeClass } from "./fixtures/classes";
+
+const routine: ClassSchedule[] = [
+  makeClass({}),
+  makeClass({ courseCode: "CSE112", batchSection: "70_B", day: "SUNDAY" }),
+  // Overlaps CSE112 (71_I) on Saturday
+  makeClass({ courseCode: "MAT101", courseName: "Mathematics-I", batchSection: "70_B", timeStart: "09:00" }),
+  // Starts right after CSE112 in another building
+  makeClass({ courseCode: "PHY101", courseName: "Physics", batchSection: "69_A", timeStart: "10:00", timeEnd: "11:30", room: "AB4-601" }),
+  // Same building, no gap: fine
+  makeClass({ courseCode: "ENG101", courseName: "English", batchSection: "69_A", timeStart: "11:30", timeEnd: "01:00", room: "AB4-602" }),
+];
+
+describe("custom routine", () => {
+  it("keeps only the picked course + section pairs", () => {
+    const result = buildCustomRoutine(routine, [{ courseCode: "cse112", batchSection: "70_b" }]);
+
+    expect(result.classes).toHaveLength(1);
+    expect(result.classes[0].day).toBe("SUNDAY");
+    expect(result.clashes).toEqual([]);
+  });
+
+  it("flags clashes, tight building transfers and missing picks", () => {
+    const result = buildCustomRoutine(routine, [
+      { courseCode: "CSE112", batchSection: "71_I" },
+      { courseCode: "MAT101", batchSection: "70_B" },
+      { courseCode: "PHY101", batchSection: "69_A" },
+      { courseCode: "ENG101", batchSection: "69_A" },
+      { courseCode: "CSE999", batchSection: "71_I" },
+    ]);
+
+    expect(result.clashes).toHaveLength(1);
+    expect(result.clashes[0].first.courseCode).toBe("CSE112");
+    expect(result.clashes[0].second.courseCode).toBe("MAT101");
+    expect(result.clashes[0].overlapMinutes).toBe(60);
+
+    expect(result.tightTransfers.map((t) => `${t.from.courseCode}>${t.to.courseCode}`)).toEqual([
+      "CSE112>PHY101",
+      "MAT101>PHY101",
+    ]);
+    expect(result.tightTransfers[0]).toMatchObject({ gapMinutes: 0, fromBuilding: "KT", toBuilding: "AB4" });
+
+    expect(result.missing).toEqual([{ courseCode: "CSE999", batchSection: "71_I" }]);
+  });
+});
@@ -0,0 +1,76 @@
+import * as fs from "fs";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import { detectExamType, examRoutineParser, parseExamDate, parseTimeRange } from "../server/services/exam-routine-parser";
+import { buildExamSchedule } from "../server/services/exam-routine-service";
+
+const text = fs.readFileSync(path.join(__dirname, "fixtures", "exams", "cse-midterm-spring-2026.txt"), "utf8");
+const { examType, exams } = examRoutineParser.parseText(text, "cse");
+
+describe("examRoutineParser", () => {
+  it("reads one exam per section, carrying merged dates and times down", () => {
+    expect(examType).toBe("midterm");
+    expect(exams.map((e) => `${e.date} ${e.timeStart} ${e.courseCode} ${e.batchSection}`)).toEqual([
+      "2026-03-14 09:00 CSE112 71_I",
+      "2026-03-14 09:00 CSE112 71_J",
+      "2026-03-14 09:00 MAT101 70_A",
+      "2026-03-14 11:00 CSE123 70_A",
+      "2026-03-14 11:00 CSE123 70_B",
+      "2026-03-15 09:00 CSE113 71_I",
+      "2026-03-15 02:00 CSE221 70_A",
+      "2026-03-15 02:00 CSE221 71_I",
+      "2026-03-16 09:00 PHY101 71_J",
+    ]);
+    expect(exams[6]).toMatchObject({ day: "SUNDAY", timeEnd: "03:30", courseName: "Object Oriented Programming" });
+  });
+
+  it("splits the seat plan by section and follows it onto the next line", () => {
+    expect(exams[0].rooms).toEqual(["KT-222"]);
+    expect(exams[1].rooms).toEqual(["KT-223"]);
+    expect(exams[4].rooms).toEqual(["AB4-301", "AB4-302", "AB4-303"]);
+  });
+
+  it("reads DIU date and time formats", () => {
+    expect(parseExamDate("14th March, 2026")).toBe("2026-03-14");
+    expect(parseExamDate("02/04/26")).toBe("2026-04-02");
+    expect(parseTimeRange("12:30 PM to 2:00 PM")).toEqual({ start: "12:30", end: "02:00" });
+    expect(detectExamType("CSE Final Exam Routine Spring 2026")).toBe("final");
+  });
+});
+
+describe("buildExamSchedule", () => {
+  // 10:00 in Dhaka on the first exam day
+  const now = new Date("2026-03-14T04:00:00Z");
+
+  it("counts down to a section's exams", () => {
+    const schedule = buildExamSchedule(exams, { batchSection: "71_i" }, now);
+
+    expect(schedule.exams.map((e) => [e.courseCode, e.status, e.minutesUntilStart])).toEqual([
+      ["CSE112", "ongoing", -60],
+      ["CSE113", "upcoming", 23 * 60],
+      ["CSE221", "upcoming", 28 * 60],
+    ]);
+    expect(schedule.nextExam?.courseCode).toBe("CSE112");
+    expect(schedule.clashes).toEqual([]);
+  });
+
+  it("flags clashes and unknown courses in a custom course list", () => {
+    const schedule = buildExamSchedule(
+      exams,
+      {
+        courses: [
+          { courseCode: "CSE112", batchSection: "71_J" },
+          { courseCode: "MAT 101" },
+          { courseCode: "CSE999" },
+        ],
+      },
+      now
+    );
+
+    expect(schedule.exams.map((e) => e.courseCode)).toEqual(["CSE112", "MAT101"]);
+    expect(schedule.clashes).toEqual([
+      expect.objectContaining({ date: "2026-03-14", overlapMinutes: 90 }),
+    ]);
+    expect(schedule.missing).toEqual([{ courseCode: "CSE999" }]);
+  });
+});
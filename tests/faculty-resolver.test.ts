@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { resolveTeacherInitials, scoreInitials, suggestFacultyMatches } from "../server/services/faculty-resolver";
+
+const faculty = [
+  { id: 1, fullName: "Dr. Abu Saleh Tarek" },
+  { id: 2, fullName: "Md. Mahfuz Bhuiyan" },
+  { id: 3, fullName: "Mr. Mizanur Bashar" },
+  { id: 4, fullName: "Ms. Nusrat Jahan" },
+  { id: 5, fullName: "Md. Shahriar Hossain Rafi" },
+];
+
+describe("scoreInitials", () => {
+  it("prefers every name's initial over first and last, and ignores titles", () => {
+    expect(scoreInitials("AST", "Dr. Abu Saleh Tarek").score).toBe(1);
+    expect(scoreInitials("MMB", "Md. Mahfuz Bhuiyan").score).toBe(0.95);
+    expect(scoreInitials("AT", "Dr. Abu Saleh Tarek").score).toBe(0.9);
+    expect(scoreInitials("SHR", "Md. Shahriar Hossain Rafi").score).toBe(1);
+    expect(scoreInitials("XY", "Ms. Nusrat Jahan").score).toBe(0);
+  });
+});
+
+describe("resolveTeacherInitials", () => {
+  it("resolves three-letter initials the first+last guess never matched", () => {
+    const [ast] = resolveTeacherInitials(["AST"], faculty, []);
+
+    expect(ast).toMatchObject({ initials: "AST", facultyId: 1, status: "matched" });
+  });
+
+  it("reports colliding initials as ambiguous until an admin confirms one", () => {
+    expect(suggestFacultyMatches("MB", faculty).map((c) => c.facultyId)).toEqual([2, 3]);
+
+    const [before] = resolveTeacherInitials(["MB"], faculty, []);
+    expect(before).toMatchObject({ facultyId: null, status: "ambiguous" });
+
+    const after = resolveTeacherInitials(["MB", "MZB"], faculty, [{ initials: "mb", facultyId: 3 }]);
+    expect(after.map((r) => [r.initials, r.facultyId, r.status])).toEqual([
+      ["MB", 3, "confirmed"],
+      ["MZB", null, "suggested"],
+    ]);
+    // A confirmed teacher isn't offered for other initials
+    expect(after[1].candidates.map((c) => c.facultyId)).not.toContain(3);
+  });
+
+  it("flags two initials landing on one teacher and initials with no candidate", () => {
+    const resolutions = resolveTeacherInitials(["SHR", "MSHR", "NUJ", "QQ"], faculty, []);
+
+    expect(resolutions.map((r) => [r.initials, r.facultyId, r.status])).toEqual([
+      ["MSHR", null, "shared"],
+      ["NUJ", null, "suggested"],
+      ["QQ", null, "unmatched"],
+      ["SHR", null, "shared"],
+    ]);
+  });
+});
@@ -0,0 +1,184 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createServer, type Server } from "http";
+import { readFileSync } from "fs";
+import path from "path";
+import type { AddressInfo } from "net";
+import { FacultyScraper } from "../server/services/faculty-scraper";
+import {
+  createRateLimitedFetch,
+  diffFacultyFields,
+  getListingHash,
+  needsProfileFetch,
+} from "../server/services/faculty-sync";
+import type { Faculty } from "../types";
+
+const FIXTURES = path.join(__dirname, "fixtures", "faculty");
+
+// Local stand-in for the faculty site
+const PAGES: Record<string, string> = {
+  "/teachers/cse": "cse.html",
+  "/profile/cse/ast": "profile-ast.html",
+};
+
+// A full first page (20 members) whose next page is missing
+const fullPage = `<ul>${Array.from(
+  { length: 20 },
+  (_, i) => `<li><h3><a href="/profile/swe/m${i}">Member Number ${i}</a></h3></li>`
+).join("")}</ul>`;
+
+let server: Server;
+let baseUrl: string;
+let requests: string[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requests.push(req.url || "");
+    if (req.url === "/teachers/swe") {
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(fullPage);
+      return;
+    }
+    const file = PAGES[req.url || ""];
+    if (!file) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/html" });
+    res.end(readFileSync(path.join(FIXTURES, file)));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const member: Faculty = {
+  id: "AT",
+  name: "Dr. Abu Saleh Tarek",
+  initials: "AT",
+  photoUrl: "https://faculty.daffodilvarsity.edu.bd/images/ast.jpg",
+  department: "CSE",
+  designation: "Professor",
+  email: "",
+  phone: "",
+  room: "",
+  profileUrl: "https://faculty.daffodilvarsity.edu.bd/profile/cse/ast",
+};
+
+describe("FacultyScraper.scrapeListing", () => {
+  it("reads names, designations and absolute URLs from a listing page", async () => {
+    const { faculty: listed, complete } = await FacultyScraper.scrapeListing("cse", { baseUrl });
+
+    expect(complete).toBe(true);
+    expect(listed.map((f) => f.name)).toEqual(["Dr. Abu Saleh Tarek", "Md. Mahfuz Bhuiyan", "Ms. Nusrat Jahan"]);
+    expect(listed[0]).toMatchObject({
+      department: "CSE",
+      designation: "Professor",
+      photoUrl: `${baseUrl}/images/ast.jpg`,
+      profileUrl: `${baseUrl}/profile/cse/ast`,
+      email: "",
+    });
+    expect(listed[2].photoUrl).toBe("https://cdn.example.com/nj.jpg");
+  });
+
+  it("flags the listing incomplete when a later page fails", async () => {
+    const { faculty, complete } = await FacultyScraper.scrapeListing("swe", { baseUrl });
+
+    expect(faculty).toHaveLength(20);
+    expect(complete).toBe(false);
+  });
+
+  it("throws when the first page can't be fetched", async () => {
+    await expect(FacultyScraper.scrapeListing("eee", { baseUrl })).rejects.toThrow();
+  });
+});
+
+describe("FacultyScraper.scrapeProfile", () => {
+  it("prefers the cell phone and the first email", async () => {
+    const contact = await FacultyScraper.scrapeProfile(`${baseUrl}/profile/cse/ast`);
+
+    expect(contact).toEqual({ email: "tarek.cse@diu.edu.bd", phone: "+880 1711 000000", room: "KT-504" });
+  });
+
+  it("throws on a missing profile", async () => {
+    await expect(FacultyScraper.scrapeProfile(`${baseUrl}/profile/cse/gone`)).rejects.toThrow();
+  });
+});
+
+describe("createRateLimitedFetch", () => {
+  it("spaces requests out", async () => {
+    requests = [];
+    const fetchPage = createRateLimitedFetch(20);
+    const start = Date.now();
+
+    await Promise.all([1, 2, 3, 4].map(() => fetchPage(`${baseUrl}/teachers/cse`)));
+
+    // Four requests at 20/s: the last starts at least 150ms after the first
+    expect(Date.now() - start).toBeGreaterThanOrEqual(140);
+    expect(requests).toHaveLength(4);
+  });
+
+  it("passes each URL to the wrapped fetcher", async () => {
+    const seen: string[] = [];
+    const fetchPage = createRateLimitedFetch(1000, async (url) => {
+      seen.push(url);
+      return url.toUpperCase();
+    });
+
+    expect(await fetchPage("a")).toBe("A");
+    expect(await fetchPage("b")).toBe("B");
+    expect(seen).toEqual(["a", "b"]);
+  });
+});
+
+describe("getListingHash", () => {
+  it("changes with the listing entry but not with contact details", () => {
+    const hash = getListingHash(member);
+
+    expect(getListingHash({ ...member, email: "a@diu.edu.bd", room: "KT-101" })).toBe(hash);
+    expect(getListingHash({ ...member, designation: "Associate Professor" })).not.toBe(hash);
+  });
+});
+
+describe("needsProfileFetch", () => {
+  const now = new Date("2026-10-19T00:00:00Z");
+  const hash = getListingHash(member);
+  const fresh = { listingHash: hash, profileFetchedAt: new Date("2026-10-10T00:00:00Z") };
+
+  it("fetches new faculty and profiles never fetched", () => {
+    expect(needsProfileFetch(undefined, hash, now)).toBe(true);
+    expect(needsProfileFetch({ listingHash: hash, profileFetchedAt: null }, hash, now)).toBe(true);
+  });
+
+  it("skips unchanged, recently fetched profiles", () => {
+    expect(needsProfileFetch(fresh, hash, now)).toBe(false);
+  });
+
+  it("fetches changed, stale or forced profiles", () => {
+    expect(needsProfileFetch({ ...fresh, listingHash: "old" }, hash, now)).toBe(true);
+    expect(needsProfileFetch({ ...fresh, profileFetchedAt: new Date("2026-09-01T00:00:00Z") }, hash, now)).toBe(true);
+    expect(needsProfileFetch(fresh, hash, now, true)).toBe(true);
+  });
+});
+
+describe("diffFacultyFields", () => {
+  const stored = {
+    fullName: "Dr. Abu Saleh Tarek",
+    designation: "Professor",
+    photoUrl: "p.jpg",
+    profileUrl: "/profile/cse/ast",
+    email: null,
+    phone: "017",
+    room: "KT-504",
+  };
+
+  it("lists changed columns, treating null and empty alike", () => {
+    expect(diffFacultyFields(stored, { email: "", phone: "018", room: "KT-504" })).toEqual(["phone"]);
+  });
+
+  it("ignores columns the update doesn't carry", () => {
+    expect(diffFacultyFields(stored, { designation: "Dean" })).toEqual(["designation"]);
+  });
+});
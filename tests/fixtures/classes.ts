@@ -0,0 +1,22 @@
+import type { ClassSchedule } from "../../server/services/routine-query";
+
+/**
+ * A routine class for tests: CSE112 theory for 71_I, Saturday 08:30-10:00 in KT-222 with MB,
+ * with the fields a test cares about overridden
+ */
+export function makeClass(overrides: Partial<ClassSchedule> = {}): ClassSchedule {
+  return {
+    day: "SATURDAY",
+    timeStart: "08:30",
+    timeEnd: "10:00",
+    courseCode: "CSE112",
+    courseName: "Computer Fundamentals",
+    batch: "71",
+    section: "I",
+    batchSection: "71_I",
+    room: "KT-222",
+    teacher: "MB",
+    sessionType: "theory",
+    ...overrides,
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { buildIcsFeed } from "../server/services/ical-feed";
+import { getRoutineSemester } from "../server/services/semester";
+import { makeClass } from "./fixtures/classes";
+
+const semester = getRoutineSemester("https://daffodilvarsity.edu.bd/noticeFile/cse-class-routine-spring-2026-v2.pdf");
+
+const options = {
+  calendarName: "CSE 71_I",
+  department: "cse",
+  version: "2.0",
+  semester,
+  generatedAt: new Date(Date.UTC(2026, 0, 5, 4, 0, 0)),
+};
+
+describe("getRoutineSemester", () => {
+  it("reads the term from the routine file name", () => {
+    expect(semester.name).toBe("Spring 2026");
+    expect(semester.start.toISOString()).toBe("2026-01-01T00:00:00.000Z");
+    expect(semester.end.toISOString()).toBe("2026-04-30T00:00:00.000Z");
+  });
+});
+
+describe("buildIcsFeed", () => {
+  it("emits weekly events in Dhaka time bounded by the semester", () => {
+    const ics = buildIcsFeed([makeClass({ day: "MONDAY", timeStart: "01:00", timeEnd: "02:30" })], options);
+
+    expect(ics).toContain("BEGIN:VCALENDAR\r\n");
+    // Jan 1 2026 is a Thursday, so the first Monday is Jan 5; "01:00" is 1 PM
+    expect(ics).toContain("DTSTART;TZID=Asia/Dhaka:20260105T130000\r\n");
+    expect(ics).toContain("DTEND;TZID=Asia/Dhaka:20260105T143000\r\n");
+    expect(ics).toContain("RRULE:FREQ=WEEKLY;UNTIL=20260430T175959Z\r\n");
+    expect(ics).toContain("Routine: CSE v2.0 (Spring 2026)");
+    expect(ics).toContain("SEQUENCE:200\r\n");
+  });
+
+  it("keeps UIDs stable when a session moves", () => {
+    const before = buildIcsFeed([makeClass({}), makeClass({ day: "TUESDAY" })], options);
+    const after = buildIcsFeed([makeClass({}), makeClass({ day: "WEDNESDAY", timeStart: "02:30" })], options);
+
+    const uids = (ics: string) => ics.match(/^UID:.*$/gm);
+    expect(uids(before)).toEqual(["UID:cse-cse112-71-i-1@diu-routine", "UID:cse-cse112-71-i-2@diu-routine"]);
+    expect(uids(after)).toEqual(uids(before));
+  });
+
+  it("skips holidays and adds classes on days running their weekday", () => {
+    const calendar = {
+      semesters: [],
+      events: [
+        { type: "holiday" as const, title: "Independence Day", startDate: "2026-03-26", endDate: "2026-03-26", followsDay: null },
+        { type: "day_swap" as const, title: "Sunday classes", startDate: "2026-03-28", endDate: "2026-03-28", followsDay: "SUNDAY" },
+      ],
+    };
+    const ics = buildIcsFeed(
+      [makeClass({ day: "THURSDAY" }), makeClass({ day: "SATURDAY" }), makeClass({ day: "SUNDAY" })],
+      { ...options, calendar }
+    );
+
+    expect(ics).toContain("EXDATE;TZID=Asia/Dhaka:20260326T083000\r\n");
+    expect(ics).toContain("EXDATE;TZID=Asia/Dhaka:20260328T083000\r\n");
+    expect(ics).toContain("UID:cse-cse112-71-i-2-20260328@diu-routine\r\n");
+    expect(ics.match(/^DTSTART.*:20260328T083000$/gm)).toHaveLength(1);
+  });
+
+  it("escapes text and folds long lines", () => {
+    const ics = buildIcsFeed(
+      [makeClass({ courseName: "Data Structures, Algorithms; and a very long course title that keeps going" })],
+      options
+    );
+
+    expect(ics).toContain("Data Structures\\, Algorithms\\; and");
+    expect(ics.split("\r\n").every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+  });
+});
@@ -0,0 +1,308 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createServer, type Server } from "http";
+import { readFileSync } from "fs";
+import path from "path";
+import type { AddressInfo } from "net";
+import {
+  categorizeNotice,
+  extractRoutineVersion,
+  getNoticeDetails,
+  scrapeNoticeboardExamRoutines,
+  scrapeNoticeboardNotices,
+} from "../server/services/noticeboard-scraper";
+import { NoticeboardWatcher } from "../server/services/noticeboard-watcher";
+import { PdfCacheService } from "../server/services/pdf-cache-service";
+import { IngestionLogService } from "../server/services/ingestion-log";
+import { parseRoutineFromURL } from "../server/services/routine-parser";
+import { PushNotificationService } from "../server/services/push-notifications";
+
+// vi.mock calls are hoisted above the imports
+vi.mock("../server/services/pdf-cache-service", () => ({
+  PdfCacheService: {
+    getVersionHistory: vi.fn(),
+    getClassesByCacheId: vi.fn(),
+    storeRoutine: vi.fn(),
+  },
+}));
+
+vi.mock("../server/services/push-notifications", () => ({
+  PushNotificationService: {
+    notifyRoutineChanges: vi.fn(),
+  },
+}));
+
+vi.mock("../server/services/ingestion-log", () => ({
+  IngestionLogService: {
+    record: vi.fn(),
+  },
+}));
+
+vi.mock("../server/services/routine-parser", () => ({
+  parseRoutineFromURL: vi.fn(),
+}));
+
+const FIXTURES = path.join(__dirname, "fixtures", "noticeboard");
+
+// Local stand-in for the DIU noticeboard
+const PAGES: Record<string, string> = {
+  "/noticeboard": "index.html",
+  "/notice/cse-routine-v2": "cse-routine-v2.html",
+  "/notice/ice-routine": "ice-routine.html",
+  "/notice/eee-routine": "eee-routine.html",
+  "/notice/cse-exam": "cse-exam.html",
+  "/notice/holiday": "holiday.html",
+};
+
+let server: Server;
+let baseUrl: string;
+
+const sampleClass = {
+  day: "SATURDAY",
+  timeStart: "08:30",
+  timeEnd: "10:00",
+  courseCode: "CSE112",
+  courseName: "Computer Fundamentals",
+  batch: "71",
+  section: "I",
+  batchSection: "71_I",
+  room: "KT-222",
+  teacher: "MB",
+  sessionType: "theory",
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const file = PAGES[req.url || ""];
+    if (!file) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/html" });
+    res.end(readFileSync(path.join(FIXTURES, file)));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(PdfCacheService.storeRoutine).mockResolvedValue(42);
+  vi.mocked(PdfCacheService.getClassesByCacheId).mockResolvedValue([]);
+  vi.mocked(parseRoutineFromURL).mockResolvedValue({
+    classes: [sampleClass],
+  } as Awaited<ReturnType<typeof parseRoutineFromURL>>);
+});
+
+describe("NoticeboardWatcher.runOnce", () => {
+  it("ingests a new routine version and logs it", async () => {
+    vi.mocked(PdfCacheService.getVersionHistory).mockResolvedValue([
+      {
+        cacheId: 7,
+        department: "cse",
+        pdfUrl: `${baseUrl}/noticeFile/cse-class-routine-spring-2026-v1.pdf`,
+        version: "1.0",
+        parsedAt: new Date(),
+        totalClasses: 1,
+        isCurrent: true,
+      },
+    ]);
+
+    const results = await NoticeboardWatcher.runOnce({
+      noticeboardUrl: `${baseUrl}/noticeboard`,
+      departments: ["cse"],
+    });
+
+    const pdfUrl = `${baseUrl}/noticeFile/cse-class-routine-spring-2026-v2-1a2b3c.pdf`;
+    expect(results).toEqual([
+      {
+        department: "cse",
+        status: "ingested",
+        noticeTitle: "CSE Class Routine Spring 2026 V2",
+        pdfUrl,
+        format: "pdf",
+        version: "2.0",
+        cacheId: 42,
+        totalClasses: 1,
+      },
+    ]);
+    expect(PdfCacheService.storeRoutine).toHaveBeenCalledWith("cse", pdfUrl, "2.0", [sampleClass]);
+    expect(IngestionLogService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ department: "cse", status: "ingested", cacheId: 42 })
+    );
+    expect(PdfCacheService.getClassesByCacheId).toHaveBeenCalledWith(7);
+    expect(PushNotificationService.notifyRoutineChanges).toHaveBeenCalledWith("cse", [], [sampleClass], "2.0");
+  });
+
+  it("leaves the current routine alone when nothing changed", async () => {
+    vi.mocked(PdfCacheService.getVersionHistory).mockResolvedValue([
+      {
+        cacheId: 8,
+        department: "cse",
+        pdfUrl: `${baseUrl}/noticeFile/cse-class-routine-spring-2026-v2-1a2b3c.pdf`,
+        version: "2.0",
+        parsedAt: new Date(),
+        totalClasses: 1,
+        isCurrent: true,
+      },
+    ]);
+
+    const results = await NoticeboardWatcher.runOnce({
+      noticeboardUrl: `${baseUrl}/noticeboard`,
+      departments: ["cse"],
+    });
+
+    expect(results?.[0].status).toBe("unchanged");
+    expect(parseRoutineFromURL).not.toHaveBeenCalled();
+    expect(IngestionLogService.record).not.toHaveBeenCalled();
+  });
+
+  it("compares with the newest routine after its cache expired", async () => {
+    const expired = {
+      department: "cse",
+      parsedAt: new Date(),
+      totalClasses: 1,
+      isCurrent: false,
+    };
+
+    // Same routine, expired: nothing to ingest
+    vi.mocked(PdfCacheService.getVersionHistory).mockResolvedValue([
+      {
+        ...expired,
+        cacheId: 8,
+        pdfUrl: `${baseUrl}/noticeFile/cse-class-routine-spring-2026-v2-1a2b3c.pdf`,
+        version: "2.0",
+      },
+    ]);
+    const watch = { noticeboardUrl: `${baseUrl}/noticeboard`, departments: ["cse"] };
+    const unchanged = await NoticeboardWatcher.runOnce(watch);
+    expect(unchanged?.[0].status).toBe("unchanged");
+    expect(parseRoutineFromURL).not.toHaveBeenCalled();
+
+    // Older routine, expired: ingest and alert on the changes since it
+    vi.mocked(PdfCacheService.getVersionHistory).mockResolvedValue([
+      { ...expired, cacheId: 7, pdfUrl: `${baseUrl}/noticeFile/cse-class-routine-spring-2026-v1.pdf`, version: "1.0" },
+    ]);
+    const ingested = await NoticeboardWatcher.runOnce(watch);
+    expect(ingested?.[0].status).toBe("ingested");
+    expect(PdfCacheService.getClassesByCacheId).toHaveBeenCalledWith(7);
+    expect(PushNotificationService.notifyRoutineChanges).toHaveBeenCalledWith("cse", [], [sampleClass], "2.0");
+  });
+
+  it("does not mistake an ICE notice for CE", async () => {
+    vi.mocked(PdfCacheService.getVersionHistory).mockResolvedValue([]);
+
+    const results = await NoticeboardWatcher.runOnce({
+      noticeboardUrl: `${baseUrl}/noticeboard`,
+      departments: ["ce", "ice"],
+    });
+
+    expect(results?.map((r) => [r.department, r.status])).toEqual([
+      ["ce", "not_found"],
+      ["ice", "ingested"],
+    ]);
+  });
+
+  it("ingests a routine published as a Google Sheet", async () => {
+    vi.mocked(PdfCacheService.getVersionHistory).mockResolvedValue([]);
+
+    const results = await NoticeboardWatcher.runOnce({
+      noticeboardUrl: `${baseUrl}/noticeboard`,
+      departments: ["eee"],
+    });
+
+    const xlsxUrl = "https://docs.google.com/spreadsheets/d/1AbC-eee_routine/export?format=xlsx";
+    expect(results?.[0]).toMatchObject({ status: "ingested", pdfUrl: xlsxUrl, format: "xlsx" });
+    expect(parseRoutineFromURL).toHaveBeenCalledWith(xlsxUrl, "eee", { format: "xlsx" });
+  });
+
+  it("logs a failure when the PDF yields no classes", async () => {
+    vi.mocked(PdfCacheService.getVersionHistory).mockResolvedValue([]);
+    vi.mocked(parseRoutineFromURL).mockResolvedValue({
+      classes: [],
+    } as unknown as Awaited<ReturnType<typeof parseRoutineFromURL>>);
+
+    const results = await NoticeboardWatcher.runOnce({
+      noticeboardUrl: `${baseUrl}/noticeboard`,
+      departments: ["cse"],
+    });
+
+    expect(results?.[0]).toMatchObject({ status: "failed", error: "No classes found in routine PDF" });
+    expect(PdfCacheService.storeRoutine).not.toHaveBeenCalled();
+    expect(IngestionLogService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ department: "cse", status: "failed" })
+    );
+  });
+});
+
+describe("scrapeNoticeboardExamRoutines", () => {
+  it("finds exam routine notices that class routine scraping skips", async () => {
+    const notices = await scrapeNoticeboardExamRoutines(`${baseUrl}/noticeboard`);
+
+    expect(notices).toEqual([
+      {
+        department: "cse",
+        title: "CSE Midterm Exam Routine Spring 2026",
+        noticeUrl: `${baseUrl}/notice/cse-exam`,
+        examType: "midterm",
+      },
+    ]);
+  });
+});
+
+describe("notice feed", () => {
+  it("lists every notice with its department, category and date", async () => {
+    const notices = await scrapeNoticeboardNotices(`${baseUrl}/noticeboard`);
+
+    expect(notices.map((n) => [n.title, n.department, n.category, n.date])).toEqual([
+      ["CSE Class Routine Spring 2026 V2", "cse", "routine", "2026-02-18"],
+      ["ICE Class Routine Spring 2026", "ice", "routine", "2026-02-17"],
+      ["CSE Midterm Exam Routine Spring 2026", "cse", "exam", "2026-02-16"],
+      ["CSE Class Routine Spring 2026 V1", "cse", "routine", "2026-02-10"],
+      ["EEE Class Routine Spring 2026", "eee", "routine", "2026-02-09"],
+      ["Notice of Holiday", null, "holiday", null],
+    ]);
+  });
+
+  it("collects a notice's text and attached files", async () => {
+    const details = await getNoticeDetails(`${baseUrl}/notice/holiday`);
+
+    expect(details.text).toContain("closed on 26 March 2026");
+    expect(details.attachments).toEqual([
+      `${baseUrl}/noticeFile/holiday-notice.pdf`,
+      `${baseUrl}/noticeFile/holiday-notice.jpg`,
+    ]);
+  });
+
+  it("throws when a notice page can't be fetched, so it is retried later", async () => {
+    await expect(getNoticeDetails(`${baseUrl}/notice/gone`)).rejects.toThrow();
+  });
+
+  it("categorizes results and advising apart from exams and routines", () => {
+    expect(categorizeNotice("Final Exam Result Fall 2025")).toBe("result");
+    expect(categorizeNotice("Advising Schedule and Routine for Summer 2026")).toBe("advising");
+    expect(categorizeNotice("Convocation 2026")).toBe("general");
+  });
+});
+
+describe("extractRoutineVersion", () => {
+  it("reads versions from titles and file names", () => {
+    expect(extractRoutineVersion("CSE Class Routine Spring 2026 V2")).toBe("2.0");
+    expect(extractRoutineVersion("https://diu.edu.bd/noticeFile/cse-class-routine-spring-2026-v1-8d732090c2.pdf")).toBe("1.0");
+    expect(extractRoutineVersion("EEE Routine (Version 3.1)")).toBe("3.1");
+  });
+
+  it("ignores a v inside a word", () => {
+    expect(extractRoutineVersion("Class Routine Nov 2025")).toBe("1.0");
+    expect(extractRoutineVersion("Revised Routine Nov 2025 V2")).toBe("2.0");
+  });
+
+  it("doesn't read versions from Google Sheets IDs", () => {
+    expect(
+      extractRoutineVersion("SWE Routine https://docs.google.com/spreadsheets/d/1aBv23-x_v9-Kq/export?format=xlsx")
+    ).toBe("1.0");
+  });
+});
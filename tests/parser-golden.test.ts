@@ -0,0 +1,143 @@
+import * as fs from "fs";
+import * as path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import type { ClassSchedule } from "../server/services/routine-query";
+import { pdfParserV3 } from "../server/services/pdf-parser-v3";
+import { pdfParserOptimized } from "../server/services/pdf-parser-optimized";
+import { layoutPdfParser } from "../server/services/pdf-parser-layout";
+import { tableRoutineParser } from "../server/services/routine-table-parser";
+import {
+  compareClassLists,
+  formatComparisonReport,
+  isExactMatch,
+} from "../server/services/parse-comparison";
+
+/**
+ * Golden-file regression tests: every directory in tests/fixtures/routines holds a routine
+ * (routine.pdf and/or its `pdftotext -layout` output routine.txt, or a routine.xlsx/routine.html
+ * for departments that publish spreadsheets) and the classes it should
+ * produce (expected.json). Run with UPDATE_GOLDEN=1 to rewrite expected.json from the
+ * fixture's production parser (v3 for PDF routines, xlsx or html for spreadsheets) after checking the diff by hand.
+ */
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures", "routines");
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === "1";
+
+interface GoldenFixture {
+  name: string;
+  dir: string;
+  department: string;
+  description: string;
+  classes: ClassSchedule[];
+}
+
+interface ParserUnderTest {
+  name: string;
+  input: "routine.txt" | "routine.pdf" | "routine.xlsx" | "routine.html";
+  // Legacy parsers are reported on but not held to the golden output
+  strict: boolean;
+  parse: (file: Buffer, department: string) => Promise<ClassSchedule[]>;
+}
+
+const PARSERS: ParserUnderTest[] = [
+  {
+    name: "v3",
+    input: "routine.txt",
+    strict: true,
+    parse: async (file, department) => pdfParserV3.parsePDFText(file.toString("utf8"), department).classes,
+  },
+  {
+    name: "layout",
+    input: "routine.pdf",
+    strict: true,
+    parse: async (file, department) => (await layoutPdfParser.parsePDFBuffer(file, department)).classes,
+  },
+  {
+    name: "xlsx",
+    input: "routine.xlsx",
+    strict: true,
+    parse: async (file, department) => (await tableRoutineParser.parseSpreadsheetBuffer(file, department)).classes,
+  },
+  {
+    name: "html",
+    input: "routine.html",
+    strict: true,
+    parse: async (file, department) => tableRoutineParser.parseHtml(file.toString("utf8"), department).classes,
+  },
+  {
+    name: "optimized",
+    input: "routine.txt",
+    strict: false,
+    parse: async (file, department) => pdfParserOptimized.parsePDFText(file.toString("utf8"), department).classes,
+  },
+];
+
+function loadFixtures(): GoldenFixture[] {
+  return fs
+    .readdirSync(FIXTURES_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => {
+      const dir = path.join(FIXTURES_DIR, entry.name);
+      const expected = JSON.parse(fs.readFileSync(path.join(dir, "expected.json"), "utf8"));
+      return { name: entry.name, dir, ...expected };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Only the fields in expected.json, so parser extras (confidence, page) don't leak in
+const toGolden = (c: ClassSchedule): ClassSchedule => ({
+  day: c.day,
+  timeStart: c.timeStart,
+  timeEnd: c.timeEnd,
+  courseCode: c.courseCode,
+  courseName: c.courseName,
+  batch: c.batch,
+  section: c.section,
+  room: c.room,
+  teacher: c.teacher,
+  batchSection: c.batchSection,
+  sessionType: c.sessionType,
+});
+
+// The first strict parser with an input in the fixture, i.e. the one that parses that format in production
+const getGoldenParser = (fixture: GoldenFixture) =>
+  PARSERS.find((parser) => parser.strict && fs.existsSync(path.join(fixture.dir, parser.input)));
+
+const fixtures = loadFixtures();
+const summary: string[] = [];
+
+describe("routine parser golden files", () => {
+  it("has fixtures", () => {
+    expect(fixtures.length).toBeGreaterThan(0);
+  });
+
+  for (const fixture of fixtures) {
+    describe(fixture.name, () => {
+      for (const parser of PARSERS) {
+        const inputPath = path.join(fixture.dir, parser.input);
+
+        it.skipIf(!fs.existsSync(inputPath))(`${parser.name} parser`, async () => {
+          const actual = await parser.parse(fs.readFileSync(inputPath), fixture.department);
+
+          if (UPDATE_GOLDEN && parser === getGoldenParser(fixture)) {
+            const golden = { department: fixture.department, description: fixture.description, classes: actual.map(toGolden) };
+            fs.writeFileSync(path.join(fixture.dir, "expected.json"), `${JSON.stringify(golden, null, 2)}\n`);
+            return;
+          }
+
+          const comparison = compareClassLists(fixture.classes, actual);
+          const report = formatComparisonReport(`${fixture.name} / ${parser.name}`, comparison);
+          summary.push(report.split("\n")[0]);
+
+          if (parser.strict) {
+            expect(isExactMatch(comparison), report).toBe(true);
+          }
+        });
+      }
+    });
+  }
+
+  afterAll(() => {
+    if (summary.length > 0) console.log(`Golden file report\n${summary.join("\n")}`);
+  });
+});
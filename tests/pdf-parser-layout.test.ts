@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import PDFDocument from "pdfkit";
+import { layoutPdfParser, type TextBox } from "../server/services/pdf-parser-layout";
+
+/**
+ * A one-day routine page: slot labels, Room/Course/Teacher headers and two rows
+ */
+function buildRoutinePdf(): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ size: "A4", layout: "landscape", margin: 0 });
+    const chunks: Buffer[] = [];
+    pdf.on("data", (chunk: Buffer) => chunks.push(chunk));
+    pdf.on("end", () => resolve(Buffer.concat(chunks)));
+    pdf.on("error", reject);
+
+    const put = (text: string, x: number, y: number) => pdf.fontSize(8).text(text, x, y, { lineBreak: false });
+    put("Class Routine Spring 2026", 20, 20);
+    put("SATURDAY", 20, 50);
+    put("08:30-10:00", 60, 65);
+    put("10:00-11:30", 260, 65);
+    ["Room", "Course", "Teacher"].forEach((header, i) => {
+      put(header, 20 + i * 60, 80);
+      put(header, 220 + i * 60, 80);
+    });
+    put("KT-222", 20, 95);
+    put("CSE112(71_I)", 80, 95);
+    put("MB", 140, 95);
+    put("KT-301", 220, 95);
+    put("CSE221(70_B)", 280, 95);
+    // One text item holding a whole cell, and a cell with a malformed course
+    put("G1-301 MAT101(71_A) NRC", 20, 110);
+    put("CSE 999(71_A) XX", 220, 110);
+
+    pdf.end();
+  });
+}
+
+const word = (text: string, x: number, y: number): TextBox => ({
+  text,
+  page: 1,
+  x,
+  y,
+  width: text.length * 4,
+  height: 8,
+});
+
+describe("layout PDF parser", () => {
+  it("places cells by position and reports confidence and leftovers", async () => {
+    const result = await layoutPdfParser.parsePDFBuffer(await buildRoutinePdf(), "cse");
+
+    expect(result.classes).toHaveLength(3);
+    expect(result.classes.find((c) => c.courseCode === "CSE112")).toMatchObject({
+      day: "SATURDAY",
+      timeStart: "08:30",
+      room: "KT-222",
+      teacher: "MB",
+      confidence: 1,
+    });
+    expect(result.classes.find((c) => c.courseCode === "MAT101")).toMatchObject({
+      timeStart: "08:30",
+      room: "G1-301",
+      teacher: "NRC",
+    });
+
+    // No teacher in its cell: flagged instead of silently guessed
+    const oop = result.classes.find((c) => c.courseCode === "CSE221")!;
+    expect(oop).toMatchObject({ timeStart: "10:00", teacher: "TBA", confidence: 0.7 });
+    expect(oop.issues).toEqual(["Teacher not found"]);
+
+    expect(result.unparsed.map((f) => f.text)).toEqual(["CSE", "999(71_A)", "XX"]);
+    expect(result.unparsed.every((f) => f.day === "SATURDAY")).toBe(true);
+  });
+
+  it("falls back to time label columns without a header row", () => {
+    const { classes, unparsed } = layoutPdfParser.extractClasses(
+      [
+        word("SUNDAY", 0, 0),
+        // Range split over three text items
+        word("08:30", 100, 12),
+        word("-", 120, 12),
+        word("10:00", 124, 12),
+        word("10:00-11:30", 300, 12),
+        word("KT-222", 280, 24),
+        word("CSE112(71_I)", 310, 24),
+        word("MB", 360, 24),
+        word("CSE113(71_I)", 10, 60), // Below the table but still in the first column
+      ],
+      "cse"
+    );
+
+    expect(classes.map((c) => [c.courseCode, c.timeStart, c.room, c.confidence])).toEqual([
+      ["CSE112", "10:00", "KT-222", 0.8],
+      ["CSE113", "08:30", "TBA", 0.2],
+    ]);
+    expect(classes[0].issues).toEqual(["Columns inferred from time labels"]);
+    expect(unparsed).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  ExpoPushSender,
+  InMemoryPushSender,
+  PushNotificationService,
+  buildChangeAlerts,
+} from "../server/services/push-notifications";
+import type { PushSubscription } from "../drizzle/schema";
+import { makeClass } from "./fixtures/classes";
+
+function makeSubscription(overrides: Partial<PushSubscription>): PushSubscription {
+  return {
+    id: 1,
+    expoPushToken: "ExponentPushToken[device-1]",
+    department: "cse",
+    batchSection: "71_I",
+    teacher: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const before = [
+  makeClass({}),
+  makeClass({ batchSection: "71_J", section: "J", teacher: "AST" }),
+];
+const after = [
+  makeClass({ day: "TUESDAY", timeStart: "01:00", timeEnd: "02:30" }),
+  makeClass({ batchSection: "71_J", section: "J", teacher: "AST" }),
+];
+
+describe("buildChangeAlerts", () => {
+  it("alerts only subscriptions whose classes changed", () => {
+    const messages = buildChangeAlerts(
+      [
+        makeSubscription({}),
+        makeSubscription({ expoPushToken: "ExponentPushToken[device-2]", batchSection: "71_J" }),
+      ],
+      before,
+      after,
+      "2.0"
+    );
+
+    expect(messages).toEqual([
+      {
+        to: "ExponentPushToken[device-1]",
+        title: "Routine v2.0: 1 change for 71_I",
+        body: "CSE112 moved to Tuesday 01:00-02:30",
+        data: { department: "cse", batchSection: "71_I" },
+      },
+    ]);
+  });
+
+  it("narrows to the subscribed teacher", () => {
+    const messages = buildChangeAlerts([makeSubscription({ teacher: "AST" })], before, after, "2.0");
+
+    expect(messages).toHaveLength(0);
+  });
+});
+
+describe("PushNotificationService.notifyRoutineChanges", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    PushNotificationService.setSender(new ExpoPushSender());
+  });
+
+  it("delivers alerts through the configured sender", async () => {
+    const sender = new InMemoryPushSender();
+    PushNotificationService.setSender(sender);
+    vi.spyOn(PushNotificationService, "listSubscriptions").mockResolvedValue([makeSubscription({})]);
+
+    const delivered = await PushNotificationService.notifyRoutineChanges("cse", before, after, "2.0");
+
+    expect(delivered).toBe(1);
+    expect(sender.sent.map((m) => m.to)).toEqual(["ExponentPushToken[device-1]"]);
+  });
+});
+
+describe("ExpoPushSender", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("sends on the app's routine-changes Android channel", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ data: [{ status: "ok" }] })));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const results = await new ExpoPushSender().send([{ to: "ExponentPushToken[device-1]", title: "t", body: "b" }]);
+
+    expect(results).toEqual([{ to: "ExponentPushToken[device-1]", ok: true, error: undefined }]);
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(JSON.parse(init.body as string)).toEqual([
+      { to: "ExponentPushToken[device-1]", title: "t", body: "b", sound: "default", channelId: "routine-changes" },
+    ]);
+  });
+});
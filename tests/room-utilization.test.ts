@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { discoverRooms, parseRoomCode } from "../server/services/room-service";
+import { calculateUtilization } from "../server/services/room-utilization";
+import type { SessionType } from "../server/services/routine-query";
+import { makeClass } from "./fixtures/classes";
+
+const cls = (room: string, day: string, timeStart: string, timeEnd: string, sessionType: SessionType = "theory") =>
+  makeClass({ room, day, timeStart, timeEnd, sessionType });
+
+describe("parseRoomCode", () => {
+  it("reads the building and floor", () => {
+    expect(parseRoomCode("kt-222")).toEqual({ code: "KT-222", building: "KT", floor: 2 });
+    expect(parseRoomCode("G1-301")).toEqual({ code: "G1-301", building: "G1", floor: 3 });
+    expect(parseRoomCode("KT-012")).toMatchObject({ floor: 0 });
+    expect(parseRoomCode("KT-1002")).toMatchObject({ floor: 10 });
+  });
+
+  it("drops the old (LAB) suffix and leaves codes without a number floorless", () => {
+    expect(parseRoomCode("KT-501 (LAB)")).toMatchObject({ code: "KT-501" });
+    expect(parseRoomCode("AUDITORIUM")).toEqual({ code: "AUDITORIUM", building: "AUDITORIUM", floor: null });
+  });
+});
+
+describe("discoverRooms", () => {
+  it("lists each room once, as a lab if any session there is a lab", () => {
+    const rooms = discoverRooms([
+      cls("KT-501", "SUNDAY", "08:30", "10:00"),
+      cls("KT-501", "MONDAY", "08:30", "11:30", "lab"),
+      cls("KT-222", "SUNDAY", "08:30", "10:00"),
+      cls("TBA", "SUNDAY", "08:30", "10:00"),
+    ]);
+
+    expect(rooms).toEqual([
+      { code: "KT-222", building: "KT", floor: 2, type: "theory", capacity: null },
+      { code: "KT-501", building: "KT", floor: 5, type: "lab", capacity: null },
+    ]);
+  });
+});
+
+describe("calculateUtilization", () => {
+  // Slots 08:30-10:00 and 10:00-11:30 on Sunday and Monday: four cells per room
+  const classes = [
+    cls("KT-222", "SUNDAY", "08:30", "10:00"),
+    cls("KT-222", "SUNDAY", "10:00", "11:30"),
+    cls("KT-222", "MONDAY", "08:30", "10:00"),
+    cls("KT-501", "MONDAY", "08:30", "11:30", "lab"),
+    cls("G1-301", "SUNDAY", "10:00", "11:30"),
+  ];
+
+  it("works out the days and slots from the routine", () => {
+    const report = calculateUtilization(classes);
+
+    expect(report.days).toEqual(["Sunday", "Monday"]);
+    expect(report.slots).toEqual([
+      { start: "08:30", end: "10:00" },
+      { start: "10:00", end: "11:30" },
+    ]);
+  });
+
+  it("rates each room, busiest first, with a lab filling every slot it spans", () => {
+    const { rooms } = calculateUtilization(classes);
+
+    expect(rooms.map((r) => [r.code, r.utilization])).toEqual([
+      ["KT-222", 75],
+      ["KT-501", 50],
+      ["G1-301", 25],
+    ]);
+    expect(rooms[1].grid).toEqual([
+      [0, 0],
+      [100, 100],
+    ]);
+    expect(rooms[0].byDay).toEqual([100, 50]);
+  });
+
+  it("rates buildings by the share of their rooms in use", () => {
+    const { buildings, summary } = calculateUtilization(classes);
+    const kt = buildings.find((b) => b.building === "KT")!;
+
+    expect(buildings.map((b) => b.building)).toEqual(["G1", "KT"]);
+    expect(kt).toMatchObject({ rooms: 2, labs: 1, utilization: 63, capacity: 0, seatUtilization: null });
+    expect(kt.grid).toEqual([
+      [50, 50],
+      [100, 50],
+    ]);
+    expect(kt.peak).toEqual({ day: "Monday", slot: "08:30-10:00", utilization: 100 });
+    expect(summary).toMatchObject({ rooms: 3, utilization: 50, totalSeats: 0, roomsWithoutCapacity: 3 });
+  });
+
+  it("weights seat utilization by stored capacity", () => {
+    const { buildings } = calculateUtilization(classes, [
+      { code: "KT-222", building: "KT", floor: 2, type: "theory", capacity: 60 },
+      { code: "KT-501", building: "KT", floor: 5, type: "lab", capacity: 30 },
+    ]);
+    const kt = buildings.find((b) => b.building === "KT")!;
+
+    // (60 seats x 3 slots + 30 x 2) of 90 x 4
+    expect(kt).toMatchObject({ capacity: 90, roomsWithoutCapacity: 0, seatUtilization: 67 });
+  });
+});
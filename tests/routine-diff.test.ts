@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { collapseVersionHistory, findPreviousVersion } from "../server/services/pdf-cache-service";
+import { diffRoutines } from "../server/services/routine-diff";
+import type { ClassSchedule } from "../server/services/routine-query";
+import { makeClass } from "./fixtures/classes";
+
+describe("diffRoutines", () => {
+  it("reports nothing for identical routines", () => {
+    const classes = [makeClass({}), makeClass({ day: "MONDAY" })];
+    const diff = diffRoutines(classes, classes);
+
+    expect(diff.changes).toHaveLength(0);
+  });
+
+  it("classifies moved, room and teacher changes", () => {
+    const before = [
+      makeClass({}),
+      makeClass({ courseCode: "CSE113", timeStart: "10:00", timeEnd: "11:30" }),
+      makeClass({ courseCode: "CSE114", day: "SUNDAY" }),
+    ];
+    const after = [
+      makeClass({ day: "TUESDAY", timeStart: "01:00", timeEnd: "02:30" }),
+      makeClass({ courseCode: "CSE113", timeStart: "10:00", timeEnd: "11:30", room: "AB4-301" }),
+      makeClass({ courseCode: "CSE114", day: "SUNDAY", teacher: "AST" }),
+    ];
+
+    const diff = diffRoutines(before, after);
+
+    expect(diff.summary).toMatchObject({ moved: 1, room_changed: 1, teacher_changed: 1, added: 0, removed: 0 });
+    expect(diff.changes.find((c) => c.type === "moved")?.changedFields).toEqual(["day", "time"]);
+  });
+
+  it("pairs unchanged sessions before reporting additions", () => {
+    const before = [makeClass({})];
+    const after = [makeClass({}), makeClass({ day: "WEDNESDAY" })];
+
+    const diff = diffRoutines(before, after);
+
+    expect(diff.changes).toHaveLength(1);
+    expect(diff.changes[0].type).toBe("added");
+    expect(diff.changes[0].after?.day).toBe("WEDNESDAY");
+  });
+
+  it("filters by batch_section and teacher", () => {
+    const before = [makeClass({}), makeClass({ batchSection: "71_J", section: "J" })];
+    const after: ClassSchedule[] = [];
+
+    expect(diffRoutines(before, after, { batchSection: "71_j" }).changes).toHaveLength(1);
+    expect(diffRoutines(before, after, { teacher: "ast" }).changes).toHaveLength(0);
+  });
+});
+
+describe("routine version history", () => {
+  const v1Url = "https://daffodilvarsity.edu.bd/noticeFile/cse-class-routine-spring-2026-v1.pdf";
+  const v2Url = "https://daffodilvarsity.edu.bd/noticeFile/cse-class-routine-spring-2026-v2.pdf";
+  const now = new Date("2026-04-20T00:00:00Z");
+  const row = (id: number, pdfUrl: string, version: string, parsedAt: string, expiresAt: string) => ({
+    id,
+    department: "cse",
+    pdfUrl,
+    version,
+    parsedAt: new Date(parsedAt),
+    expiresAt: new Date(expiresAt),
+    totalClasses: 10,
+  });
+
+  // v1, then v2, which expired and was parsed again by the next read (newest first, as stored)
+  const caches = [
+    row(3, v2Url, "2.0", "2026-04-19T00:00:00Z", "2026-05-19T00:00:00Z"),
+    row(2, v2Url, "2.0", "2026-03-01T00:00:00Z", "2026-03-31T00:00:00Z"),
+    row(1, v1Url, "1.0", "2026-01-10T00:00:00Z", "2026-02-09T00:00:00Z"),
+  ];
+
+  it("lists each routine file and version once", () => {
+    const versions = collapseVersionHistory(caches, now);
+
+    expect(versions.map((v) => [v.cacheId, v.version, v.isCurrent])).toEqual([
+      [3, "2.0", true],
+      [1, "1.0", false],
+    ]);
+  });
+
+  it("diffs a re-read routine against the previous version, not against itself", () => {
+    const versions = collapseVersionHistory(caches, now);
+    expect(findPreviousVersion(versions, versions[0])?.cacheId).toBe(1);
+
+    // Even when handed the uncollapsed generations
+    const generations = caches.map((c) => ({ ...collapseVersionHistory([c], now)[0], isCurrent: c.id === 3 }));
+    expect(findPreviousVersion(generations, generations[0])?.cacheId).toBe(1);
+  });
+
+  it("has nothing to compare a first routine with", () => {
+    const versions = collapseVersionHistory(caches.slice(0, 2), now);
+
+    expect(findPreviousVersion(versions, versions[0])).toBeUndefined();
+  });
+});
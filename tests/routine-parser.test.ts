@@ -0,0 +1,134 @@
+import { execSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  applyRoutineParserOverrides,
+  assignRoutineParser,
+  compareRoutineParsers,
+  listRoutineParsers,
+  parseRoutine,
+  registerRoutineParser,
+  resolveRoutineParser,
+} from "../server/services/routine-parser";
+import { buildParsedSchedule, type ClassSchedule } from "../server/services/routine-query";
+
+const FIXTURE_DIR = path.join(__dirname, "fixtures", "routines", "cse-spring-2026-v1");
+const routinePdf = fs.readFileSync(path.join(FIXTURE_DIR, "routine.pdf"));
+const expected: ClassSchedule[] = JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, "expected.json"), "utf8")).classes;
+
+// Returns the golden classes with one teacher changed and one class dropped
+registerRoutineParser({
+  id: "test-drifted",
+  description: "Golden output with deliberate mistakes",
+  formats: ["pdf"],
+  parse: async () =>
+    buildParsedSchedule(
+      expected.slice(1).map((c, i) => (i === 0 ? { ...c, teacher: "ZZ", day: c.day.toLowerCase() } : c))
+    ),
+});
+
+describe("routine parser registry", () => {
+  it("registers the built-in parsers", () => {
+    const ids = listRoutineParsers().map((p) => p.id);
+    expect(ids).toEqual(expect.arrayContaining(["v3", "layout", "optimized", "v2", "v1"]));
+  });
+
+  it("uses v3 unless a department has its own parser", () => {
+    expect(resolveRoutineParser("cse").id).toBe("v3");
+
+    assignRoutineParser("ARCH", "pdf", "layout");
+    expect(resolveRoutineParser("arch").id).toBe("layout");
+    expect(resolveRoutineParser("cse").id).toBe("v3");
+  });
+
+  it("rejects unknown parsers", () => {
+    expect(() => assignRoutineParser("eee", "pdf", "nope")).toThrow("Unknown routine parser: nope");
+  });
+
+  it("reads ROUTINE_PARSERS overrides and skips bad entries", () => {
+    applyRoutineParserOverrides(" eee = layout , ice=missing, junk");
+    expect(resolveRoutineParser("eee").id).toBe("layout");
+    expect(resolveRoutineParser("ice").id).toBe("v3");
+  });
+});
+
+describe("parseRoutine", () => {
+  it("normalizes a parser's output", async () => {
+    const result = await parseRoutine(routinePdf, "cse", { parserId: "test-drifted" });
+
+    expect(result.parserId).toBe("test-drifted");
+    expect(result.classes[0].day).toBe(expected[1].day);
+    expect(result.stats.totalClasses).toBe(expected.length - 1);
+  });
+
+  it("parses a routine PDF with the department's assigned parser", async () => {
+    assignRoutineParser("cse", "pdf", "layout");
+    const result = await parseRoutine(routinePdf, "cse");
+    assignRoutineParser("cse", "pdf", "v3");
+
+    expect(result.parserId).toBe("layout");
+    expect(result.classes).toHaveLength(expected.length);
+  });
+});
+
+describe("compareRoutineParsers", () => {
+  it("reports where two parsers disagree", async () => {
+    const result = await compareRoutineParsers(routinePdf, "cse", "layout", "test-drifted");
+
+    expect(result.referenceTotal).toBe(expected.length);
+    expect(result.candidateTotal).toBe(expected.length - 1);
+    expect(result.comparison.missing).toHaveLength(1);
+    expect(result.comparison.extra).toHaveLength(0);
+    expect(result.comparison.mismatched).toEqual([
+      expect.objectContaining({ field: "teacher", expected: expected[1].teacher, actual: "ZZ" }),
+    ]);
+    expect(result.report.split("\n")[0]).toBe(
+      `cse: layout vs test-drifted: ${expected.length - 2} matched, 1 missing, 0 extra, 1 mismatched fields`
+    );
+  });
+
+  describe("with two pdftotext parsers", () => {
+    // Without poppler installed, a stand-in pdftotext prints routine.txt and logs the file it was given
+    const hasPdftotext = (() => {
+      try {
+        execSync("pdftotext -v", { stdio: "ignore" });
+        return true;
+      } catch {
+        return false;
+      }
+    })();
+    const binDir = fs.mkdtempSync(path.join(os.tmpdir(), "fake-pdftotext-"));
+    const callLog = path.join(binDir, "calls.log");
+    const originalPath = process.env.PATH;
+
+    beforeAll(() => {
+      if (hasPdftotext) return;
+      fs.writeFileSync(
+        path.join(binDir, "pdftotext"),
+        `#!/bin/sh\ntest -f "$2" || exit 1\necho "$2" >> "${callLog}"\nsleep 0.2\ntest -f "$2" || exit 1\ncat "${path.join(FIXTURE_DIR, "routine.txt")}"\n`,
+        { mode: 0o755 }
+      );
+      process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+    });
+
+    afterAll(() => {
+      process.env.PATH = originalPath;
+      fs.rmSync(binDir, { recursive: true, force: true });
+    });
+
+    it("gives each run its own temp file, even within the same millisecond", async () => {
+      const now = vi.spyOn(Date, "now").mockReturnValue(1_780_000_000_000);
+      const result = await compareRoutineParsers(routinePdf, "cse", "v3", "optimized").finally(() => now.mockRestore());
+
+      expect(result.referenceTotal).toBe(expected.length);
+      expect(result.candidateTotal).toBeGreaterThan(0);
+      if (!hasPdftotext) {
+        const files = fs.readFileSync(callLog, "utf8").trim().split("\n");
+        expect(files).toHaveLength(2);
+        expect(files[0]).not.toBe(files[1]);
+      }
+    });
+  });
+});
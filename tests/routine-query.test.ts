@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { RoomFinder } from "../server/services/room-finder";
+import {
+  calculateStats,
+  detectSessionType,
+  mergeSessions,
+  normalizeClasses,
+} from "../server/services/routine-query";
+import { makeClass } from "./fixtures/classes";
+
+const lab = { courseCode: "CSE114", courseName: "Programming and Problem Solving Lab", room: "KT-501" };
+
+describe("detectSessionType", () => {
+  it("reads labs from the course name, the room and the COM LAB block", () => {
+    expect(detectSessionType("Programming and Problem Solving Lab", "KT-222")).toBe("lab");
+    expect(detectSessionType("Physics-I", "KT-501", true)).toBe("lab");
+    expect(detectSessionType("Physics-I", "KT-501 (LAB)")).toBe("lab");
+    expect(detectSessionType("Mathematics Tutorial", "KT-222")).toBe("tutorial");
+    expect(detectSessionType("Laboratory Safety", "KT-222")).toBe("theory");
+  });
+});
+
+describe("mergeSessions", () => {
+  it("joins a lab printed in two consecutive slots", () => {
+    const sessions = mergeSessions([
+      makeClass({ ...lab, timeStart: "10:00", timeEnd: "11:30", sessionType: "lab" }),
+      makeClass({}),
+      makeClass({ ...lab, timeStart: "11:30", timeEnd: "01:00", sessionType: "lab" }),
+    ]);
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0]).toMatchObject({ courseCode: "CSE114", timeStart: "10:00", timeEnd: "01:00" });
+  });
+
+  it("keeps entries apart when the room or a break separates them", () => {
+    const classes = [
+      makeClass({ ...lab, timeStart: "10:00", timeEnd: "11:30", sessionType: "lab" }),
+      makeClass({ ...lab, room: "KT-502", timeStart: "11:30", timeEnd: "01:00", sessionType: "lab" }),
+      makeClass({ ...lab, timeStart: "02:30", timeEnd: "04:00", sessionType: "lab" }),
+    ];
+
+    expect(mergeSessions(classes)).toHaveLength(3);
+    expect(classes[0].timeEnd).toBe("11:30");
+  });
+});
+
+describe("normalizeClasses", () => {
+  it("turns stored (LAB) rooms into lab sessions", () => {
+    const [session] = normalizeClasses([
+      makeClass({ day: "Saturday", room: "KT-501 (LAB)", timeStart: "10:00", timeEnd: "11:30" }),
+      makeClass({ day: "Saturday", room: "KT-501 (LAB)", timeStart: "11:30", timeEnd: "01:00" }),
+    ]);
+
+    expect(session).toMatchObject({ day: "SATURDAY", room: "KT-501", sessionType: "lab", timeEnd: "01:00" });
+  });
+});
+
+describe("calculateStats", () => {
+  it("ranks days by scheduled time, not class count", () => {
+    const stats = calculateStats([
+      makeClass({ day: "SUNDAY" }),
+      makeClass({ day: "SUNDAY", timeStart: "10:00", timeEnd: "11:30" }),
+      makeClass({ ...lab, day: "MONDAY", timeStart: "08:30", timeEnd: "11:30", sessionType: "lab" }),
+      makeClass({ ...lab, day: "MONDAY", timeStart: "11:30", timeEnd: "02:30", sessionType: "lab" }),
+      makeClass({ day: "TUESDAY" }),
+    ]);
+
+    expect(stats).toEqual({
+      totalClasses: 5,
+      totalMinutes: 90 + 90 + 180 + 180 + 90,
+      labSessions: 2,
+      busiestDay: "Monday",
+      lightestDay: "Tuesday",
+      busiestDayCount: 2,
+      lightestDayCount: 1,
+    });
+  });
+});
+
+describe("RoomFinder.getTimeSlots", () => {
+  it("does not treat a two-slot lab as a slot", () => {
+    const slots = RoomFinder.getTimeSlots([
+      makeClass({}),
+      makeClass({ timeStart: "10:00", timeEnd: "11:30" }),
+      makeClass({ ...lab, timeStart: "08:30", timeEnd: "11:30", sessionType: "lab" }),
+    ]);
+
+    expect(slots).toEqual([
+      { start: "08:30", end: "10:00" },
+      { start: "10:00", end: "11:30" },
+    ]);
+  });
+});
@@ -0,0 +1,27 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getLatestRoutinePdfUrl } from "../server/services/noticeboard-scraper";
+import { DEFAULT_PDF_URLS, forgetRoutinePdfUrl, isOfficialRoutineUrl } from "../server/services/routine-source";
+
+// vi.mock calls are hoisted above the imports
+vi.mock("../server/services/noticeboard-scraper", () => ({
+  getLatestRoutinePdfUrl: vi.fn(),
+}));
+
+const noticeboardPdf = "https://daffodilvarsity.edu.bd/noticeFile/cse-class-routine-spring-2026-v3.pdf";
+
+beforeEach(() => {
+  forgetRoutinePdfUrl("cse");
+  vi.mocked(getLatestRoutinePdfUrl).mockResolvedValue(noticeboardPdf);
+});
+
+describe("isOfficialRoutineUrl", () => {
+  it("accepts the noticeboard PDF and the known default", async () => {
+    expect(await isOfficialRoutineUrl("cse", noticeboardPdf)).toBe(true);
+    expect(await isOfficialRoutineUrl("CSE", DEFAULT_PDF_URLS.cse)).toBe(true);
+  });
+
+  it("rejects any other URL", async () => {
+    expect(await isOfficialRoutineUrl("cse", "https://example.com/fake-routine-v9.pdf")).toBe(false);
+    expect(await isOfficialRoutineUrl("eee", noticeboardPdf.replace("v3", "v4"))).toBe(false);
+  });
+});
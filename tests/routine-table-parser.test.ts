@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { getAttachmentFormat } from "../server/services/noticeboard-scraper";
+import { detectRoutineFormat } from "../server/services/routine-parser";
+import { htmlTablesToGrids, tableRoutineParser } from "../server/services/routine-table-parser";
+
+describe("tableRoutineParser", () => {
+  it("reads cells that hold room, course and teacher together", () => {
+    const { classes } = tableRoutineParser.parseGrids([
+      [
+        ["TUESDAY", "", ""],
+        ["", "8:30 - 10:00", "10:00-11:30"],
+        ["", "KT-222 CSE112(71_I) MB", "G1-026 MAT 101 (71_J) AST"],
+      ],
+    ]);
+
+    expect(classes).toEqual([
+      expect.objectContaining({ day: "TUESDAY", timeStart: "08:30", courseCode: "CSE112", room: "KT-222", teacher: "MB" }),
+      expect.objectContaining({ timeStart: "10:00", courseCode: "MAT101", batchSection: "71_J", room: "G1-026" }),
+    ]);
+  });
+
+  it("places a slot by its label when the header and label counts differ", () => {
+    const { classes } = tableRoutineParser.parseGrids([
+      [
+        ["SUNDAY"],
+        ["08:30-11:30", "", "", "11:30-01:00", "", ""],
+        ["Room", "Course", "Teacher", "Room", "Course", "Teacher", "Course"],
+        ["", "", "", "KT-301", "CSE221(70_B)", "SR", ""],
+      ],
+    ]);
+
+    expect(classes).toEqual([
+      expect.objectContaining({ timeStart: "11:30", timeEnd: "01:00", room: "KT-301", teacher: "SR" }),
+    ]);
+  });
+
+  it("expands colspan and rowspan in HTML tables", () => {
+    const [grid] = htmlTablesToGrids(`
+      <table>
+        <tr><td rowspan="2">MONDAY</td><td colspan="2">08:30-10:00</td></tr>
+        <tr><td>KT-222</td><td>CSE112(71_I)</td></tr>
+      </table>
+    `);
+
+    expect(grid).toEqual([
+      ["MONDAY", "08:30-10:00", "08:30-10:00"],
+      ["MONDAY", "KT-222", "CSE112(71_I)"],
+    ]);
+  });
+});
+
+describe("routine file formats", () => {
+  it("detects a file's format from its contents", () => {
+    expect(detectRoutineFormat(Buffer.from("%PDF-1.4\n"))).toBe("pdf");
+    expect(detectRoutineFormat(Buffer.from("PK\u0003\u0004"))).toBe("xlsx");
+    expect(detectRoutineFormat(Buffer.from("<!DOCTYPE html><html><table></table></html>"))).toBe("html");
+  });
+
+  it("recognizes routine attachments on a notice page", () => {
+    const notice = "https://daffodilvarsity.edu.bd/notice/123";
+
+    expect(getAttachmentFormat("/noticeFile/cse-routine-v2.PDF", notice)).toEqual({
+      url: "https://daffodilvarsity.edu.bd/noticeFile/cse-routine-v2.PDF",
+      format: "pdf",
+    });
+    expect(getAttachmentFormat("/noticeFile/swe-routine.xlsx", notice)?.format).toBe("xlsx");
+    expect(getAttachmentFormat("https://docs.google.com/spreadsheets/d/abc_123/edit#gid=0", notice)).toEqual({
+      url: "https://docs.google.com/spreadsheets/d/abc_123/export?format=xlsx",
+      format: "xlsx",
+    });
+    expect(getAttachmentFormat("/notice/124", notice)).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { planSections } from "../server/services/section-planner";
+import type { ClassSchedule } from "../server/services/routine-query";
+import { makeClass } from "./fixtures/classes";
+
+const routine: ClassSchedule[] = [
+  // CSE112: early Saturday (71_A) or late Sunday (71_B)
+  makeClass({ batchSection: "71_A" }),
+  makeClass({ batchSection: "71_B", day: "SUNDAY", timeStart: "11:30", timeEnd: "01:00" }),
+  // MAT101: Saturday 08:30 clashes with 71_A; Sunday 10:00 sits right before 71_B
+  makeClass({ courseCode: "MAT101", batchSection: "71_A" }),
+  makeClass({ courseCode: "MAT101", batchSection: "71_C", day: "SUNDAY", timeStart: "10:00", timeEnd: "11:30" }),
+];
+
+describe("section planner", () => {
+  it("ranks conflict-free combinations, fewest campus days first", () => {
+    const result = planSections(routine, ["CSE112", "mat101", "PHY999"]);
+
+    expect(result.unknownCourses).toEqual(["PHY999"]);
+    expect(result.exhaustive).toBe(true);
+    // 71_A + 71_A clash, so three combinations remain
+    expect(result.combinationsChecked).toBe(3);
+    expect(result.plans[0].campusDays).toEqual(["SUNDAY"]);
+    expect(result.plans[0].selections).toEqual(
+      expect.arrayContaining([
+        { courseCode: "CSE112", batchSection: "71_B" },
+        { courseCode: "MAT101", batchSection: "71_C" },
+      ])
+    );
+  });
+
+  it("reports the preferences a plan breaks", () => {
+    const result = planSections(routine, ["CSE112"], { daysOff: ["sunday"], earliestStart: "10:00" }, 2);
+
+    expect(result.plans).toHaveLength(2);
+    expect(result.plans.map((p) => p.violations)).toEqual([
+      ["1 class(es) before 10:00"],
+      ["Classes on SUNDAY"],
+    ]);
+  });
+});
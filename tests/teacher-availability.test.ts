@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import {
+  getFreeWindows,
+  getTeacherStatus,
+  getTeacherWeek,
+  normalizeOfficeHours,
+  type OfficeHoursEntry,
+} from "../server/services/teacher-availability";
+import { timeToMinutes } from "../shared/routine-time";
+import { makeClass } from "./fixtures/classes";
+
+const cls = (day: string, timeStart: string, timeEnd: string, courseCode = "CSE112", room = "KT-222") =>
+  makeClass({ day, timeStart, timeEnd, courseCode, room });
+
+// Sunday: 08:30-11:30 back to back, then 01:00-02:30
+const classes = [
+  cls("SUNDAY", "08:30", "10:00"),
+  cls("SUNDAY", "10:00", "11:30", "CSE221", "KT-301"),
+  cls("SUNDAY", "01:00", "02:30", "CSE311"),
+  cls("TUESDAY", "10:00", "11:30"),
+];
+
+const hours: OfficeHoursEntry[] = [
+  { day: "TUESDAY", timeStart: "02:30", timeEnd: "04:00", room: null, note: "Thesis students first" },
+];
+
+describe("getFreeWindows", () => {
+  it("lists the gaps between classes", () => {
+    const windows = getFreeWindows(classes.filter((c) => c.day === "SUNDAY"));
+
+    expect(windows).toEqual([{ start: "11:30", end: "01:00", minutes: 90, officeHours: false }]);
+  });
+
+  it("ignores gaps too short to meet", () => {
+    expect(getFreeWindows([cls("MONDAY", "08:30", "10:00"), cls("MONDAY", "10:15", "11:30")])).toEqual([]);
+  });
+
+  it("adds office hours but never over a class", () => {
+    const windows = getFreeWindows(
+      [cls("MONDAY", "10:00", "11:30")],
+      [{ day: "MONDAY", timeStart: "09:00", timeEnd: "12:30", room: null, note: null }]
+    );
+
+    expect(windows).toEqual([
+      { start: "09:00", end: "10:00", minutes: 60, officeHours: true },
+      { start: "11:30", end: "12:30", minutes: 60, officeHours: true },
+    ]);
+  });
+});
+
+describe("getTeacherWeek", () => {
+  it("covers every day, Saturday first", () => {
+    const week = getTeacherWeek(classes, hours);
+
+    expect(week.map((d) => d.day)).toEqual([
+      "Saturday",
+      "Sunday",
+      "Monday",
+      "Tuesday",
+      "Wednesday",
+      "Thursday",
+      "Friday",
+    ]);
+    expect(week.filter((d) => d.onCampus).map((d) => d.day)).toEqual(["Sunday", "Tuesday"]);
+    expect(week[1]).toMatchObject({ classes: 3, firstClass: "08:30", lastClassEnd: "02:30" });
+    expect(week[3].freeWindows).toEqual([{ start: "02:30", end: "04:00", minutes: 90, officeHours: true }]);
+  });
+});
+
+describe("getTeacherStatus", () => {
+  const at = (time: string) => timeToMinutes(time);
+
+  it("is in class until the last back-to-back class ends", () => {
+    expect(getTeacherStatus(classes, hours, "Sunday", at("09:00"), "KT-504")).toEqual({
+      state: "in_class",
+      room: "KT-222",
+      courseCode: "CSE112",
+      until: "11:30",
+    });
+  });
+
+  it("is free in the office between classes", () => {
+    expect(getTeacherStatus(classes, hours, "Sunday", at("12:00"), "KT-504")).toMatchObject({
+      state: "free",
+      room: "KT-504",
+      until: "01:00",
+    });
+  });
+
+  it("is in office hours", () => {
+    expect(getTeacherStatus(classes, hours, "Tuesday", at("03:00"), "KT-504")).toMatchObject({
+      state: "office_hours",
+      room: "KT-504",
+      until: "04:00",
+    });
+  });
+
+  it("is off campus before, after and without classes", () => {
+    expect(getTeacherStatus(classes, hours, "Tuesday", at("08:30"))).toMatchObject({
+      state: "off_campus",
+      reason: "before_classes",
+      until: "10:00",
+    });
+    expect(getTeacherStatus(classes, hours, "Sunday", at("03:00"))).toMatchObject({
+      state: "off_campus",
+      reason: "after_classes",
+      until: null,
+    });
+    expect(getTeacherStatus(classes, hours, "Monday", at("10:00"))).toMatchObject({ reason: "no_classes" });
+  });
+
+  it("is off campus on a holiday", () => {
+    expect(getTeacherStatus(classes, hours, null, at("09:00"))).toMatchObject({
+      state: "off_campus",
+      reason: "holiday",
+    });
+  });
+});
+
+describe("normalizeOfficeHours", () => {
+  it("uppercases days and rejects backwards times", () => {
+    expect(normalizeOfficeHours([{ ...hours[0], day: "Tuesday" }])[0].day).toBe("TUESDAY");
+    expect(() => normalizeOfficeHours([{ ...hours[0], timeStart: "04:00", timeEnd: "02:30" }])).toThrow(
+      /end before they start/
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { buildWorkloadCsv, calculateWorkloads, getTeacherWorkload } from "../server/services/teacher-workload";
+import { makeClass } from "./fixtures/classes";
+
+const cls = (
+  teacher: string,
+  day: string,
+  timeStart: string,
+  timeEnd: string,
+  batchSection = "71_I",
+  courseCode = "CSE112"
+) =>
+  makeClass({
+    teacher,
+    day,
+    timeStart,
+    timeEnd,
+    courseCode,
+    batch: batchSection.split("_")[0],
+    section: batchSection.split("_")[1],
+    batchSection,
+  });
+
+describe("getTeacherWorkload", () => {
+  const classes = [
+    cls("MB", "SUNDAY", "08:30", "10:00"),
+    cls("MB", "SUNDAY", "10:00", "11:30", "71_J", "CSE221"),
+    // Two sections taught together: one class, not two
+    cls("MB", "SUNDAY", "01:00", "02:30", "72_A", "CSE311"),
+    cls("MB", "SUNDAY", "01:00", "02:30", "72_B", "CSE311"),
+    cls("MB", "TUESDAY", "10:00", "11:30"),
+  ];
+
+  it("counts shared classes once", () => {
+    const workload = getTeacherWorkload("MB", classes);
+
+    expect(workload.weeklyHours).toBe(6);
+    expect(workload.sessions).toBe(4);
+    expect(workload.courses).toEqual(["CSE112", "CSE221", "CSE311"]);
+    expect(workload.sections).toEqual(["71_I", "71_J", "72_A", "72_B"]);
+    expect(workload.daysOnCampus).toBe(2);
+  });
+
+  it("finds the longest day and back-to-back classes", () => {
+    const workload = getTeacherWorkload("MB", classes);
+
+    expect(workload.longestDay).toEqual({ day: "Sunday", firstClass: "08:30", lastClassEnd: "02:30", spanHours: 6 });
+    expect(workload.backToBack).toBe(1);
+  });
+});
+
+describe("calculateWorkloads", () => {
+  // Six teachers at 3h a week, one at 12h and one at 1.5h
+  const classes = [
+    ...["AB", "CD", "EF", "GH", "IJ", "KL"].flatMap((t) => [
+      cls(t, "SATURDAY", "08:30", "10:00"),
+      cls(t, "MONDAY", "08:30", "10:00"),
+    ]),
+    ...["SATURDAY", "SUNDAY", "MONDAY", "TUESDAY"].flatMap((day) => [
+      cls("XY", day, "08:30", "10:00"),
+      cls("XY", day, "10:00", "11:30"),
+    ]),
+    cls("ZZ", "WEDNESDAY", "08:30", "10:00"),
+    cls("TBA", "WEDNESDAY", "08:30", "10:00"),
+  ];
+
+  it("sorts heaviest first and flags outliers", () => {
+    const { teachers, summary } = calculateWorkloads(classes, { XY: "Dr. X Y" });
+
+    expect(teachers[0]).toMatchObject({ initials: "XY", fullName: "Dr. X Y", weeklyHours: 12, outlier: "overloaded" });
+    expect(teachers.find((t) => t.initials === "ZZ")?.outlier).toBe("underloaded");
+    expect(teachers.filter((t) => t.outlier === null)).toHaveLength(6);
+    expect(summary).toMatchObject({ teachers: 8, totalHours: 31.5, medianHours: 3 });
+  });
+
+  it("skips unassigned classes", () => {
+    expect(calculateWorkloads(classes).teachers.map((t) => t.initials)).not.toContain("TBA");
+  });
+
+  it("doesn't flag anyone in a tiny department", () => {
+    const { teachers } = calculateWorkloads(classes.filter((c) => ["AB", "XY", "ZZ"].includes(c.teacher)));
+
+    expect(teachers.every((t) => t.outlier === null)).toBe(true);
+  });
+});
+
+describe("buildWorkloadCsv", () => {
+  it("writes a header and quotes fields that need it", () => {
+    const { teachers } = calculateWorkloads([cls("MB", "SUNDAY", "08:30", "10:00")], { MB: 'Md. "Mahfuz", Bhuiyan' });
+    const lines = buildWorkloadCsv(teachers).trimEnd().split("\r\n");
+
+    expect(lines[0]).toBe(
+      "Initials,Name,Weekly hours,Sessions,Courses,Sections,Days on campus,Longest day,Longest day hours,Back-to-back,Outlier"
+    );
+    expect(lines[1]).toBe('MB,"Md. ""Mahfuz"", Bhuiyan",1.5,1,CSE112,71_I,1,Sunday 08:30-10:00,1.5,0,');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildTimetableSvg,
+  renderTimetablePdf,
+  renderTimetablePng,
+  type TimetableDocument,
+} from "../server/services/timetable-renderer";
+
+const doc: TimetableDocument = {
+  title: "71_I",
+  subtitle: "CSE · Spring 2026 · Routine v2.0",
+  schedule: {
+    Saturday: [
+      {
+        day: "SATURDAY",
+        timeStart: "08:30",
+        timeEnd: "10:00",
+        courseCode: "CSE112",
+        courseName: "Computer Fundamentals",
+        batch: "71",
+        section: "I",
+        batchSection: "71_I",
+        room: "KT-222",
+        teacher: "MB",
+        sessionType: "theory",
+      },
+    ],
+    Sunday: [],
+    Monday: [],
+    Tuesday: [],
+    Wednesday: [],
+    Thursday: [],
+    Friday: [],
+  },
+  teacherNames: { MB: "Mr. Mushfiqur Bari" },
+  generatedAt: new Date(Date.UTC(2026, 0, 5)),
+};
+
+describe("timetable renderer", () => {
+  it("lays out course, room, full teacher name and version", () => {
+    const svg = buildTimetableSvg(doc);
+
+    for (const text of ["CSE112", "Computer Fundamentals", "Room KT-222", "Mr. Mushfiqur Bari", "Routine v2.0"]) {
+      expect(svg).toContain(text);
+    }
+    // Friday has no classes, so it gets no row
+    expect(svg).not.toContain(">Friday<");
+  });
+
+  it("renders a PDF and a PNG", async () => {
+    const pdf = await renderTimetablePdf(doc);
+    const png = renderTimetablePng(doc, 1);
+
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(png.subarray(1, 4).toString()).toBe("PNG");
+  });
+});